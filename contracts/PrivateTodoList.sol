@@ -1,101 +1,1246 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {
+    FHE,
+    ebool,
+    euint8,
+    euint32,
+    euint64,
+    euint256,
+    externalEbool,
+    externalEuint32,
+    externalEuint64,
+    externalEuint256
+} from "@fhevm/solidity/lib/FHE.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
 
+// One mapping per kind of state (todos, revisions, sharing, assignments, due dates, tags, subtasks, order) keeps
+// each feature's storage separate
+// solhint-disable max-states-count
 /// @title PrivateTodoList - Encrypted To-do List
+/// @author keykeeper-daily-log
 /// @notice Allows users to create and manage encrypted to-do items privately
 /// @dev Uses FHE to store encrypted to-do items on-chain
-/// @dev Uses euint32 for todo ID (hash of text) and euint32 for completion status (0=incomplete, 1=complete)
+/// @dev Uses euint32 for todo ID (hash of text) and ebool for completion status
+/// @dev The todo text itself is stored as UTF-8 bytes split into encrypted 32-byte euint256 chunks
+/// @dev Category, priority and flags are packed into a single encrypted euint32 metadata word
+///      (the category names are defined client-side)
+/// @dev Every edit appends a revision, so the full (encrypted) history of a todo stays on-chain
+/// @dev Todos are bucketed by the UTC calendar day they were created on; recurring todos reappear every
+///      day with a fresh, per-day encrypted completion status
+/// @dev Per-user completion statistics (total completed, daily streak) are updated homomorphically on every toggle
+/// @dev A user can share their list with collaborators, who are granted access to every current handle of the list
+///      and to every handle created afterwards (the completion statistics stay private)
+/// @dev A single todo can be assigned to another account, which can then decrypt it and mark it done
+/// @dev computeFocusTodo selects the highest-priority incomplete todo homomorphically, one page of todos per call,
+///      so the priorities and the selected todo stay encrypted
+/// @dev Due dates are encrypted timestamps; checkOverdue compares them with the block time homomorphically
+/// @dev Tags are an encrypted 32-bit mask per todo (the tag names are kept client-side)
+/// @dev A todo can have subtasks (one level deep); its encrypted completion status is then the AND of theirs
+/// @dev Each user can store a manual order of their todos, independent of the modification timestamps
 contract PrivateTodoList is SepoliaConfig {
-    // Struct to store encrypted todo item
+    /// @notice Maximum number of 32-byte chunks per todo text (8 * 256 bits fits in a single input proof)
+    uint256 public constant MAX_TEXT_CHUNKS = 8;
+
+    /// @notice Maximum number of todos per batch call (32 ids and 32 metadata words fill a 2048-bit input proof)
+    uint256 public constant MAX_BATCH_SIZE = 32;
+
+    /// @notice Maximum number of todos per getTodos page (keeps the view within RPC gas limits)
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    /// @notice Length of a log day in seconds (days roll over at 00:00 UTC)
+    uint256 public constant DAY_LENGTH = 1 days;
+
+    /// @notice Position of the priority bits in the encrypted metadata word (category in bits 0-7, priority in
+    ///         bits 8-15, flags in bits 16-31)
+    uint8 public constant META_PRIORITY_SHIFT = 8;
+
+    /// @notice Position of the flag bits in the encrypted metadata word
+    uint8 public constant META_FLAGS_SHIFT = 16;
+
+    // Metadata word with the priority bits cleared (keeps category and flags when the priority changes)
+    uint32 private constant META_PRIORITY_CLEAR_MASK = 0xFFFF00FF;
+
+    /// @notice Maximum number of collaborators per list (every new handle is granted to each of them)
+    uint256 public constant MAX_COLLABORATORS = 16;
+
+    /// @notice Maximum number of subtasks per todo (every subtask change recomputes the parent over all of them)
+    uint256 public constant MAX_SUBTASKS = 16;
+
+    /// @notice Maximum number of todos in a user's manual order (indices are packed eight per storage slot)
+    uint256 public constant MAX_ORDERED_TODOS = 256;
+
+    /// @notice Maximum number of todos per computeFocusTodo page (each todo deepens a serial comparison chain;
+    ///         28 exceed the per-transaction HCU depth)
+    uint256 public constant MAX_FOCUS_PAGE_SIZE = 16;
+
+    // Lifecycle status of a todo item (plaintext, so removals stay auditable)
+    enum TodoStatus {
+        Active,
+        Archived,
+        Deleted
+    }
+
+    // Struct to store encrypted todo item (the plaintext fields share a single storage slot)
     struct EncryptedTodo {
         euint32 id;           // Encrypted todo ID (hash of text content)
-        euint32 completed;    // Encrypted completion status (0 = not completed, 1 = completed)
-        uint256 timestamp;   // Plaintext timestamp for sorting
+        ebool completed;      // Encrypted completion status
+        euint32 meta;         // Encrypted packed category, priority and flags (see META_*_SHIFT)
+        uint64 timestamp;     // Plaintext timestamp of the last modification, for sorting
+        uint64 createdAt;     // Plaintext creation timestamp (never changes)
+        bool recurring;       // Recurring daily item (completion is tracked per day)
+        TodoStatus status;    // Active, archived or deleted (tombstone)
+    }
+
+    // Struct to store one revision of a todo's encrypted content
+    struct TodoRevision {
+        euint32 id;           // Encrypted todo ID (hash of text content) of this revision
+        euint256[] text;      // Encrypted text chunks of this revision
+        uint256 timestamp;    // Plaintext timestamp of the revision
+    }
+
+    // One todo of a createTodos batch
+    struct NewTodo {
+        externalEuint32 id;       // Encrypted todo ID (hash of text content), covered by the batch input proof
+        externalEuint32 meta;     // Encrypted packed metadata, covered by the batch input proof
+        externalEuint256[] text;  // Encrypted UTF-8 text chunks
+        uint256 textProofIndex;   // Index of the input proof (in textProofs) covering the text chunks
+        bool recurring;           // Recurring daily item
+    }
+
+    // One todo of a getTodos page (handles of the current revision and plaintext schedule)
+    struct TodoView {
+        uint256 index;            // Index of the todo item
+        euint32 id;               // Encrypted todo ID (hash of text content)
+        ebool completed;          // Encrypted completion status (today's for recurring todos, zero handle if unset)
+        euint32 meta;             // Encrypted packed category, priority and flags
+        euint256[] text;          // Encrypted text chunks of the current revision
+        uint64 timestamp;         // Plaintext timestamp of the last modification
+        uint64 createdAt;         // Plaintext creation timestamp
+        bool recurring;           // Recurring daily item
+        TodoStatus status;        // Active, archived or deleted
+        address assignee;         // Account the todo is assigned to (0 = not assigned)
+        euint64 dueDate;          // Encrypted due timestamp (zero handle or encrypted 0 = no due date)
+        ebool overdue;            // Encrypted overdue flag of the last checkOverdue (zero handle if never checked)
+        euint32 tags;             // Encrypted tag bitmask (zero handle if never tagged)
+        uint256 parent;           // Index of the parent todo plus one (0 = top-level todo)
+    }
+
+    // A todo of another user assigned to an account
+    struct AssignedTodo {
+        address owner;            // Owner of the todo
+        uint256 todoIndex;        // Index of the todo in the owner's list
+    }
+
+    // Encrypted result of a user's last computeFocusTodo call
+    struct FocusTodo {
+        euint32 todoIndex;         // Index of the highest-priority incomplete todo (0 when found is false)
+        ebool found;               // Whether the user had an incomplete active todo
+        uint256 computedAt;        // Plaintext timestamp of the computation (0 if never computed)
+        euint32 bestScore;         // Score of todoIndex, carried over to the next page (contract only)
+        uint256 nextIndex;         // Index of the first todo not scanned yet
+    }
+
+    // Encrypted completion statistics of a user
+    struct CompletionStats {
+        euint32 totalCompleted;    // Number of todos (and recurring todo days) currently marked completed
+        euint32 streak;            // Number of consecutive days with at least one completion
+        ebool completedOnLastDay;  // Whether anything was completed on lastDay
+        uint256 lastDay;           // Plaintext day number of the last toggle
     }
 
     // Mapping from user address to their encrypted todos
-    mapping(address => EncryptedTodo[]) private _userTodos;
+    mapping(address user => EncryptedTodo[] todos) private _userTodos;
     
     // Mapping to track todo count per user
-    mapping(address => uint256) private _todoCount;
+    mapping(address user => uint256 count) private _todoCount;
+
+    // Mapping from user address to todo index to its revisions (last one is current)
+    mapping(address user => mapping(uint256 todoIndex => TodoRevision[] revisions)) private _todoRevisions;
+
+    // Mapping from user address to todo index to day number to the completion status of a recurring todo
+    mapping(address user => mapping(uint256 todoIndex => mapping(uint256 day => ebool completed)))
+        private _dailyCompletion;
+
+    // Mapping from user address to their encrypted completion statistics
+    mapping(address user => CompletionStats stats) private _completionStats;
+
+    // Mapping from list owner to the collaborators their list is shared with
+    mapping(address owner => address[] collaborators) private _collaborators;
+
+    // Mapping from collaborator to the owners whose lists are shared with them
+    mapping(address collaborator => address[] owners) private _sharedLists;
+
+    // Mapping from collaborator to owner to the position of the owner in _sharedLists plus one (0 = not shared)
+    mapping(address collaborator => mapping(address owner => uint256 position)) private _sharedListPositions;
+
+    // Mapping from owner address to todo index to the account the todo is assigned to (0 = not assigned)
+    mapping(address owner => mapping(uint256 todoIndex => address assignee)) private _assignees;
+
+    // Mapping from assignee to the todos assigned to them
+    mapping(address assignee => AssignedTodo[] todos) private _assignedTodos;
+
+    // Mapping from assignee to owner to todo index to the position in _assignedTodos plus one (0 = not assigned)
+    mapping(address assignee => mapping(address owner => mapping(uint256 todoIndex => uint256 position)))
+        private _assignedTodoPositions;
+
+    // Mapping from user address to the result of their last computeFocusTodo call
+    mapping(address user => FocusTodo focus) private _focusTodos;
+
+    // Mapping from user address to todo index to encrypted due timestamp
+    mapping(address user => mapping(uint256 todoIndex => euint64 dueDate)) private _dueDates;
+
+    // Mapping from user address to todo index to the encrypted overdue flag of the last checkOverdue call
+    mapping(address user => mapping(uint256 todoIndex => ebool overdue)) private _overdue;
+
+    // Mapping from user address to todo index to encrypted tag bitmask
+    mapping(address user => mapping(uint256 todoIndex => euint32 tags)) private _tags;
+
+    // Mapping from user address to todo index to the encrypted result of the user's last matchTags call
+    mapping(address user => mapping(uint256 todoIndex => ebool matched)) private _tagMatches;
+
+    // Mapping from user address to todo index to the index of its parent todo plus one (0 = top-level todo)
+    mapping(address user => mapping(uint256 todoIndex => uint256 parent)) private _parents;
+
+    // Mapping from user address to todo index to the indices of its subtasks
+    mapping(address user => mapping(uint256 todoIndex => uint256[] children)) private _children;
+
+    // Mapping from user address to their manual todo order (todo indices, top first)
+    mapping(address user => uint32[] order) private _todoOrder;
+
+    /// @notice Emitted when a todo is created or imported
+    /// @param user The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param timestamp The block timestamp
+    event TodoCreated(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp);
+
+    /// @notice Emitted when the completion status of a todo changes
+    /// @param user The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param timestamp The block timestamp
+    event TodoToggled(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp);
+
+    // The revision is read from the log, never filtered on (and an event has at most three indexed parameters)
+    // solhint-disable gas-indexed-events
+    /// @notice Emitted when the text of a todo is edited
+    /// @param user The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param revision The number of the new revision
+    /// @param timestamp The block timestamp
+    event TodoUpdated(address indexed user, uint256 indexed todoIndex, uint256 revision, uint256 indexed timestamp);
+    // solhint-enable gas-indexed-events
+
+    /// @notice Emitted when a todo is archived
+    /// @param user The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param timestamp The block timestamp
+    event TodoArchived(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp);
+
+    /// @notice Emitted when a todo is deleted
+    /// @param user The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param timestamp The block timestamp
+    event TodoDeleted(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp);
+
+    /// @notice Emitted when the priority of a todo changes
+    /// @param user The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param timestamp The block timestamp
+    event TodoPriorityChanged(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp);
 
-    event TodoCreated(address indexed user, uint256 indexed todoIndex, uint256 timestamp);
-    event TodoToggled(address indexed user, uint256 indexed todoIndex, uint256 timestamp);
+    /// @notice Emitted when a user computes their focus todo
+    /// @param user The user
+    /// @param timestamp The block timestamp
+    event FocusTodoComputed(address indexed user, uint256 indexed timestamp);
 
-    /// @notice Create a new encrypted todo item
+    /// @notice Emitted when the due date of a todo changes
+    /// @param user The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param timestamp The block timestamp
+    event TodoDueDateChanged(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp);
+
+    /// @notice Emitted when the overdue flag of a todo is recomputed
+    /// @param user The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param timestamp The block timestamp
+    event OverdueChecked(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp);
+
+    /// @notice Emitted when the tags of a todo change
+    /// @param user The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param timestamp The block timestamp
+    event TodoTagsChanged(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp);
+
+    /// @notice Emitted when a user matches their todos against a tag filter
+    /// @param user The user
+    /// @param timestamp The block timestamp
+    event TagsMatched(address indexed user, uint256 indexed timestamp);
+
+    /// @notice Emitted when a todo becomes a subtask or a top-level todo again
+    /// @param user The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param timestamp The block timestamp
+    event TodoParentChanged(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp);
+
+    /// @notice Emitted when a user replaces their manual todo order
+    /// @param user The user
+    /// @param timestamp The block timestamp
+    event TodosReordered(address indexed user, uint256 indexed timestamp);
+
+    /// @notice Emitted when an owner shares their list with a collaborator
+    /// @param owner The list owner
+    /// @param collaborator The account the list is shared with
+    /// @param timestamp The block timestamp
+    event ListShared(address indexed owner, address indexed collaborator, uint256 indexed timestamp);
+
+    /// @notice Emitted when an owner stops sharing their list with a collaborator
+    /// @param owner The list owner
+    /// @param collaborator The account the list is no longer shared with
+    /// @param timestamp The block timestamp
+    event ListUnshared(address indexed owner, address indexed collaborator, uint256 indexed timestamp);
+
+    /// @notice Emitted when a todo is assigned, reassigned or unassigned
+    /// @param user The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param assignee The new assignee, or address(0) when the assignment is removed
+    /// @param timestamp The block timestamp
+    event TodoAssigned(address indexed user, uint256 indexed todoIndex, address indexed assignee, uint256 timestamp);
+
+    /// @notice Emitted when an assignee marks a todo assigned to them as completed
+    /// @param user The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param assignee The assignee
+    /// @param timestamp The block timestamp
+    event TodoCompletedByAssignee(
+        address indexed user,
+        uint256 indexed todoIndex,
+        address indexed assignee,
+        uint256 timestamp
+    );
+
+    /// @notice Thrown when a batch call has no todos
+    error NoTodos();
+
+    /// @notice Thrown when a call has more todos than its limit (MAX_BATCH_SIZE, MAX_ORDERED_TODOS for reorder or
+    ///         MAX_FOCUS_PAGE_SIZE for computeFocusTodo)
+    error TooManyTodos();
+
+    /// @notice Thrown when a computeFocusTodo page does not start at 0 or where the previous page ended
+    error FocusPageOutOfOrder();
+
+    /// @notice Thrown when a NewTodo references a text proof that was not passed
+    error TextProofIndexOutOfBounds();
+
+    /// @notice Thrown when an imported todo was created after the current block
+    error CreationTimeInFuture();
+
+    /// @notice Thrown when a todo index is past the end of the user's todos
+    error TodoIndexOutOfBounds();
+
+    /// @notice Thrown when changing a todo that is archived or deleted
+    error TodoNotActive();
+
+    /// @notice Thrown when deleting a todo twice
+    error TodoAlreadyDeleted();
+
+    /// @notice Thrown when setting the completion status of a todo that has active subtasks (it is derived from them)
+    error TodoHasSubtasks();
+
+    /// @notice Thrown when the arrays of a batch call differ in length
+    error ArrayLengthMismatch();
+
+    /// @notice Thrown when a todo cannot become a subtask of the given parent
+    error InvalidParent();
+
+    /// @notice Thrown when a subtask and its parent are not both recurring or both not recurring
+    error RecurrenceMismatch();
+
+    /// @notice Thrown when a todo already has MAX_SUBTASKS subtasks
+    error TooManySubtasks();
+
+    /// @notice Thrown when clearing the parent of a top-level todo
+    error TodoHasNoParent();
+
+    /// @notice Thrown when a todo index appears twice in a manual order
+    error DuplicateTodoIndex();
+
+    /// @notice Thrown when sharing a list with address(0) or its own owner
+    error InvalidCollaborator();
+
+    /// @notice Thrown when sharing a list with a collaborator twice
+    error AlreadyShared();
+
+    /// @notice Thrown when a list is already shared with MAX_COLLABORATORS accounts
+    error TooManyCollaborators();
+
+    /// @notice Thrown when unsharing a list that is not shared with the collaborator
+    error NotShared();
+
+    /// @notice Thrown when assigning a todo to its owner
+    error InvalidAssignee();
+
+    /// @notice Thrown when assigning a todo to its current assignee
+    error AlreadyAssigned();
+
+    /// @notice Thrown when completing a todo that is not assigned to the caller
+    error NotTheAssignee();
+
+    /// @notice Thrown when a getTodos page is larger than MAX_PAGE_SIZE
+    error PageTooLarge();
+
+    /// @notice Thrown when a revision number is past the last revision of a todo
+    error RevisionOutOfBounds();
+
+    /// @notice Thrown when a todo text has no chunks
+    error TodoTextEmpty();
+
+    /// @notice Thrown when a todo text has more than MAX_TEXT_CHUNKS chunks
+    error TodoTextTooLong();
+
+    /// @notice Create a new encrypted todo item (not completed)
     /// @param encryptedId The encrypted todo ID (hash of text content)
-    /// @param encryptedCompleted The encrypted completion status (0 = not completed, 1 = completed)
-    /// @param idProof The FHE input proof for encryptedId
-    /// @param completedProof The FHE input proof for encryptedCompleted
+    /// @param encryptedMeta The encrypted packed category, priority and flags
+    /// @param encryptedTags The encrypted tag bitmask (bit i = the caller's tag i, 0 = no tags)
+    /// @param encryptedText The encrypted UTF-8 todo text, split into 32-byte chunks
+    /// @param inputProof The FHE input proof shared by encryptedId, encryptedMeta and encryptedTags
+    /// @param textProof The FHE input proof shared by all encryptedText chunks
+    /// @param recurring Whether the todo is a recurring daily item
     function createTodo(
         externalEuint32 encryptedId,
-        externalEuint32 encryptedCompleted,
+        externalEuint32 encryptedMeta,
+        externalEuint32 encryptedTags,
+        externalEuint256[] calldata encryptedText,
+        bytes calldata inputProof,
+        bytes calldata textProof,
+        bool recurring
+    ) external {
+        euint32 id = FHE.fromExternal(encryptedId, inputProof);
+        uint256 todoIndex = _pushTodo(
+            id,
+            FHE.asEbool(false),
+            FHE.fromExternal(encryptedMeta, inputProof),
+            recurring,
+            block.timestamp
+        );
+
+        _addRevision(todoIndex, id, encryptedText, textProof);
+
+        euint32 tags = FHE.fromExternal(encryptedTags, inputProof);
+        _tags[msg.sender][todoIndex] = tags;
+        _allowTodo(msg.sender, todoIndex, tags);
+
+        emit TodoCreated(msg.sender, todoIndex, block.timestamp);
+    }
+
+    /// @notice Create several encrypted todo items (not completed) in one transaction
+    /// @dev All ids and metadata words share inputProof; text chunks of several todos may share one of textProofs.
+    ///      The new todos have no tags and no due date (a third encrypted word per todo would not fit the shared
+    ///      proof); set them afterwards with setTags and setDueDate
+    /// @param todos The todos to create
+    /// @param inputProof The FHE input proof shared by the ids and metadata words of all todos
+    /// @param textProofs The FHE input proofs for the text chunks, referenced by NewTodo.textProofIndex
+    function createTodos(NewTodo[] calldata todos, bytes calldata inputProof, bytes[] calldata textProofs) external {
+        require(todos.length > 0, NoTodos());
+        require(todos.length < MAX_BATCH_SIZE + 1, TooManyTodos());
+
+        for (uint256 i = 0; i < todos.length; ++i) {
+            require(todos[i].textProofIndex < textProofs.length, TextProofIndexOutOfBounds());
+
+            euint32 id = FHE.fromExternal(todos[i].id, inputProof);
+            uint256 todoIndex = _pushTodo(
+                id,
+                FHE.asEbool(false),
+                FHE.fromExternal(todos[i].meta, inputProof),
+                todos[i].recurring,
+                block.timestamp
+            );
+
+            _addRevision(todoIndex, id, todos[i].text, textProofs[todos[i].textProofIndex]);
+
+            emit TodoCreated(msg.sender, todoIndex, block.timestamp);
+        }
+    }
+
+    /// @notice Import a todo item migrated from an earlier deployment, keeping its completion status and creation time
+    /// @dev For recurring todos the completion status is imported as today's status
+    /// @param encryptedId The encrypted todo ID (hash of text content)
+    /// @param encryptedCompleted The encrypted completion status
+    /// @param encryptedMeta The encrypted packed category, priority and flags
+    /// @param encryptedText The encrypted UTF-8 todo text, split into 32-byte chunks
+    /// @param inputProof The FHE input proof shared by encryptedId, encryptedCompleted and encryptedMeta
+    /// @param textProof The FHE input proof shared by all encryptedText chunks
+    /// @param recurring Whether the todo is a recurring daily item
+    /// @param createdAt The original creation timestamp
+    function importTodo(
+        externalEuint32 encryptedId,
+        externalEbool encryptedCompleted,
+        externalEuint32 encryptedMeta,
+        externalEuint256[] calldata encryptedText,
+        bytes calldata inputProof,
+        bytes calldata textProof,
+        bool recurring,
+        uint256 createdAt
+    ) external {
+        require(createdAt < block.timestamp + 1, CreationTimeInFuture());
+
+        euint32 id = FHE.fromExternal(encryptedId, inputProof);
+        ebool completed = FHE.fromExternal(encryptedCompleted, inputProof);
+        uint256 todoIndex = _pushTodo(id, completed, FHE.fromExternal(encryptedMeta, inputProof), recurring, createdAt);
+
+        _addRevision(todoIndex, id, encryptedText, textProof);
+        // An imported todo that is already completed counts in the stats, so un-completing it later balances out
+        _updateCompletionStats(msg.sender, FHE.asEbool(false), completed);
+
+        emit TodoCreated(msg.sender, todoIndex, block.timestamp);
+    }
+
+    /// @notice Edit the text of a todo item, recording a new revision
+    /// @param todoIndex The index of the todo item to edit
+    /// @param encryptedId The new encrypted todo ID (hash of the new text content)
+    /// @param encryptedText The new encrypted UTF-8 todo text, split into 32-byte chunks
+    /// @param idProof The FHE input proof for encryptedId
+    /// @param textProof The FHE input proof shared by all encryptedText chunks
+    function updateTodo(
+        uint256 todoIndex,
+        externalEuint32 encryptedId,
+        externalEuint256[] calldata encryptedText,
         bytes calldata idProof,
-        bytes calldata completedProof
+        bytes calldata textProof
     ) external {
+        require(todoIndex < _userTodos[msg.sender].length, TodoIndexOutOfBounds());
+        require(_userTodos[msg.sender][todoIndex].status == TodoStatus.Active, TodoNotActive());
+
         euint32 id = FHE.fromExternal(encryptedId, idProof);
-        euint32 completed = FHE.fromExternal(encryptedCompleted, completedProof);
+        _userTodos[msg.sender][todoIndex].id = id;
+        _userTodos[msg.sender][todoIndex].timestamp = uint64(block.timestamp);
+
+        _allowTodo(msg.sender, todoIndex, id);
+
+        uint256 revision = _addRevision(todoIndex, id, encryptedText, textProof);
+
+        emit TodoUpdated(msg.sender, todoIndex, revision, block.timestamp);
+    }
+
+    /// @notice Change the priority of a todo item
+    /// @dev Replaces the priority bits of the encrypted metadata word homomorphically, keeping category and flags
+    /// @param todoIndex The index of the todo item
+    /// @param encryptedPriority The new encrypted priority (only the low 8 bits are used)
+    /// @param priorityProof The FHE input proof for encryptedPriority
+    function setPriority(uint256 todoIndex, externalEuint32 encryptedPriority, bytes calldata priorityProof) external {
+        require(todoIndex < _userTodos[msg.sender].length, TodoIndexOutOfBounds());
+        require(_userTodos[msg.sender][todoIndex].status == TodoStatus.Active, TodoNotActive());
+
+        EncryptedTodo storage todo = _userTodos[msg.sender][todoIndex];
+        euint32 priority = FHE.and(FHE.fromExternal(encryptedPriority, priorityProof), 0xFF);
+        euint32 meta = FHE.or(FHE.and(todo.meta, META_PRIORITY_CLEAR_MASK), FHE.shl(priority, META_PRIORITY_SHIFT));
+        todo.meta = meta;
+        todo.timestamp = uint64(block.timestamp);
+
+        _allowTodo(msg.sender, todoIndex, meta);
+
+        emit TodoPriorityChanged(msg.sender, todoIndex, block.timestamp);
+    }
+
+    /// @notice Set the due date of a todo item
+    /// @param todoIndex The index of the todo item
+    /// @param encryptedDueDate The new encrypted due timestamp in seconds (0 removes the due date)
+    /// @param dueDateProof The FHE input proof for encryptedDueDate
+    function setDueDate(uint256 todoIndex, externalEuint64 encryptedDueDate, bytes calldata dueDateProof) external {
+        require(todoIndex < _userTodos[msg.sender].length, TodoIndexOutOfBounds());
+        require(_userTodos[msg.sender][todoIndex].status == TodoStatus.Active, TodoNotActive());
+
+        euint64 dueDate = FHE.fromExternal(encryptedDueDate, dueDateProof);
+        _dueDates[msg.sender][todoIndex] = dueDate;
+        _userTodos[msg.sender][todoIndex].timestamp = uint64(block.timestamp);
+
+        _allowTodo(msg.sender, todoIndex, dueDate);
+
+        emit TodoDueDateChanged(msg.sender, todoIndex, block.timestamp);
+    }
+
+    /// @notice Recompute the encrypted overdue flags of some of the caller's todos as of the current block
+    /// @dev overdue = NOT completed AND dueDate != 0 AND dueDate < block.timestamp, using today's status for
+    ///      recurring todos. Todos without a due date are never overdue. The flags are snapshots: a later toggle
+    ///      or due date change does not update them
+    /// @param todoIndices The indices of the todo items
+    function checkOverdue(uint256[] calldata todoIndices) external {
+        require(todoIndices.length < MAX_BATCH_SIZE + 1, TooManyTodos());
+
+        for (uint256 i = 0; i < todoIndices.length; ++i) {
+            uint256 todoIndex = todoIndices[i];
+            require(todoIndex < _userTodos[msg.sender].length, TodoIndexOutOfBounds());
+            require(_userTodos[msg.sender][todoIndex].status == TodoStatus.Active, TodoNotActive());
+
+            euint64 dueDate = _dueDates[msg.sender][todoIndex];
+            ebool overdue = FHE.asEbool(false);
+            if (FHE.isInitialized(dueDate)) {
+                ebool pastDue = FHE.and(FHE.ne(dueDate, 0), FHE.lt(dueDate, uint64(block.timestamp)));
+                overdue = FHE.and(pastDue, FHE.not(_currentCompletion(msg.sender, todoIndex)));
+            }
+            _overdue[msg.sender][todoIndex] = overdue;
+
+            _allowTodo(msg.sender, todoIndex, overdue);
+
+            emit OverdueChecked(msg.sender, todoIndex, block.timestamp);
+        }
+    }
+
+    /// @notice Set the tags of a todo item
+    /// @param todoIndex The index of the todo item
+    /// @param encryptedTags The new encrypted tag bitmask (bit i = the caller's tag i)
+    /// @param tagsProof The FHE input proof for encryptedTags
+    function setTags(uint256 todoIndex, externalEuint32 encryptedTags, bytes calldata tagsProof) external {
+        require(todoIndex < _userTodos[msg.sender].length, TodoIndexOutOfBounds());
+        require(_userTodos[msg.sender][todoIndex].status == TodoStatus.Active, TodoNotActive());
+
+        euint32 tags = FHE.fromExternal(encryptedTags, tagsProof);
+        _tags[msg.sender][todoIndex] = tags;
+        _userTodos[msg.sender][todoIndex].timestamp = uint64(block.timestamp);
+
+        _allowTodo(msg.sender, todoIndex, tags);
+
+        emit TodoTagsChanged(msg.sender, todoIndex, block.timestamp);
+    }
+
+    /// @notice Match some of the caller's todos against an encrypted tag filter without decrypting their tags
+    /// @dev match = (tags AND filter) == filter, i.e. the todo has every tag of the filter. The results are stored
+    ///      for getTagMatches and granted to the caller only, so neither the filter nor the matches are shared
+    /// @param encryptedFilter The encrypted tag bitmask to match
+    /// @param filterProof The FHE input proof for encryptedFilter
+    /// @param todoIndices The indices of the todo items
+    function matchTags(
+        externalEuint32 encryptedFilter,
+        bytes calldata filterProof,
+        uint256[] calldata todoIndices
+    ) external {
+        require(todoIndices.length < MAX_BATCH_SIZE + 1, TooManyTodos());
+
+        euint32 filter = FHE.fromExternal(encryptedFilter, filterProof);
+        for (uint256 i = 0; i < todoIndices.length; ++i) {
+            uint256 todoIndex = todoIndices[i];
+            require(todoIndex < _userTodos[msg.sender].length, TodoIndexOutOfBounds());
+
+            euint32 tags = _tags[msg.sender][todoIndex];
+            if (!FHE.isInitialized(tags)) {
+                tags = FHE.asEuint32(0);
+            }
+            ebool matched = FHE.eq(FHE.and(tags, filter), filter);
+            _tagMatches[msg.sender][todoIndex] = matched;
 
-        EncryptedTodo memory newTodo = EncryptedTodo({
-            id: id,
-            completed: completed,
-            timestamp: block.timestamp
-        });
+            FHE.allowThis(matched);
+            FHE.allow(matched, msg.sender);
+        }
+
+        emit TagsMatched(msg.sender, block.timestamp);
+    }
+
+    /// @notice Select the caller's highest-priority incomplete todo without revealing any priority, over one page
+    ///         of todos
+    /// @dev Compares the active todos with FHE.gt/FHE.select (today's status for recurring todos); ties go to the
+    ///      oldest todo. A page starting at 0 begins a new selection; a page starting where the previous one ended
+    ///      continues it, so calling with offset 0, limit, 2 * limit, ... until getTodoCount covers the whole list.
+    ///      The encrypted result so far is stored for getFocusTodo and granted to the caller only
+    /// @param offset The index of the first todo of the page (0, or the end of the previous page)
+    /// @param limit The maximum number of todos to scan, at most MAX_FOCUS_PAGE_SIZE
+    function computeFocusTodo(uint256 offset, uint256 limit) external {
+        require(limit < MAX_FOCUS_PAGE_SIZE + 1, TooManyTodos());
+        FocusTodo storage focus = _focusTodos[msg.sender];
+        require(offset == 0 || offset == focus.nextIndex, FocusPageOutOfOrder());
+
+        EncryptedTodo[] storage todos = _userTodos[msg.sender];
+        uint256 end = offset + limit < todos.length ? offset + limit : todos.length;
+        // Score of a todo: its priority + 1 if incomplete, 0 if completed (so any incomplete todo beats none)
+        euint32 bestScore = offset == 0 ? FHE.asEuint32(0) : focus.bestScore;
+        euint32 bestIndex = offset == 0 ? FHE.asEuint32(0) : focus.todoIndex;
+        for (uint256 i = offset; i < end; ++i) {
+            if (todos[i].status != TodoStatus.Active) {
+                continue;
+            }
+
+            euint32 priority = FHE.and(FHE.shr(todos[i].meta, META_PRIORITY_SHIFT), 0xFF);
+            euint32 score = FHE.select(_currentCompletion(msg.sender, i), FHE.asEuint32(0), FHE.add(priority, 1));
+            ebool better = FHE.gt(score, bestScore);
+            bestScore = FHE.select(better, score, bestScore);
+            bestIndex = FHE.select(better, FHE.asEuint32(uint32(i)), bestIndex);
+        }
 
-        _userTodos[msg.sender].push(newTodo);
-        _todoCount[msg.sender]++;
+        focus.todoIndex = bestIndex;
+        focus.found = FHE.gt(bestScore, 0);
+        focus.computedAt = block.timestamp;
+        focus.bestScore = bestScore;
+        focus.nextIndex = end;
 
-        // Grant decryption permissions to the user
-        FHE.allowThis(id);
-        FHE.allow(id, msg.sender);
-        FHE.allowThis(completed);
-        FHE.allow(completed, msg.sender);
+        FHE.allowThis(focus.todoIndex);
+        FHE.allow(focus.todoIndex, msg.sender);
+        FHE.allowThis(focus.found);
+        FHE.allow(focus.found, msg.sender);
+        FHE.allowThis(focus.bestScore);
 
-        emit TodoCreated(msg.sender, _todoCount[msg.sender] - 1, block.timestamp);
+        emit FocusTodoComputed(msg.sender, block.timestamp);
     }
 
-    /// @notice Toggle the completion status of a todo item
+    /// @notice Toggle the completion status of a todo item homomorphically (completed = NOT completed)
+    /// @dev No encrypted input or prior decryption is needed. For recurring todos this toggles the current day only.
     /// @param todoIndex The index of the todo item to toggle
-    /// @param encryptedCompleted The new encrypted completion status (0 = not completed, 1 = completed)
+    function toggleTodo(uint256 todoIndex) external {
+        require(todoIndex < _userTodos[msg.sender].length, TodoIndexOutOfBounds());
+        require(_userTodos[msg.sender][todoIndex].status == TodoStatus.Active, TodoNotActive());
+        require(!_hasActiveChildren(msg.sender, todoIndex), TodoHasSubtasks());
+
+        ebool previous = _currentCompletion(msg.sender, todoIndex);
+        _setCompleted(msg.sender, todoIndex, previous, FHE.not(previous));
+    }
+
+    /// @notice Set the completion status of a todo item
+    /// @dev For recurring todos this sets the completion status of the current day only
+    /// @param todoIndex The index of the todo item
+    /// @param encryptedCompleted The new encrypted completion status
     /// @param completedProof The FHE input proof for encryptedCompleted
-    function toggleTodo(
+    function setCompleted(
         uint256 todoIndex,
-        externalEuint32 encryptedCompleted,
+        externalEbool encryptedCompleted,
         bytes calldata completedProof
     ) external {
-        require(todoIndex < _userTodos[msg.sender].length, "Todo index out of bounds");
-        
-        euint32 completed = FHE.fromExternal(encryptedCompleted, completedProof);
-        _userTodos[msg.sender][todoIndex].completed = completed;
-        _userTodos[msg.sender][todoIndex].timestamp = block.timestamp;
+        require(todoIndex < _userTodos[msg.sender].length, TodoIndexOutOfBounds());
+        require(_userTodos[msg.sender][todoIndex].status == TodoStatus.Active, TodoNotActive());
+        require(!_hasActiveChildren(msg.sender, todoIndex), TodoHasSubtasks());
 
-        // Grant decryption permissions
-        FHE.allowThis(completed);
-        FHE.allow(completed, msg.sender);
+        ebool completed = FHE.fromExternal(encryptedCompleted, completedProof);
+        _setCompleted(msg.sender, todoIndex, _currentCompletion(msg.sender, todoIndex), completed);
+    }
+
+    /// @notice Set the completion status of several todo items in one transaction
+    /// @dev For recurring todos this sets the completion status of the current day only. The completion statistics
+    ///      are updated once for the whole batch and each parent of the batch is derived once, so the HCU depth does
+    ///      not grow with the batch size
+    /// @param todoIndices The indices of the todo items
+    /// @param encryptedCompleted The new encrypted completion statuses, one per index
+    /// @param inputProof The FHE input proof shared by all encryptedCompleted values
+    function setCompletedMany(
+        uint256[] calldata todoIndices,
+        externalEbool[] calldata encryptedCompleted,
+        bytes calldata inputProof
+    ) external {
+        require(todoIndices.length == encryptedCompleted.length, ArrayLengthMismatch());
+        require(todoIndices.length < MAX_BATCH_SIZE + 1, TooManyTodos());
+
+        // Status changes of the batch (the todos, then their derived parents) for the statistics update
+        ebool[] memory previous = new ebool[](2 * todoIndices.length);
+        ebool[] memory completed = new ebool[](2 * todoIndices.length);
+        uint256[] memory parents = new uint256[](todoIndices.length);
+        uint256 parentCount = 0;
+        for (uint256 i = 0; i < todoIndices.length; ++i) {
+            uint256 todoIndex = todoIndices[i];
+            require(todoIndex < _userTodos[msg.sender].length, TodoIndexOutOfBounds());
+            require(_userTodos[msg.sender][todoIndex].status == TodoStatus.Active, TodoNotActive());
+            require(!_hasActiveChildren(msg.sender, todoIndex), TodoHasSubtasks());
+
+            previous[i] = _currentCompletion(msg.sender, todoIndex);
+            completed[i] = FHE.fromExternal(encryptedCompleted[i], inputProof);
+            _storeCompleted(msg.sender, todoIndex, completed[i]);
+
+            uint256 parent = _parents[msg.sender][todoIndex];
+            if (parent != 0 && !_containsIndex(parents, parentCount, parent)) {
+                parents[parentCount] = parent;
+                ++parentCount;
+            }
+        }
+
+        uint256 changeCount = todoIndices.length;
+        for (uint256 i = 0; i < parentCount; ++i) {
+            uint256 parentIndex = parents[i] - 1;
+            if (
+                _userTodos[msg.sender][parentIndex].status == TodoStatus.Active &&
+                _hasActiveChildren(msg.sender, parentIndex)
+            ) {
+                previous[changeCount] = _currentCompletion(msg.sender, parentIndex);
+                completed[changeCount] = _childrenCompletion(msg.sender, parentIndex);
+                _storeCompleted(msg.sender, parentIndex, completed[changeCount]);
+                ++changeCount;
+            }
+        }
+
+        _updateCompletionStatsMany(msg.sender, previous, completed, changeCount);
+    }
+
+    /// @notice Archive a todo item, hiding it from the active list
+    /// @dev The encrypted data is kept on-chain; only the plaintext status changes
+    /// @param todoIndex The index of the todo item to archive
+    function archiveTodo(uint256 todoIndex) external {
+        require(todoIndex < _userTodos[msg.sender].length, TodoIndexOutOfBounds());
+        require(_userTodos[msg.sender][todoIndex].status == TodoStatus.Active, TodoNotActive());
+
+        _userTodos[msg.sender][todoIndex].status = TodoStatus.Archived;
 
-        emit TodoToggled(msg.sender, todoIndex, block.timestamp);
+        emit TodoArchived(msg.sender, todoIndex, block.timestamp);
+        _deriveParentCompletion(msg.sender, todoIndex);
+    }
+
+    /// @notice Delete a todo item
+    /// @dev Deletion is a tombstone: the index stays allocated and the encrypted data remains auditable
+    /// @param todoIndex The index of the todo item to delete
+    function deleteTodo(uint256 todoIndex) external {
+        require(todoIndex < _userTodos[msg.sender].length, TodoIndexOutOfBounds());
+        require(_userTodos[msg.sender][todoIndex].status != TodoStatus.Deleted, TodoAlreadyDeleted());
+
+        _userTodos[msg.sender][todoIndex].status = TodoStatus.Deleted;
+
+        emit TodoDeleted(msg.sender, todoIndex, block.timestamp);
+        _deriveParentCompletion(msg.sender, todoIndex);
+    }
+
+    /// @notice Make one of the caller's todos a subtask of another
+    /// @dev Nesting is one level deep: a subtask cannot have subtasks of its own and a parent cannot be a subtask.
+    ///      Both todos must be active and either both recurring or both not. From then on the parent's completion
+    ///      status is derived from its active subtasks and cannot be set directly
+    /// @param todoIndex The index of the todo item that becomes a subtask
+    /// @param parentIndex The index of the parent todo item
+    function setParent(uint256 todoIndex, uint256 parentIndex) external {
+        EncryptedTodo[] storage todos = _userTodos[msg.sender];
+        require(todoIndex < todos.length && parentIndex < todos.length, TodoIndexOutOfBounds());
+        require(
+            todos[todoIndex].status == TodoStatus.Active && todos[parentIndex].status == TodoStatus.Active,
+            TodoNotActive()
+        );
+        require(
+            todoIndex != parentIndex &&
+                _parents[msg.sender][todoIndex] == 0 &&
+                _parents[msg.sender][parentIndex] == 0 &&
+                _children[msg.sender][todoIndex].length == 0,
+            InvalidParent()
+        );
+        require(todos[todoIndex].recurring == todos[parentIndex].recurring, RecurrenceMismatch());
+        require(_children[msg.sender][parentIndex].length < MAX_SUBTASKS, TooManySubtasks());
+
+        _parents[msg.sender][todoIndex] = parentIndex + 1;
+        _children[msg.sender][parentIndex].push(todoIndex);
+
+        emit TodoParentChanged(msg.sender, todoIndex, block.timestamp);
+        _deriveCompletion(msg.sender, parentIndex);
+    }
+
+    /// @notice Turn one of the caller's subtasks back into a top-level todo
+    /// @dev The former parent is derived again from its remaining active subtasks; without any it keeps its status
+    /// @param todoIndex The index of the subtask
+    function clearParent(uint256 todoIndex) external {
+        require(todoIndex < _userTodos[msg.sender].length, TodoIndexOutOfBounds());
+        uint256 parent = _parents[msg.sender][todoIndex];
+        require(parent != 0, TodoHasNoParent());
+
+        uint256[] storage siblings = _children[msg.sender][parent - 1];
+        for (uint256 i = 0; i < siblings.length; ++i) {
+            if (siblings[i] == todoIndex) {
+                siblings[i] = siblings[siblings.length - 1];
+                siblings.pop();
+                break;
+            }
+        }
+        delete _parents[msg.sender][todoIndex];
+
+        emit TodoParentChanged(msg.sender, todoIndex, block.timestamp);
+        _deriveCompletion(msg.sender, parent - 1);
+    }
+
+    /// @notice Replace the caller's manual todo order
+    /// @dev The order only tells clients how to list the todos: neither the todos' timestamps nor their encrypted
+    ///      data change. Clients list todos missing from the order (e.g. created afterwards) before the ordered ones
+    /// @param todoIndices The todo indices, top first (at most MAX_ORDERED_TODOS, without duplicates)
+    function reorder(uint256[] calldata todoIndices) external {
+        require(todoIndices.length < MAX_ORDERED_TODOS + 1, TooManyTodos());
+        uint256 count = _userTodos[msg.sender].length;
+
+        delete _todoOrder[msg.sender];
+        uint32[] storage order = _todoOrder[msg.sender];
+        // One bit per todo index, to detect duplicates
+        uint256[] memory seen = new uint256[](count / 256 + 1);
+        for (uint256 i = 0; i < todoIndices.length; ++i) {
+            uint256 todoIndex = todoIndices[i];
+            require(todoIndex < count, TodoIndexOutOfBounds());
+            uint256 bit = 1 << (todoIndex % 256);
+            require(seen[todoIndex / 256] & bit == 0, DuplicateTodoIndex());
+            seen[todoIndex / 256] |= bit;
+            order.push(uint32(todoIndex));
+        }
+
+        emit TodosReordered(msg.sender, block.timestamp);
+    }
+
+    /// @notice Share the caller's list with a collaborator
+    /// @dev Grants the collaborator access to the current handles of every todo (id, completion status, metadata
+    ///      and text), then to every handle created afterwards. Gas grows with the size of the list
+    /// @param collaborator The account to share the list with
+    function shareList(address collaborator) external {
+        require(collaborator != address(0) && collaborator != msg.sender, InvalidCollaborator());
+        require(_sharedListPositions[collaborator][msg.sender] == 0, AlreadyShared());
+        require(_collaborators[msg.sender].length < MAX_COLLABORATORS, TooManyCollaborators());
+
+        _collaborators[msg.sender].push(collaborator);
+        _sharedLists[collaborator].push(msg.sender);
+        _sharedListPositions[collaborator][msg.sender] = _sharedLists[collaborator].length;
+
+        for (uint256 i = 0; i < _userTodos[msg.sender].length; ++i) {
+            _allowCurrentHandles(msg.sender, i, collaborator);
+        }
+
+        emit ListShared(msg.sender, collaborator, block.timestamp);
+    }
+
+    /// @notice Stop sharing the caller's list with a collaborator
+    /// @dev FHE access grants cannot be revoked: the collaborator keeps access to the handles shared so far, but not
+    ///      to the handles created afterwards (new todos, edits and completion changes)
+    /// @param collaborator The account to stop sharing the list with
+    function unshareList(address collaborator) external {
+        uint256 position = _sharedListPositions[collaborator][msg.sender];
+        require(position != 0, NotShared());
+
+        // Swap and pop in both directions
+        address[] storage owners = _sharedLists[collaborator];
+        address lastOwner = owners[owners.length - 1];
+        owners[position - 1] = lastOwner;
+        _sharedListPositions[collaborator][lastOwner] = position;
+        owners.pop();
+        delete _sharedListPositions[collaborator][msg.sender];
+
+        address[] storage collaborators = _collaborators[msg.sender];
+        for (uint256 i = 0; i < collaborators.length; ++i) {
+            if (collaborators[i] == collaborator) {
+                collaborators[i] = collaborators[collaborators.length - 1];
+                collaborators.pop();
+                break;
+            }
+        }
+
+        emit ListUnshared(msg.sender, collaborator, block.timestamp);
+    }
+
+    /// @notice Get the collaborators a user's list is shared with
+    /// @param owner The list owner
+    /// @return collaborators The collaborator addresses
+    function getCollaborators(address owner) external view returns (address[] memory collaborators) {
+        return _collaborators[owner];
+    }
+
+    /// @notice Get the owners whose lists are shared with a user
+    /// @param collaborator The collaborator address
+    /// @return owners The list owner addresses
+    function getSharedLists(address collaborator) external view returns (address[] memory owners) {
+        return _sharedLists[collaborator];
+    }
+
+    /// @notice Whether a user's list is shared with a collaborator
+    /// @param owner The list owner
+    /// @param collaborator The collaborator address
+    /// @return shared True if the list is shared with the collaborator
+    function isSharedWith(address owner, address collaborator) external view returns (bool shared) {
+        return _sharedListPositions[collaborator][owner] != 0;
+    }
+
+    /// @notice Assign one of the caller's todos to another account
+    /// @dev Grants the assignee access to the todo's current handles and to the handles the todo gets afterwards.
+    ///      Reassigning replaces the previous assignee, and address(0) removes the assignment; as with unshareList,
+    ///      access already granted cannot be revoked
+    /// @param todoIndex The index of the todo item
+    /// @param assignee The account that may decrypt and complete the todo, or address(0)
+    function assignTodo(uint256 todoIndex, address assignee) external {
+        require(todoIndex < _userTodos[msg.sender].length, TodoIndexOutOfBounds());
+        require(_userTodos[msg.sender][todoIndex].status == TodoStatus.Active, TodoNotActive());
+        require(assignee != msg.sender, InvalidAssignee());
+
+        address previous = _assignees[msg.sender][todoIndex];
+        require(assignee != previous, AlreadyAssigned());
+        if (previous != address(0)) {
+            _removeAssignment(previous, msg.sender, todoIndex);
+        }
+
+        _assignees[msg.sender][todoIndex] = assignee;
+        if (assignee != address(0)) {
+            _assignedTodos[assignee].push(AssignedTodo({owner: msg.sender, todoIndex: todoIndex}));
+            _assignedTodoPositions[assignee][msg.sender][todoIndex] = _assignedTodos[assignee].length;
+            _allowCurrentHandles(msg.sender, todoIndex, assignee);
+        }
+
+        emit TodoAssigned(msg.sender, todoIndex, assignee, block.timestamp);
+    }
+
+    /// @notice Mark a todo assigned to the caller as completed
+    /// @dev Updates the owner's todo and completion statistics; for recurring todos only today's status
+    /// @param owner The owner of the todo
+    /// @param todoIndex The index of the todo in the owner's list
+    function completeAssigned(address owner, uint256 todoIndex) external {
+        require(todoIndex < _userTodos[owner].length, TodoIndexOutOfBounds());
+        require(_assignees[owner][todoIndex] == msg.sender, NotTheAssignee());
+        require(_userTodos[owner][todoIndex].status == TodoStatus.Active, TodoNotActive());
+        require(!_hasActiveChildren(owner, todoIndex), TodoHasSubtasks());
+
+        _setCompleted(owner, todoIndex, _currentCompletion(owner, todoIndex), FHE.asEbool(true));
+
+        emit TodoCompletedByAssignee(owner, todoIndex, msg.sender, block.timestamp);
+    }
+
+    /// @notice Get the account a todo is assigned to
+    /// @param owner The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @return assignee The assignee, or address(0) if the todo is not assigned
+    function getAssignee(address owner, uint256 todoIndex) external view returns (address assignee) {
+        return _assignees[owner][todoIndex];
+    }
+
+    /// @notice Get the todos assigned to an account
+    /// @param assignee The assignee address
+    /// @return todos The owner and index of every todo assigned to the account
+    function getAssignedTodos(address assignee) external view returns (AssignedTodo[] memory todos) {
+        return _assignedTodos[assignee];
+    }
+
+    /// @notice Get the subtasks of a todo item
+    /// @param user The user address
+    /// @param index The index of the parent todo item
+    /// @return children The indices of the subtasks (all statuses, in no particular order)
+    function getChildren(address user, uint256 index) external view returns (uint256[] memory children) {
+        return _children[user][index];
+    }
+
+    /// @notice Get a user's manual todo order
+    /// @param user The user address
+    /// @return indices The todo indices of the last reorder call, top first (empty if never reordered)
+    function getTodoOrder(address user) external view returns (uint256[] memory indices) {
+        uint32[] storage order = _todoOrder[user];
+        indices = new uint256[](order.length);
+        for (uint256 i = 0; i < order.length; ++i) {
+            indices[i] = order[i];
+        }
+        return indices;
     }
 
     /// @notice Get the encrypted todo item at a specific index
     /// @param user The user address
     /// @param index The index of the todo item
     /// @return encryptedId The encrypted todo ID
-    /// @return encryptedCompleted The encrypted completion status (0 = not completed, 1 = completed)
+    /// @return encryptedCompleted The encrypted completion status
     /// @return timestamp The plaintext timestamp
     function getTodo(address user, uint256 index) 
         external 
         view 
-        returns (euint32 encryptedId, euint32 encryptedCompleted, uint256 timestamp) 
+        returns (euint32 encryptedId, ebool encryptedCompleted, uint256 timestamp) 
     {
-        require(index < _userTodos[user].length, "Todo index out of bounds");
+        require(index < _userTodos[user].length, TodoIndexOutOfBounds());
         EncryptedTodo memory todo = _userTodos[user][index];
         return (todo.id, todo.completed, todo.timestamp);
     }
 
+    /// @notice Get a page of a user's todos (all statuses) in creation order
+    /// @dev Replaces one getTodo/getTodoText/getTodoMeta round trip per todo. An offset past the end returns
+    ///      an empty page; the last page may be shorter than limit
+    /// @param user The user address
+    /// @param offset The index of the first todo of the page
+    /// @param limit The maximum number of todos to return (at most MAX_PAGE_SIZE)
+    /// @return page The todos of the page
+    /// @return total The total number of todos of the user
+    function getTodos(
+        address user,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (TodoView[] memory page, uint256 total) {
+        require(limit < MAX_PAGE_SIZE + 1, PageTooLarge());
+        total = _userTodos[user].length;
+        uint256 end = offset + limit > total ? total : offset + limit;
+        uint256 size = offset < end ? end - offset : 0;
+
+        page = new TodoView[](size);
+        for (uint256 i = 0; i < size; ++i) {
+            page[i] = _todoView(user, offset + i);
+        }
+        return (page, total);
+    }
+
+    /// @notice Get the scheduling information of a todo item
+    /// @param user The user address
+    /// @param index The index of the todo item
+    /// @return createdAt The plaintext creation timestamp
+    /// @return createdDay The day number (UTC days since the epoch) the todo was created on
+    /// @return recurring Whether the todo is a recurring daily item
+    function getTodoSchedule(
+        address user,
+        uint256 index
+    ) external view returns (uint256 createdAt, uint256 createdDay, bool recurring) {
+        require(index < _userTodos[user].length, TodoIndexOutOfBounds());
+        EncryptedTodo storage todo = _userTodos[user][index];
+        return (todo.createdAt, todo.createdAt / DAY_LENGTH, todo.recurring);
+    }
+
+    /// @notice Get the encrypted completion status of a todo item on a given day
+    /// @dev Recurring todos start every day uncompleted: a day without a toggle returns the zero handle,
+    ///      which clients treat as "not completed". Other todos return their single completion status.
+    /// @param user The user address
+    /// @param index The index of the todo item
+    /// @param day The day number (UTC days since the epoch)
+    /// @return encryptedCompleted The encrypted completion status
+    function getTodoCompletionForDay(
+        address user,
+        uint256 index,
+        uint256 day
+    ) external view returns (ebool encryptedCompleted) {
+        require(index < _userTodos[user].length, TodoIndexOutOfBounds());
+        if (_userTodos[user][index].recurring) {
+            return _dailyCompletion[user][index][day];
+        }
+        return _userTodos[user][index].completed;
+    }
+
+    /// @notice Get the indices of the active todos belonging to a day's log
+    /// @dev A day's log holds the todos created that day plus every recurring todo created on or before it
+    /// @param user The user address
+    /// @param day The day number (UTC days since the epoch)
+    /// @return indices Array of todo indices in creation order
+    function getDayTodoIndices(address user, uint256 day) external view returns (uint256[] memory indices) {
+        EncryptedTodo[] storage todos = _userTodos[user];
+        uint256 dayCount = 0;
+        for (uint256 i = 0; i < todos.length; ++i) {
+            if (_isInDay(todos[i], day)) {
+                ++dayCount;
+            }
+        }
+
+        indices = new uint256[](dayCount);
+        uint256 cursor = 0;
+        for (uint256 i = 0; i < todos.length; ++i) {
+            if (_isInDay(todos[i], day)) {
+                indices[cursor] = i;
+                ++cursor;
+            }
+        }
+        return indices;
+    }
+
+    /// @notice Get the encrypted completion statistics of a user
+    /// @dev The streak is only current as of lastDay: clients should treat it as broken when lastDay is before
+    ///      yesterday, or when it is yesterday and completedOnLastDay is false
+    /// @param user The user address
+    /// @return totalCompleted The encrypted number of todos (and recurring todo days) currently marked completed
+    /// @return streak The encrypted number of consecutive days with at least one completion, up to lastDay
+    /// @return completedOnLastDay Whether anything was completed on lastDay (encrypted)
+    /// @return lastDay The plaintext day number of the last toggle (0 if the user never toggled a todo)
+    function getCompletionStats(
+        address user
+    ) external view returns (euint32 totalCompleted, euint32 streak, ebool completedOnLastDay, uint256 lastDay) {
+        CompletionStats storage stats = _completionStats[user];
+        return (stats.totalCompleted, stats.streak, stats.completedOnLastDay, stats.lastDay);
+    }
+
+    /// @notice Get the result of a user's last computeFocusTodo call
+    /// @dev The result is a snapshot over the pages computed so far: todos changed after computedAt are not taken
+    ///      into account
+    /// @param user The user address
+    /// @return todoIndex The encrypted index of the highest-priority incomplete todo
+    /// @return found Whether the user had an incomplete active todo (encrypted)
+    /// @return computedAt The plaintext timestamp of the computation (0 if never computed)
+    function getFocusTodo(address user) external view returns (euint32 todoIndex, ebool found, uint256 computedAt) {
+        FocusTodo storage focus = _focusTodos[user];
+        return (focus.todoIndex, focus.found, focus.computedAt);
+    }
+
+    /// @notice Get the results of a user's last matchTags call for some of their todos
+    /// @param user The user address
+    /// @param todoIndices The indices of the todo items
+    /// @return matches The encrypted match of each todo (zero handle if never matched)
+    function getTagMatches(
+        address user,
+        uint256[] calldata todoIndices
+    ) external view returns (ebool[] memory matches) {
+        matches = new ebool[](todoIndices.length);
+        for (uint256 i = 0; i < todoIndices.length; ++i) {
+            matches[i] = _tagMatches[user][todoIndices[i]];
+        }
+        return matches;
+    }
+
+    /// @notice Get the current day number (UTC days since the epoch)
+    /// @return day The current day number
+    function currentDay() public view returns (uint256 day) {
+        return block.timestamp / DAY_LENGTH;
+    }
+
+    /// @notice Get the encrypted metadata word of a todo item
+    /// @param user The user address
+    /// @param index The index of the todo item
+    /// @return encryptedMeta The encrypted packed category, priority and flags (see META_*_SHIFT)
+    function getTodoMeta(address user, uint256 index) external view returns (euint32 encryptedMeta) {
+        require(index < _userTodos[user].length, TodoIndexOutOfBounds());
+        return _userTodos[user][index].meta;
+    }
+
+    /// @notice Get the encrypted text chunks of a todo item
+    /// @param user The user address
+    /// @param index The index of the todo item
+    /// @return encryptedText The encrypted 32-byte UTF-8 chunks (zero-padded in the last chunk)
+    function getTodoText(address user, uint256 index) external view returns (euint256[] memory encryptedText) {
+        require(index < _userTodos[user].length, TodoIndexOutOfBounds());
+        TodoRevision[] storage revisions = _todoRevisions[user][index];
+        return revisions[revisions.length - 1].text;
+    }
+
+    /// @notice Get the number of revisions of a todo item (1 for a todo that was never edited)
+    /// @param user The user address
+    /// @param index The index of the todo item
+    /// @return count The number of revisions
+    function getTodoRevisionCount(address user, uint256 index) external view returns (uint256 count) {
+        require(index < _userTodos[user].length, TodoIndexOutOfBounds());
+        return _todoRevisions[user][index].length;
+    }
+
+    /// @notice Get a specific revision of a todo item
+    /// @param user The user address
+    /// @param index The index of the todo item
+    /// @param revision The revision number (0 = original text)
+    /// @return encryptedId The encrypted todo ID of the revision
+    /// @return encryptedText The encrypted text chunks of the revision
+    /// @return timestamp The plaintext timestamp of the revision
+    function getTodoRevision(
+        address user,
+        uint256 index,
+        uint256 revision
+    ) external view returns (euint32 encryptedId, euint256[] memory encryptedText, uint256 timestamp) {
+        require(index < _userTodos[user].length, TodoIndexOutOfBounds());
+        require(revision < _todoRevisions[user][index].length, RevisionOutOfBounds());
+        TodoRevision storage rev = _todoRevisions[user][index][revision];
+        return (rev.id, rev.text, rev.timestamp);
+    }
+
+    /// @notice Get the lifecycle status of a todo item
+    /// @param user The user address
+    /// @param index The index of the todo item
+    /// @return status The todo status (0 = active, 1 = archived, 2 = deleted)
+    function getTodoStatus(address user, uint256 index) external view returns (TodoStatus status) {
+        require(index < _userTodos[user].length, TodoIndexOutOfBounds());
+        return _userTodos[user][index].status;
+    }
+
+    /// @notice Get the indices of all active (not archived or deleted) todos for a user
+    /// @param user The user address
+    /// @return indices Array of active todo indices in creation order
+    function getActiveTodoIndices(address user) external view returns (uint256[] memory indices) {
+        EncryptedTodo[] storage todos = _userTodos[user];
+        uint256 activeCount = 0;
+        for (uint256 i = 0; i < todos.length; ++i) {
+            if (todos[i].status == TodoStatus.Active) {
+                ++activeCount;
+            }
+        }
+
+        indices = new uint256[](activeCount);
+        uint256 cursor = 0;
+        for (uint256 i = 0; i < todos.length; ++i) {
+            if (todos[i].status == TodoStatus.Active) {
+                indices[cursor] = i;
+                ++cursor;
+            }
+        }
+        return indices;
+    }
+
     /// @notice Get the total number of todos for a user
+    /// @dev Includes archived and deleted todos, since indices are never reused
     /// @param user The user address
     /// @return count The number of todos
     function getTodoCount(address user) external view returns (uint256 count) {
@@ -104,14 +1249,446 @@ contract PrivateTodoList is SepoliaConfig {
 
     /// @notice Get all todo timestamps for a user (for sorting/display purposes)
     /// @param user The user address
-    /// @return timestamps Array of timestamps
+    /// @return timestamps Array of last-modified timestamps
     function getTodoTimestamps(address user) external view returns (uint256[] memory timestamps) {
         uint256 count = _userTodos[user].length;
         timestamps = new uint256[](count);
-        for (uint256 i = 0; i < count; i++) {
+        for (uint256 i = 0; i < count; ++i) {
             timestamps[i] = _userTodos[user][i].timestamp;
         }
         return timestamps;
     }
-}
 
+    /// @notice Whether an active todo belongs to the log of the given day
+    /// @param todo The todo
+    /// @param day The day number (UTC days since the epoch)
+    /// @return True if the todo is active and in the day's log
+    function _isInDay(EncryptedTodo storage todo, uint256 day) private view returns (bool) {
+        if (todo.status != TodoStatus.Active) {
+            return false;
+        }
+        uint256 createdDay = todo.createdAt / DAY_LENGTH;
+        return todo.recurring ? createdDay < day + 1 : createdDay == day;
+    }
+
+    /// @notice Snapshot of a todo for getTodos
+    /// @param user The user address
+    /// @param index The index of the todo item
+    /// @return todoView The todo's current handles and plaintext fields
+    function _todoView(address user, uint256 index) private view returns (TodoView memory todoView) {
+        EncryptedTodo storage todo = _userTodos[user][index];
+        TodoRevision[] storage revisions = _todoRevisions[user][index];
+        todoView.index = index;
+        todoView.id = todo.id;
+        todoView.completed = todo.recurring ? _dailyCompletion[user][index][currentDay()] : todo.completed;
+        todoView.meta = todo.meta;
+        todoView.text = revisions[revisions.length - 1].text;
+        todoView.timestamp = todo.timestamp;
+        todoView.createdAt = todo.createdAt;
+        todoView.recurring = todo.recurring;
+        todoView.status = todo.status;
+        todoView.assignee = _assignees[user][index];
+        todoView.dueDate = _dueDates[user][index];
+        todoView.overdue = _overdue[user][index];
+        todoView.tags = _tags[user][index];
+        todoView.parent = _parents[user][index];
+        return todoView;
+    }
+
+    /// @notice Append a todo for the sender and grant the sender access to its encrypted fields
+    /// @param id The encrypted todo ID
+    /// @param completed The encrypted completion status
+    /// @param meta The encrypted packed category, priority and flags
+    /// @param recurring Whether the todo is a recurring daily item
+    /// @param createdAt The creation timestamp
+    /// @return todoIndex The index of the new todo
+    function _pushTodo(
+        euint32 id,
+        ebool completed,
+        euint32 meta,
+        bool recurring,
+        uint256 createdAt
+    ) private returns (uint256 todoIndex) {
+        EncryptedTodo storage newTodo = _userTodos[msg.sender].push();
+        newTodo.id = id;
+        newTodo.completed = completed;
+        newTodo.meta = meta;
+        newTodo.timestamp = uint64(block.timestamp);
+        newTodo.createdAt = uint64(createdAt);
+        newTodo.recurring = recurring;
+        ++_todoCount[msg.sender];
+        todoIndex = _todoCount[msg.sender] - 1;
+
+        if (recurring) {
+            _dailyCompletion[msg.sender][todoIndex][currentDay()] = completed;
+        }
+
+        // Grant decryption permissions to the user and their collaborators
+        _allowTodo(msg.sender, todoIndex, id);
+        _allowTodo(msg.sender, todoIndex, completed);
+        _allowTodo(msg.sender, todoIndex, meta);
+
+        return todoIndex;
+    }
+
+    /// @notice Current completion status of one of the owner's todos (today's status for recurring todos)
+    /// @param owner The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @return completed The encrypted completion status (encrypted false if not set yet)
+    function _currentCompletion(address owner, uint256 todoIndex) private returns (ebool completed) {
+        EncryptedTodo storage todo = _userTodos[owner][todoIndex];
+        completed = todo.recurring ? _dailyCompletion[owner][todoIndex][currentDay()] : todo.completed;
+        if (!FHE.isInitialized(completed)) {
+            // A recurring todo that was not toggled yet today
+            completed = FHE.asEbool(false);
+        }
+        return completed;
+    }
+
+    /// @notice Store a new completion status for one of the owner's todos, update the owner's completion statistics
+    ///         and derive the status of its parent
+    /// @param owner The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param previous The encrypted completion status being replaced
+    /// @param completed The new encrypted completion status
+    function _setCompleted(address owner, uint256 todoIndex, ebool previous, ebool completed) private {
+        _storeCompleted(owner, todoIndex, completed);
+        _updateCompletionStats(owner, previous, completed);
+        _deriveParentCompletion(owner, todoIndex);
+    }
+
+    /// @notice Store a new completion status for one of the owner's todos, without touching the statistics
+    /// @param owner The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param completed The new encrypted completion status
+    function _storeCompleted(address owner, uint256 todoIndex, ebool completed) private {
+        EncryptedTodo storage todo = _userTodos[owner][todoIndex];
+        todo.completed = completed;
+        todo.timestamp = uint64(block.timestamp);
+        if (todo.recurring) {
+            _dailyCompletion[owner][todoIndex][currentDay()] = completed;
+        }
+
+        // Grant decryption permissions
+        _allowTodo(owner, todoIndex, completed);
+
+        emit TodoToggled(owner, todoIndex, block.timestamp);
+    }
+
+    /// @notice Recompute the completion status of the parent of one of the owner's todos, if it has one
+    /// @param owner The owner of the todo
+    /// @param todoIndex The index of the todo whose parent is recomputed
+    function _deriveParentCompletion(address owner, uint256 todoIndex) private {
+        uint256 parent = _parents[owner][todoIndex];
+        if (parent != 0) {
+            _deriveCompletion(owner, parent - 1);
+        }
+    }
+
+    /// @notice Set the completion status of an active parent todo to the AND of its active subtasks' current
+    ///         completion (today's for recurring todos)
+    /// @dev A parent without active subtasks keeps its status
+    /// @param owner The owner of the parent todo
+    /// @param parentIndex The index of the parent todo
+    function _deriveCompletion(address owner, uint256 parentIndex) private {
+        if (_userTodos[owner][parentIndex].status != TodoStatus.Active || !_hasActiveChildren(owner, parentIndex)) {
+            return;
+        }
+
+        ebool completed = _childrenCompletion(owner, parentIndex);
+        _setCompleted(owner, parentIndex, _currentCompletion(owner, parentIndex), completed);
+    }
+
+    /// @notice AND of the current completion status of a todo's active subtasks (today's for recurring todos)
+    /// @param owner The owner of the parent todo
+    /// @param parentIndex The index of the parent todo
+    /// @return completed The encrypted derived completion status (encrypted true if no subtask is active)
+    function _childrenCompletion(address owner, uint256 parentIndex) private returns (ebool completed) {
+        uint256[] storage children = _children[owner][parentIndex];
+        completed = FHE.asEbool(true);
+        for (uint256 i = 0; i < children.length; ++i) {
+            if (_userTodos[owner][children[i]].status == TodoStatus.Active) {
+                completed = FHE.and(completed, _currentCompletion(owner, children[i]));
+            }
+        }
+        return completed;
+    }
+
+    /// @notice Whether a value is among the first count entries of an array
+    /// @param values The array to search
+    /// @param count The number of entries in use
+    /// @param value The value to look for
+    /// @return True if one of the entries in use equals value
+    function _containsIndex(uint256[] memory values, uint256 count, uint256 value) private pure returns (bool) {
+        for (uint256 i = 0; i < count; ++i) {
+            if (values[i] == value) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /// @notice Whether one of the owner's todos has active subtasks (its completion status is then derived)
+    /// @param owner The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @return True if at least one subtask of the todo is active
+    function _hasActiveChildren(address owner, uint256 todoIndex) private view returns (bool) {
+        uint256[] storage children = _children[owner][todoIndex];
+        for (uint256 i = 0; i < children.length; ++i) {
+            if (_userTodos[owner][children[i]].status == TodoStatus.Active) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /// @notice Update the owner's completion statistics for a status change from previous to completed
+    /// @param owner The owner of the todo
+    /// @param previous The encrypted completion status before the change
+    /// @param completed The encrypted completion status after the change
+    function _updateCompletionStats(address owner, ebool previous, ebool completed) private {
+        ebool completing = FHE.and(FHE.not(previous), completed);
+        ebool uncompleting = FHE.and(previous, FHE.not(completed));
+        _applyCompletionStats(owner, FHE.asEuint32(completing), FHE.asEuint32(uncompleting), completing);
+    }
+
+    /// @notice Update the owner's completion statistics once for several status changes
+    /// @dev The changes are counted with a pairwise sum, so the HCU depth grows with log2(count) only
+    /// @param owner The owner of the todos
+    /// @param previous The encrypted completion statuses before the changes
+    /// @param completed The encrypted completion statuses after the changes
+    /// @param count The number of changes in use at the start of previous and completed
+    function _updateCompletionStatsMany(
+        address owner,
+        ebool[] memory previous,
+        ebool[] memory completed,
+        uint256 count
+    ) private {
+        if (count == 0) {
+            return;
+        }
+
+        euint8[] memory completions = new euint8[](count);
+        euint8[] memory uncompletions = new euint8[](count);
+        for (uint256 i = 0; i < count; ++i) {
+            completions[i] = FHE.asEuint8(FHE.and(FHE.not(previous[i]), completed[i]));
+            uncompletions[i] = FHE.asEuint8(FHE.and(previous[i], FHE.not(completed[i])));
+        }
+
+        euint8 completionCount = _sum(completions, count);
+        _applyCompletionStats(
+            owner,
+            FHE.asEuint32(completionCount),
+            FHE.asEuint32(_sum(uncompletions, count)),
+            FHE.gt(completionCount, 0)
+        );
+    }
+
+    /// @notice Add completions to and remove un-completions from the owner's statistics and extend the daily streak
+    /// @param owner The owner of the statistics
+    /// @param completions The encrypted number of todos that became completed
+    /// @param uncompletions The encrypted number of todos that stopped being completed
+    /// @param completing Whether anything became completed
+    function _applyCompletionStats(
+        address owner,
+        euint32 completions,
+        euint32 uncompletions,
+        ebool completing
+    ) private {
+        CompletionStats storage stats = _completionStats[owner];
+        if (!FHE.isInitialized(stats.totalCompleted)) {
+            stats.totalCompleted = FHE.asEuint32(0);
+        }
+        euint32 total = FHE.add(stats.totalCompleted, completions);
+        // Never wraps below zero, even for completions the stats did not count
+        stats.totalCompleted = FHE.sub(total, FHE.min(total, uncompletions));
+
+        uint256 today = currentDay();
+        if (stats.lastDay != today) {
+            // The streak carries over only from yesterday, and only if something was completed yesterday
+            stats.streak = stats.lastDay + 1 == today
+                ? FHE.select(stats.completedOnLastDay, stats.streak, FHE.asEuint32(0))
+                : FHE.asEuint32(0);
+            stats.completedOnLastDay = FHE.asEbool(false);
+            stats.lastDay = today;
+        }
+
+        // The first completion of the day extends the streak
+        stats.streak = FHE.select(
+            FHE.and(completing, FHE.not(stats.completedOnLastDay)),
+            FHE.add(stats.streak, 1),
+            stats.streak
+        );
+        stats.completedOnLastDay = FHE.or(stats.completedOnLastDay, completing);
+
+        FHE.allowThis(stats.totalCompleted);
+        FHE.allow(stats.totalCompleted, owner);
+        FHE.allowThis(stats.streak);
+        FHE.allow(stats.streak, owner);
+        FHE.allowThis(stats.completedOnLastDay);
+        FHE.allow(stats.completedOnLastDay, owner);
+    }
+
+    /// @notice Sum of the first count entries of an array, added pairwise (overwrites the array)
+    /// @param values The encrypted values to add
+    /// @param count The number of entries in use, at least one
+    /// @return sum The encrypted sum
+    function _sum(euint8[] memory values, uint256 count) private returns (euint8 sum) {
+        for (uint256 width = count; width > 1; width = (width + 1) / 2) {
+            for (uint256 i = 0; i < width / 2; ++i) {
+                values[i] = FHE.add(values[2 * i], values[2 * i + 1]);
+            }
+            if (width % 2 == 1) {
+                values[width / 2] = values[width - 1];
+            }
+        }
+        return values[0];
+    }
+
+    /// @notice Append a revision with the given id and text chunks to one of the sender's todos
+    /// @param todoIndex The index of the todo
+    /// @param id The encrypted todo ID of the revision
+    /// @param encryptedText The encrypted UTF-8 text chunks of the revision
+    /// @param textProof The FHE input proof shared by all encryptedText chunks
+    /// @return revision The number of the new revision
+    function _addRevision(
+        uint256 todoIndex,
+        euint32 id,
+        externalEuint256[] calldata encryptedText,
+        bytes calldata textProof
+    ) private returns (uint256 revision) {
+        require(encryptedText.length > 0, TodoTextEmpty());
+        require(encryptedText.length < MAX_TEXT_CHUNKS + 1, TodoTextTooLong());
+
+        TodoRevision[] storage revisions = _todoRevisions[msg.sender][todoIndex];
+        TodoRevision storage rev = revisions.push();
+        rev.id = id;
+        rev.timestamp = block.timestamp;
+
+        for (uint256 i = 0; i < encryptedText.length; ++i) {
+            euint256 chunk = FHE.fromExternal(encryptedText[i], textProof);
+            rev.text.push(chunk);
+
+            _allowTodo(msg.sender, todoIndex, chunk);
+        }
+
+        return revisions.length - 1;
+    }
+
+    /// @notice Grant an account access to the current handles of one of the owner's todos (id, completion status,
+    ///         metadata, due date, overdue flag, tags and text of the current revision)
+    /// @param owner The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param account The account to grant access to
+    function _allowCurrentHandles(address owner, uint256 todoIndex, address account) private {
+        EncryptedTodo storage todo = _userTodos[owner][todoIndex];
+        FHE.allow(todo.id, account);
+        FHE.allow(todo.completed, account);
+        FHE.allow(todo.meta, account);
+
+        euint64 dueDate = _dueDates[owner][todoIndex];
+        if (FHE.isInitialized(dueDate)) {
+            FHE.allow(dueDate, account);
+        }
+        ebool overdue = _overdue[owner][todoIndex];
+        if (FHE.isInitialized(overdue)) {
+            FHE.allow(overdue, account);
+        }
+        euint32 tags = _tags[owner][todoIndex];
+        if (FHE.isInitialized(tags)) {
+            FHE.allow(tags, account);
+        }
+
+        ebool completedToday = _dailyCompletion[owner][todoIndex][currentDay()];
+        if (todo.recurring && FHE.isInitialized(completedToday)) {
+            FHE.allow(completedToday, account);
+        }
+
+        TodoRevision[] storage revisions = _todoRevisions[owner][todoIndex];
+        euint256[] storage text = revisions[revisions.length - 1].text;
+        for (uint256 i = 0; i < text.length; ++i) {
+            FHE.allow(text[i], account);
+        }
+    }
+
+    /// @notice Remove a todo from the todos assigned to an account (swap and pop)
+    /// @param assignee The account the todo is assigned to
+    /// @param owner The owner of the todo
+    /// @param todoIndex The index of the todo
+    function _removeAssignment(address assignee, address owner, uint256 todoIndex) private {
+        uint256 position = _assignedTodoPositions[assignee][owner][todoIndex];
+        AssignedTodo[] storage todos = _assignedTodos[assignee];
+        AssignedTodo storage last = todos[todos.length - 1];
+        todos[position - 1] = last;
+        _assignedTodoPositions[assignee][last.owner][last.todoIndex] = position;
+        todos.pop();
+        delete _assignedTodoPositions[assignee][owner][todoIndex];
+    }
+
+    /// @notice Accounts that may decrypt the handles of one of the owner's todos: the owner, the owner's
+    ///         collaborators and the todo's assignee
+    /// @param owner The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @return readers The owner, then the collaborators, then the assignee if there is one
+    function _todoReaders(address owner, uint256 todoIndex) private view returns (address[] memory readers) {
+        address[] storage collaborators = _collaborators[owner];
+        address assignee = _assignees[owner][todoIndex];
+        readers = new address[](collaborators.length + (assignee == address(0) ? 1 : 2));
+        readers[0] = owner;
+        for (uint256 i = 0; i < collaborators.length; ++i) {
+            readers[i + 1] = collaborators[i];
+        }
+        if (assignee != address(0)) {
+            readers[readers.length - 1] = assignee;
+        }
+        return readers;
+    }
+
+    /// @notice Grant the contract and the readers of one of the owner's todos access to a new handle of the todo
+    /// @param owner The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param handle The new handle
+    function _allowTodo(address owner, uint256 todoIndex, euint32 handle) private {
+        FHE.allowThis(handle);
+        address[] memory readers = _todoReaders(owner, todoIndex);
+        for (uint256 i = 0; i < readers.length; ++i) {
+            FHE.allow(handle, readers[i]);
+        }
+    }
+
+    /// @notice Same as _allowTodo(address, uint256, euint32), for completion statuses
+    /// @param owner The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param handle The new handle
+    function _allowTodo(address owner, uint256 todoIndex, ebool handle) private {
+        FHE.allowThis(handle);
+        address[] memory readers = _todoReaders(owner, todoIndex);
+        for (uint256 i = 0; i < readers.length; ++i) {
+            FHE.allow(handle, readers[i]);
+        }
+    }
+
+    /// @notice Same as _allowTodo(address, uint256, euint32), for due dates
+    /// @param owner The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param handle The new handle
+    function _allowTodo(address owner, uint256 todoIndex, euint64 handle) private {
+        FHE.allowThis(handle);
+        address[] memory readers = _todoReaders(owner, todoIndex);
+        for (uint256 i = 0; i < readers.length; ++i) {
+            FHE.allow(handle, readers[i]);
+        }
+    }
+
+    /// @notice Same as _allowTodo(address, uint256, euint32), for text chunks
+    /// @param owner The owner of the todo
+    /// @param todoIndex The index of the todo
+    /// @param handle The new handle
+    function _allowTodo(address owner, uint256 todoIndex, euint256 handle) private {
+        FHE.allowThis(handle);
+        address[] memory readers = _todoReaders(owner, todoIndex);
+        for (uint256 i = 0; i < readers.length; ++i) {
+            FHE.allow(handle, readers[i]);
+        }
+    }
+}
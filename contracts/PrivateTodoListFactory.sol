@@ -0,0 +1,155 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {PrivateTodoList} from "./PrivateTodoList.sol";
+
+/// @title PrivateTodoListFactory - Registry of named to-do lists
+/// @author keykeeper-daily-log
+/// @notice Deploys one PrivateTodoList instance per named list (e.g. work, personal, health) and keeps the
+///         lists of every owner
+/// @dev A list is the owner's todos in its instance, so todos, events, sync cursors and decryption signatures
+///      stay separate per list without changing the PrivateTodoList interface
+/// @dev Instances are not restricted to their owner: like the default deployment, an instance is a namespace per
+///      caller, where any account can keep its own todos but never write (or, unless shared, read) another
+///      account's. Owning a list means having named it: only the owner can rename it, and the UI lists it as theirs
+/// @dev List names are stored in plaintext: they are visible to anyone, unlike the todos themselves
+/// @dev The PrivateTodoList creation code does not fit in the factory's runtime code next to the factory's own
+///      (24KB code size limit), but it fits in its creation code (48KB limit): the constructor stores it once in a
+///      blueprint contract, and createList deploys instances from there
+contract PrivateTodoListFactory {
+    /// @notice Maximum length of a list name in bytes
+    uint256 public constant MAX_LIST_NAME_LENGTH = 64;
+
+    /// @notice Maximum number of lists per owner (keeps getLists within RPC gas limits)
+    uint256 public constant MAX_LISTS_PER_OWNER = 64;
+
+    // One list of an owner
+    struct TodoListInfo {
+        address list; // PrivateTodoList instance of the list
+        uint64 createdAt; // Plaintext creation timestamp
+        string name; // Plaintext list name
+    }
+
+    // Mapping from owner address to their lists, in creation order
+    mapping(address owner => TodoListInfo[] lists) private _ownerLists;
+
+    // Mapping from list instance to its index in the owner's lists plus one (0 = not a list of that owner)
+    mapping(address owner => mapping(address list => uint256 position)) private _listPositions;
+
+    /// @notice The account that created (and named) each list instance
+    mapping(address list => address owner) public listOwner;
+
+    // Contract whose code is the PrivateTodoList creation code, prefixed with STOP so that it cannot be called
+    address private immutable _LIST_BLUEPRINT;
+
+    /// @notice Emitted when an owner creates a list
+    /// @param owner The account that created the list
+    /// @param list The address of the new PrivateTodoList instance
+    /// @param name The list name
+    /// @param timestamp The block timestamp
+    event ListCreated(address indexed owner, address indexed list, string name, uint256 indexed timestamp);
+
+    /// @notice Emitted when an owner renames one of their lists
+    /// @param owner The owner of the list
+    /// @param list The address of the list instance
+    /// @param name The new list name
+    /// @param timestamp The block timestamp
+    event ListRenamed(address indexed owner, address indexed list, string name, uint256 indexed timestamp);
+
+    /// @notice Thrown when the blueprint holding the PrivateTodoList creation code could not be deployed
+    error BlueprintDeploymentFailed();
+
+    /// @notice Thrown when a PrivateTodoList instance could not be deployed
+    error ListDeploymentFailed();
+
+    /// @notice Thrown when the caller already has MAX_LISTS_PER_OWNER lists
+    error TooManyLists();
+
+    /// @notice Thrown when renaming a list the caller did not create
+    error NotYourList();
+
+    /// @notice Thrown when a list name is empty
+    error ListNameEmpty();
+
+    /// @notice Thrown when a list name is longer than MAX_LIST_NAME_LENGTH bytes
+    error ListNameTooLong();
+
+    /// @notice Store the PrivateTodoList creation code in the blueprint
+    constructor() {
+        bytes memory code = abi.encodePacked(hex"00", type(PrivateTodoList).creationCode);
+        // Creation code returning the code after it: PUSH2 size, DUP1, PUSH1 12, PUSH1 0, CODECOPY, PUSH1 0, RETURN
+        bytes memory blueprintCode = abi.encodePacked(hex"61", uint16(code.length), hex"80600c6000396000f3", code);
+        address blueprint;
+        // Solidity can only deploy contracts it compiled itself, not creation code held in memory
+        // solhint-disable-next-line no-inline-assembly
+        assembly ("memory-safe") {
+            blueprint := create(0, add(blueprintCode, 0x20), mload(blueprintCode))
+        }
+        require(blueprint != address(0), BlueprintDeploymentFailed());
+        _LIST_BLUEPRINT = blueprint;
+    }
+
+    /// @notice Create a new named list for the caller
+    /// @param name The list name (1 to MAX_LIST_NAME_LENGTH bytes, public)
+    /// @return list The address of the PrivateTodoList instance of the list
+    function createList(string calldata name) external returns (address list) {
+        _requireValidName(name);
+        require(_ownerLists[msg.sender].length < MAX_LISTS_PER_OWNER, TooManyLists());
+
+        list = _deployList();
+        _ownerLists[msg.sender].push(TodoListInfo({list: list, createdAt: uint64(block.timestamp), name: name}));
+        _listPositions[msg.sender][list] = _ownerLists[msg.sender].length;
+        listOwner[list] = msg.sender;
+
+        emit ListCreated(msg.sender, list, name, block.timestamp);
+    }
+
+    /// @notice Rename one of the caller's lists
+    /// @param list The address of the list instance
+    /// @param name The new list name (1 to MAX_LIST_NAME_LENGTH bytes, public)
+    function renameList(address list, string calldata name) external {
+        _requireValidName(name);
+        uint256 position = _listPositions[msg.sender][list];
+        require(position != 0, NotYourList());
+
+        _ownerLists[msg.sender][position - 1].name = name;
+
+        emit ListRenamed(msg.sender, list, name, block.timestamp);
+    }
+
+    /// @notice Get the lists of an owner, in creation order
+    /// @param owner The owner address
+    /// @return lists The lists of the owner
+    function getLists(address owner) external view returns (TodoListInfo[] memory lists) {
+        return _ownerLists[owner];
+    }
+
+    /// @notice Get the number of lists of an owner
+    /// @param owner The owner address
+    /// @return count The number of lists
+    function getListCount(address owner) external view returns (uint256 count) {
+        return _ownerLists[owner].length;
+    }
+
+    /// @notice Deploy a PrivateTodoList instance from the creation code stored in the blueprint
+    /// @return list The address of the new instance
+    function _deployList() private returns (address list) {
+        address blueprint = _LIST_BLUEPRINT;
+        uint256 size = blueprint.code.length - 1;
+        // See the constructor: the creation code is not known to the compiler
+        // solhint-disable-next-line no-inline-assembly
+        assembly ("memory-safe") {
+            let initCode := mload(0x40)
+            extcodecopy(blueprint, initCode, 1, size)
+            list := create(0, initCode, size)
+        }
+        require(list != address(0), ListDeploymentFailed());
+    }
+
+    /// @notice Revert unless a list name is 1 to MAX_LIST_NAME_LENGTH bytes long
+    /// @param name The list name
+    function _requireValidName(string calldata name) private pure {
+        require(bytes(name).length > 0, ListNameEmpty());
+        require(bytes(name).length < MAX_LIST_NAME_LENGTH + 1, ListNameTooLong());
+    }
+}
@@ -18,7 +18,14 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   });
 
   console.log(`PrivateTodoList contract: `, deployedPrivateTodoList.address);
+
+  const deployedPrivateTodoListFactory = await deploy("PrivateTodoListFactory", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`PrivateTodoListFactory contract: `, deployedPrivateTodoListFactory.address);
 };
 export default func;
 func.id = "deploy_contracts"; // id required to prevent reexecution
-func.tags = ["FHECounter", "PrivateTodoList"];
+func.tags = ["FHECounter", "PrivateTodoList", "PrivateTodoListFactory"];
@@ -1,66 +1,333 @@
-// Simple encryption utility using Web Crypto API
-// In production, you'd want to use the wallet signature for encryption key derivation
+// Encryption utilities using the Web Crypto API
+//
+// encryptData produces a versioned JSON envelope:
+//   { "v": 1, "alg": "AES-256-GCM", "kdf": "PBKDF2-SHA256" | "HKDF-SHA256", "iter": <PBKDF2 only>,
+//     "salt": <base64>, "iv": <base64>, "ct": <base64> }
+// The AES key is derived from the secret and a random salt, with PBKDF2 for passwords or HKDF for
+// high-entropy secrets (e.g. wallet signatures). The header fields are authenticated as AES-GCM
+// additional data, so tampering with any part of the envelope makes decryption fail.
+// decryptData also reads the legacy format: base64 of IV + ciphertext, keyed by the secret padded to 32 bytes.
+//
+// encryptWithKey, for keys derived elsewhere (e.g. deriveKeyFromSecret), produces a keyed envelope:
+//   { "v": 1, "alg": "AES-256-GCM", "kid": <key id, optional>, "iv": <base64>, "ct": <base64> }
+// with v, alg and kid authenticated as AES-GCM additional data, so data sealed under another key id is reported
+// as such instead of as a failed decryption. decryptWithKey also reads the legacy format: base64 of IV + ciphertext.
 
-export const encryptData = async (data: string, key: string): Promise<string> => {
+export const ENVELOPE_VERSION = 1;
+export const ENVELOPE_ALGORITHM = 'AES-256-GCM';
+export const PBKDF2_ITERATIONS = 600000;
+// Upper bound on the iterations accepted from an envelope, so a crafted one cannot stall decryption
+const MAX_PBKDF2_ITERATIONS = 10000000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export type KeyDerivation = 'PBKDF2-SHA256' | 'HKDF-SHA256';
+
+// Web Crypto key, spelled without the DOM lib's global CryptoKey so this file also type-checks under Node
+export type AesKey = Awaited<ReturnType<typeof crypto.subtle.importKey>>;
+
+export interface EncryptOptions {
+  kdf?: KeyDerivation; // Defaults to PBKDF2-SHA256
+  iterations?: number; // PBKDF2 only, defaults to PBKDF2_ITERATIONS
+}
+
+interface Envelope {
+  v: number;
+  alg: string;
+  kdf: KeyDerivation;
+  iter?: number;
+  salt: string;
+  iv: string;
+  ct: string;
+}
+
+interface KeyedEnvelope {
+  v: number;
+  alg: string;
+  kid?: string;
+  iv: string;
+  ct: string;
+}
+
+export type EncryptionErrorCode =
+  | 'ENCRYPTION_FAILED'
+  | 'INVALID_ENVELOPE'
+  | 'UNSUPPORTED_VERSION'
+  | 'UNSUPPORTED_ALGORITHM'
+  | 'UNSUPPORTED_KEY'
+  | 'DECRYPTION_FAILED';
+
+export class EncryptionError extends Error {
+  readonly code: EncryptionErrorCode;
+
+  constructor(code: EncryptionErrorCode, message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+    this.code = code;
+  }
+}
+
+// The data is not an envelope this version can read
+export class EnvelopeFormatError extends EncryptionError {
+  constructor(
+    code: 'INVALID_ENVELOPE' | 'UNSUPPORTED_VERSION' | 'UNSUPPORTED_ALGORITHM' | 'UNSUPPORTED_KEY',
+    message: string
+  ) {
+    super(code, message);
+    this.name = 'EnvelopeFormatError';
+  }
+}
+
+// Wrong secret, or the envelope was tampered with
+export class DecryptionError extends EncryptionError {
+  constructor(message: string = 'Decryption failed: wrong key or tampered data') {
+    super('DECRYPTION_FAILED', message);
+    this.name = 'DecryptionError';
+  }
+}
+
+// Base64 in slices, so large payloads do not exceed the argument limit of String.fromCharCode
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (value: string, field: string): Uint8Array => {
   try {
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(data);
-    const keyBuffer = encoder.encode(key.padEnd(32, '0').slice(0, 32));
-
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      keyBuffer,
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['encrypt']
-    );
+    return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+  } catch {
+    throw new EnvelopeFormatError('INVALID_ENVELOPE', `Invalid base64 in ${field}`);
+  }
+};
 
-    const iv = crypto.getRandomValues(new Uint8Array(12));
+// Header fields in a fixed order, authenticated as AES-GCM additional data
+const envelopeHeader = (envelope: Pick<Envelope, 'v' | 'alg' | 'kdf' | 'iter' | 'salt'>): Uint8Array => {
+  return new TextEncoder().encode(
+    JSON.stringify([envelope.v, envelope.alg, envelope.kdf, envelope.iter ?? null, envelope.salt])
+  );
+};
+
+const keyedEnvelopeHeader = (envelope: Pick<KeyedEnvelope, 'v' | 'alg' | 'kid'>): Uint8Array => {
+  return new TextEncoder().encode(JSON.stringify([envelope.v, envelope.alg, envelope.kid ?? null]));
+};
+
+const deriveEnvelopeKey = async (
+  secret: string,
+  kdf: KeyDerivation,
+  salt: Uint8Array,
+  iterations: number | undefined
+): Promise<AesKey> => {
+  const secretBytes = new TextEncoder().encode(secret);
+  const algorithm = kdf === 'PBKDF2-SHA256'
+    ? { name: 'PBKDF2', hash: 'SHA-256', salt, iterations }
+    : { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(ENVELOPE_ALGORITHM) };
+  const baseKey = await crypto.subtle.importKey('raw', secretBytes, algorithm.name, false, ['deriveKey']);
+  return crypto.subtle.deriveKey(algorithm, baseKey, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+};
+
+export const encryptData = async (data: string, key: string, options: EncryptOptions = {}): Promise<string> => {
+  const kdf = options.kdf ?? 'PBKDF2-SHA256';
+  const iterations = kdf === 'PBKDF2-SHA256' ? options.iterations ?? PBKDF2_ITERATIONS : undefined;
+  if (iterations !== undefined && (!Number.isInteger(iterations) || iterations < 1)) {
+    throw new EncryptionError('ENCRYPTION_FAILED', 'PBKDF2 iterations must be a positive integer');
+  }
+
+  try {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const header = {
+      v: ENVELOPE_VERSION,
+      alg: ENVELOPE_ALGORITHM,
+      kdf,
+      ...(iterations !== undefined && { iter: iterations }),
+      salt: bytesToBase64(salt),
+    };
+
+    const cryptoKey = await deriveEnvelopeKey(key, kdf, salt, iterations);
     const encryptedBuffer = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
+      { name: 'AES-GCM', iv, additionalData: envelopeHeader(header) },
       cryptoKey,
-      dataBuffer
+      new TextEncoder().encode(data)
     );
 
-    const encryptedArray = new Uint8Array(encryptedBuffer);
-    const combined = new Uint8Array(iv.length + encryptedArray.length);
-    combined.set(iv);
-    combined.set(encryptedArray, iv.length);
-
-    return btoa(String.fromCharCode(...combined));
+    const envelope: Envelope = { ...header, iv: bytesToBase64(iv), ct: bytesToBase64(new Uint8Array(encryptedBuffer)) };
+    return JSON.stringify(envelope);
   } catch (error) {
-    console.error('Encryption error:', error);
-    return data; // Fallback to unencrypted
+    throw new EncryptionError('ENCRYPTION_FAILED', `Encryption failed: ${error instanceof Error ? error.message : String(error)}`);
   }
 };
 
-export const decryptData = async (encryptedData: string, key: string): Promise<string> => {
+// A JSON object with a supported version and algorithm
+const parseEnvelopeObject = (encryptedData: string): Record<string, unknown> => {
+  let value: unknown;
   try {
-    const encoder = new TextEncoder();
-    const keyBuffer = encoder.encode(key.padEnd(32, '0').slice(0, 32));
-
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      keyBuffer,
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['decrypt']
+    value = JSON.parse(encryptedData);
+  } catch {
+    throw new EnvelopeFormatError('INVALID_ENVELOPE', 'Envelope is not valid JSON');
+  }
+  if (typeof value !== 'object' || value === null) {
+    throw new EnvelopeFormatError('INVALID_ENVELOPE', 'Envelope must be an object');
+  }
+
+  const envelope = value as Record<string, unknown>;
+  if (envelope.v !== ENVELOPE_VERSION) {
+    throw new EnvelopeFormatError('UNSUPPORTED_VERSION', `Unsupported envelope version: ${String(envelope.v)}`);
+  }
+  if (envelope.alg !== ENVELOPE_ALGORITHM) {
+    throw new EnvelopeFormatError('UNSUPPORTED_ALGORITHM', `Unsupported algorithm: ${String(envelope.alg)}`);
+  }
+  return envelope;
+};
+
+const parseEnvelope = (encryptedData: string): Envelope => {
+  const envelope = parseEnvelopeObject(encryptedData);
+  if (envelope.kdf !== 'PBKDF2-SHA256' && envelope.kdf !== 'HKDF-SHA256') {
+    throw new EnvelopeFormatError('UNSUPPORTED_ALGORITHM', `Unsupported key derivation: ${String(envelope.kdf)}`);
+  }
+  if (envelope.kdf === 'PBKDF2-SHA256') {
+    const iter = envelope.iter;
+    if (typeof iter !== 'number' || !Number.isInteger(iter) || iter < 1 || iter > MAX_PBKDF2_ITERATIONS) {
+      throw new EnvelopeFormatError('INVALID_ENVELOPE', 'Invalid PBKDF2 iteration count');
+    }
+  } else if (envelope.iter !== undefined) {
+    throw new EnvelopeFormatError('INVALID_ENVELOPE', 'HKDF envelopes have no iteration count');
+  }
+  for (const field of ['salt', 'iv', 'ct']) {
+    if (typeof envelope[field] !== 'string') {
+      throw new EnvelopeFormatError('INVALID_ENVELOPE', `Envelope field ${field} is missing`);
+    }
+  }
+  return envelope as unknown as Envelope;
+};
+
+// Format written by earlier versions of encryptData
+const decryptLegacyData = async (encryptedData: string, key: string): Promise<string> => {
+  const combined = base64ToBytes(encryptedData, 'legacy data');
+  if (combined.length <= IV_BYTES) {
+    throw new EnvelopeFormatError('INVALID_ENVELOPE', 'Legacy data is too short');
+  }
+
+  try {
+    const keyBuffer = new TextEncoder().encode(key.padEnd(32, '0').slice(0, 32));
+    const cryptoKey = await crypto.subtle.importKey('raw', keyBuffer, { name: 'AES-GCM', length: 256 }, false, ['decrypt']);
+    const decryptedBuffer = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: combined.slice(0, IV_BYTES) },
+      cryptoKey,
+      combined.slice(IV_BYTES)
     );
+    return new TextDecoder().decode(decryptedBuffer);
+  } catch {
+    throw new DecryptionError();
+  }
+};
 
-    const combined = Uint8Array.from(atob(encryptedData), c => c.charCodeAt(0));
-    const iv = combined.slice(0, 12);
-    const encryptedBuffer = combined.slice(12);
+export const decryptData = async (encryptedData: string, key: string): Promise<string> => {
+  if (!encryptedData.trimStart().startsWith('{')) {
+    return decryptLegacyData(encryptedData, key);
+  }
 
+  const envelope = parseEnvelope(encryptedData);
+  const salt = base64ToBytes(envelope.salt, 'salt');
+  const iv = base64ToBytes(envelope.iv, 'iv');
+  const ciphertext = base64ToBytes(envelope.ct, 'ct');
+  if (salt.length !== SALT_BYTES || iv.length !== IV_BYTES) {
+    throw new EnvelopeFormatError('INVALID_ENVELOPE', 'Invalid salt or IV length');
+  }
+
+  try {
+    const cryptoKey = await deriveEnvelopeKey(key, envelope.kdf, salt, envelope.iter);
     const decryptedBuffer = await crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv },
+      { name: 'AES-GCM', iv, additionalData: envelopeHeader(envelope) },
       cryptoKey,
-      encryptedBuffer
+      ciphertext
     );
+    return new TextDecoder().decode(decryptedBuffer);
+  } catch {
+    throw new DecryptionError();
+  }
+};
 
-    const decoder = new TextDecoder();
-    return decoder.decode(decryptedBuffer);
-  } catch (error) {
-    console.error('Decryption error:', error);
-    return encryptedData; // Fallback to encrypted
+// AES-GCM key derived with HKDF-SHA256 from high-entropy secret material (e.g. a wallet signature)
+export const deriveKeyFromSecret = async (
+  secret: Uint8Array,
+  salt: Uint8Array,
+  info: string
+): Promise<AesKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(info) },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const parseKeyedEnvelope = (encryptedData: string, keyId: string | undefined): KeyedEnvelope => {
+  const envelope = parseEnvelopeObject(encryptedData);
+  if (envelope.kid !== keyId) {
+    throw new EnvelopeFormatError('UNSUPPORTED_KEY', `Sealed with another key: ${String(envelope.kid)}`);
+  }
+  for (const field of ['iv', 'ct']) {
+    if (typeof envelope[field] !== 'string') {
+      throw new EnvelopeFormatError('INVALID_ENVELOPE', `Envelope field ${field} is missing`);
+    }
+  }
+  return envelope as unknown as KeyedEnvelope;
+};
+
+// Encrypt with an already derived key into a keyed envelope; keyId names the key (e.g. its derivation)
+export const encryptWithKey = async (data: string, key: AesKey, keyId?: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const header = { v: ENVELOPE_VERSION, alg: ENVELOPE_ALGORITHM, ...(keyId !== undefined && { kid: keyId }) };
+  const encryptedBuffer = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: keyedEnvelopeHeader(header) },
+    key,
+    new TextEncoder().encode(data)
+  );
+
+  const envelope: KeyedEnvelope = { ...header, iv: bytesToBase64(iv), ct: bytesToBase64(new Uint8Array(encryptedBuffer)) };
+  return JSON.stringify(envelope);
+};
+
+// Format written by earlier versions of encryptWithKey
+const decryptLegacyWithKey = async (encryptedData: string, key: AesKey): Promise<string> => {
+  const combined = base64ToBytes(encryptedData, 'data');
+  try {
+    const decryptedBuffer = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: combined.slice(0, IV_BYTES) },
+      key,
+      combined.slice(IV_BYTES)
+    );
+    return new TextDecoder().decode(decryptedBuffer);
+  } catch {
+    throw new DecryptionError();
+  }
+};
+
+export const decryptWithKey = async (encryptedData: string, key: AesKey, keyId?: string): Promise<string> => {
+  if (!encryptedData.trimStart().startsWith('{')) {
+    return decryptLegacyWithKey(encryptedData, key);
+  }
+
+  const envelope = parseKeyedEnvelope(encryptedData, keyId);
+  const iv = base64ToBytes(envelope.iv, 'iv');
+  const ciphertext = base64ToBytes(envelope.ct, 'ct');
+  if (iv.length !== IV_BYTES) {
+    throw new EnvelopeFormatError('INVALID_ENVELOPE', 'Invalid IV length');
+  }
+
+  try {
+    const decryptedBuffer = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: keyedEnvelopeHeader(envelope) },
+      key,
+      ciphertext
+    );
+    return new TextDecoder().decode(decryptedBuffer);
+  } catch {
+    throw new DecryptionError();
   }
 };
@@ -0,0 +1,71 @@
+// Todo text is stored on-chain as UTF-8 bytes split into 32-byte euint256 chunks.
+// The last chunk is right-padded with zero bytes, which are stripped again on decode.
+
+export const TODO_TEXT_CHUNK_BYTES = 32;
+// Must match PrivateTodoList.MAX_TEXT_CHUNKS
+export const MAX_TODO_TEXT_CHUNKS = 8;
+export const MAX_TODO_TEXT_BYTES = TODO_TEXT_CHUNK_BYTES * MAX_TODO_TEXT_CHUNKS;
+
+export const todoTextByteLength = (text: string): number => {
+  return new TextEncoder().encode(text).length;
+};
+
+export const encodeTodoText = (text: string): bigint[] => {
+  const bytes = new TextEncoder().encode(text);
+  if (bytes.length === 0) {
+    throw new Error("Todo text cannot be empty");
+  }
+  if (bytes.length > MAX_TODO_TEXT_BYTES) {
+    throw new Error(`Todo text is too long (max ${MAX_TODO_TEXT_BYTES} bytes)`);
+  }
+
+  const chunks: bigint[] = [];
+  for (let offset = 0; offset < bytes.length; offset += TODO_TEXT_CHUNK_BYTES) {
+    const chunk = new Uint8Array(TODO_TEXT_CHUNK_BYTES);
+    chunk.set(bytes.slice(offset, offset + TODO_TEXT_CHUNK_BYTES));
+    let value = 0n;
+    for (const byte of chunk) {
+      value = (value << 8n) | BigInt(byte);
+    }
+    chunks.push(value);
+  }
+  return chunks;
+};
+
+export const decodeTodoText = (chunks: Array<bigint | number | string>): string => {
+  const bytes = new Uint8Array(chunks.length * TODO_TEXT_CHUNK_BYTES);
+  chunks.forEach((chunk, chunkIndex) => {
+    let value = BigInt(chunk);
+    for (let i = TODO_TEXT_CHUNK_BYTES - 1; i >= 0; i--) {
+      bytes[chunkIndex * TODO_TEXT_CHUNK_BYTES + i] = Number(value & 0xffn);
+      value >>= 8n;
+    }
+  });
+
+  let end = bytes.length;
+  while (end > 0 && bytes[end - 1] === 0) {
+    end--;
+  }
+  return new TextDecoder().decode(bytes.slice(0, end));
+};
+
+// Group the chunk lists of several todos so that each group fits in a single input proof
+// (at most MAX_TODO_TEXT_CHUNKS chunks). Returns the todo indices of every group, in order.
+export const groupTodoTextChunks = (chunkLists: bigint[][]): number[][] => {
+  const groups: number[][] = [];
+  let current: number[] = [];
+  let currentChunks = 0;
+  chunkLists.forEach((chunks, index) => {
+    if (current.length > 0 && currentChunks + chunks.length > MAX_TODO_TEXT_CHUNKS) {
+      groups.push(current);
+      current = [];
+      currentChunks = 0;
+    }
+    current.push(index);
+    currentChunks += chunks.length;
+  });
+  if (current.length > 0) {
+    groups.push(current);
+  }
+  return groups;
+};
@@ -1,5 +1,30 @@
+import { FhevmType, type FhevmTypeEuint } from "@fhevm/hardhat-plugin";
 import { task } from "hardhat/config";
 import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import * as fs from "fs";
+import { exportTodos, parseTodoExportFormat, type ExportableTodo } from "../src/utils/todoExport";
+import { decodeTodoText } from "../src/utils/todoText";
+
+// ABI of the previous storage layout (euint32 completion status, separate euint8 category)
+const LEGACY_PRIVATE_TODO_LIST_ABI = [
+  "function getActiveTodoIndices(address user) view returns (uint256[])",
+  "function getTodo(address user, uint256 index) view returns (bytes32 encryptedId, bytes32 encryptedCompleted, uint256 timestamp)",
+  "function getTodoSchedule(address user, uint256 index) view returns (uint256 createdAt, uint256 createdDay, bool recurring)",
+  "function getTodoCompletionForDay(address user, uint256 index, uint256 day) view returns (bytes32 encryptedCompleted)",
+  "function getTodoCategory(address user, uint256 index) view returns (bytes32 encryptedCategory)",
+  "function getTodoText(address user, uint256 index) view returns (bytes32[] encryptedText)",
+  "function currentDay() view returns (uint256)",
+];
+
+// Todos per getTodos call when exporting (PrivateTodoList.MAX_PAGE_SIZE is the upper bound)
+const TODO_EXPORT_PAGE_SIZE = 50;
+
+// PrivateTodoList.TodoStatus.Active
+const TODO_STATUS_ACTIVE = 0n;
+
+// Labels of the daily-log categories stored in the low byte of the metadata word (see ui/src/utils/todoCategory.ts);
+// unknown values fall back to the last one, the default category
+const TODO_CATEGORY_LABELS = ["Sleep", "Exercise", "Daily Tasks"];
 
 task("privateTodoList:deploy", "Deploy PrivateTodoList contract")
   .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
@@ -40,3 +65,180 @@ task("privateTodoList:getCount", "Get todo count for a user")
     console.log(`Todo count for ${taskArgs.address}: ${count}`);
   });
 
+task("privateTodoList:getActive", "Get the indices of active (not archived or deleted) todos for a user")
+  .addParam("address", "User address")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { ethers, deployments } = hre;
+    const PrivateTodoListDeployment = await deployments.get("PrivateTodoList");
+    const privateTodoList = await ethers.getContractAt(
+      "PrivateTodoList",
+      PrivateTodoListDeployment.address
+    );
+
+    const indices = await privateTodoList.getActiveTodoIndices(taskArgs.address);
+    console.log(`Active todos for ${taskArgs.address}: [${indices.join(", ")}]`);
+  });
+
+task("privateTodoList:archive", "Archive a todo of the first signer")
+  .addParam("index", "Todo index")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { ethers, deployments } = hre;
+    const [signer] = await ethers.getSigners();
+    const PrivateTodoListDeployment = await deployments.get("PrivateTodoList");
+    const privateTodoList = await ethers.getContractAt(
+      "PrivateTodoList",
+      PrivateTodoListDeployment.address
+    );
+
+    const tx = await privateTodoList.connect(signer).archiveTodo(taskArgs.index);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`Todo ${taskArgs.index} archived for ${signer.address} (status=${receipt?.status})`);
+  });
+
+task("privateTodoList:delete", "Delete (tombstone) a todo of the first signer")
+  .addParam("index", "Todo index")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { ethers, deployments } = hre;
+    const [signer] = await ethers.getSigners();
+    const PrivateTodoListDeployment = await deployments.get("PrivateTodoList");
+    const privateTodoList = await ethers.getContractAt(
+      "PrivateTodoList",
+      PrivateTodoListDeployment.address
+    );
+
+    const tx = await privateTodoList.connect(signer).deleteTodo(taskArgs.index);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`Todo ${taskArgs.index} deleted for ${signer.address} (status=${receipt?.status})`);
+  });
+
+task("privateTodoList:migrate", "Migrate the first signer's active todos from a deployment with the old layout")
+  .addParam("from", "Address of the PrivateTodoList deployment using the previous layout")
+  .addOptionalParam("to", "Address of the new PrivateTodoList deployment (defaults to the saved deployment)")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const [signer] = await ethers.getSigners();
+    const toAddress = taskArgs.to ?? (await deployments.get("PrivateTodoList")).address;
+    const legacy = new ethers.Contract(taskArgs.from, LEGACY_PRIVATE_TODO_LIST_ABI, ethers.provider);
+    const privateTodoList = await ethers.getContractAt("PrivateTodoList", toAddress);
+
+    const decrypt = (type: FhevmTypeEuint, handle: string) =>
+      fhevm.userDecryptEuint(type, handle, taskArgs.from, signer);
+
+    const indices: bigint[] = await legacy.getActiveTodoIndices(signer.address);
+    const today = await legacy.currentDay();
+    console.log(`Migrating ${indices.length} todos of ${signer.address} from ${taskArgs.from} to ${toAddress}...`);
+
+    for (const index of indices) {
+      const [encryptedId, encryptedCompleted] = await legacy.getTodo(signer.address, index);
+      const [createdAt, , recurring] = await legacy.getTodoSchedule(signer.address, index);
+      // Recurring todos only carry over today's completion status
+      const completedHandle: string = recurring
+        ? await legacy.getTodoCompletionForDay(signer.address, index, today)
+        : encryptedCompleted;
+      const encryptedText: string[] = await legacy.getTodoText(signer.address, index);
+
+      const id = await decrypt(FhevmType.euint32, encryptedId);
+      const completed =
+        completedHandle !== ethers.ZeroHash && (await decrypt(FhevmType.euint32, completedHandle)) === 1n;
+      const category = await decrypt(FhevmType.euint8, await legacy.getTodoCategory(signer.address, index));
+
+      const encryptedInput = await fhevm
+        .createEncryptedInput(toAddress, signer.address)
+        .add32(id)
+        .addBool(completed)
+        // Category in the low byte of the metadata word, no priority or flags
+        .add32(category)
+        .encrypt();
+      const textInput = fhevm.createEncryptedInput(toAddress, signer.address);
+      for (const chunk of encryptedText) {
+        textInput.add256(await decrypt(FhevmType.euint256, chunk));
+      }
+      const newText = await textInput.encrypt();
+
+      const tx = await privateTodoList
+        .connect(signer)
+        .importTodo(
+          encryptedInput.handles[0],
+          encryptedInput.handles[1],
+          encryptedInput.handles[2],
+          newText.handles,
+          encryptedInput.inputProof,
+          newText.inputProof,
+          recurring,
+          createdAt,
+        );
+      const receipt = await tx.wait();
+      console.log(`Todo ${index} migrated (tx:${tx.hash}, status=${receipt?.status})`);
+    }
+  });
+
+task("privateTodoList:export", "Decrypt a signer's active todos and export them as Markdown, CSV or iCalendar")
+  .addOptionalParam("format", "Export format: markdown, csv or ics", "markdown")
+  .addOptionalParam("out", "Output file (printed to stdout when omitted)")
+  .addOptionalParam("signer", "Index of the signer whose todos are exported", "0")
+  .addOptionalParam("address", "Address of the PrivateTodoList deployment (defaults to the saved deployment)")
+  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const format = parseTodoExportFormat(taskArgs.format);
+    const signer = (await ethers.getSigners())[Number(taskArgs.signer)];
+    if (!signer) {
+      throw new Error(`No signer at index ${taskArgs.signer}`);
+    }
+    const contractAddress = taskArgs.address ?? (await deployments.get("PrivateTodoList")).address;
+    const privateTodoList = await ethers.getContractAt("PrivateTodoList", contractAddress);
+
+    const decrypt = (type: FhevmTypeEuint, handle: string) =>
+      fhevm.userDecryptEuint(type, handle, contractAddress, signer);
+
+    const total = Number(await privateTodoList.getTodoCount(signer.address));
+    const todos: ExportableTodo[] = [];
+    for (let offset = 0; offset < total; offset += TODO_EXPORT_PAGE_SIZE) {
+      const [page] = await privateTodoList.getTodos(signer.address, offset, TODO_EXPORT_PAGE_SIZE);
+      for (const entry of page) {
+        // Archived and deleted todos are not part of the list
+        if (entry.status !== TODO_STATUS_ACTIVE) {
+          continue;
+        }
+
+        const chunks = [];
+        for (const chunk of entry.text) {
+          chunks.push(await decrypt(FhevmType.euint256, chunk));
+        }
+        // Recurring todos carry today's status, which is unset (zero handle) until toggled today
+        const completed =
+          entry.completed !== ethers.ZeroHash &&
+          (await fhevm.userDecryptEbool(entry.completed, contractAddress, signer));
+        const category = Number((await decrypt(FhevmType.euint32, entry.meta)) & 0xffn);
+
+        todos.push({
+          index: Number(entry.index),
+          text: decodeTodoText(chunks),
+          completed,
+          createdAt: Number(entry.createdAt),
+          updatedAt: Number(entry.timestamp),
+          category: TODO_CATEGORY_LABELS[category] ?? TODO_CATEGORY_LABELS[TODO_CATEGORY_LABELS.length - 1],
+        });
+      }
+    }
+
+    const chainId = (await ethers.provider.getNetwork()).chainId;
+    const output = exportTodos(todos, format, {
+      title: `Todos of ${signer.address}`,
+      uidDomain: `${chainId}.${contractAddress.toLowerCase()}.${signer.address.toLowerCase()}`,
+    });
+
+    if (taskArgs.out) {
+      fs.writeFileSync(taskArgs.out, output);
+      console.log(`Exported ${todos.length} todos of ${signer.address} to ${taskArgs.out}`);
+    } else {
+      process.stdout.write(output);
+    }
+  });
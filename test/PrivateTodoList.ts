@@ -2,7 +2,9 @@ import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { ethers, fhevm } from "hardhat";
 import { PrivateTodoList, PrivateTodoList__factory } from "../types";
 import { expect } from "chai";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 
 type Signers = {
   deployer: HardhatEthersSigner;
@@ -10,6 +12,100 @@ type Signers = {
   bob: HardhatEthersSigner;
 };
 
+// Category values used by the UI
+const SLEEP = 0;
+const EXERCISE = 1;
+const TASKS = 2;
+
+// Pack category, priority and flags into the encrypted metadata word (same layout as the contract)
+function packMeta(category: number, priority: number = 0, flags: number = 0): number {
+  return (category | (priority << 8) | (flags << 16)) >>> 0;
+}
+
+// Encode text as zero-padded 32-byte UTF-8 chunks (same layout as the UI)
+function textToChunks(text: string): bigint[] {
+  const bytes = ethers.toUtf8Bytes(text);
+  const chunks: bigint[] = [];
+  for (let i = 0; i < bytes.length; i += 32) {
+    chunks.push(BigInt(ethers.hexlify(ethers.zeroPadBytes(bytes.slice(i, i + 32), 32))));
+  }
+  return chunks;
+}
+
+function chunksToText(chunks: bigint[]): string {
+  const bytes = ethers.getBytes(ethers.concat(chunks.map((chunk) => ethers.toBeHex(chunk, 32))));
+  let end = bytes.length;
+  while (end > 0 && bytes[end - 1] === 0) {
+    end--;
+  }
+  return ethers.toUtf8String(bytes.slice(0, end));
+}
+
+async function encryptText(contractAddress: string, user: HardhatEthersSigner, text: string) {
+  const input = fhevm.createEncryptedInput(contractAddress, user.address);
+  for (const chunk of textToChunks(text)) {
+    input.add256(chunk);
+  }
+  return input.encrypt();
+}
+
+async function decryptText(
+  encryptedChunks: string[],
+  contractAddress: string,
+  user: HardhatEthersSigner,
+): Promise<string> {
+  const chunks: bigint[] = [];
+  for (const chunk of encryptedChunks) {
+    chunks.push(await fhevm.userDecryptEuint(FhevmType.euint256, chunk, contractAddress, user));
+  }
+  return chunksToText(chunks);
+}
+
+// The mock decryption rejects handles the user was not granted access to
+async function expectDecryptionDenied(decryption: Promise<unknown>) {
+  let denied = false;
+  try {
+    await decryption;
+  } catch {
+    denied = true;
+  }
+  expect(denied, "decryption should be denied").to.eq(true);
+}
+
+async function createTodo(
+  todoListContract: PrivateTodoList,
+  contractAddress: string,
+  user: HardhatEthersSigner,
+  text: string,
+  category: number = TASKS,
+  recurring: boolean = false,
+  tags: number = 0,
+) {
+  const todoIdUint32 = BigInt(ethers.id(text)) & BigInt("0xFFFFFFFF");
+
+  // Todo ID, metadata and tags share one input proof
+  const encryptedInput = await fhevm
+    .createEncryptedInput(contractAddress, user.address)
+    .add32(Number(todoIdUint32))
+    .add32(packMeta(category))
+    .add32(tags)
+    .encrypt();
+  const encryptedText = await encryptText(contractAddress, user, text);
+
+  const tx = await todoListContract
+    .connect(user)
+    .createTodo(
+      encryptedInput.handles[0],
+      encryptedInput.handles[1],
+      encryptedInput.handles[2],
+      encryptedText.handles,
+      encryptedInput.inputProof,
+      encryptedText.inputProof,
+      recurring,
+    );
+  await tx.wait();
+}
+
 async function deployFixture() {
   const factory = (await ethers.getContractFactory("PrivateTodoList")) as PrivateTodoList__factory;
   const todoListContract = (await factory.deploy()) as PrivateTodoList;
@@ -49,25 +145,26 @@ describe("PrivateTodoList", function () {
     const todoId = ethers.id(todoText);
     const todoIdUint32 = BigInt(todoId) & BigInt("0xFFFFFFFF");
     
-    // Encrypt todo ID as euint32
-    const encryptedId = await fhevm
+    // Encrypt todo ID, metadata (category) and tags (none) with one proof
+    const encryptedInput = await fhevm
       .createEncryptedInput(todoListContractAddress, signers.alice.address)
       .add32(Number(todoIdUint32))
-      .encrypt();
-
-    // Encrypt completion status as euint32 (0 = not completed)
-    const encryptedCompleted = await fhevm
-      .createEncryptedInput(todoListContractAddress, signers.alice.address)
+      .add32(packMeta(TASKS))
       .add32(0)
       .encrypt();
 
+    const encryptedText = await encryptText(todoListContractAddress, signers.alice, todoText);
+
     const tx = await todoListContract
       .connect(signers.alice)
       .createTodo(
-        encryptedId.handles[0],
-        encryptedCompleted.handles[0],
-        encryptedId.inputProof,
-        encryptedCompleted.inputProof
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        encryptedText.handles,
+        encryptedInput.inputProof,
+        encryptedText.inputProof,
+        false,
       );
     await tx.wait();
 
@@ -91,15 +188,77 @@ describe("PrivateTodoList", function () {
     );
 
     // Decrypt the completion status
-    const decryptedCompleted = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+    const decryptedCompleted = await fhevm.userDecryptEbool(
       encryptedTodoCompleted,
       todoListContractAddress,
       signers.alice,
     );
 
     expect(Number(decryptedId)).to.eq(Number(todoIdUint32));
-    expect(decryptedCompleted).to.eq(0);
+    expect(decryptedCompleted).to.eq(false);
+  });
+
+  it("should store the todo text encrypted on-chain", async function () {
+    const todoText = "Prepare slides for Monday's interview — print 3 copies";
+    const todoIdUint32 = BigInt(ethers.id(todoText)) & BigInt("0xFFFFFFFF");
+
+    // Encrypt todo ID, metadata (category) and tags (none) with one proof
+    const encryptedInput = await fhevm
+      .createEncryptedInput(todoListContractAddress, signers.alice.address)
+      .add32(Number(todoIdUint32))
+      .add32(packMeta(TASKS))
+      .add32(0)
+      .encrypt();
+
+    const encryptedText = await encryptText(todoListContractAddress, signers.alice, todoText);
+
+    const tx = await todoListContract
+      .connect(signers.alice)
+      .createTodo(
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        encryptedText.handles,
+        encryptedInput.inputProof,
+        encryptedText.inputProof,
+        false,
+      );
+    await tx.wait();
+
+    const encryptedChunks = await todoListContract.getTodoText(signers.alice.address, 0);
+    expect(encryptedChunks.length).to.eq(textToChunks(todoText).length);
+
+    const decryptedChunks: bigint[] = [];
+    for (const chunk of encryptedChunks) {
+      decryptedChunks.push(
+        await fhevm.userDecryptEuint(FhevmType.euint256, chunk, todoListContractAddress, signers.alice),
+      );
+    }
+
+    expect(chunksToText(decryptedChunks)).to.eq(todoText);
+  });
+
+  it("should reject todos without text", async function () {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(todoListContractAddress, signers.alice.address)
+      .add32(1)
+      .add32(packMeta(TASKS))
+      .add32(0)
+      .encrypt();
+
+    await expect(
+      todoListContract
+        .connect(signers.alice)
+        .createTodo(
+          encryptedInput.handles[0],
+          encryptedInput.handles[1],
+          encryptedInput.handles[2],
+          [],
+          encryptedInput.inputProof,
+          "0x",
+          false,
+        ),
+    ).to.be.revertedWithCustomError(todoListContract, "TodoTextEmpty");
   });
 
   it("should toggle todo completion status", async function () {
@@ -108,35 +267,31 @@ describe("PrivateTodoList", function () {
     const todoId = ethers.id(todoText);
     const todoIdUint32 = BigInt(todoId) & BigInt("0xFFFFFFFF");
     
-    const encryptedId = await fhevm
+    // Encrypt todo ID, metadata (category) and tags (none) with one proof
+    const encryptedInput = await fhevm
       .createEncryptedInput(todoListContractAddress, signers.alice.address)
       .add32(Number(todoIdUint32))
+      .add32(packMeta(TASKS))
+      .add32(0)
       .encrypt();
 
-      const encryptedCompleted = await fhevm
-        .createEncryptedInput(todoListContractAddress, signers.alice.address)
-        .add32(0)
-        .encrypt();
+    const encryptedText = await encryptText(todoListContractAddress, signers.alice, todoText);
 
     let tx = await todoListContract
       .connect(signers.alice)
       .createTodo(
-        encryptedId.handles[0],
-        encryptedCompleted.handles[0],
-        encryptedId.inputProof,
-        encryptedCompleted.inputProof
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        encryptedText.handles,
+        encryptedInput.inputProof,
+        encryptedText.inputProof,
+        false,
       );
     await tx.wait();
 
-    // Toggle to completed (1)
-    const encryptedCompletedToggle = await fhevm
-      .createEncryptedInput(todoListContractAddress, signers.alice.address)
-      .add32(1)
-      .encrypt();
-
-    tx = await todoListContract
-      .connect(signers.alice)
-      .toggleTodo(0, encryptedCompletedToggle.handles[0], encryptedCompletedToggle.inputProof);
+    // Toggle to completed (1) homomorphically, without any encrypted input
+    tx = await todoListContract.connect(signers.alice).toggleTodo(0);
     await tx.wait();
 
     // Get and decrypt the todo
@@ -145,14 +300,13 @@ describe("PrivateTodoList", function () {
       0
     );
 
-    const decryptedCompleted = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+    const decryptedCompleted = await fhevm.userDecryptEbool(
       encryptedTodoCompleted,
       todoListContractAddress,
       signers.alice,
     );
 
-    expect(decryptedCompleted).to.eq(1);
+    expect(decryptedCompleted).to.eq(true);
   });
 
   it("should create multiple todos for the same user", async function () {
@@ -162,23 +316,26 @@ describe("PrivateTodoList", function () {
       const todoId = ethers.id(todoText);
       const todoIdUint32 = BigInt(todoId) & BigInt("0xFFFFFFFF");
       
-      const encryptedId = await fhevm
+      // Encrypt todo ID, metadata (category) and tags (none) with one proof
+      const encryptedInput = await fhevm
         .createEncryptedInput(todoListContractAddress, signers.alice.address)
         .add32(Number(todoIdUint32))
-        .encrypt();
-
-      const encryptedCompleted = await fhevm
-        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .add32(packMeta(TASKS))
         .add32(0)
         .encrypt();
 
+    const encryptedText = await encryptText(todoListContractAddress, signers.alice, todoText);
+
       const tx = await todoListContract
         .connect(signers.alice)
         .createTodo(
-          encryptedId.handles[0],
-          encryptedCompleted.handles[0],
-          encryptedId.inputProof,
-          encryptedCompleted.inputProof
+          encryptedInput.handles[0],
+          encryptedInput.handles[1],
+          encryptedInput.handles[2],
+          encryptedText.handles,
+          encryptedInput.inputProof,
+          encryptedText.inputProof,
+          false,
         );
       await tx.wait();
     }
@@ -193,23 +350,26 @@ describe("PrivateTodoList", function () {
     const todoId = ethers.id(todoText);
     const todoIdUint32 = BigInt(todoId) & BigInt("0xFFFFFFFF");
     
-    const encryptedId = await fhevm
+    // Encrypt todo ID, metadata (category) and tags (none) with one proof
+    const encryptedInput = await fhevm
       .createEncryptedInput(todoListContractAddress, signers.alice.address)
       .add32(Number(todoIdUint32))
+      .add32(packMeta(TASKS))
+      .add32(0)
       .encrypt();
 
-      const encryptedCompleted = await fhevm
-        .createEncryptedInput(todoListContractAddress, signers.alice.address)
-        .add32(0)
-        .encrypt();
+    const encryptedText = await encryptText(todoListContractAddress, signers.alice, todoText);
 
     await todoListContract
       .connect(signers.alice)
       .createTodo(
-        encryptedId.handles[0],
-        encryptedCompleted.handles[0],
-        encryptedId.inputProof,
-        encryptedCompleted.inputProof
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        encryptedText.handles,
+        encryptedInput.inputProof,
+        encryptedText.inputProof,
+        false,
       );
 
     // Bob creates a todo
@@ -217,23 +377,26 @@ describe("PrivateTodoList", function () {
     const bobTodoId = ethers.id(bobTodoText);
     const bobTodoIdUint32 = BigInt(bobTodoId) & BigInt("0xFFFFFFFF");
     
-    const bobEncryptedId = await fhevm
+    // Encrypt todo ID, metadata (category) and tags (none) with one proof
+    const bobEncryptedInput = await fhevm
       .createEncryptedInput(todoListContractAddress, signers.bob.address)
       .add32(Number(bobTodoIdUint32))
+      .add32(packMeta(TASKS))
+      .add32(0)
       .encrypt();
 
-    const bobEncryptedCompleted = await fhevm
-      .createEncryptedInput(todoListContractAddress, signers.bob.address)
-      .add8(0)
-      .encrypt();
+    const bobEncryptedText = await encryptText(todoListContractAddress, signers.bob, bobTodoText);
 
     await todoListContract
       .connect(signers.bob)
       .createTodo(
-        bobEncryptedId.handles[0],
-        bobEncryptedCompleted.handles[0],
-        bobEncryptedId.inputProof,
-        bobEncryptedCompleted.inputProof
+        bobEncryptedInput.handles[0],
+        bobEncryptedInput.handles[1],
+        bobEncryptedInput.handles[2],
+        bobEncryptedText.handles,
+        bobEncryptedInput.inputProof,
+        bobEncryptedText.inputProof,
+        false,
       );
 
     const aliceCount = await todoListContract.getTodoCount(signers.alice.address);
@@ -242,5 +405,1603 @@ describe("PrivateTodoList", function () {
     expect(aliceCount).to.eq(1);
     expect(bobCount).to.eq(1);
   });
-});
 
+  describe("archive and delete", function () {
+    beforeEach(async function () {
+      for (const text of ["Buy medicine", "Interview preparation", "Call doctor"]) {
+        await createTodo(todoListContract, todoListContractAddress, signers.alice, text);
+      }
+    });
+
+    it("should list all todos as active after creation", async function () {
+      const indices = await todoListContract.getActiveTodoIndices(signers.alice.address);
+      expect(indices.map(Number)).to.deep.eq([0, 1, 2]);
+    });
+
+    it("should archive a todo and hide it from the active indices", async function () {
+      await expect(todoListContract.connect(signers.alice).archiveTodo(1))
+        .to.emit(todoListContract, "TodoArchived")
+        .withArgs(signers.alice.address, 1, anyValue);
+
+      expect(await todoListContract.getTodoStatus(signers.alice.address, 1)).to.eq(1);
+      const indices = await todoListContract.getActiveTodoIndices(signers.alice.address);
+      expect(indices.map(Number)).to.deep.eq([0, 2]);
+    });
+
+    it("should tombstone a deleted todo while keeping its data auditable", async function () {
+      await expect(todoListContract.connect(signers.alice).deleteTodo(0))
+        .to.emit(todoListContract, "TodoDeleted")
+        .withArgs(signers.alice.address, 0, anyValue);
+
+      expect(await todoListContract.getTodoStatus(signers.alice.address, 0)).to.eq(2);
+      expect(await todoListContract.getTodoCount(signers.alice.address)).to.eq(3);
+      const indices = await todoListContract.getActiveTodoIndices(signers.alice.address);
+      expect(indices.map(Number)).to.deep.eq([1, 2]);
+
+      // The encrypted data of the deleted todo can still be read and decrypted
+      const [encryptedTodoId] = await todoListContract.getTodo(signers.alice.address, 0);
+      const decryptedId = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        encryptedTodoId,
+        todoListContractAddress,
+        signers.alice,
+      );
+      expect(decryptedId).to.eq(BigInt(ethers.id("Buy medicine")) & BigInt("0xFFFFFFFF"));
+    });
+
+    it("should allow deleting an archived todo but not deleting twice", async function () {
+      await (await todoListContract.connect(signers.alice).archiveTodo(2)).wait();
+      await (await todoListContract.connect(signers.alice).deleteTodo(2)).wait();
+
+      await expect(todoListContract.connect(signers.alice).deleteTodo(2)).to.be.revertedWithCustomError(
+        todoListContract,
+        "TodoAlreadyDeleted",
+      );
+      await expect(todoListContract.connect(signers.alice).archiveTodo(2)).to.be.revertedWithCustomError(
+        todoListContract,
+        "TodoNotActive",
+      );
+    });
+
+    it("should not toggle an archived or deleted todo", async function () {
+      await (await todoListContract.connect(signers.alice).archiveTodo(0)).wait();
+
+      const encryptedCompleted = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .addBool(true)
+        .encrypt();
+
+      await expect(todoListContract.connect(signers.alice).toggleTodo(0)).to.be.revertedWithCustomError(
+        todoListContract,
+        "TodoNotActive",
+      );
+      await expect(
+        todoListContract
+          .connect(signers.alice)
+          .setCompleted(0, encryptedCompleted.handles[0], encryptedCompleted.inputProof),
+      ).to.be.revertedWithCustomError(todoListContract, "TodoNotActive");
+    });
+
+    it("should only affect the caller's todos", async function () {
+      await expect(todoListContract.connect(signers.bob).deleteTodo(0)).to.be.revertedWithCustomError(
+        todoListContract,
+        "TodoIndexOutOfBounds",
+      );
+      const indices = await todoListContract.getActiveTodoIndices(signers.alice.address);
+      expect(indices.length).to.eq(3);
+    });
+  });
+
+  describe("edit", function () {
+    async function updateTodo(index: number, text: string) {
+      const todoIdUint32 = BigInt(ethers.id(text)) & BigInt("0xFFFFFFFF");
+      const encryptedId = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .add32(Number(todoIdUint32))
+        .encrypt();
+      const encryptedText = await encryptText(todoListContractAddress, signers.alice, text);
+
+      return todoListContract
+        .connect(signers.alice)
+        .updateTodo(index, encryptedId.handles[0], encryptedText.handles, encryptedId.inputProof, encryptedText.inputProof);
+    }
+
+    beforeEach(async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Buy medcine");
+    });
+
+    it("should start with a single revision", async function () {
+      expect(await todoListContract.getTodoRevisionCount(signers.alice.address, 0)).to.eq(1);
+    });
+
+    it("should update the todo text and record a revision", async function () {
+      await expect(updateTodo(0, "Buy medicine"))
+        .to.emit(todoListContract, "TodoUpdated")
+        .withArgs(signers.alice.address, 0, 1, anyValue);
+
+      expect(await todoListContract.getTodoRevisionCount(signers.alice.address, 0)).to.eq(2);
+
+      const currentText = await todoListContract.getTodoText(signers.alice.address, 0);
+      expect(await decryptText(currentText, todoListContractAddress, signers.alice)).to.eq("Buy medicine");
+
+      const [encryptedTodoId] = await todoListContract.getTodo(signers.alice.address, 0);
+      const decryptedId = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        encryptedTodoId,
+        todoListContractAddress,
+        signers.alice,
+      );
+      expect(decryptedId).to.eq(BigInt(ethers.id("Buy medicine")) & BigInt("0xFFFFFFFF"));
+    });
+
+    it("should keep earlier revisions decryptable", async function () {
+      await (await updateTodo(0, "Buy medicine")).wait();
+      await (await updateTodo(0, "Buy medicine and vitamins")).wait();
+
+      const texts: string[] = [];
+      for (let revision = 0; revision < 3; revision++) {
+        const [, encryptedText, timestamp] = await todoListContract.getTodoRevision(
+          signers.alice.address,
+          0,
+          revision,
+        );
+        expect(timestamp).to.be.gt(0);
+        texts.push(await decryptText(encryptedText, todoListContractAddress, signers.alice));
+      }
+
+      expect(texts).to.deep.eq(["Buy medcine", "Buy medicine", "Buy medicine and vitamins"]);
+      await expect(todoListContract.getTodoRevision(signers.alice.address, 0, 3)).to.be.revertedWithCustomError(
+        todoListContract,
+        "RevisionOutOfBounds",
+      );
+    });
+
+    it("should not edit an archived todo", async function () {
+      await (await todoListContract.connect(signers.alice).archiveTodo(0)).wait();
+      await expect(updateTodo(0, "Buy medicine")).to.be.revertedWithCustomError(todoListContract, "TodoNotActive");
+    });
+  });
+
+  describe("metadata", function () {
+    async function decryptMeta(index: number, user: HardhatEthersSigner = signers.alice): Promise<bigint> {
+      const encryptedMeta = await todoListContract.getTodoMeta(signers.alice.address, index);
+      return fhevm.userDecryptEuint(FhevmType.euint32, encryptedMeta, todoListContractAddress, user);
+    }
+
+    it("should store an encrypted category per todo", async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "8 hours of sleep", SLEEP);
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "30 min cardio", EXERCISE);
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Learning session", TASKS);
+
+      const categories: bigint[] = [];
+      for (let i = 0; i < 3; i++) {
+        categories.push((await decryptMeta(i)) & 0xffn);
+      }
+
+      expect(categories).to.deep.eq([BigInt(SLEEP), BigInt(EXERCISE), BigInt(TASKS)]);
+    });
+
+    it("should pack category, priority and flags into one word", async function () {
+      const text = "Learning session";
+      const encryptedInput = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .add32(Number(BigInt(ethers.id(text)) & BigInt("0xFFFFFFFF")))
+        .add32(packMeta(TASKS, 3, 0x8001))
+        .add32(0)
+        .encrypt();
+      const encryptedText = await encryptText(todoListContractAddress, signers.alice, text);
+      await (
+        await todoListContract
+          .connect(signers.alice)
+          .createTodo(
+            encryptedInput.handles[0],
+            encryptedInput.handles[1],
+            encryptedInput.handles[2],
+            encryptedText.handles,
+            encryptedInput.inputProof,
+            encryptedText.inputProof,
+            false,
+          )
+      ).wait();
+
+      const meta = await decryptMeta(0);
+      const priorityShift = await todoListContract.META_PRIORITY_SHIFT();
+      const flagsShift = await todoListContract.META_FLAGS_SHIFT();
+      expect(meta & 0xffn).to.eq(BigInt(TASKS));
+      expect((meta >> priorityShift) & 0xffn).to.eq(3n);
+      expect(meta >> flagsShift).to.eq(0x8001n);
+    });
+
+    it("should not let another user decrypt the metadata", async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "8 hours of sleep", SLEEP);
+      await expect(decryptMeta(0, signers.bob)).to.be.rejected;
+    });
+  });
+
+  describe("import", function () {
+    async function importTodo(text: string, completed: boolean, recurring: boolean, createdAt: number) {
+      const encryptedInput = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .add32(Number(BigInt(ethers.id(text)) & BigInt("0xFFFFFFFF")))
+        .addBool(completed)
+        .add32(packMeta(EXERCISE))
+        .encrypt();
+      const encryptedText = await encryptText(todoListContractAddress, signers.alice, text);
+      return todoListContract
+        .connect(signers.alice)
+        .importTodo(
+          encryptedInput.handles[0],
+          encryptedInput.handles[1],
+          encryptedInput.handles[2],
+          encryptedText.handles,
+          encryptedInput.inputProof,
+          encryptedText.inputProof,
+          recurring,
+          createdAt,
+        );
+    }
+
+    it("should keep the completion status, metadata, text and creation time", async function () {
+      const createdAt = (await time.latest()) - 3 * 24 * 60 * 60;
+      await expect(importTodo("30 min cardio", true, false, createdAt))
+        .to.emit(todoListContract, "TodoCreated")
+        .withArgs(signers.alice.address, 0, anyValue);
+
+      const [, encryptedCompleted] = await todoListContract.getTodo(signers.alice.address, 0);
+      const [importedCreatedAt, createdDay] = await todoListContract.getTodoSchedule(signers.alice.address, 0);
+      const encryptedMeta = await todoListContract.getTodoMeta(signers.alice.address, 0);
+      const encryptedText = await todoListContract.getTodoText(signers.alice.address, 0);
+
+      expect(importedCreatedAt).to.eq(createdAt);
+      expect(await todoListContract.getDayTodoIndices(signers.alice.address, createdDay)).to.deep.eq([0n]);
+      expect(await fhevm.userDecryptEbool(encryptedCompleted, todoListContractAddress, signers.alice)).to.eq(true);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, encryptedMeta, todoListContractAddress, signers.alice),
+      ).to.eq(BigInt(EXERCISE));
+      expect(await decryptText(encryptedText, todoListContractAddress, signers.alice)).to.eq("30 min cardio");
+    });
+
+    it("should import the completion status of a recurring todo as today's", async function () {
+      await (await importTodo("30 min cardio", true, true, (await time.latest()) - 24 * 60 * 60)).wait();
+
+      const today = await todoListContract.currentDay();
+      const encryptedCompleted = await todoListContract.getTodoCompletionForDay(signers.alice.address, 0, today);
+      expect(await fhevm.userDecryptEbool(encryptedCompleted, todoListContractAddress, signers.alice)).to.eq(true);
+    });
+
+    it("should count an imported completed todo in the completion stats", async function () {
+      async function decryptTotalCompleted() {
+        const [totalCompleted] = await todoListContract.getCompletionStats(signers.alice.address);
+        return fhevm.userDecryptEuint(FhevmType.euint32, totalCompleted, todoListContractAddress, signers.alice);
+      }
+
+      await (await importTodo("30 min cardio", true, false, (await time.latest()) - 24 * 60 * 60)).wait();
+      expect(await decryptTotalCompleted()).to.eq(1n);
+
+      // Un-completing it must not wrap the total below zero
+      await (await todoListContract.connect(signers.alice).toggleTodo(0)).wait();
+      expect(await decryptTotalCompleted()).to.eq(0n);
+    });
+
+    it("should reject a creation time in the future", async function () {
+      await expect(
+        importTodo("30 min cardio", false, false, (await time.latest()) + 60 * 60),
+      ).to.be.revertedWithCustomError(todoListContract, "CreationTimeInFuture");
+    });
+  });
+
+  describe("daily log", function () {
+    const DAY = 24 * 60 * 60;
+
+    async function setCompleted(index: number, completed: boolean) {
+      const encryptedCompleted = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .addBool(completed)
+        .encrypt();
+      const tx = await todoListContract
+        .connect(signers.alice)
+        .setCompleted(index, encryptedCompleted.handles[0], encryptedCompleted.inputProof);
+      await tx.wait();
+    }
+
+    async function completionForDay(index: number, day: bigint): Promise<boolean> {
+      const encryptedCompleted = await todoListContract.getTodoCompletionForDay(signers.alice.address, index, day);
+      if (encryptedCompleted === ethers.ZeroHash) {
+        return false;
+      }
+      return fhevm.userDecryptEbool(encryptedCompleted, todoListContractAddress, signers.alice);
+    }
+
+    it("should keep the creation time when the todo is toggled", async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Learning session");
+      const [createdAt, createdDay, recurring] = await todoListContract.getTodoSchedule(signers.alice.address, 0);
+      expect(createdDay).to.eq(createdAt / BigInt(DAY));
+      expect(recurring).to.eq(false);
+
+      await time.increase(DAY);
+      await setCompleted(0, true);
+
+      const [, , timestamp] = await todoListContract.getTodo(signers.alice.address, 0);
+      const [createdAtAfterToggle] = await todoListContract.getTodoSchedule(signers.alice.address, 0);
+      expect(createdAtAfterToggle).to.eq(createdAt);
+      expect(timestamp).to.be.gte(createdAt + BigInt(DAY));
+    });
+
+    it("should bucket todos by creation day", async function () {
+      const firstDay = await todoListContract.currentDay();
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Monday task");
+      await time.increase(DAY);
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Tuesday task");
+
+      expect(await todoListContract.getDayTodoIndices(signers.alice.address, firstDay)).to.deep.eq([0n]);
+      expect(await todoListContract.getDayTodoIndices(signers.alice.address, firstDay + 1n)).to.deep.eq([1n]);
+      expect(await todoListContract.getDayTodoIndices(signers.alice.address, firstDay - 1n)).to.deep.eq([]);
+    });
+
+    it("should roll recurring todos over to a fresh uncompleted day", async function () {
+      const firstDay = await todoListContract.currentDay();
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "8 hours of sleep", SLEEP, true);
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "One-off task");
+      await setCompleted(0, true);
+
+      await time.increase(DAY);
+      const secondDay = await todoListContract.currentDay();
+      expect(secondDay).to.eq(firstDay + 1n);
+
+      // The recurring todo shows up again on the next day, the one-off todo does not
+      expect(await todoListContract.getDayTodoIndices(signers.alice.address, firstDay)).to.deep.eq([0n, 1n]);
+      expect(await todoListContract.getDayTodoIndices(signers.alice.address, secondDay)).to.deep.eq([0n]);
+
+      expect(await completionForDay(0, firstDay)).to.eq(true);
+      expect(await completionForDay(0, secondDay)).to.eq(false);
+
+      // Completing it today leaves yesterday's history untouched
+      await setCompleted(0, true);
+      await setCompleted(0, false);
+      expect(await completionForDay(0, secondDay)).to.eq(false);
+      expect(await completionForDay(0, firstDay)).to.eq(true);
+    });
+
+    it("should report the single completion status of a one-off todo on every day", async function () {
+      const firstDay = await todoListContract.currentDay();
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "One-off task");
+      await setCompleted(0, true);
+
+      expect(await completionForDay(0, firstDay)).to.eq(true);
+      expect(await completionForDay(0, firstDay + 5n)).to.eq(true);
+    });
+  });
+
+  describe("completion stats", function () {
+    const DAY = 24 * 60 * 60;
+
+    async function setCompleted(index: number, completed: boolean) {
+      const encryptedCompleted = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .addBool(completed)
+        .encrypt();
+      const tx = await todoListContract
+        .connect(signers.alice)
+        .setCompleted(index, encryptedCompleted.handles[0], encryptedCompleted.inputProof);
+      await tx.wait();
+    }
+
+    async function decryptStats() {
+      const [totalCompleted, streak, completedOnLastDay, lastDay] = await todoListContract.getCompletionStats(
+        signers.alice.address,
+      );
+      return {
+        totalCompleted: await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          totalCompleted,
+          todoListContractAddress,
+          signers.alice,
+        ),
+        streak: await fhevm.userDecryptEuint(FhevmType.euint32, streak, todoListContractAddress, signers.alice),
+        completedOnLastDay: await fhevm.userDecryptEbool(completedOnLastDay, todoListContractAddress, signers.alice),
+        lastDay,
+      };
+    }
+
+    beforeEach(async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "8 hours of sleep", SLEEP, true);
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Learning session");
+    });
+
+    it("should have no stats before the first toggle", async function () {
+      const [totalCompleted, streak, , lastDay] = await todoListContract.getCompletionStats(signers.alice.address);
+      expect(totalCompleted).to.eq(ethers.ZeroHash);
+      expect(streak).to.eq(ethers.ZeroHash);
+      expect(lastDay).to.eq(0);
+    });
+
+    it("should count completions and un-completions", async function () {
+      await setCompleted(0, true);
+      await setCompleted(1, true);
+      expect((await decryptStats()).totalCompleted).to.eq(2n);
+
+      await setCompleted(1, false);
+      expect((await decryptStats()).totalCompleted).to.eq(1n);
+
+      // Re-sending the current status does not change the count
+      await setCompleted(0, true);
+      expect((await decryptStats()).totalCompleted).to.eq(1n);
+    });
+
+    it("should extend the streak once per day with a completion", async function () {
+      await setCompleted(0, true);
+      await setCompleted(1, true);
+      let stats = await decryptStats();
+      expect(stats.streak).to.eq(1n);
+      expect(stats.completedOnLastDay).to.eq(true);
+      expect(stats.lastDay).to.eq(await todoListContract.currentDay());
+
+      await time.increase(DAY);
+      await setCompleted(0, true);
+      stats = await decryptStats();
+      expect(stats.streak).to.eq(2n);
+      // The recurring todo counts again on its new day
+      expect(stats.totalCompleted).to.eq(3n);
+    });
+
+    it("should reset the streak after a day without completions", async function () {
+      await setCompleted(0, true);
+      await time.increase(DAY);
+      await setCompleted(1, true);
+      expect((await decryptStats()).streak).to.eq(2n);
+
+      // Skip a whole day
+      await time.increase(2 * DAY);
+      await setCompleted(0, true);
+      expect((await decryptStats()).streak).to.eq(1n);
+    });
+
+    it("should not extend the streak when only un-completing", async function () {
+      await setCompleted(1, true);
+      await time.increase(DAY);
+      await setCompleted(1, false);
+
+      const stats = await decryptStats();
+      expect(stats.streak).to.eq(1n);
+      expect(stats.completedOnLastDay).to.eq(false);
+    });
+
+    it("should not let another user decrypt the stats", async function () {
+      await setCompleted(0, true);
+      const [totalCompleted] = await todoListContract.getCompletionStats(signers.alice.address);
+
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, totalCompleted, todoListContractAddress, signers.bob)).to
+        .be.rejected;
+    });
+  });
+
+  describe("toggle", function () {
+    async function decryptCompleted(index: number): Promise<boolean> {
+      const [, encryptedCompleted] = await todoListContract.getTodo(signers.alice.address, index);
+      return fhevm.userDecryptEbool(encryptedCompleted, todoListContractAddress, signers.alice);
+    }
+
+    beforeEach(async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Learning session");
+    });
+
+    it("should flip the completion status homomorphically", async function () {
+      await expect(todoListContract.connect(signers.alice).toggleTodo(0))
+        .to.emit(todoListContract, "TodoToggled")
+        .withArgs(signers.alice.address, 0, anyValue);
+      expect(await decryptCompleted(0)).to.eq(true);
+
+      await (await todoListContract.connect(signers.alice).toggleTodo(0)).wait();
+      expect(await decryptCompleted(0)).to.eq(false);
+    });
+
+    it("should set an explicit encrypted completion status", async function () {
+      const encryptedCompleted = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .addBool(true)
+        .encrypt();
+      await (
+        await todoListContract
+          .connect(signers.alice)
+          .setCompleted(0, encryptedCompleted.handles[0], encryptedCompleted.inputProof)
+      ).wait();
+      expect(await decryptCompleted(0)).to.eq(true);
+
+      await (await todoListContract.connect(signers.alice).toggleTodo(0)).wait();
+      expect(await decryptCompleted(0)).to.eq(false);
+    });
+
+    it("should toggle today's status of a recurring todo", async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "8 hours of sleep", SLEEP, true);
+      const today = await todoListContract.currentDay();
+
+      await (await todoListContract.connect(signers.alice).toggleTodo(1)).wait();
+      const encryptedCompleted = await todoListContract.getTodoCompletionForDay(signers.alice.address, 1, today);
+      expect(await fhevm.userDecryptEbool(encryptedCompleted, todoListContractAddress, signers.alice)).to.eq(true);
+    });
+
+    it("should update the completion stats", async function () {
+      await (await todoListContract.connect(signers.alice).toggleTodo(0)).wait();
+      const [totalCompleted, streak] = await todoListContract.getCompletionStats(signers.alice.address);
+
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, totalCompleted, todoListContractAddress, signers.alice),
+      ).to.eq(1n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, streak, todoListContractAddress, signers.alice)).to.eq(1n);
+    });
+  });
+
+  describe("batch", function () {
+    // Encrypt several todos: ids and metadata share one proof, text chunks are packed into as few proofs as possible
+    async function encryptTodos(texts: string[], category: number = TASKS) {
+      const input = fhevm.createEncryptedInput(todoListContractAddress, signers.alice.address);
+      for (const text of texts) {
+        input.add32(Number(BigInt(ethers.id(text)) & BigInt("0xFFFFFFFF"))).add32(packMeta(category));
+      }
+      const encryptedInput = await input.encrypt();
+
+      const textProofs: string[] = [];
+      const todos: PrivateTodoList.NewTodoStruct[] = [];
+      let textInput = fhevm.createEncryptedInput(todoListContractAddress, signers.alice.address);
+      let pending: Array<{ index: number; chunkCount: number }> = [];
+      let pendingChunks = 0;
+
+      const flush = async () => {
+        const encryptedText = await textInput.encrypt();
+        let offset = 0;
+        for (const { index, chunkCount } of pending) {
+          todos[index].text = encryptedText.handles.slice(offset, offset + chunkCount);
+          todos[index].textProofIndex = textProofs.length;
+          offset += chunkCount;
+        }
+        textProofs.push(ethers.hexlify(encryptedText.inputProof));
+        textInput = fhevm.createEncryptedInput(todoListContractAddress, signers.alice.address);
+        pending = [];
+        pendingChunks = 0;
+      };
+
+      for (let i = 0; i < texts.length; i++) {
+        const chunks = textToChunks(texts[i]);
+        if (pendingChunks + chunks.length > 8) {
+          await flush();
+        }
+        for (const chunk of chunks) {
+          textInput.add256(chunk);
+        }
+        todos.push({
+          id: encryptedInput.handles[2 * i],
+          meta: encryptedInput.handles[2 * i + 1],
+          text: [],
+          textProofIndex: 0,
+          recurring: false,
+        });
+        pending.push({ index: i, chunkCount: chunks.length });
+        pendingChunks += chunks.length;
+      }
+      await flush();
+
+      return { todos, inputProof: encryptedInput.inputProof, textProofs };
+    }
+
+    async function setCompletedMany(indices: number[], completed: boolean[]) {
+      const input = fhevm.createEncryptedInput(todoListContractAddress, signers.alice.address);
+      for (const value of completed) {
+        input.addBool(value);
+      }
+      const encrypted = await input.encrypt();
+      return todoListContract.connect(signers.alice).setCompletedMany(indices, encrypted.handles, encrypted.inputProof);
+    }
+
+    it("should create several todos in one transaction", async function () {
+      const texts = ["Drink water", "Stretch", "Meditate"];
+      const { todos, inputProof, textProofs } = await encryptTodos(texts);
+      expect(textProofs.length).to.eq(1);
+
+      await expect(todoListContract.connect(signers.alice).createTodos(todos, inputProof, textProofs))
+        .to.emit(todoListContract, "TodoCreated")
+        .withArgs(signers.alice.address, 2, anyValue);
+
+      expect(await todoListContract.getTodoCount(signers.alice.address)).to.eq(3);
+      for (let i = 0; i < texts.length; i++) {
+        const encryptedText = await todoListContract.getTodoText(signers.alice.address, i);
+        expect(await decryptText(encryptedText, todoListContractAddress, signers.alice)).to.eq(texts[i]);
+      }
+    });
+
+    it("should create todos without tags or a due date, to be set afterwards", async function () {
+      const { todos, inputProof, textProofs } = await encryptTodos(["Drink water", "Stretch"]);
+      await (await todoListContract.connect(signers.alice).createTodos(todos, inputProof, textProofs)).wait();
+
+      const [page] = await todoListContract.getTodos(signers.alice.address, 0, 2);
+      for (const todo of page) {
+        expect(todo.tags).to.eq(ethers.ZeroHash);
+        expect(todo.dueDate).to.eq(ethers.ZeroHash);
+      }
+
+      const encryptedTags = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .add32(1)
+        .encrypt();
+      await (
+        await todoListContract.connect(signers.alice).setTags(1, encryptedTags.handles[0], encryptedTags.inputProof)
+      ).wait();
+      const [updated] = await todoListContract.getTodos(signers.alice.address, 1, 1);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, updated[0].tags, todoListContractAddress, signers.alice),
+      ).to.eq(1n);
+    });
+
+    it("should split long texts over several text proofs", async function () {
+      const texts = ["Morning run around the park, then a cold shower and breakfast".repeat(4), "Read", "Plan the day"];
+      const { todos, inputProof, textProofs } = await encryptTodos(texts);
+      expect(textProofs.length).to.be.gt(1);
+
+      await (await todoListContract.connect(signers.alice).createTodos(todos, inputProof, textProofs)).wait();
+
+      for (let i = 0; i < texts.length; i++) {
+        const encryptedText = await todoListContract.getTodoText(signers.alice.address, i);
+        expect(await decryptText(encryptedText, todoListContractAddress, signers.alice)).to.eq(texts[i]);
+      }
+    });
+
+    it("should reject empty batches and unknown text proofs", async function () {
+      const { todos, inputProof, textProofs } = await encryptTodos(["Drink water"]);
+
+      await expect(
+        todoListContract.connect(signers.alice).createTodos([], inputProof, textProofs),
+      ).to.be.revertedWithCustomError(todoListContract, "NoTodos");
+
+      const unknownProof = { ...todos[0], textProofIndex: 1 };
+      await expect(
+        todoListContract.connect(signers.alice).createTodos([unknownProof], inputProof, textProofs),
+      ).to.be.revertedWithCustomError(todoListContract, "TextProofIndexOutOfBounds");
+    });
+
+    it("should set the completion status of several todos in one transaction", async function () {
+      const { todos, inputProof, textProofs } = await encryptTodos(["Drink water", "Stretch", "Meditate"]);
+      await (await todoListContract.connect(signers.alice).createTodos(todos, inputProof, textProofs)).wait();
+
+      await (await setCompletedMany([0, 2], [true, true])).wait();
+
+      const completed: boolean[] = [];
+      for (let i = 0; i < 3; i++) {
+        const [, encryptedCompleted] = await todoListContract.getTodo(signers.alice.address, i);
+        completed.push(await fhevm.userDecryptEbool(encryptedCompleted, todoListContractAddress, signers.alice));
+      }
+      expect(completed).to.deep.eq([true, false, true]);
+
+      const [totalCompleted] = await todoListContract.getCompletionStats(signers.alice.address);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, totalCompleted, todoListContractAddress, signers.alice),
+      ).to.eq(2n);
+    });
+
+    it("should complete a batch of the maximum size", async function () {
+      const batchSize = Number(await todoListContract.MAX_BATCH_SIZE());
+      const texts = Array.from({ length: batchSize }, (_, i) => `Todo ${i}`);
+      const { todos, inputProof, textProofs } = await encryptTodos(texts);
+      await (await todoListContract.connect(signers.alice).createTodos(todos, inputProof, textProofs)).wait();
+
+      const indices = texts.map((_, i) => i);
+      await (await setCompletedMany(indices, Array(batchSize).fill(true))).wait();
+
+      const [, lastCompleted] = await todoListContract.getTodo(signers.alice.address, batchSize - 1);
+      expect(await fhevm.userDecryptEbool(lastCompleted, todoListContractAddress, signers.alice)).to.eq(true);
+      const [totalCompleted, streak] = await todoListContract.getCompletionStats(signers.alice.address);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, totalCompleted, todoListContractAddress, signers.alice),
+      ).to.eq(BigInt(batchSize));
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, streak, todoListContractAddress, signers.alice)).to.eq(
+        1n,
+      );
+
+      await expect(setCompletedMany([...indices, 0], Array(batchSize + 1).fill(true))).to.be.revertedWithCustomError(
+        todoListContract,
+        "TooManyTodos",
+      );
+    });
+
+    it("should derive each parent once and count it in the batch statistics", async function () {
+      const { todos, inputProof, textProofs } = await encryptTodos(["Move", "Pack", "Clean", "Trip", "Book"]);
+      await (await todoListContract.connect(signers.alice).createTodos(todos, inputProof, textProofs)).wait();
+      await (await todoListContract.connect(signers.alice).setParent(1, 0)).wait();
+      await (await todoListContract.connect(signers.alice).setParent(2, 0)).wait();
+      await (await todoListContract.connect(signers.alice).setParent(4, 3)).wait();
+
+      await (await setCompletedMany([1, 2, 4], [true, true, true])).wait();
+
+      for (const parentIndex of [0, 3]) {
+        const [, encryptedCompleted] = await todoListContract.getTodo(signers.alice.address, parentIndex);
+        expect(await fhevm.userDecryptEbool(encryptedCompleted, todoListContractAddress, signers.alice)).to.eq(true);
+      }
+      const [totalCompleted] = await todoListContract.getCompletionStats(signers.alice.address);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, totalCompleted, todoListContractAddress, signers.alice),
+      ).to.eq(5n);
+
+      await (await setCompletedMany([2, 1], [false, true])).wait();
+      const [, parentCompleted] = await todoListContract.getTodo(signers.alice.address, 0);
+      expect(await fhevm.userDecryptEbool(parentCompleted, todoListContractAddress, signers.alice)).to.eq(false);
+      const [totalAfter] = await todoListContract.getCompletionStats(signers.alice.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, totalAfter, todoListContractAddress, signers.alice)).to.eq(
+        3n,
+      );
+    });
+
+    it("should reject mismatched or invalid batch toggles", async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Drink water");
+
+      await expect(setCompletedMany([0, 1], [true])).to.be.revertedWithCustomError(
+        todoListContract,
+        "ArrayLengthMismatch",
+      );
+      await expect(setCompletedMany([0, 1], [true, true])).to.be.revertedWithCustomError(
+        todoListContract,
+        "TodoIndexOutOfBounds",
+      );
+    });
+  });
+
+  describe("pagination", function () {
+    beforeEach(async function () {
+      for (const text of ["Buy medicine", "Interview preparation", "Call doctor", "Drink water", "Stretch"]) {
+        await createTodo(todoListContract, todoListContractAddress, signers.alice, text);
+      }
+    });
+
+    it("should return a page of handles and timestamps", async function () {
+      const [page, total] = await todoListContract.getTodos(signers.alice.address, 1, 2);
+      expect(total).to.eq(5);
+      expect(page.map((todo) => Number(todo.index))).to.deep.eq([1, 2]);
+
+      const [encryptedId, encryptedCompleted, timestamp] = await todoListContract.getTodo(signers.alice.address, 2);
+      expect(page[1].id).to.eq(encryptedId);
+      expect(page[1].completed).to.eq(encryptedCompleted);
+      expect(page[1].timestamp).to.eq(timestamp);
+      expect(page[1].meta).to.eq(await todoListContract.getTodoMeta(signers.alice.address, 2));
+      expect(page[1].text).to.deep.eq(await todoListContract.getTodoText(signers.alice.address, 2));
+      expect(page[1].status).to.eq(0);
+      expect(await decryptText(page[1].text, todoListContractAddress, signers.alice)).to.eq("Call doctor");
+    });
+
+    it("should cut the last page short and return nothing past the end", async function () {
+      const [lastPage] = await todoListContract.getTodos(signers.alice.address, 3, 10);
+      expect(lastPage.map((todo) => Number(todo.index))).to.deep.eq([3, 4]);
+
+      const [emptyPage, total] = await todoListContract.getTodos(signers.alice.address, 8, 10);
+      expect(emptyPage.length).to.eq(0);
+      expect(total).to.eq(5);
+    });
+
+    it("should include archived and deleted todos with their status", async function () {
+      await (await todoListContract.connect(signers.alice).archiveTodo(0)).wait();
+      await (await todoListContract.connect(signers.alice).deleteTodo(4)).wait();
+
+      const [page] = await todoListContract.getTodos(signers.alice.address, 0, 5);
+      expect(page.map((todo) => Number(todo.status))).to.deep.eq([1, 0, 0, 0, 2]);
+    });
+
+    it("should reject pages larger than the maximum page size", async function () {
+      const maxPageSize = await todoListContract.MAX_PAGE_SIZE();
+      await expect(todoListContract.getTodos(signers.alice.address, 0, maxPageSize + 1n)).to.be.revertedWithCustomError(
+        todoListContract,
+        "PageTooLarge",
+      );
+    });
+  });
+
+  describe("sharing", function () {
+    beforeEach(async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Pack the tent", EXERCISE);
+    });
+
+    it("should share and unshare a list", async function () {
+      await expect(todoListContract.connect(signers.alice).shareList(signers.bob.address))
+        .to.emit(todoListContract, "ListShared")
+        .withArgs(signers.alice.address, signers.bob.address, anyValue);
+      expect(await todoListContract.getCollaborators(signers.alice.address)).to.deep.eq([signers.bob.address]);
+      expect(await todoListContract.getSharedLists(signers.bob.address)).to.deep.eq([signers.alice.address]);
+      expect(await todoListContract.isSharedWith(signers.alice.address, signers.bob.address)).to.eq(true);
+
+      await expect(todoListContract.connect(signers.alice).unshareList(signers.bob.address))
+        .to.emit(todoListContract, "ListUnshared")
+        .withArgs(signers.alice.address, signers.bob.address, anyValue);
+      expect(await todoListContract.getCollaborators(signers.alice.address)).to.deep.eq([]);
+      expect(await todoListContract.getSharedLists(signers.bob.address)).to.deep.eq([]);
+      expect(await todoListContract.isSharedWith(signers.alice.address, signers.bob.address)).to.eq(false);
+    });
+
+    it("should reject invalid or repeated shares", async function () {
+      await expect(
+        todoListContract.connect(signers.alice).shareList(signers.alice.address),
+      ).to.be.revertedWithCustomError(todoListContract, "InvalidCollaborator");
+      await expect(todoListContract.connect(signers.alice).shareList(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        todoListContract,
+        "InvalidCollaborator",
+      );
+      await (await todoListContract.connect(signers.alice).shareList(signers.bob.address)).wait();
+      await expect(
+        todoListContract.connect(signers.alice).shareList(signers.bob.address),
+      ).to.be.revertedWithCustomError(todoListContract, "AlreadyShared");
+      await expect(
+        todoListContract.connect(signers.bob).unshareList(signers.alice.address),
+      ).to.be.revertedWithCustomError(todoListContract, "NotShared");
+    });
+
+    it("should grant a collaborator access to the existing todos", async function () {
+      await (await todoListContract.connect(signers.alice).shareList(signers.bob.address)).wait();
+
+      const [page] = await todoListContract.getTodos(signers.alice.address, 0, 1);
+      expect(await decryptText(page[0].text, todoListContractAddress, signers.bob)).to.eq("Pack the tent");
+      expect(await fhevm.userDecryptEbool(page[0].completed, todoListContractAddress, signers.bob)).to.eq(false);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, page[0].meta, todoListContractAddress, signers.bob)).to.eq(
+        packMeta(EXERCISE),
+      );
+      const expectedId = BigInt(ethers.id("Pack the tent")) & BigInt("0xFFFFFFFF");
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, page[0].id, todoListContractAddress, signers.bob)).to.eq(
+        expectedId,
+      );
+    });
+
+    it("should grant a collaborator access to handles created after sharing", async function () {
+      await (await todoListContract.connect(signers.alice).shareList(signers.bob.address)).wait();
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Buy stove fuel");
+      await (await todoListContract.connect(signers.alice).toggleTodo(0)).wait();
+
+      const [page] = await todoListContract.getTodos(signers.alice.address, 0, 2);
+      expect(await fhevm.userDecryptEbool(page[0].completed, todoListContractAddress, signers.bob)).to.eq(true);
+      expect(await decryptText(page[1].text, todoListContractAddress, signers.bob)).to.eq("Buy stove fuel");
+    });
+
+    it("should deny decryption to accounts the list is not shared with", async function () {
+      await (await todoListContract.connect(signers.alice).shareList(signers.bob.address)).wait();
+
+      const [page] = await todoListContract.getTodos(signers.alice.address, 0, 1);
+      await expectDecryptionDenied(
+        fhevm.userDecryptEuint(FhevmType.euint256, page[0].text[0], todoListContractAddress, signers.deployer),
+      );
+      await expectDecryptionDenied(
+        fhevm.userDecryptEbool(page[0].completed, todoListContractAddress, signers.deployer),
+      );
+    });
+
+    it("should deny decryption before sharing and of handles created after unsharing", async function () {
+      const [before] = await todoListContract.getTodos(signers.alice.address, 0, 1);
+      await expectDecryptionDenied(
+        fhevm.userDecryptEuint(FhevmType.euint256, before[0].text[0], todoListContractAddress, signers.bob),
+      );
+
+      await (await todoListContract.connect(signers.alice).shareList(signers.bob.address)).wait();
+      await (await todoListContract.connect(signers.alice).unshareList(signers.bob.address)).wait();
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Book the campsite");
+
+      const [after] = await todoListContract.getTodos(signers.alice.address, 1, 1);
+      await expectDecryptionDenied(
+        fhevm.userDecryptEuint(FhevmType.euint256, after[0].text[0], todoListContractAddress, signers.bob),
+      );
+    });
+
+    it("should keep the completion statistics private", async function () {
+      await (await todoListContract.connect(signers.alice).shareList(signers.bob.address)).wait();
+      await (await todoListContract.connect(signers.alice).toggleTodo(0)).wait();
+
+      const [totalCompleted] = await todoListContract.getCompletionStats(signers.alice.address);
+      await expectDecryptionDenied(
+        fhevm.userDecryptEuint(FhevmType.euint32, totalCompleted, todoListContractAddress, signers.bob),
+      );
+    });
+  });
+
+  describe("assignment", function () {
+    beforeEach(async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Renew the passport");
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Plan the trip");
+    });
+
+    it("should assign a todo and list it for the assignee", async function () {
+      await expect(todoListContract.connect(signers.alice).assignTodo(1, signers.bob.address))
+        .to.emit(todoListContract, "TodoAssigned")
+        .withArgs(signers.alice.address, 1, signers.bob.address, anyValue);
+
+      expect(await todoListContract.getAssignee(signers.alice.address, 1)).to.eq(signers.bob.address);
+      expect(await todoListContract.getAssignee(signers.alice.address, 0)).to.eq(ethers.ZeroAddress);
+      const assigned = await todoListContract.getAssignedTodos(signers.bob.address);
+      expect(assigned.map((todo) => [todo.owner, todo.todoIndex])).to.deep.eq([[signers.alice.address, 1n]]);
+
+      const [page] = await todoListContract.getTodos(signers.alice.address, 0, 2);
+      expect(page.map((todo) => todo.assignee)).to.deep.eq([ethers.ZeroAddress, signers.bob.address]);
+    });
+
+    it("should let the assignee decrypt only the assigned todo", async function () {
+      await (await todoListContract.connect(signers.alice).assignTodo(1, signers.bob.address)).wait();
+
+      const [page] = await todoListContract.getTodos(signers.alice.address, 0, 2);
+      expect(await decryptText(page[1].text, todoListContractAddress, signers.bob)).to.eq("Plan the trip");
+      await expectDecryptionDenied(
+        fhevm.userDecryptEuint(FhevmType.euint256, page[0].text[0], todoListContractAddress, signers.bob),
+      );
+    });
+
+    it("should grant the assignee the handles of later edits", async function () {
+      await (await todoListContract.connect(signers.alice).assignTodo(1, signers.bob.address)).wait();
+
+      const text = "Plan the trip to Lisbon";
+      const todoIdUint32 = BigInt(ethers.id(text)) & BigInt("0xFFFFFFFF");
+      const encryptedId = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .add32(Number(todoIdUint32))
+        .encrypt();
+      const encryptedText = await encryptText(todoListContractAddress, signers.alice, text);
+      await (
+        await todoListContract
+          .connect(signers.alice)
+          .updateTodo(
+            1,
+            encryptedId.handles[0],
+            encryptedText.handles,
+            encryptedId.inputProof,
+            encryptedText.inputProof,
+          )
+      ).wait();
+
+      const [page] = await todoListContract.getTodos(signers.alice.address, 1, 1);
+      expect(await decryptText(page[0].text, todoListContractAddress, signers.bob)).to.eq(text);
+    });
+
+    it("should let the assignee complete the todo for the owner", async function () {
+      await (await todoListContract.connect(signers.alice).assignTodo(1, signers.bob.address)).wait();
+
+      const tx = todoListContract.connect(signers.bob).completeAssigned(signers.alice.address, 1);
+      await expect(tx)
+        .to.emit(todoListContract, "TodoCompletedByAssignee")
+        .withArgs(signers.alice.address, 1, signers.bob.address, anyValue);
+      await expect(tx).to.emit(todoListContract, "TodoToggled").withArgs(signers.alice.address, 1, anyValue);
+
+      const [, encryptedCompleted] = await todoListContract.getTodo(signers.alice.address, 1);
+      expect(await fhevm.userDecryptEbool(encryptedCompleted, todoListContractAddress, signers.alice)).to.eq(true);
+      expect(await fhevm.userDecryptEbool(encryptedCompleted, todoListContractAddress, signers.bob)).to.eq(true);
+
+      // The completion counts towards the owner's statistics
+      const [totalCompleted] = await todoListContract.getCompletionStats(signers.alice.address);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, totalCompleted, todoListContractAddress, signers.alice),
+      ).to.eq(1);
+      const [bobTotalCompleted] = await todoListContract.getCompletionStats(signers.bob.address);
+      expect(bobTotalCompleted).to.eq(ethers.ZeroHash);
+    });
+
+    it("should only let the current assignee complete the todo", async function () {
+      await expect(
+        todoListContract.connect(signers.bob).completeAssigned(signers.alice.address, 1),
+      ).to.be.revertedWithCustomError(todoListContract, "NotTheAssignee");
+
+      await (await todoListContract.connect(signers.alice).assignTodo(1, signers.bob.address)).wait();
+      await (await todoListContract.connect(signers.alice).assignTodo(1, signers.deployer.address)).wait();
+
+      expect(await todoListContract.getAssignedTodos(signers.bob.address)).to.deep.eq([]);
+      expect((await todoListContract.getAssignedTodos(signers.deployer.address)).length).to.eq(1);
+      await expect(
+        todoListContract.connect(signers.bob).completeAssigned(signers.alice.address, 1),
+      ).to.be.revertedWithCustomError(todoListContract, "NotTheAssignee");
+
+      await (await todoListContract.connect(signers.alice).assignTodo(1, ethers.ZeroAddress)).wait();
+      expect(await todoListContract.getAssignedTodos(signers.deployer.address)).to.deep.eq([]);
+      await expect(
+        todoListContract.connect(signers.deployer).completeAssigned(signers.alice.address, 1),
+      ).to.be.revertedWithCustomError(todoListContract, "NotTheAssignee");
+    });
+
+    it("should reject invalid assignments", async function () {
+      await expect(
+        todoListContract.connect(signers.alice).assignTodo(2, signers.bob.address),
+      ).to.be.revertedWithCustomError(todoListContract, "TodoIndexOutOfBounds");
+      await expect(
+        todoListContract.connect(signers.alice).assignTodo(0, signers.alice.address),
+      ).to.be.revertedWithCustomError(todoListContract, "InvalidAssignee");
+      await expect(
+        todoListContract.connect(signers.alice).assignTodo(0, ethers.ZeroAddress),
+      ).to.be.revertedWithCustomError(todoListContract, "AlreadyAssigned");
+      await (await todoListContract.connect(signers.alice).assignTodo(0, signers.bob.address)).wait();
+      await expect(
+        todoListContract.connect(signers.alice).assignTodo(0, signers.bob.address),
+      ).to.be.revertedWithCustomError(todoListContract, "AlreadyAssigned");
+
+      await (await todoListContract.connect(signers.alice).archiveTodo(0)).wait();
+      await expect(
+        todoListContract.connect(signers.bob).completeAssigned(signers.alice.address, 0),
+      ).to.be.revertedWithCustomError(todoListContract, "TodoNotActive");
+    });
+  });
+
+  describe("priority", function () {
+    // PrivateTodoList.MAX_FOCUS_PAGE_SIZE
+    const MAX_FOCUS_PAGE_SIZE = 16;
+
+    async function setPriority(index: number, priority: number) {
+      const encryptedPriority = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .add32(priority)
+        .encrypt();
+      await (
+        await todoListContract
+          .connect(signers.alice)
+          .setPriority(index, encryptedPriority.handles[0], encryptedPriority.inputProof)
+      ).wait();
+    }
+
+    async function decryptPriority(index: number): Promise<bigint> {
+      const encryptedMeta = await todoListContract.getTodoMeta(signers.alice.address, index);
+      const meta = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        encryptedMeta,
+        todoListContractAddress,
+        signers.alice,
+      );
+      return (meta >> 8n) & 0xffn;
+    }
+
+    async function computeFocus(user: HardhatEthersSigner = signers.alice) {
+      await (await todoListContract.connect(user).computeFocusTodo(0, MAX_FOCUS_PAGE_SIZE)).wait();
+      const [todoIndex, found] = await todoListContract.getFocusTodo(user.address);
+      return {
+        todoIndex: await fhevm.userDecryptEuint(FhevmType.euint32, todoIndex, todoListContractAddress, user),
+        found: await fhevm.userDecryptEbool(found, todoListContractAddress, user),
+      };
+    }
+
+    beforeEach(async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Water the plants", EXERCISE);
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "File the taxes");
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Call the bank");
+    });
+
+    it("should change the priority and keep the category", async function () {
+      const encryptedPriority = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .add32(7)
+        .encrypt();
+      await expect(
+        todoListContract
+          .connect(signers.alice)
+          .setPriority(0, encryptedPriority.handles[0], encryptedPriority.inputProof),
+      )
+        .to.emit(todoListContract, "TodoPriorityChanged")
+        .withArgs(signers.alice.address, 0, anyValue);
+
+      const encryptedMeta = await todoListContract.getTodoMeta(signers.alice.address, 0);
+      const meta = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        encryptedMeta,
+        todoListContractAddress,
+        signers.alice,
+      );
+      expect(meta).to.eq(BigInt(packMeta(EXERCISE, 7)));
+
+      // Only the low 8 bits of the input are used
+      await setPriority(0, 0x1ff);
+      expect(await decryptPriority(0)).to.eq(0xffn);
+    });
+
+    it("should reject priorities of inactive or unknown todos", async function () {
+      await (await todoListContract.connect(signers.alice).archiveTodo(0)).wait();
+      const encryptedPriority = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .add32(1)
+        .encrypt();
+      await expect(
+        todoListContract
+          .connect(signers.alice)
+          .setPriority(0, encryptedPriority.handles[0], encryptedPriority.inputProof),
+      ).to.be.revertedWithCustomError(todoListContract, "TodoNotActive");
+      await expect(
+        todoListContract
+          .connect(signers.alice)
+          .setPriority(3, encryptedPriority.handles[0], encryptedPriority.inputProof),
+      ).to.be.revertedWithCustomError(todoListContract, "TodoIndexOutOfBounds");
+    });
+
+    it("should select the highest-priority incomplete todo", async function () {
+      await setPriority(0, 1);
+      await setPriority(1, 5);
+      await setPriority(2, 3);
+
+      await expect(todoListContract.connect(signers.alice).computeFocusTodo(0, MAX_FOCUS_PAGE_SIZE))
+        .to.emit(todoListContract, "FocusTodoComputed")
+        .withArgs(signers.alice.address, anyValue);
+      expect(await computeFocus()).to.deep.eq({ todoIndex: 1n, found: true });
+
+      await (await todoListContract.connect(signers.alice).toggleTodo(1)).wait();
+      expect(await computeFocus()).to.deep.eq({ todoIndex: 2n, found: true });
+    });
+
+    it("should break ties by age and skip inactive todos", async function () {
+      expect(await computeFocus()).to.deep.eq({ todoIndex: 0n, found: true });
+
+      await (await todoListContract.connect(signers.alice).archiveTodo(0)).wait();
+      expect(await computeFocus()).to.deep.eq({ todoIndex: 1n, found: true });
+    });
+
+    it("should report when every todo is completed", async function () {
+      for (let i = 0; i < 3; i++) {
+        await (await todoListContract.connect(signers.alice).toggleTodo(i)).wait();
+      }
+      expect((await computeFocus()).found).to.eq(false);
+
+      const [, , computedAt] = await todoListContract.getFocusTodo(signers.bob.address);
+      expect(computedAt).to.eq(0n);
+      expect((await computeFocus(signers.bob)).found).to.eq(false);
+    });
+
+    it("should scan a full page of todos and reject larger pages", async function () {
+      for (let i = 3; i < MAX_FOCUS_PAGE_SIZE; i++) {
+        await createTodo(todoListContract, todoListContractAddress, signers.alice, `Todo ${i}`);
+      }
+      await setPriority(MAX_FOCUS_PAGE_SIZE - 1, 9);
+
+      expect(await computeFocus()).to.deep.eq({ todoIndex: BigInt(MAX_FOCUS_PAGE_SIZE - 1), found: true });
+      await expect(
+        todoListContract.connect(signers.alice).computeFocusTodo(0, MAX_FOCUS_PAGE_SIZE + 1),
+      ).to.be.revertedWithCustomError(todoListContract, "TooManyTodos");
+    });
+
+    it("should carry the selection over to the next page", async function () {
+      for (let i = 3; i < MAX_FOCUS_PAGE_SIZE + 4; i++) {
+        await createTodo(todoListContract, todoListContractAddress, signers.alice, `Todo ${i}`);
+      }
+      await setPriority(2, 5);
+      await setPriority(MAX_FOCUS_PAGE_SIZE + 2, 9);
+
+      expect(await computeFocus()).to.deep.eq({ todoIndex: 2n, found: true });
+      await expect(
+        todoListContract.connect(signers.alice).computeFocusTodo(MAX_FOCUS_PAGE_SIZE + 1, MAX_FOCUS_PAGE_SIZE),
+      ).to.be.revertedWithCustomError(todoListContract, "FocusPageOutOfOrder");
+
+      await (
+        await todoListContract.connect(signers.alice).computeFocusTodo(MAX_FOCUS_PAGE_SIZE, MAX_FOCUS_PAGE_SIZE)
+      ).wait();
+      const [todoIndex, found] = await todoListContract.getFocusTodo(signers.alice.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, todoIndex, todoListContractAddress, signers.alice)).to.eq(
+        BigInt(MAX_FOCUS_PAGE_SIZE + 2),
+      );
+      expect(await fhevm.userDecryptEbool(found, todoListContractAddress, signers.alice)).to.eq(true);
+    });
+
+    it("should keep the result private to the user", async function () {
+      await (await todoListContract.connect(signers.alice).computeFocusTodo(0, MAX_FOCUS_PAGE_SIZE)).wait();
+      const [todoIndex] = await todoListContract.getFocusTodo(signers.alice.address);
+      await expectDecryptionDenied(
+        fhevm.userDecryptEuint(FhevmType.euint32, todoIndex, todoListContractAddress, signers.bob),
+      );
+    });
+  });
+
+  describe("due dates", function () {
+    const DAY = 24 * 60 * 60;
+
+    async function setDueDate(index: number, dueDate: number) {
+      const encryptedDueDate = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .add64(dueDate)
+        .encrypt();
+      return todoListContract
+        .connect(signers.alice)
+        .setDueDate(index, encryptedDueDate.handles[0], encryptedDueDate.inputProof);
+    }
+
+    async function checkOverdue(indices: number[]) {
+      await (await todoListContract.connect(signers.alice).checkOverdue(indices)).wait();
+      const [page] = await todoListContract.getTodos(signers.alice.address, 0, 3);
+      const flags: boolean[] = [];
+      for (const index of indices) {
+        flags.push(await fhevm.userDecryptEbool(page[index].overdue, todoListContractAddress, signers.alice));
+      }
+      return flags;
+    }
+
+    beforeEach(async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Return the library books");
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Renew the insurance");
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Sort the photos");
+    });
+
+    it("should store an encrypted due date", async function () {
+      const dueDate = (await time.latest()) + DAY;
+      await expect(setDueDate(0, dueDate))
+        .to.emit(todoListContract, "TodoDueDateChanged")
+        .withArgs(signers.alice.address, 0, anyValue);
+
+      const [page] = await todoListContract.getTodos(signers.alice.address, 0, 2);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, page[0].dueDate, todoListContractAddress, signers.alice),
+      ).to.eq(BigInt(dueDate));
+      expect(page[1].dueDate).to.eq(ethers.ZeroHash);
+      expect(page[0].overdue).to.eq(ethers.ZeroHash);
+      await expectDecryptionDenied(
+        fhevm.userDecryptEuint(FhevmType.euint64, page[0].dueDate, todoListContractAddress, signers.bob),
+      );
+    });
+
+    it("should flag incomplete todos past their due date", async function () {
+      const now = await time.latest();
+      await (await setDueDate(0, now - 60 * 60)).wait();
+      await (await setDueDate(1, now + DAY)).wait();
+
+      await expect(todoListContract.connect(signers.alice).checkOverdue([0]))
+        .to.emit(todoListContract, "OverdueChecked")
+        .withArgs(signers.alice.address, 0, anyValue);
+      expect(await checkOverdue([0, 1, 2])).to.deep.eq([true, false, false]);
+
+      await time.increase(2 * DAY);
+      expect(await checkOverdue([0, 1, 2])).to.deep.eq([true, true, false]);
+    });
+
+    it("should not flag completed todos or removed due dates", async function () {
+      const now = await time.latest();
+      await (await setDueDate(0, now - 60 * 60)).wait();
+      await (await setDueDate(1, now - 60 * 60)).wait();
+      await (await todoListContract.connect(signers.alice).toggleTodo(0)).wait();
+      await (await setDueDate(1, 0)).wait();
+
+      expect(await checkOverdue([0, 1])).to.deep.eq([false, false]);
+    });
+
+    it("should grant collaborators the due date and overdue flag", async function () {
+      const dueDate = (await time.latest()) - 60 * 60;
+      await (await setDueDate(0, dueDate)).wait();
+      await (await todoListContract.connect(signers.alice).checkOverdue([0])).wait();
+      await (await todoListContract.connect(signers.alice).shareList(signers.bob.address)).wait();
+
+      const [page] = await todoListContract.getTodos(signers.alice.address, 0, 1);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, page[0].dueDate, todoListContractAddress, signers.bob),
+      ).to.eq(BigInt(dueDate));
+      expect(await fhevm.userDecryptEbool(page[0].overdue, todoListContractAddress, signers.bob)).to.eq(true);
+    });
+
+    it("should reject invalid due dates and overdue checks", async function () {
+      await (await todoListContract.connect(signers.alice).archiveTodo(0)).wait();
+      await expect(setDueDate(0, 1)).to.be.revertedWithCustomError(todoListContract, "TodoNotActive");
+      await expect(setDueDate(3, 1)).to.be.revertedWithCustomError(todoListContract, "TodoIndexOutOfBounds");
+      await expect(todoListContract.connect(signers.alice).checkOverdue([0])).to.be.revertedWithCustomError(
+        todoListContract,
+        "TodoNotActive",
+      );
+      await expect(todoListContract.connect(signers.alice).checkOverdue([3])).to.be.revertedWithCustomError(
+        todoListContract,
+        "TodoIndexOutOfBounds",
+      );
+      await expect(
+        todoListContract.connect(signers.alice).checkOverdue(Array(33).fill(1)),
+      ).to.be.revertedWithCustomError(todoListContract, "TooManyTodos");
+    });
+  });
+
+  describe("tags", function () {
+    // Bits of the caller's tag dictionary
+    const WORK = 1 << 0;
+    const HOME = 1 << 1;
+    const URGENT = 1 << 2;
+
+    async function setTags(index: number, tags: number) {
+      const encryptedTags = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .add32(tags)
+        .encrypt();
+      return todoListContract.connect(signers.alice).setTags(index, encryptedTags.handles[0], encryptedTags.inputProof);
+    }
+
+    async function matchTags(filter: number, indices: number[]) {
+      const encryptedFilter = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .add32(filter)
+        .encrypt();
+      return todoListContract
+        .connect(signers.alice)
+        .matchTags(encryptedFilter.handles[0], encryptedFilter.inputProof, indices);
+    }
+
+    async function decryptMatches(indices: number[]) {
+      const handles = await todoListContract.getTagMatches(signers.alice.address, indices);
+      const matches: boolean[] = [];
+      for (const handle of handles) {
+        matches.push(await fhevm.userDecryptEbool(handle, todoListContractAddress, signers.alice));
+      }
+      return matches;
+    }
+
+    beforeEach(async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Write the quarterly report");
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Fix the leaking tap");
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Call the plumber");
+    });
+
+    it("should store an encrypted tag bitmask", async function () {
+      await expect(setTags(0, WORK | URGENT))
+        .to.emit(todoListContract, "TodoTagsChanged")
+        .withArgs(signers.alice.address, 0, anyValue);
+
+      const [page] = await todoListContract.getTodos(signers.alice.address, 0, 2);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, page[0].tags, todoListContractAddress, signers.alice),
+      ).to.eq(BigInt(WORK | URGENT));
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, page[1].tags, todoListContractAddress, signers.alice),
+      ).to.eq(0n);
+      await expectDecryptionDenied(
+        fhevm.userDecryptEuint(FhevmType.euint32, page[0].tags, todoListContractAddress, signers.bob),
+      );
+    });
+
+    it("should store the tags of a new todo in the create call", async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Order the parts", TASKS, false, HOME);
+
+      const [page] = await todoListContract.getTodos(signers.alice.address, 3, 1);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, page[0].tags, todoListContractAddress, signers.alice),
+      ).to.eq(BigInt(HOME));
+    });
+
+    it("should match todos having every tag of an encrypted filter", async function () {
+      await (await setTags(0, WORK | URGENT)).wait();
+      await (await setTags(1, HOME | URGENT)).wait();
+
+      await expect(matchTags(URGENT, [0, 1, 2]))
+        .to.emit(todoListContract, "TagsMatched")
+        .withArgs(signers.alice.address, anyValue);
+      expect(await decryptMatches([0, 1, 2])).to.deep.eq([true, true, false]);
+
+      await (await matchTags(HOME | URGENT, [0, 1, 2])).wait();
+      expect(await decryptMatches([0, 1, 2])).to.deep.eq([false, true, false]);
+    });
+
+    it("should keep tag matches private to the caller", async function () {
+      await (await setTags(0, WORK)).wait();
+      await (await todoListContract.connect(signers.alice).shareList(signers.bob.address)).wait();
+      await (await matchTags(WORK, [0])).wait();
+
+      const [page] = await todoListContract.getTodos(signers.alice.address, 0, 1);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, page[0].tags, todoListContractAddress, signers.bob)).to.eq(
+        BigInt(WORK),
+      );
+      const [matched] = await todoListContract.getTagMatches(signers.alice.address, [0]);
+      await expectDecryptionDenied(fhevm.userDecryptEbool(matched, todoListContractAddress, signers.bob));
+      expect(await todoListContract.getTagMatches(signers.bob.address, [0])).to.deep.eq([ethers.ZeroHash]);
+    });
+
+    it("should reject invalid tag updates and matches", async function () {
+      await (await todoListContract.connect(signers.alice).archiveTodo(0)).wait();
+      await expect(setTags(0, WORK)).to.be.revertedWithCustomError(todoListContract, "TodoNotActive");
+      await expect(setTags(3, WORK)).to.be.revertedWithCustomError(todoListContract, "TodoIndexOutOfBounds");
+      await expect(matchTags(WORK, [3])).to.be.revertedWithCustomError(todoListContract, "TodoIndexOutOfBounds");
+      await expect(matchTags(WORK, Array(33).fill(1))).to.be.revertedWithCustomError(todoListContract, "TooManyTodos");
+    });
+  });
+
+  describe("subtasks", function () {
+    async function setParent(index: number, parentIndex: number) {
+      await (await todoListContract.connect(signers.alice).setParent(index, parentIndex)).wait();
+    }
+
+    async function toggle(index: number) {
+      await (await todoListContract.connect(signers.alice).toggleTodo(index)).wait();
+    }
+
+    async function decryptCompleted(indices: number[]) {
+      const [page] = await todoListContract.getTodos(signers.alice.address, 0, 5);
+      const completed: boolean[] = [];
+      for (const index of indices) {
+        completed.push(
+          page[index].completed === ethers.ZeroHash
+            ? false
+            : await fhevm.userDecryptEbool(page[index].completed, todoListContractAddress, signers.alice),
+        );
+      }
+      return completed;
+    }
+
+    beforeEach(async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Morning workout", EXERCISE);
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Stretch", EXERCISE);
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Push-ups", EXERCISE);
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Run 5k", EXERCISE);
+    });
+
+    it("should attach and detach subtasks", async function () {
+      await expect(todoListContract.connect(signers.alice).setParent(1, 0))
+        .to.emit(todoListContract, "TodoParentChanged")
+        .withArgs(signers.alice.address, 1, anyValue);
+      await setParent(2, 0);
+
+      expect(await todoListContract.getChildren(signers.alice.address, 0)).to.deep.eq([1n, 2n]);
+      const [page] = await todoListContract.getTodos(signers.alice.address, 0, 4);
+      expect(page.map((todo) => todo.parent)).to.deep.eq([0n, 1n, 1n, 0n]);
+
+      await expect(todoListContract.connect(signers.alice).clearParent(1))
+        .to.emit(todoListContract, "TodoParentChanged")
+        .withArgs(signers.alice.address, 1, anyValue);
+      expect(await todoListContract.getChildren(signers.alice.address, 0)).to.deep.eq([2n]);
+      const [after] = await todoListContract.getTodos(signers.alice.address, 0, 2);
+      expect(after[1].parent).to.eq(0);
+    });
+
+    it("should derive the parent's completion from its subtasks", async function () {
+      await setParent(1, 0);
+      await setParent(2, 0);
+      expect(await decryptCompleted([0, 1, 2])).to.deep.eq([false, false, false]);
+
+      await toggle(1);
+      expect(await decryptCompleted([0, 1, 2])).to.deep.eq([false, true, false]);
+
+      await toggle(2);
+      expect(await decryptCompleted([0, 1, 2])).to.deep.eq([true, true, true]);
+
+      await toggle(1);
+      expect(await decryptCompleted([0, 1, 2])).to.deep.eq([false, false, true]);
+    });
+
+    it("should recompute the parent when subtasks are attached, archived or detached", async function () {
+      await setParent(1, 0);
+      await toggle(1);
+      expect(await decryptCompleted([0])).to.deep.eq([true]);
+
+      // A new open subtask reopens the parent, and archiving it completes the parent again
+      await setParent(2, 0);
+      expect(await decryptCompleted([0])).to.deep.eq([false]);
+      await (await todoListContract.connect(signers.alice).archiveTodo(2)).wait();
+      expect(await decryptCompleted([0])).to.deep.eq([true]);
+
+      await setParent(3, 0);
+      expect(await decryptCompleted([0])).to.deep.eq([false]);
+      await (await todoListContract.connect(signers.alice).clearParent(3)).wait();
+      expect(await decryptCompleted([0])).to.deep.eq([true]);
+
+      // Without active subtasks the parent can be toggled directly again
+      await (await todoListContract.connect(signers.alice).clearParent(1)).wait();
+      await toggle(0);
+      expect(await decryptCompleted([0])).to.deep.eq([false]);
+    });
+
+    it("should count derived completions in the completion statistics", async function () {
+      await setParent(1, 0);
+      await toggle(1);
+
+      const [totalCompleted] = await todoListContract.getCompletionStats(signers.alice.address);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, totalCompleted, todoListContractAddress, signers.alice),
+      ).to.eq(2n);
+    });
+
+    it("should derive recurring parents per day", async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Routine", EXERCISE, true);
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Meditate", EXERCISE, true);
+      await setParent(5, 4);
+      await (await todoListContract.connect(signers.alice).toggleTodo(5)).wait();
+
+      const [page] = await todoListContract.getTodos(signers.alice.address, 4, 1);
+      expect(await fhevm.userDecryptEbool(page[0].completed, todoListContractAddress, signers.alice)).to.eq(true);
+
+      await time.increase(24 * 60 * 60);
+      const [nextDay] = await todoListContract.getTodos(signers.alice.address, 4, 1);
+      expect(nextDay[0].completed).to.eq(ethers.ZeroHash);
+    });
+
+    it("should reject direct completion of a parent", async function () {
+      await setParent(1, 0);
+      await expect(todoListContract.connect(signers.alice).toggleTodo(0)).to.be.revertedWithCustomError(
+        todoListContract,
+        "TodoHasSubtasks",
+      );
+      const encryptedCompleted = await fhevm
+        .createEncryptedInput(todoListContractAddress, signers.alice.address)
+        .addBool(true)
+        .encrypt();
+      await expect(
+        todoListContract
+          .connect(signers.alice)
+          .setCompleted(0, encryptedCompleted.handles[0], encryptedCompleted.inputProof),
+      ).to.be.revertedWithCustomError(todoListContract, "TodoHasSubtasks");
+      await (await todoListContract.connect(signers.alice).assignTodo(0, signers.bob.address)).wait();
+      await expect(
+        todoListContract.connect(signers.bob).completeAssigned(signers.alice.address, 0),
+      ).to.be.revertedWithCustomError(todoListContract, "TodoHasSubtasks");
+    });
+
+    it("should reject invalid parents", async function () {
+      await setParent(1, 0);
+      await expect(todoListContract.connect(signers.alice).setParent(0, 0)).to.be.revertedWithCustomError(
+        todoListContract,
+        "InvalidParent",
+      );
+      // One level only: a subtask cannot get subtasks, a parent cannot become a subtask
+      await expect(todoListContract.connect(signers.alice).setParent(2, 1)).to.be.revertedWithCustomError(
+        todoListContract,
+        "InvalidParent",
+      );
+      await expect(todoListContract.connect(signers.alice).setParent(0, 3)).to.be.revertedWithCustomError(
+        todoListContract,
+        "InvalidParent",
+      );
+      await expect(todoListContract.connect(signers.alice).setParent(1, 3)).to.be.revertedWithCustomError(
+        todoListContract,
+        "InvalidParent",
+      );
+      await expect(todoListContract.connect(signers.alice).setParent(4, 0)).to.be.revertedWithCustomError(
+        todoListContract,
+        "TodoIndexOutOfBounds",
+      );
+      await (await todoListContract.connect(signers.alice).archiveTodo(3)).wait();
+      await expect(todoListContract.connect(signers.alice).setParent(3, 0)).to.be.revertedWithCustomError(
+        todoListContract,
+        "TodoNotActive",
+      );
+      await expect(todoListContract.connect(signers.alice).clearParent(2)).to.be.revertedWithCustomError(
+        todoListContract,
+        "TodoHasNoParent",
+      );
+
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Daily stretch", EXERCISE, true);
+      await expect(todoListContract.connect(signers.alice).setParent(4, 0)).to.be.revertedWithCustomError(
+        todoListContract,
+        "RecurrenceMismatch",
+      );
+    });
+  });
+
+  describe("manual order", function () {
+    beforeEach(async function () {
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Buy groceries", TASKS);
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Pay rent", TASKS);
+      await createTodo(todoListContract, todoListContractAddress, signers.alice, "Call mom", SLEEP);
+    });
+
+    it("should store the order per user", async function () {
+      expect(await todoListContract.getTodoOrder(signers.alice.address)).to.deep.eq([]);
+
+      await expect(todoListContract.connect(signers.alice).reorder([2, 0, 1]))
+        .to.emit(todoListContract, "TodosReordered")
+        .withArgs(signers.alice.address, anyValue);
+      expect(await todoListContract.getTodoOrder(signers.alice.address)).to.deep.eq([2n, 0n, 1n]);
+      expect(await todoListContract.getTodoOrder(signers.bob.address)).to.deep.eq([]);
+
+      // A partial order replaces the previous one
+      await (await todoListContract.connect(signers.alice).reorder([1])).wait();
+      expect(await todoListContract.getTodoOrder(signers.alice.address)).to.deep.eq([1n]);
+
+      await (await todoListContract.connect(signers.alice).reorder([])).wait();
+      expect(await todoListContract.getTodoOrder(signers.alice.address)).to.deep.eq([]);
+    });
+
+    it("should keep the order and the timestamps independent", async function () {
+      const [before] = await todoListContract.getTodos(signers.alice.address, 0, 3);
+      await (await todoListContract.connect(signers.alice).reorder([2, 0, 1])).wait();
+
+      const [after] = await todoListContract.getTodos(signers.alice.address, 0, 3);
+      expect(after.map((todo) => todo.timestamp)).to.deep.eq(before.map((todo) => todo.timestamp));
+
+      await (await todoListContract.connect(signers.alice).toggleTodo(0)).wait();
+      expect(await todoListContract.getTodoOrder(signers.alice.address)).to.deep.eq([2n, 0n, 1n]);
+    });
+
+    it("should reject invalid orders", async function () {
+      await expect(todoListContract.connect(signers.alice).reorder([0, 3])).to.be.revertedWithCustomError(
+        todoListContract,
+        "TodoIndexOutOfBounds",
+      );
+      await expect(todoListContract.connect(signers.bob).reorder([0])).to.be.revertedWithCustomError(
+        todoListContract,
+        "TodoIndexOutOfBounds",
+      );
+      await expect(todoListContract.connect(signers.alice).reorder([1, 0, 1])).to.be.revertedWithCustomError(
+        todoListContract,
+        "DuplicateTodoIndex",
+      );
+
+      const maxOrdered = await todoListContract.MAX_ORDERED_TODOS();
+      const tooMany = Array.from({ length: Number(maxOrdered) + 1 }, (_, i) => i);
+      await expect(todoListContract.connect(signers.alice).reorder(tooMany)).to.be.revertedWithCustomError(
+        todoListContract,
+        "TooManyTodos",
+      );
+    });
+  });
+});
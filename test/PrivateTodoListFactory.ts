@@ -0,0 +1,128 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { PrivateTodoListFactory, PrivateTodoListFactory__factory } from "../types";
+import { expect } from "chai";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("PrivateTodoListFactory")) as PrivateTodoListFactory__factory;
+  const listFactoryContract = (await factory.deploy()) as PrivateTodoListFactory;
+
+  return { listFactoryContract };
+}
+
+async function createList(listFactoryContract: PrivateTodoListFactory, owner: HardhatEthersSigner, name: string) {
+  const list = await listFactoryContract.connect(owner).createList.staticCall(name);
+  const tx = await listFactoryContract.connect(owner).createList(name);
+  await tx.wait();
+  return ethers.getContractAt("PrivateTodoList", list);
+}
+
+describe("PrivateTodoListFactory", function () {
+  let signers: Signers;
+  let listFactoryContract: PrivateTodoListFactory;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ listFactoryContract } = await deployFixture());
+  });
+
+  it("should have no lists after deployment", async function () {
+    expect(await listFactoryContract.getListCount(signers.alice.address)).to.eq(0);
+    expect(await listFactoryContract.getLists(signers.alice.address)).to.deep.eq([]);
+  });
+
+  it("should create named lists per owner", async function () {
+    await expect(listFactoryContract.connect(signers.alice).createList("work"))
+      .to.emit(listFactoryContract, "ListCreated")
+      .withArgs(signers.alice.address, anyValue, "work", anyValue);
+    await listFactoryContract.connect(signers.alice).createList("personal");
+    await listFactoryContract.connect(signers.bob).createList("health");
+
+    const aliceLists = await listFactoryContract.getLists(signers.alice.address);
+    expect(aliceLists.map((list) => list.name)).to.deep.eq(["work", "personal"]);
+    expect(aliceLists[0].list).to.not.eq(aliceLists[1].list);
+    expect(await listFactoryContract.listOwner(aliceLists[0].list)).to.eq(signers.alice.address);
+
+    const bobLists = await listFactoryContract.getLists(signers.bob.address);
+    expect(bobLists.map((list) => list.name)).to.deep.eq(["health"]);
+    expect(await listFactoryContract.listOwner(bobLists[0].list)).to.eq(signers.bob.address);
+  });
+
+  it("should reject empty and too long list names", async function () {
+    await expect(listFactoryContract.connect(signers.alice).createList("")).to.be.revertedWithCustomError(
+      listFactoryContract,
+      "ListNameEmpty",
+    );
+    await expect(listFactoryContract.connect(signers.alice).createList("x".repeat(65))).to.be.revertedWithCustomError(
+      listFactoryContract,
+      "ListNameTooLong",
+    );
+  });
+
+  it("should only let the owner rename a list", async function () {
+    const workList = await createList(listFactoryContract, signers.alice, "work");
+    const workListAddress = await workList.getAddress();
+
+    await expect(listFactoryContract.connect(signers.alice).renameList(workListAddress, "office"))
+      .to.emit(listFactoryContract, "ListRenamed")
+      .withArgs(signers.alice.address, workListAddress, "office", anyValue);
+    expect((await listFactoryContract.getLists(signers.alice.address))[0].name).to.eq("office");
+
+    await expect(
+      listFactoryContract.connect(signers.bob).renameList(workListAddress, "mine"),
+    ).to.be.revertedWithCustomError(listFactoryContract, "NotYourList");
+  });
+
+  it("should keep the todos of each list separate and decryptable", async function () {
+    const workList = await createList(listFactoryContract, signers.alice, "work");
+    const personalList = await createList(listFactoryContract, signers.alice, "personal");
+    const workListAddress = await workList.getAddress();
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(workListAddress, signers.alice.address)
+      .add32(42)
+      .add32(2)
+      .add32(0)
+      .encrypt();
+    const encryptedText = await fhevm
+      .createEncryptedInput(workListAddress, signers.alice.address)
+      .add256(BigInt(ethers.hexlify(ethers.zeroPadBytes(ethers.toUtf8Bytes("Ship it"), 32))))
+      .encrypt();
+    await (
+      await workList
+        .connect(signers.alice)
+        .createTodo(
+          encryptedInput.handles[0],
+          encryptedInput.handles[1],
+          encryptedInput.handles[2],
+          encryptedText.handles,
+          encryptedInput.inputProof,
+          encryptedText.inputProof,
+          false,
+        )
+    ).wait();
+
+    expect(await workList.getTodoCount(signers.alice.address)).to.eq(1);
+    expect(await personalList.getTodoCount(signers.alice.address)).to.eq(0);
+
+    const [encryptedId] = await workList.getTodo(signers.alice.address, 0);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, encryptedId, workListAddress, signers.alice)).to.eq(42);
+  });
+});
@@ -53,25 +53,33 @@ describe("PrivateTodoListSepolia", function () {
     const todoId = ethers.id(todoText);
     const todoIdUint32 = BigInt(todoId) & BigInt("0xFFFFFFFF");
     
-    const encryptedId = await fhevm
+    // Todo ID, metadata (category 2 = tasks) and tags (none) share one input proof
+    const encryptedInput = await fhevm
       .createEncryptedInput(todoListContractAddress, signers.alice.address)
       .add32(Number(todoIdUint32))
-      .encrypt();
-
-    progress("Creating encrypted completion status...");
-    const encryptedCompleted = await fhevm
-      .createEncryptedInput(todoListContractAddress, signers.alice.address)
+      .add32(2)
       .add32(0)
       .encrypt();
 
+    progress("Creating encrypted todo text...");
+    const textInput = fhevm.createEncryptedInput(todoListContractAddress, signers.alice.address);
+    const textBytes = ethers.toUtf8Bytes(todoText);
+    for (let i = 0; i < textBytes.length; i += 32) {
+      textInput.add256(BigInt(ethers.hexlify(ethers.zeroPadBytes(textBytes.slice(i, i + 32), 32))));
+    }
+    const encryptedText = await textInput.encrypt();
+
     progress(`Calling createTodo() on contract=${todoListContractAddress}...`);
     let tx = await todoListContract
       .connect(signers.alice)
       .createTodo(
-        encryptedId.handles[0],
-        encryptedCompleted.handles[0],
-        encryptedId.inputProof,
-        encryptedCompleted.inputProof
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        encryptedText.handles,
+        encryptedInput.inputProof,
+        encryptedText.inputProof,
+        false,
       );
     await tx.wait();
 
@@ -95,8 +103,7 @@ describe("PrivateTodoListSepolia", function () {
     progress(`Decrypted todo ID=${decryptedId}`);
 
     progress(`Decrypting completion status...`);
-    const decryptedCompleted = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+    const decryptedCompleted = await fhevm.userDecryptEbool(
       encryptedTodoCompleted,
       todoListContractAddress,
       signers.alice,
@@ -104,17 +111,10 @@ describe("PrivateTodoListSepolia", function () {
     progress(`Decrypted completion status=${decryptedCompleted}`);
 
     expect(Number(decryptedId)).to.eq(Number(todoIdUint32));
-    expect(decryptedCompleted).to.eq(0);
+    expect(decryptedCompleted).to.eq(false);
 
     progress("Toggling todo to completed...");
-    const encryptedCompletedToggle = await fhevm
-      .createEncryptedInput(todoListContractAddress, signers.alice.address)
-      .add32(1)
-      .encrypt();
-
-    tx = await todoListContract
-      .connect(signers.alice)
-      .toggleTodo(0, encryptedCompletedToggle.handles[0], encryptedCompletedToggle.inputProof);
+    tx = await todoListContract.connect(signers.alice).toggleTodo(0);
     await tx.wait();
 
     progress("Getting updated todo...");
@@ -124,15 +124,14 @@ describe("PrivateTodoListSepolia", function () {
     );
 
     progress("Decrypting updated completion status...");
-    const updatedDecryptedCompleted = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+    const updatedDecryptedCompleted = await fhevm.userDecryptEbool(
       updatedEncryptedCompleted,
       todoListContractAddress,
       signers.alice,
     );
     progress(`Updated completion status=${updatedDecryptedCompleted}`);
 
-    expect(updatedDecryptedCompleted).to.eq(1);
+    expect(updatedDecryptedCompleted).to.eq(true);
   });
 });
 
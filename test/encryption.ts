@@ -0,0 +1,257 @@
+import { expect } from "chai";
+import {
+  decryptData,
+  DecryptionError,
+  decryptWithKey,
+  deriveKeyFromSecret,
+  encryptData,
+  EncryptionError,
+  EnvelopeFormatError,
+  ENVELOPE_ALGORITHM,
+  ENVELOPE_VERSION,
+  encryptWithKey,
+} from "../src/utils/encryption";
+
+// Low iteration count keeps the PBKDF2 tests fast; the default is exercised once
+const FAST = { iterations: 1000 };
+
+async function expectRejected(promise: Promise<unknown>, errorClass: typeof EncryptionError, code: string) {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).to.be.instanceOf(errorClass);
+    expect((error as EncryptionError).code).to.eq(code);
+    return;
+  }
+  expect.fail("Expected the promise to be rejected");
+}
+
+// Flip one bit of a base64 field
+function flipBit(value: string): string {
+  const bytes = Buffer.from(value, "base64");
+  bytes[bytes.length - 1] ^= 1;
+  return bytes.toString("base64");
+}
+
+// Ciphertext in the format written by earlier versions: base64(iv | AES-GCM(key padded to 32 bytes))
+async function encryptLegacy(data: string, key: string): Promise<string> {
+  const keyBuffer = new TextEncoder().encode(key.padEnd(32, "0").slice(0, 32));
+  const cryptoKey = await crypto.subtle.importKey("raw", keyBuffer, { name: "AES-GCM", length: 256 }, false, [
+    "encrypt",
+  ]);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, cryptoKey, new TextEncoder().encode(data));
+  return Buffer.concat([iv, new Uint8Array(encrypted)]).toString("base64");
+}
+
+describe("encryption", function () {
+  describe("round trip", function () {
+    it("should round-trip with PBKDF2", async function () {
+      const encrypted = await encryptData("buy milk", "password", FAST);
+      const envelope = JSON.parse(encrypted);
+      expect(envelope.v).to.eq(ENVELOPE_VERSION);
+      expect(envelope.alg).to.eq(ENVELOPE_ALGORITHM);
+      expect(envelope.kdf).to.eq("PBKDF2-SHA256");
+      expect(envelope.iter).to.eq(FAST.iterations);
+      expect(await decryptData(encrypted, "password")).to.eq("buy milk");
+    });
+
+    it("should round-trip with HKDF and omit the iteration count", async function () {
+      const encrypted = await encryptData("buy milk", "0xsignature", { kdf: "HKDF-SHA256" });
+      const envelope = JSON.parse(encrypted);
+      expect(envelope.kdf).to.eq("HKDF-SHA256");
+      expect(envelope).to.not.have.property("iter");
+      expect(await decryptData(encrypted, "0xsignature")).to.eq("buy milk");
+    });
+
+    it("should round-trip with the default options", async function () {
+      const encrypted = await encryptData("buy milk", "password");
+      expect(JSON.parse(encrypted).iter).to.be.greaterThanOrEqual(600000);
+      expect(await decryptData(encrypted, "password")).to.eq("buy milk");
+    });
+
+    it("should round-trip unicode and empty strings", async function () {
+      const text = "Café ☕ — 日本語 🎉";
+      expect(await decryptData(await encryptData(text, "password", FAST), "password")).to.eq(text);
+      expect(await decryptData(await encryptData("", "password", FAST), "password")).to.eq("");
+    });
+
+    it("should use a fresh salt and IV for each encryption", async function () {
+      const first = JSON.parse(await encryptData("buy milk", "password", FAST));
+      const second = JSON.parse(await encryptData("buy milk", "password", FAST));
+      expect(first.salt).to.not.eq(second.salt);
+      expect(first.iv).to.not.eq(second.iv);
+      expect(first.ct).to.not.eq(second.ct);
+    });
+
+    it("should reject invalid iteration counts when encrypting", async function () {
+      await expectRejected(
+        encryptData("buy milk", "password", { iterations: 0 }),
+        EncryptionError,
+        "ENCRYPTION_FAILED",
+      );
+    });
+  });
+
+  describe("tampering", function () {
+    let encrypted: string;
+
+    beforeEach(async function () {
+      encrypted = await encryptData("buy milk", "password", FAST);
+    });
+
+    function tamper(change: (envelope: Record<string, unknown>) => void): string {
+      const envelope = JSON.parse(encrypted);
+      change(envelope);
+      return JSON.stringify(envelope);
+    }
+
+    it("should fail with the wrong key", async function () {
+      await expectRejected(decryptData(encrypted, "wrong password"), DecryptionError, "DECRYPTION_FAILED");
+    });
+
+    it("should fail when the ciphertext is modified", async function () {
+      const tampered = tamper((e) => (e.ct = flipBit(e.ct as string)));
+      await expectRejected(decryptData(tampered, "password"), DecryptionError, "DECRYPTION_FAILED");
+    });
+
+    it("should fail when the IV is modified", async function () {
+      const tampered = tamper((e) => (e.iv = flipBit(e.iv as string)));
+      await expectRejected(decryptData(tampered, "password"), DecryptionError, "DECRYPTION_FAILED");
+    });
+
+    it("should fail when the salt is modified", async function () {
+      const tampered = tamper((e) => (e.salt = flipBit(e.salt as string)));
+      await expectRejected(decryptData(tampered, "password"), DecryptionError, "DECRYPTION_FAILED");
+    });
+
+    it("should fail when the iteration count is modified", async function () {
+      const tampered = tamper((e) => (e.iter = FAST.iterations + 1));
+      await expectRejected(decryptData(tampered, "password"), DecryptionError, "DECRYPTION_FAILED");
+    });
+
+    it("should fail when the key derivation is switched", async function () {
+      const tampered = tamper((e) => {
+        e.kdf = "HKDF-SHA256";
+        delete e.iter;
+      });
+      await expectRejected(decryptData(tampered, "password"), DecryptionError, "DECRYPTION_FAILED");
+    });
+  });
+
+  describe("envelope format", function () {
+    it("should reject unsupported versions", async function () {
+      const envelope = JSON.parse(await encryptData("buy milk", "password", FAST));
+      envelope.v = 2;
+      await expectRejected(
+        decryptData(JSON.stringify(envelope), "password"),
+        EnvelopeFormatError,
+        "UNSUPPORTED_VERSION",
+      );
+    });
+
+    it("should reject unsupported algorithms", async function () {
+      const envelope = JSON.parse(await encryptData("buy milk", "password", FAST));
+      envelope.alg = "AES-128-CBC";
+      await expectRejected(
+        decryptData(JSON.stringify(envelope), "password"),
+        EnvelopeFormatError,
+        "UNSUPPORTED_ALGORITHM",
+      );
+
+      envelope.alg = ENVELOPE_ALGORITHM;
+      envelope.kdf = "scrypt";
+      await expectRejected(
+        decryptData(JSON.stringify(envelope), "password"),
+        EnvelopeFormatError,
+        "UNSUPPORTED_ALGORITHM",
+      );
+    });
+
+    it("should reject excessive iteration counts without deriving a key", async function () {
+      const envelope = JSON.parse(await encryptData("buy milk", "password", FAST));
+      envelope.iter = 1e12;
+      await expectRejected(decryptData(JSON.stringify(envelope), "password"), EnvelopeFormatError, "INVALID_ENVELOPE");
+    });
+
+    it("should reject malformed envelopes", async function () {
+      const envelope = JSON.parse(await encryptData("buy milk", "password", FAST));
+      delete envelope.ct;
+      await expectRejected(decryptData(JSON.stringify(envelope), "password"), EnvelopeFormatError, "INVALID_ENVELOPE");
+      await expectRejected(decryptData("{not json", "password"), EnvelopeFormatError, "INVALID_ENVELOPE");
+      await expectRejected(decryptData("not base64!", "password"), EnvelopeFormatError, "INVALID_ENVELOPE");
+      await expectRejected(decryptData("", "password"), EnvelopeFormatError, "INVALID_ENVELOPE");
+    });
+  });
+
+  describe("legacy format", function () {
+    it("should decrypt data written by earlier versions", async function () {
+      const legacy = await encryptLegacy("buy milk", "password");
+      expect(await decryptData(legacy, "password")).to.eq("buy milk");
+    });
+
+    it("should fail on legacy data with the wrong key instead of returning it", async function () {
+      const legacy = await encryptLegacy("buy milk", "password");
+      await expectRejected(decryptData(legacy, "wrong password"), DecryptionError, "DECRYPTION_FAILED");
+    });
+  });
+
+  describe("keyed envelope", function () {
+    const KEY_ID = "local maps v1";
+
+    function deriveKey(secret: string) {
+      return deriveKeyFromSecret(new TextEncoder().encode(secret), new Uint8Array(20), KEY_ID);
+    }
+
+    it("should round-trip and record the key id", async function () {
+      const key = await deriveKey("0xsignature");
+      const encrypted = await encryptWithKey("buy milk", key, KEY_ID);
+      const envelope = JSON.parse(encrypted);
+      expect(envelope.v).to.eq(ENVELOPE_VERSION);
+      expect(envelope.alg).to.eq(ENVELOPE_ALGORITHM);
+      expect(envelope.kid).to.eq(KEY_ID);
+      expect(await decryptWithKey(encrypted, key, KEY_ID)).to.eq("buy milk");
+    });
+
+    it("should report another key id or version instead of a failed decryption", async function () {
+      const key = await deriveKey("0xsignature");
+      const encrypted = await encryptWithKey("buy milk", key, KEY_ID);
+      await expectRejected(decryptWithKey(encrypted, key, "local maps v2"), EnvelopeFormatError, "UNSUPPORTED_KEY");
+      await expectRejected(decryptWithKey(encrypted, key), EnvelopeFormatError, "UNSUPPORTED_KEY");
+
+      const envelope = JSON.parse(encrypted);
+      envelope.v = 2;
+      await expectRejected(
+        decryptWithKey(JSON.stringify(envelope), key, KEY_ID),
+        EnvelopeFormatError,
+        "UNSUPPORTED_VERSION",
+      );
+    });
+
+    it("should fail with the wrong key or a tampered key id", async function () {
+      const encrypted = await encryptWithKey("buy milk", await deriveKey("0xsignature"), KEY_ID);
+      await expectRejected(
+        decryptWithKey(encrypted, await deriveKey("0xother"), KEY_ID),
+        DecryptionError,
+        "DECRYPTION_FAILED",
+      );
+
+      const key = await deriveKey("0xsignature");
+      const envelope = JSON.parse(await encryptWithKey("buy milk", key));
+      envelope.kid = KEY_ID;
+      await expectRejected(decryptWithKey(JSON.stringify(envelope), key, KEY_ID), DecryptionError, "DECRYPTION_FAILED");
+    });
+
+    it("should decrypt data written by earlier versions", async function () {
+      const key = await deriveKey("0xsignature");
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv },
+        key,
+        new TextEncoder().encode("buy milk"),
+      );
+      const legacy = Buffer.concat([iv, new Uint8Array(ciphertext)]).toString("base64");
+      expect(await decryptWithKey(legacy, key, KEY_ID)).to.eq("buy milk");
+    });
+  });
+});
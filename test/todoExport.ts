@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import {
+  ExportableTodo,
+  exportTodos,
+  parseTodoExportFormat,
+  todosToCsv,
+  todosToICalendar,
+  todosToMarkdown,
+} from "../src/utils/todoExport";
+
+// 2024-01-31T08:00:00Z and 2024-02-01T09:30:00Z
+const CREATED = 1706688000;
+const UPDATED = 1706779800;
+
+const TODOS: ExportableTodo[] = [
+  { index: 0, text: "Buy milk", completed: true, createdAt: CREATED, updatedAt: UPDATED, category: "Daily Tasks" },
+  { index: 1, text: "Run 5km", completed: false, createdAt: CREATED, updatedAt: CREATED, category: "Exercise" },
+  { index: 2, text: "Call *Bob*", completed: false, createdAt: CREATED, updatedAt: CREATED, category: "Daily Tasks" },
+];
+
+describe("todoExport", function () {
+  it("should parse export formats", function () {
+    expect(parseTodoExportFormat("md")).to.eq("markdown");
+    expect(parseTodoExportFormat("CSV")).to.eq("csv");
+    expect(parseTodoExportFormat("ics")).to.eq("ics");
+    expect(() => parseTodoExportFormat("pdf")).to.throw("Unknown export format");
+  });
+
+  it("should export Markdown checklists grouped by category", function () {
+    const markdown = todosToMarkdown(TODOS, { title: "My day" });
+    expect(markdown).to.eq(
+      [
+        "# My day",
+        "",
+        "## Daily Tasks",
+        "",
+        "- [x] Buy milk",
+        "- [ ] Call \\*Bob\\*",
+        "",
+        "## Exercise",
+        "",
+        "- [ ] Run 5km",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should export CSV with quoting and formula escaping", function () {
+    const csv = todosToCsv([
+      TODOS[0],
+      { ...TODOS[1], text: 'Say "hi", then\nleave', category: undefined },
+      { ...TODOS[2], text: "=HYPERLINK()" },
+    ]);
+    expect(csv.split("\r\n")).to.deep.eq([
+      "text,completed,created,updated,category",
+      "Buy milk,true,2024-01-31T08:00:00.000Z,2024-02-01T09:30:00.000Z,Daily Tasks",
+      '"Say ""hi"", then leave",false,2024-01-31T08:00:00.000Z,2024-01-31T08:00:00.000Z,',
+      "'=HYPERLINK(),false,2024-01-31T08:00:00.000Z,2024-01-31T08:00:00.000Z,Daily Tasks",
+      "",
+    ]);
+  });
+
+  it("should export an iCalendar VTODO feed", function () {
+    const ics = todosToICalendar(TODOS.slice(0, 2), { uidDomain: "31337.0xabc.0xdef", now: UPDATED });
+    const lines = ics.split("\r\n");
+    expect(lines[0]).to.eq("BEGIN:VCALENDAR");
+    expect(lines).to.include("VERSION:2.0");
+    expect(lines.filter((line) => line === "BEGIN:VTODO")).to.have.length(2);
+    expect(lines).to.include("UID:todo-0@31337.0xabc.0xdef");
+    expect(lines).to.include("DTSTAMP:20240201T093000Z");
+    expect(lines).to.include("CREATED:20240131T080000Z");
+    expect(lines).to.include("STATUS:COMPLETED");
+    expect(lines).to.include("COMPLETED:20240201T093000Z");
+    expect(lines).to.include("STATUS:NEEDS-ACTION");
+    expect(lines).to.include("CATEGORIES:Exercise");
+    expect(lines[lines.length - 2]).to.eq("END:VCALENDAR");
+  });
+
+  it("should escape and fold long iCalendar lines", function () {
+    const text = "Pack: socks, shoes; and ☕ " + "x".repeat(100);
+    const ics = todosToICalendar([{ ...TODOS[0], text }]);
+    const encoder = new TextEncoder();
+    for (const line of ics.split("\r\n")) {
+      expect(encoder.encode(line).length).to.be.at.most(75);
+    }
+    // Unfolding restores the escaped summary
+    const unfolded = ics.replace(/\r\n /g, "");
+    expect(unfolded).to.include(`SUMMARY:Pack: socks\\, shoes\\; and ☕ ${"x".repeat(100)}\r\n`);
+  });
+
+  it("should dispatch on the format", function () {
+    expect(exportTodos(TODOS, "markdown")).to.eq(todosToMarkdown(TODOS));
+    expect(exportTodos(TODOS, "csv")).to.eq(todosToCsv(TODOS));
+    expect(exportTodos(TODOS, "ics", { now: UPDATED })).to.eq(todosToICalendar(TODOS, { now: UPDATED }));
+  });
+});
@@ -23,61 +23,655 @@ import type {
   TypedContractMethod,
 } from "../common";
 
+export declare namespace PrivateTodoList {
+  export type NewTodoStruct = {
+    id: BytesLike;
+    meta: BytesLike;
+    text: BytesLike[];
+    textProofIndex: BigNumberish;
+    recurring: boolean;
+  };
+
+  export type NewTodoStructOutput = [
+    id: string,
+    meta: string,
+    text: string[],
+    textProofIndex: bigint,
+    recurring: boolean
+  ] & {
+    id: string;
+    meta: string;
+    text: string[];
+    textProofIndex: bigint;
+    recurring: boolean;
+  };
+
+  export type AssignedTodoStruct = {
+    owner: AddressLike;
+    todoIndex: BigNumberish;
+  };
+
+  export type AssignedTodoStructOutput = [owner: string, todoIndex: bigint] & {
+    owner: string;
+    todoIndex: bigint;
+  };
+
+  export type TodoViewStruct = {
+    index: BigNumberish;
+    id: BytesLike;
+    completed: BytesLike;
+    meta: BytesLike;
+    text: BytesLike[];
+    timestamp: BigNumberish;
+    createdAt: BigNumberish;
+    recurring: boolean;
+    status: BigNumberish;
+    assignee: AddressLike;
+    dueDate: BytesLike;
+    overdue: BytesLike;
+    tags: BytesLike;
+    parent: BigNumberish;
+  };
+
+  export type TodoViewStructOutput = [
+    index: bigint,
+    id: string,
+    completed: string,
+    meta: string,
+    text: string[],
+    timestamp: bigint,
+    createdAt: bigint,
+    recurring: boolean,
+    status: bigint,
+    assignee: string,
+    dueDate: string,
+    overdue: string,
+    tags: string,
+    parent: bigint
+  ] & {
+    index: bigint;
+    id: string;
+    completed: string;
+    meta: string;
+    text: string[];
+    timestamp: bigint;
+    createdAt: bigint;
+    recurring: boolean;
+    status: bigint;
+    assignee: string;
+    dueDate: string;
+    overdue: string;
+    tags: string;
+    parent: bigint;
+  };
+}
+
 export interface PrivateTodoListInterface extends Interface {
   getFunction(
     nameOrSignature:
+      | "DAY_LENGTH"
+      | "MAX_BATCH_SIZE"
+      | "MAX_COLLABORATORS"
+      | "MAX_FOCUS_PAGE_SIZE"
+      | "MAX_ORDERED_TODOS"
+      | "MAX_PAGE_SIZE"
+      | "MAX_SUBTASKS"
+      | "MAX_TEXT_CHUNKS"
+      | "META_FLAGS_SHIFT"
+      | "META_PRIORITY_SHIFT"
+      | "archiveTodo"
+      | "assignTodo"
+      | "checkOverdue"
+      | "clearParent"
+      | "completeAssigned"
+      | "computeFocusTodo"
       | "createTodo"
+      | "createTodos"
+      | "currentDay"
+      | "deleteTodo"
+      | "getActiveTodoIndices"
+      | "getAssignedTodos"
+      | "getAssignee"
+      | "getChildren"
+      | "getCollaborators"
+      | "getCompletionStats"
+      | "getDayTodoIndices"
+      | "getFocusTodo"
+      | "getSharedLists"
+      | "getTagMatches"
       | "getTodo"
+      | "getTodoCompletionForDay"
       | "getTodoCount"
+      | "getTodoMeta"
+      | "getTodoOrder"
+      | "getTodoRevision"
+      | "getTodoRevisionCount"
+      | "getTodoSchedule"
+      | "getTodoStatus"
+      | "getTodoText"
       | "getTodoTimestamps"
+      | "getTodos"
+      | "importTodo"
+      | "isSharedWith"
+      | "matchTags"
       | "protocolId"
+      | "reorder"
+      | "setCompleted"
+      | "setCompletedMany"
+      | "setDueDate"
+      | "setParent"
+      | "setPriority"
+      | "setTags"
+      | "shareList"
       | "toggleTodo"
+      | "unshareList"
+      | "updateTodo"
   ): FunctionFragment;
 
   getEvent(
-    nameOrSignatureOrTopic: "TodoCreated" | "TodoToggled"
+    nameOrSignatureOrTopic:
+      | "FocusTodoComputed"
+      | "ListShared"
+      | "ListUnshared"
+      | "OverdueChecked"
+      | "TagsMatched"
+      | "TodoArchived"
+      | "TodoAssigned"
+      | "TodoCompletedByAssignee"
+      | "TodoCreated"
+      | "TodoDeleted"
+      | "TodoDueDateChanged"
+      | "TodoParentChanged"
+      | "TodoPriorityChanged"
+      | "TodoTagsChanged"
+      | "TodoToggled"
+      | "TodoUpdated"
+      | "TodosReordered"
   ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "DAY_LENGTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_COLLABORATORS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_FOCUS_PAGE_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_ORDERED_TODOS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PAGE_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_SUBTASKS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_TEXT_CHUNKS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "META_FLAGS_SHIFT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "META_PRIORITY_SHIFT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "archiveTodo",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assignTodo",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkOverdue",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "clearParent",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "completeAssigned",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "computeFocusTodo",
+    values: [BigNumberish, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "createTodo",
-    values: [BytesLike, BytesLike, BytesLike, BytesLike]
+    values: [
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike[],
+      BytesLike,
+      BytesLike,
+      boolean
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createTodos",
+    values: [PrivateTodoList.NewTodoStruct[], BytesLike, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentDay",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deleteTodo",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getActiveTodoIndices",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAssignedTodos",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAssignee",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getChildren",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCollaborators",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCompletionStats",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDayTodoIndices",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFocusTodo",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSharedLists",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTagMatches",
+    values: [AddressLike, BigNumberish[]]
   ): string;
   encodeFunctionData(
     functionFragment: "getTodo",
     values: [AddressLike, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getTodoCompletionForDay",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getTodoCount",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getTodoMeta",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTodoOrder",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTodoRevision",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTodoRevisionCount",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTodoSchedule",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTodoStatus",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTodoText",
+    values: [AddressLike, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getTodoTimestamps",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getTodos",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "importTodo",
+    values: [
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike[],
+      BytesLike,
+      BytesLike,
+      boolean,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isSharedWith",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "matchTags",
+    values: [BytesLike, BytesLike, BigNumberish[]]
+  ): string;
   encodeFunctionData(
     functionFragment: "protocolId",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "toggleTodo",
+    functionFragment: "reorder",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCompleted",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCompletedMany",
+    values: [BigNumberish[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDueDate",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setParent",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPriority",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTags",
     values: [BigNumberish, BytesLike, BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "shareList",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "toggleTodo",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unshareList",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateTodo",
+    values: [BigNumberish, BytesLike, BytesLike[], BytesLike, BytesLike]
+  ): string;
 
+  decodeFunctionResult(functionFragment: "DAY_LENGTH", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_COLLABORATORS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_FOCUS_PAGE_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_ORDERED_TODOS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PAGE_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_SUBTASKS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_TEXT_CHUNKS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "META_FLAGS_SHIFT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "META_PRIORITY_SHIFT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "archiveTodo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "assignTodo", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "checkOverdue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "clearParent",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "completeAssigned",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "computeFocusTodo",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "createTodo", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "createTodos",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "currentDay", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "deleteTodo", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getActiveTodoIndices",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssignedTodos",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssignee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getChildren",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCollaborators",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCompletionStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDayTodoIndices",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getFocusTodo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSharedLists",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTagMatches",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "getTodo", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getTodoCompletionForDay",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getTodoCount",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTodoMeta",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTodoOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTodoRevision",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTodoRevisionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTodoSchedule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTodoStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTodoText",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getTodoTimestamps",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "getTodos", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "importTodo", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isSharedWith",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "matchTags", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
-  decodeFunctionResult(functionFragment: "toggleTodo", data: BytesLike): Result;
-}
-
-export namespace TodoCreatedEvent {
+  decodeFunctionResult(functionFragment: "reorder", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setCompleted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCompletedMany",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setDueDate", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setParent", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setPriority",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setTags", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "shareList", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "toggleTodo", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "unshareList",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "updateTodo", data: BytesLike): Result;
+}
+
+export namespace FocusTodoComputedEvent {
+  export type InputTuple = [user: AddressLike, timestamp: BigNumberish];
+  export type OutputTuple = [user: string, timestamp: bigint];
+  export interface OutputObject {
+    user: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ListSharedEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    collaborator: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    owner: string,
+    collaborator: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    owner: string;
+    collaborator: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ListUnsharedEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    collaborator: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    owner: string,
+    collaborator: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    owner: string;
+    collaborator: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OverdueCheckedEvent {
   export type InputTuple = [
     user: AddressLike,
     todoIndex: BigNumberish,
@@ -99,7 +693,20 @@ export namespace TodoCreatedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace TodoToggledEvent {
+export namespace TagsMatchedEvent {
+  export type InputTuple = [user: AddressLike, timestamp: BigNumberish];
+  export type OutputTuple = [user: string, timestamp: bigint];
+  export interface OutputObject {
+    user: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TodoArchivedEvent {
   export type InputTuple = [
     user: AddressLike,
     todoIndex: BigNumberish,
@@ -121,61 +728,830 @@ export namespace TodoToggledEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export interface PrivateTodoList extends BaseContract {
-  connect(runner?: ContractRunner | null): PrivateTodoList;
-  waitForDeployment(): Promise<this>;
+export namespace TodoAssignedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    todoIndex: BigNumberish,
+    assignee: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    todoIndex: bigint,
+    assignee: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    todoIndex: bigint;
+    assignee: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
 
-  interface: PrivateTodoListInterface;
+export namespace TodoCompletedByAssigneeEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    todoIndex: BigNumberish,
+    assignee: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    todoIndex: bigint,
+    assignee: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    todoIndex: bigint;
+    assignee: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
 
-  queryFilter<TCEvent extends TypedContractEvent>(
-    event: TCEvent,
-    fromBlockOrBlockhash?: string | number | undefined,
-    toBlock?: string | number | undefined
-  ): Promise<Array<TypedEventLog<TCEvent>>>;
-  queryFilter<TCEvent extends TypedContractEvent>(
-    filter: TypedDeferredTopicFilter<TCEvent>,
-    fromBlockOrBlockhash?: string | number | undefined,
-    toBlock?: string | number | undefined
-  ): Promise<Array<TypedEventLog<TCEvent>>>;
+export namespace TodoCreatedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    todoIndex: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    todoIndex: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    todoIndex: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
 
-  on<TCEvent extends TypedContractEvent>(
-    event: TCEvent,
-    listener: TypedListener<TCEvent>
-  ): Promise<this>;
-  on<TCEvent extends TypedContractEvent>(
-    filter: TypedDeferredTopicFilter<TCEvent>,
-    listener: TypedListener<TCEvent>
-  ): Promise<this>;
+export namespace TodoDeletedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    todoIndex: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    todoIndex: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    todoIndex: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
 
-  once<TCEvent extends TypedContractEvent>(
-    event: TCEvent,
-    listener: TypedListener<TCEvent>
-  ): Promise<this>;
-  once<TCEvent extends TypedContractEvent>(
-    filter: TypedDeferredTopicFilter<TCEvent>,
-    listener: TypedListener<TCEvent>
-  ): Promise<this>;
+export namespace TodoDueDateChangedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    todoIndex: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    todoIndex: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    todoIndex: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
 
-  listeners<TCEvent extends TypedContractEvent>(
-    event: TCEvent
-  ): Promise<Array<TypedListener<TCEvent>>>;
-  listeners(eventName?: string): Promise<Array<Listener>>;
-  removeAllListeners<TCEvent extends TypedContractEvent>(
-    event?: TCEvent
-  ): Promise<this>;
+export namespace TodoParentChangedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    todoIndex: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    todoIndex: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    todoIndex: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
 
-  createTodo: TypedContractMethod<
+export namespace TodoPriorityChangedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    todoIndex: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    todoIndex: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    todoIndex: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TodoTagsChangedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    todoIndex: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    todoIndex: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    todoIndex: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TodoToggledEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    todoIndex: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    todoIndex: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    todoIndex: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TodoUpdatedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    todoIndex: BigNumberish,
+    revision: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    todoIndex: bigint,
+    revision: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    todoIndex: bigint;
+    revision: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TodosReorderedEvent {
+  export type InputTuple = [user: AddressLike, timestamp: BigNumberish];
+  export type OutputTuple = [user: string, timestamp: bigint];
+  export interface OutputObject {
+    user: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface PrivateTodoList extends BaseContract {
+  connect(runner?: ContractRunner | null): PrivateTodoList;
+  waitForDeployment(): Promise<this>;
+
+  interface: PrivateTodoListInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  DAY_LENGTH: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_BATCH_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_COLLABORATORS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_FOCUS_PAGE_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_ORDERED_TODOS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PAGE_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_SUBTASKS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_TEXT_CHUNKS: TypedContractMethod<[], [bigint], "view">;
+
+  META_FLAGS_SHIFT: TypedContractMethod<[], [bigint], "view">;
+
+  META_PRIORITY_SHIFT: TypedContractMethod<[], [bigint], "view">;
+
+  archiveTodo: TypedContractMethod<
+    [todoIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  assignTodo: TypedContractMethod<
+    [todoIndex: BigNumberish, assignee: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  checkOverdue: TypedContractMethod<
+    [todoIndices: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  clearParent: TypedContractMethod<
+    [todoIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  completeAssigned: TypedContractMethod<
+    [owner: AddressLike, todoIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  computeFocusTodo: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  createTodo: TypedContractMethod<
+    [
+      encryptedId: BytesLike,
+      encryptedMeta: BytesLike,
+      encryptedTags: BytesLike,
+      encryptedText: BytesLike[],
+      inputProof: BytesLike,
+      textProof: BytesLike,
+      recurring: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  createTodos: TypedContractMethod<
+    [
+      todos: PrivateTodoList.NewTodoStruct[],
+      inputProof: BytesLike,
+      textProofs: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  currentDay: TypedContractMethod<[], [bigint], "view">;
+
+  deleteTodo: TypedContractMethod<
+    [todoIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getActiveTodoIndices: TypedContractMethod<
+    [user: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getAssignedTodos: TypedContractMethod<
+    [assignee: AddressLike],
+    [PrivateTodoList.AssignedTodoStructOutput[]],
+    "view"
+  >;
+
+  getAssignee: TypedContractMethod<
+    [owner: AddressLike, todoIndex: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getChildren: TypedContractMethod<
+    [user: AddressLike, index: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getCollaborators: TypedContractMethod<
+    [owner: AddressLike],
+    [string[]],
+    "view"
+  >;
+
+  getCompletionStats: TypedContractMethod<
+    [user: AddressLike],
+    [
+      [string, string, string, bigint] & {
+        totalCompleted: string;
+        streak: string;
+        completedOnLastDay: string;
+        lastDay: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getDayTodoIndices: TypedContractMethod<
+    [user: AddressLike, day: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getFocusTodo: TypedContractMethod<
+    [user: AddressLike],
+    [
+      [string, string, bigint] & {
+        todoIndex: string;
+        found: string;
+        computedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSharedLists: TypedContractMethod<
+    [collaborator: AddressLike],
+    [string[]],
+    "view"
+  >;
+
+  getTagMatches: TypedContractMethod<
+    [user: AddressLike, todoIndices: BigNumberish[]],
+    [string[]],
+    "view"
+  >;
+
+  getTodo: TypedContractMethod<
+    [user: AddressLike, index: BigNumberish],
+    [
+      [string, string, bigint] & {
+        encryptedId: string;
+        encryptedCompleted: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getTodoCompletionForDay: TypedContractMethod<
+    [user: AddressLike, index: BigNumberish, day: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getTodoCount: TypedContractMethod<[user: AddressLike], [bigint], "view">;
+
+  getTodoMeta: TypedContractMethod<
+    [user: AddressLike, index: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getTodoOrder: TypedContractMethod<[user: AddressLike], [bigint[]], "view">;
+
+  getTodoRevision: TypedContractMethod<
+    [user: AddressLike, index: BigNumberish, revision: BigNumberish],
+    [
+      [string, string[], bigint] & {
+        encryptedId: string;
+        encryptedText: string[];
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getTodoRevisionCount: TypedContractMethod<
+    [user: AddressLike, index: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getTodoSchedule: TypedContractMethod<
+    [user: AddressLike, index: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        createdAt: bigint;
+        createdDay: bigint;
+        recurring: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getTodoStatus: TypedContractMethod<
+    [user: AddressLike, index: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getTodoText: TypedContractMethod<
+    [user: AddressLike, index: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getTodoTimestamps: TypedContractMethod<
+    [user: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getTodos: TypedContractMethod<
+    [user: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [
+      [PrivateTodoList.TodoViewStructOutput[], bigint] & {
+        page: PrivateTodoList.TodoViewStructOutput[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  importTodo: TypedContractMethod<
+    [
+      encryptedId: BytesLike,
+      encryptedCompleted: BytesLike,
+      encryptedMeta: BytesLike,
+      encryptedText: BytesLike[],
+      inputProof: BytesLike,
+      textProof: BytesLike,
+      recurring: boolean,
+      createdAt: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  isSharedWith: TypedContractMethod<
+    [owner: AddressLike, collaborator: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  matchTags: TypedContractMethod<
+    [
+      encryptedFilter: BytesLike,
+      filterProof: BytesLike,
+      todoIndices: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  reorder: TypedContractMethod<
+    [todoIndices: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  setCompleted: TypedContractMethod<
+    [
+      todoIndex: BigNumberish,
+      encryptedCompleted: BytesLike,
+      completedProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setCompletedMany: TypedContractMethod<
+    [
+      todoIndices: BigNumberish[],
+      encryptedCompleted: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setDueDate: TypedContractMethod<
+    [
+      todoIndex: BigNumberish,
+      encryptedDueDate: BytesLike,
+      dueDateProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setParent: TypedContractMethod<
+    [todoIndex: BigNumberish, parentIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPriority: TypedContractMethod<
+    [
+      todoIndex: BigNumberish,
+      encryptedPriority: BytesLike,
+      priorityProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setTags: TypedContractMethod<
+    [todoIndex: BigNumberish, encryptedTags: BytesLike, tagsProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  shareList: TypedContractMethod<
+    [collaborator: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  toggleTodo: TypedContractMethod<
+    [todoIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  unshareList: TypedContractMethod<
+    [collaborator: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  updateTodo: TypedContractMethod<
+    [
+      todoIndex: BigNumberish,
+      encryptedId: BytesLike,
+      encryptedText: BytesLike[],
+      idProof: BytesLike,
+      textProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "DAY_LENGTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BATCH_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_COLLABORATORS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_FOCUS_PAGE_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_ORDERED_TODOS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PAGE_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SUBTASKS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_TEXT_CHUNKS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "META_FLAGS_SHIFT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "META_PRIORITY_SHIFT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "archiveTodo"
+  ): TypedContractMethod<[todoIndex: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "assignTodo"
+  ): TypedContractMethod<
+    [todoIndex: BigNumberish, assignee: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "checkOverdue"
+  ): TypedContractMethod<[todoIndices: BigNumberish[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "clearParent"
+  ): TypedContractMethod<[todoIndex: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "completeAssigned"
+  ): TypedContractMethod<
+    [owner: AddressLike, todoIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "computeFocusTodo"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createTodo"
+  ): TypedContractMethod<
+    [
+      encryptedId: BytesLike,
+      encryptedMeta: BytesLike,
+      encryptedTags: BytesLike,
+      encryptedText: BytesLike[],
+      inputProof: BytesLike,
+      textProof: BytesLike,
+      recurring: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createTodos"
+  ): TypedContractMethod<
+    [
+      todos: PrivateTodoList.NewTodoStruct[],
+      inputProof: BytesLike,
+      textProofs: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "currentDay"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "deleteTodo"
+  ): TypedContractMethod<[todoIndex: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getActiveTodoIndices"
+  ): TypedContractMethod<[user: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getAssignedTodos"
+  ): TypedContractMethod<
+    [assignee: AddressLike],
+    [PrivateTodoList.AssignedTodoStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAssignee"
+  ): TypedContractMethod<
+    [owner: AddressLike, todoIndex: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getChildren"
+  ): TypedContractMethod<
+    [user: AddressLike, index: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCollaborators"
+  ): TypedContractMethod<[owner: AddressLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getCompletionStats"
+  ): TypedContractMethod<
+    [user: AddressLike],
+    [
+      [string, string, string, bigint] & {
+        totalCompleted: string;
+        streak: string;
+        completedOnLastDay: string;
+        lastDay: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDayTodoIndices"
+  ): TypedContractMethod<
+    [user: AddressLike, day: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getFocusTodo"
+  ): TypedContractMethod<
+    [user: AddressLike],
     [
-      encryptedId: BytesLike,
-      encryptedCompleted: BytesLike,
-      idProof: BytesLike,
-      completedProof: BytesLike
+      [string, string, bigint] & {
+        todoIndex: string;
+        found: string;
+        computedAt: bigint;
+      }
     ],
-    [void],
-    "nonpayable"
+    "view"
   >;
-
-  getTodo: TypedContractMethod<
+  getFunction(
+    nameOrSignature: "getSharedLists"
+  ): TypedContractMethod<[collaborator: AddressLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getTagMatches"
+  ): TypedContractMethod<
+    [user: AddressLike, todoIndices: BigNumberish[]],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTodo"
+  ): TypedContractMethod<
     [user: AddressLike, index: BigNumberish],
     [
       [string, string, bigint] & {
@@ -186,77 +1562,265 @@ export interface PrivateTodoList extends BaseContract {
     ],
     "view"
   >;
-
-  getTodoCount: TypedContractMethod<[user: AddressLike], [bigint], "view">;
-
-  getTodoTimestamps: TypedContractMethod<
-    [user: AddressLike],
-    [bigint[]],
+  getFunction(
+    nameOrSignature: "getTodoCompletionForDay"
+  ): TypedContractMethod<
+    [user: AddressLike, index: BigNumberish, day: BigNumberish],
+    [string],
     "view"
   >;
-
-  protocolId: TypedContractMethod<[], [bigint], "view">;
-
-  toggleTodo: TypedContractMethod<
+  getFunction(
+    nameOrSignature: "getTodoCount"
+  ): TypedContractMethod<[user: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getTodoMeta"
+  ): TypedContractMethod<
+    [user: AddressLike, index: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTodoOrder"
+  ): TypedContractMethod<[user: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getTodoRevision"
+  ): TypedContractMethod<
+    [user: AddressLike, index: BigNumberish, revision: BigNumberish],
     [
-      todoIndex: BigNumberish,
+      [string, string[], bigint] & {
+        encryptedId: string;
+        encryptedText: string[];
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTodoRevisionCount"
+  ): TypedContractMethod<
+    [user: AddressLike, index: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTodoSchedule"
+  ): TypedContractMethod<
+    [user: AddressLike, index: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        createdAt: bigint;
+        createdDay: bigint;
+        recurring: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTodoStatus"
+  ): TypedContractMethod<
+    [user: AddressLike, index: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTodoText"
+  ): TypedContractMethod<
+    [user: AddressLike, index: BigNumberish],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTodoTimestamps"
+  ): TypedContractMethod<[user: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getTodos"
+  ): TypedContractMethod<
+    [user: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [
+      [PrivateTodoList.TodoViewStructOutput[], bigint] & {
+        page: PrivateTodoList.TodoViewStructOutput[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "importTodo"
+  ): TypedContractMethod<
+    [
+      encryptedId: BytesLike,
       encryptedCompleted: BytesLike,
-      completedProof: BytesLike
+      encryptedMeta: BytesLike,
+      encryptedText: BytesLike[],
+      inputProof: BytesLike,
+      textProof: BytesLike,
+      recurring: boolean,
+      createdAt: BigNumberish
     ],
     [void],
     "nonpayable"
   >;
-
-  getFunction<T extends ContractMethod = ContractMethod>(
-    key: string | FunctionFragment
-  ): T;
-
   getFunction(
-    nameOrSignature: "createTodo"
+    nameOrSignature: "isSharedWith"
+  ): TypedContractMethod<
+    [owner: AddressLike, collaborator: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "matchTags"
   ): TypedContractMethod<
     [
-      encryptedId: BytesLike,
+      encryptedFilter: BytesLike,
+      filterProof: BytesLike,
+      todoIndices: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "reorder"
+  ): TypedContractMethod<[todoIndices: BigNumberish[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCompleted"
+  ): TypedContractMethod<
+    [
+      todoIndex: BigNumberish,
       encryptedCompleted: BytesLike,
-      idProof: BytesLike,
       completedProof: BytesLike
     ],
     [void],
     "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "getTodo"
+    nameOrSignature: "setCompletedMany"
   ): TypedContractMethod<
-    [user: AddressLike, index: BigNumberish],
     [
-      [string, string, bigint] & {
-        encryptedId: string;
-        encryptedCompleted: string;
-        timestamp: bigint;
-      }
+      todoIndices: BigNumberish[],
+      encryptedCompleted: BytesLike[],
+      inputProof: BytesLike
     ],
-    "view"
+    [void],
+    "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "getTodoCount"
-  ): TypedContractMethod<[user: AddressLike], [bigint], "view">;
+    nameOrSignature: "setDueDate"
+  ): TypedContractMethod<
+    [
+      todoIndex: BigNumberish,
+      encryptedDueDate: BytesLike,
+      dueDateProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
-    nameOrSignature: "getTodoTimestamps"
-  ): TypedContractMethod<[user: AddressLike], [bigint[]], "view">;
+    nameOrSignature: "setParent"
+  ): TypedContractMethod<
+    [todoIndex: BigNumberish, parentIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
-    nameOrSignature: "protocolId"
-  ): TypedContractMethod<[], [bigint], "view">;
+    nameOrSignature: "setPriority"
+  ): TypedContractMethod<
+    [
+      todoIndex: BigNumberish,
+      encryptedPriority: BytesLike,
+      priorityProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTags"
+  ): TypedContractMethod<
+    [todoIndex: BigNumberish, encryptedTags: BytesLike, tagsProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "shareList"
+  ): TypedContractMethod<[collaborator: AddressLike], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "toggleTodo"
+  ): TypedContractMethod<[todoIndex: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unshareList"
+  ): TypedContractMethod<[collaborator: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateTodo"
   ): TypedContractMethod<
     [
       todoIndex: BigNumberish,
-      encryptedCompleted: BytesLike,
-      completedProof: BytesLike
+      encryptedId: BytesLike,
+      encryptedText: BytesLike[],
+      idProof: BytesLike,
+      textProof: BytesLike
     ],
     [void],
     "nonpayable"
   >;
 
+  getEvent(
+    key: "FocusTodoComputed"
+  ): TypedContractEvent<
+    FocusTodoComputedEvent.InputTuple,
+    FocusTodoComputedEvent.OutputTuple,
+    FocusTodoComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ListShared"
+  ): TypedContractEvent<
+    ListSharedEvent.InputTuple,
+    ListSharedEvent.OutputTuple,
+    ListSharedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ListUnshared"
+  ): TypedContractEvent<
+    ListUnsharedEvent.InputTuple,
+    ListUnsharedEvent.OutputTuple,
+    ListUnsharedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OverdueChecked"
+  ): TypedContractEvent<
+    OverdueCheckedEvent.InputTuple,
+    OverdueCheckedEvent.OutputTuple,
+    OverdueCheckedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TagsMatched"
+  ): TypedContractEvent<
+    TagsMatchedEvent.InputTuple,
+    TagsMatchedEvent.OutputTuple,
+    TagsMatchedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TodoArchived"
+  ): TypedContractEvent<
+    TodoArchivedEvent.InputTuple,
+    TodoArchivedEvent.OutputTuple,
+    TodoArchivedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TodoAssigned"
+  ): TypedContractEvent<
+    TodoAssignedEvent.InputTuple,
+    TodoAssignedEvent.OutputTuple,
+    TodoAssignedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TodoCompletedByAssignee"
+  ): TypedContractEvent<
+    TodoCompletedByAssigneeEvent.InputTuple,
+    TodoCompletedByAssigneeEvent.OutputTuple,
+    TodoCompletedByAssigneeEvent.OutputObject
+  >;
   getEvent(
     key: "TodoCreated"
   ): TypedContractEvent<
@@ -264,6 +1828,41 @@ export interface PrivateTodoList extends BaseContract {
     TodoCreatedEvent.OutputTuple,
     TodoCreatedEvent.OutputObject
   >;
+  getEvent(
+    key: "TodoDeleted"
+  ): TypedContractEvent<
+    TodoDeletedEvent.InputTuple,
+    TodoDeletedEvent.OutputTuple,
+    TodoDeletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TodoDueDateChanged"
+  ): TypedContractEvent<
+    TodoDueDateChangedEvent.InputTuple,
+    TodoDueDateChangedEvent.OutputTuple,
+    TodoDueDateChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TodoParentChanged"
+  ): TypedContractEvent<
+    TodoParentChangedEvent.InputTuple,
+    TodoParentChangedEvent.OutputTuple,
+    TodoParentChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TodoPriorityChanged"
+  ): TypedContractEvent<
+    TodoPriorityChangedEvent.InputTuple,
+    TodoPriorityChangedEvent.OutputTuple,
+    TodoPriorityChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TodoTagsChanged"
+  ): TypedContractEvent<
+    TodoTagsChangedEvent.InputTuple,
+    TodoTagsChangedEvent.OutputTuple,
+    TodoTagsChangedEvent.OutputObject
+  >;
   getEvent(
     key: "TodoToggled"
   ): TypedContractEvent<
@@ -271,8 +1870,110 @@ export interface PrivateTodoList extends BaseContract {
     TodoToggledEvent.OutputTuple,
     TodoToggledEvent.OutputObject
   >;
+  getEvent(
+    key: "TodoUpdated"
+  ): TypedContractEvent<
+    TodoUpdatedEvent.InputTuple,
+    TodoUpdatedEvent.OutputTuple,
+    TodoUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TodosReordered"
+  ): TypedContractEvent<
+    TodosReorderedEvent.InputTuple,
+    TodosReorderedEvent.OutputTuple,
+    TodosReorderedEvent.OutputObject
+  >;
 
   filters: {
+    "FocusTodoComputed(address,uint256)": TypedContractEvent<
+      FocusTodoComputedEvent.InputTuple,
+      FocusTodoComputedEvent.OutputTuple,
+      FocusTodoComputedEvent.OutputObject
+    >;
+    FocusTodoComputed: TypedContractEvent<
+      FocusTodoComputedEvent.InputTuple,
+      FocusTodoComputedEvent.OutputTuple,
+      FocusTodoComputedEvent.OutputObject
+    >;
+
+    "ListShared(address,address,uint256)": TypedContractEvent<
+      ListSharedEvent.InputTuple,
+      ListSharedEvent.OutputTuple,
+      ListSharedEvent.OutputObject
+    >;
+    ListShared: TypedContractEvent<
+      ListSharedEvent.InputTuple,
+      ListSharedEvent.OutputTuple,
+      ListSharedEvent.OutputObject
+    >;
+
+    "ListUnshared(address,address,uint256)": TypedContractEvent<
+      ListUnsharedEvent.InputTuple,
+      ListUnsharedEvent.OutputTuple,
+      ListUnsharedEvent.OutputObject
+    >;
+    ListUnshared: TypedContractEvent<
+      ListUnsharedEvent.InputTuple,
+      ListUnsharedEvent.OutputTuple,
+      ListUnsharedEvent.OutputObject
+    >;
+
+    "OverdueChecked(address,uint256,uint256)": TypedContractEvent<
+      OverdueCheckedEvent.InputTuple,
+      OverdueCheckedEvent.OutputTuple,
+      OverdueCheckedEvent.OutputObject
+    >;
+    OverdueChecked: TypedContractEvent<
+      OverdueCheckedEvent.InputTuple,
+      OverdueCheckedEvent.OutputTuple,
+      OverdueCheckedEvent.OutputObject
+    >;
+
+    "TagsMatched(address,uint256)": TypedContractEvent<
+      TagsMatchedEvent.InputTuple,
+      TagsMatchedEvent.OutputTuple,
+      TagsMatchedEvent.OutputObject
+    >;
+    TagsMatched: TypedContractEvent<
+      TagsMatchedEvent.InputTuple,
+      TagsMatchedEvent.OutputTuple,
+      TagsMatchedEvent.OutputObject
+    >;
+
+    "TodoArchived(address,uint256,uint256)": TypedContractEvent<
+      TodoArchivedEvent.InputTuple,
+      TodoArchivedEvent.OutputTuple,
+      TodoArchivedEvent.OutputObject
+    >;
+    TodoArchived: TypedContractEvent<
+      TodoArchivedEvent.InputTuple,
+      TodoArchivedEvent.OutputTuple,
+      TodoArchivedEvent.OutputObject
+    >;
+
+    "TodoAssigned(address,uint256,address,uint256)": TypedContractEvent<
+      TodoAssignedEvent.InputTuple,
+      TodoAssignedEvent.OutputTuple,
+      TodoAssignedEvent.OutputObject
+    >;
+    TodoAssigned: TypedContractEvent<
+      TodoAssignedEvent.InputTuple,
+      TodoAssignedEvent.OutputTuple,
+      TodoAssignedEvent.OutputObject
+    >;
+
+    "TodoCompletedByAssignee(address,uint256,address,uint256)": TypedContractEvent<
+      TodoCompletedByAssigneeEvent.InputTuple,
+      TodoCompletedByAssigneeEvent.OutputTuple,
+      TodoCompletedByAssigneeEvent.OutputObject
+    >;
+    TodoCompletedByAssignee: TypedContractEvent<
+      TodoCompletedByAssigneeEvent.InputTuple,
+      TodoCompletedByAssigneeEvent.OutputTuple,
+      TodoCompletedByAssigneeEvent.OutputObject
+    >;
+
     "TodoCreated(address,uint256,uint256)": TypedContractEvent<
       TodoCreatedEvent.InputTuple,
       TodoCreatedEvent.OutputTuple,
@@ -284,6 +1985,61 @@ export interface PrivateTodoList extends BaseContract {
       TodoCreatedEvent.OutputObject
     >;
 
+    "TodoDeleted(address,uint256,uint256)": TypedContractEvent<
+      TodoDeletedEvent.InputTuple,
+      TodoDeletedEvent.OutputTuple,
+      TodoDeletedEvent.OutputObject
+    >;
+    TodoDeleted: TypedContractEvent<
+      TodoDeletedEvent.InputTuple,
+      TodoDeletedEvent.OutputTuple,
+      TodoDeletedEvent.OutputObject
+    >;
+
+    "TodoDueDateChanged(address,uint256,uint256)": TypedContractEvent<
+      TodoDueDateChangedEvent.InputTuple,
+      TodoDueDateChangedEvent.OutputTuple,
+      TodoDueDateChangedEvent.OutputObject
+    >;
+    TodoDueDateChanged: TypedContractEvent<
+      TodoDueDateChangedEvent.InputTuple,
+      TodoDueDateChangedEvent.OutputTuple,
+      TodoDueDateChangedEvent.OutputObject
+    >;
+
+    "TodoParentChanged(address,uint256,uint256)": TypedContractEvent<
+      TodoParentChangedEvent.InputTuple,
+      TodoParentChangedEvent.OutputTuple,
+      TodoParentChangedEvent.OutputObject
+    >;
+    TodoParentChanged: TypedContractEvent<
+      TodoParentChangedEvent.InputTuple,
+      TodoParentChangedEvent.OutputTuple,
+      TodoParentChangedEvent.OutputObject
+    >;
+
+    "TodoPriorityChanged(address,uint256,uint256)": TypedContractEvent<
+      TodoPriorityChangedEvent.InputTuple,
+      TodoPriorityChangedEvent.OutputTuple,
+      TodoPriorityChangedEvent.OutputObject
+    >;
+    TodoPriorityChanged: TypedContractEvent<
+      TodoPriorityChangedEvent.InputTuple,
+      TodoPriorityChangedEvent.OutputTuple,
+      TodoPriorityChangedEvent.OutputObject
+    >;
+
+    "TodoTagsChanged(address,uint256,uint256)": TypedContractEvent<
+      TodoTagsChangedEvent.InputTuple,
+      TodoTagsChangedEvent.OutputTuple,
+      TodoTagsChangedEvent.OutputObject
+    >;
+    TodoTagsChanged: TypedContractEvent<
+      TodoTagsChangedEvent.InputTuple,
+      TodoTagsChangedEvent.OutputTuple,
+      TodoTagsChangedEvent.OutputObject
+    >;
+
     "TodoToggled(address,uint256,uint256)": TypedContractEvent<
       TodoToggledEvent.InputTuple,
       TodoToggledEvent.OutputTuple,
@@ -294,5 +2050,27 @@ export interface PrivateTodoList extends BaseContract {
       TodoToggledEvent.OutputTuple,
       TodoToggledEvent.OutputObject
     >;
+
+    "TodoUpdated(address,uint256,uint256,uint256)": TypedContractEvent<
+      TodoUpdatedEvent.InputTuple,
+      TodoUpdatedEvent.OutputTuple,
+      TodoUpdatedEvent.OutputObject
+    >;
+    TodoUpdated: TypedContractEvent<
+      TodoUpdatedEvent.InputTuple,
+      TodoUpdatedEvent.OutputTuple,
+      TodoUpdatedEvent.OutputObject
+    >;
+
+    "TodosReordered(address,uint256)": TypedContractEvent<
+      TodosReorderedEvent.InputTuple,
+      TodosReorderedEvent.OutputTuple,
+      TodosReorderedEvent.OutputObject
+    >;
+    TodosReordered: TypedContractEvent<
+      TodosReorderedEvent.InputTuple,
+      TodosReorderedEvent.OutputTuple,
+      TodosReorderedEvent.OutputObject
+    >;
   };
 }
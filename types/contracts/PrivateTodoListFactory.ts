@@ -0,0 +1,287 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace PrivateTodoListFactory {
+  export type TodoListInfoStruct = {
+    list: AddressLike;
+    createdAt: BigNumberish;
+    name: string;
+  };
+
+  export type TodoListInfoStructOutput = [
+    list: string,
+    createdAt: bigint,
+    name: string
+  ] & { list: string; createdAt: bigint; name: string };
+}
+
+export interface PrivateTodoListFactoryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_LISTS_PER_OWNER"
+      | "MAX_LIST_NAME_LENGTH"
+      | "createList"
+      | "getListCount"
+      | "getLists"
+      | "listOwner"
+      | "renameList"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "ListCreated" | "ListRenamed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_LISTS_PER_OWNER",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_LIST_NAME_LENGTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "createList", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "getListCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLists",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "listOwner",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renameList",
+    values: [AddressLike, string]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_LISTS_PER_OWNER",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_LIST_NAME_LENGTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "createList", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getListCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getLists", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "listOwner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "renameList", data: BytesLike): Result;
+}
+
+export namespace ListCreatedEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    list: AddressLike,
+    name: string,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    owner: string,
+    list: string,
+    name: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    owner: string;
+    list: string;
+    name: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ListRenamedEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    list: AddressLike,
+    name: string,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    owner: string,
+    list: string,
+    name: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    owner: string;
+    list: string;
+    name: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface PrivateTodoListFactory extends BaseContract {
+  connect(runner?: ContractRunner | null): PrivateTodoListFactory;
+  waitForDeployment(): Promise<this>;
+
+  interface: PrivateTodoListFactoryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_LISTS_PER_OWNER: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_LIST_NAME_LENGTH: TypedContractMethod<[], [bigint], "view">;
+
+  createList: TypedContractMethod<[name: string], [string], "nonpayable">;
+
+  getListCount: TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+
+  getLists: TypedContractMethod<
+    [owner: AddressLike],
+    [PrivateTodoListFactory.TodoListInfoStructOutput[]],
+    "view"
+  >;
+
+  listOwner: TypedContractMethod<[list: AddressLike], [string], "view">;
+
+  renameList: TypedContractMethod<
+    [list: AddressLike, name: string],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_LISTS_PER_OWNER"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_LIST_NAME_LENGTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createList"
+  ): TypedContractMethod<[name: string], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getListCount"
+  ): TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getLists"
+  ): TypedContractMethod<
+    [owner: AddressLike],
+    [PrivateTodoListFactory.TodoListInfoStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "listOwner"
+  ): TypedContractMethod<[list: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "renameList"
+  ): TypedContractMethod<
+    [list: AddressLike, name: string],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "ListCreated"
+  ): TypedContractEvent<
+    ListCreatedEvent.InputTuple,
+    ListCreatedEvent.OutputTuple,
+    ListCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ListRenamed"
+  ): TypedContractEvent<
+    ListRenamedEvent.InputTuple,
+    ListRenamedEvent.OutputTuple,
+    ListRenamedEvent.OutputObject
+  >;
+
+  filters: {
+    "ListCreated(address,address,string,uint256)": TypedContractEvent<
+      ListCreatedEvent.InputTuple,
+      ListCreatedEvent.OutputTuple,
+      ListCreatedEvent.OutputObject
+    >;
+    ListCreated: TypedContractEvent<
+      ListCreatedEvent.InputTuple,
+      ListCreatedEvent.OutputTuple,
+      ListCreatedEvent.OutputObject
+    >;
+
+    "ListRenamed(address,address,string,uint256)": TypedContractEvent<
+      ListRenamedEvent.InputTuple,
+      ListRenamedEvent.OutputTuple,
+      ListRenamedEvent.OutputObject
+    >;
+    ListRenamed: TypedContractEvent<
+      ListRenamedEvent.InputTuple,
+      ListRenamedEvent.OutputTuple,
+      ListRenamedEvent.OutputObject
+    >;
+  };
+}
@@ -3,3 +3,4 @@
 /* eslint-disable */
 export type { FHECounter } from "./FHECounter";
 export type { PrivateTodoList } from "./PrivateTodoList";
+export type { PrivateTodoListFactory } from "./PrivateTodoListFactory";
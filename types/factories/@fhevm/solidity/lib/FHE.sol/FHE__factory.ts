@@ -46,7 +46,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x602c6032600b8282823980515f1a607314602657634e487b7160e01b5f525f60045260245ffd5b305f52607381538281f3fe730000000000000000000000000000000000000000301460806040525f5ffdfea164736f6c634300081b000a";
+  "0x6080806040523460175760109081601c823930815050f35b5f80fdfe5f80fdfea164736f6c634300081b000a";
 
 type FHEConstructorParams =
   | [signer?: Signer]
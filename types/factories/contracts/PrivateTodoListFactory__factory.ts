@@ -0,0 +1,307 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  PrivateTodoListFactory,
+  PrivateTodoListFactoryInterface,
+} from "../../contracts/PrivateTodoListFactory";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BlueprintDeploymentFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ListDeploymentFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ListNameEmpty",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ListNameTooLong",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotYourList",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TooManyLists",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "list",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ListCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "list",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ListRenamed",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_LISTS_PER_OWNER",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_LIST_NAME_LENGTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "createList",
+    outputs: [
+      {
+        internalType: "address",
+        name: "list",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "getListCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "getLists",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "list",
+            type: "address",
+          },
+          {
+            internalType: "uint64",
+            name: "createdAt",
+            type: "uint64",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+        ],
+        internalType: "struct PrivateTodoListFactory.TodoListInfo[]",
+        name: "lists",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "list",
+        type: "address",
+      },
+    ],
+    name: "listOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "list",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "renameList",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a080604052346100ed57615cba9061001b60208301826100f1565b8181526020810191610abc83396100576021604051809460208201945f86525180918484015e81015f838201520301601f1981018452836100f1565b6100b0602c8351936040519384916020830196606160f81b885261ffff60f01b9060f01b1660218401526880600c6000396000f360b81b60238401525180918484015e81015f838201520301601f1981018352826100f1565b51905ff06001600160a01b038116156100de57608052604051610993908161012982396080518161013a0152f35b63edcc7fd760e01b5f5260045ffd5b5f80fd5b601f909101601f19168101906001600160401b0382119082101761011457604052565b634e487b7160e01b5f52604160045260245ffdfe6080806040526004361015610012575f80fd5b5f3560e01c9081639a6a58a4146105ef57508063a1c55bfe146100ae578063a9c9532814610451578063b8dcc68f146100ea578063d3ef9883146100b3578063df68d74a146100ae5763fc8d04b514610069575f80fd5b346100aa5760203660031901126100aa576001600160a01b0361008a6107df565b165f52600260205260206001600160a01b0360405f205416604051908152f35b5f80fd5b6107f5565b346100aa5760203660031901126100aa576001600160a01b036100d46107df565b165f525f602052602060405f2054604051908152f35b346100aa5760203660031901126100aa5760043567ffffffffffffffff81116100aa5761011b903690600401610810565b6101258183610957565b335f525f6020526040805f20541015610442577f0000000000000000000000000000000000000000000000000000000000000000803b5f19810190811161042e576001600160a01b039181600160405180933c5ff01690811561041f57335f525f60205260405f209260405161019a8161083e565b8381526020810167ffffffffffffffff4216815267ffffffffffffffff84116103f857604051956101d5601f8601601f19166020018861085a565b84875236858501116100aa57848460208901375f60208689010152604083019687528054680100000000000000008110156103f857610219916001820181556108b4565b91909161040c576001600160a01b038060019451161673ffffffffffffffffffffffffffffffffffffffff19835416178255517fffffffff0000000000000000ffffffffffffffffffffffffffffffffffffffff7bffffffffffffffff000000000000000000000000000000000000000083549260a01b1691161781550193519081519467ffffffffffffffff86116103f8578585936102c56020986102bf855461087c565b856108e1565b8790601f831160011461038f576102f392915f9183610384575b50508160011b915f199060031b1c19161790565b90555b335f525f855260405f2054335f526001865260405f20835f52865260405f2055815f526002855260405f206001600160a01b03331673ffffffffffffffffffffffffffffffffffffffff198254161790557f468716da328d85f7ac653a62161722ec07218e3dbac3e3d0712af4b54785bc4b604051806103794296339583610930565b0390a4604051908152f35b0151905089806102df565b601f95949392919519821695835f52805f20915f5b8881106103de575083600195969798106103c6575b505050811b0190556102f6565b01515f1960f88460031b161c191690558880806103b9565b8183015184558a9750600190930192918b01918b016103a4565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f525f60045260245ffd5b633b98a09d60e21b5f5260045ffd5b634e487b7160e01b5f52601160045260245ffd5b6319088df960e31b5f5260045ffd5b346100aa5760403660031901126100aa5761046a6107df565b60243567ffffffffffffffff81116100aa5761048a903690600401610810565b906104958282610957565b335f52600160205260405f206001600160a01b0384165f5260205260405f205480156105e057335f525f60205260405f205f19820191821161042e576001916104dd916108b4565b500167ffffffffffffffff83116103f857610502836104fc835461087c565b836108e1565b5f83601f811160011461057d578061052e925f91610572575b508160011b915f199060031b1c19161790565b90555b7f3151193756ddb28f866036b061732ecfde6996709e0f4e249375bec1d93fac546040518061056d6001600160a01b0342971695339583610930565b0390a4005b90508401358761051b565b50601f19841690825f528460205f20925f5b8181106105c55750106105ac575b5050600183811b019055610531565b8301355f19600386901b60f8161c19169055848061059d565b8684013585556001909401936020938401938893500161058f565b63973efeff60e01b5f5260045ffd5b346100aa5760203660031901126100aa576001600160a01b036106106107df565b165f525f60205260405f20805467ffffffffffffffff81116103f85761063c60208260051b018461085a565b808352602083019081925f5260205f205f925b82841061070157848660405191829160208301906020845251809152604083019060408160051b85010192915f905b82821061068d57505050500390f35b9193600191939550602060808192603f198a82030186528260408a516001600160a01b03815116845267ffffffffffffffff8382015116838501520151606060408401528051918291826060860152018484015e5f838284010152601f80199101160101960192019201859493919261067e565b60405161070d8161083e565b82546001600160a01b038116825260a01c67ffffffffffffffff1660208201526040516001840180545f916107418261087c565b80855291600181169081156107ba5750600114610783575b50509260029282610770602094600197038261085a565b604082015281520192019301929061064f565b5f908152602081209092505b8183106107a457505081016020018282610759565b600181602092548386880101520192019161078f565b60ff191660208087019190915292151560051b85019092019250849150839050610759565b600435906001600160a01b03821682036100aa57565b346100aa575f3660031901126100aa57602060405160408152f35b9181601f840112156100aa5782359167ffffffffffffffff83116100aa57602083818601950101116100aa57565b6060810190811067ffffffffffffffff8211176103f857604052565b90601f8019910116810190811067ffffffffffffffff8211176103f857604052565b90600182811c921680156108aa575b602083101461089657565b634e487b7160e01b5f52602260045260245ffd5b91607f169161088b565b80548210156108cd575f5260205f209060011b01905f90565b634e487b7160e01b5f52603260045260245ffd5b601f82116108ee57505050565b5f5260205f20906020601f840160051c83019310610926575b601f0160051c01905b81811061091b575050565b5f8155600101610910565b9091508190610907565b90918060409360208452816020850152848401375f828201840152601f01601f1916010190565b508015610977576041111561096857565b63011ee47560e01b5f5260045ffd5b633806dd1560e01b5f5260045ffdfea164736f6c634300081b000a608060405234610194575f6060610014610198565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac6060610044610198565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03195f516020615c9a5f395f51905f525416175f516020615c9a5f395f51905f525573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f516020615c5a5f395f51905f525416175f516020615c5a5f395f51905f525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f516020615c7a5f395f51905f525416175f516020615c7a5f395f51905f5255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f516020615c3a5f395f51905f525416175f516020615c3a5f395f51905f5255604051615a6e90816101cc8239f35b5f80fd5b60405190608082016001600160401b038111838210176101b757604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f5f3560e01c80630333415314613c8c57806304ef18b414613c6b5780630813b51314613c125780630bbe959114613b885780630bc2682f14613ad3578063120269cd14613a7e5780631651d6e114613862578063223e97be1461363b578063303c08c61461077f57806335d6d6111461361e5780633b49f097146134105780633c0426b5146133b65780633fb20178146132b357806348f4da20146132985780634a4065901461327c57806352125a7f1461318d5780635ba61e9f146131125780635c9302c9146130f25780635d3f7ceb146130705780635da96f8614612f9a57806367cea54714612e915780636e3c673814612da75780636f1b543114612cc3578063788ae6b014612ba75780638255ef6214612b8c5780638d27fbc614612b055780638f191086146128785780638f4930641461077f578063a2d624d81461285c578063a63da4f01461262d578063ac3878c81461227d578063acfe2861146121b2578063b3050d1b14612196578063b8a62c2f146120d0578063bb09e69c14611fed578063bf96263914611f13578063c57bf47814611ea9578063c95577d3146118c3578063cc1b625f146114c8578063cdc2dfd6146112da578063cfdbf254146112bf578063d22f267d14611243578063d41b64be1461111d578063d6069960146110d9578063d7dcb53b14610df7578063d849c2b014610d8f578063d896f9eb14610c00578063da1f12ab14610be3578063dc00282c14610ad9578063e1f3873f14610942578063e3307d3914610784578063eb892b101461077f578063ed46b3f614610722578063edfeb75a146103e7578063f6fc8d991461035a578063f85a8654146102c65763fe4df7571461028d575f80fd5b346102c35760203660031901126102c35760406020916001600160a01b036102b3613dca565b1681528083522054604051908152f35b80fd5b50346102c35760403660031901126102c3576102e0613dca565b906001600160a01b03602435921680825281602052604082205483101561034b5760609260408361031993600395528060205220613ff5565b50015460ff67ffffffffffffffff8260401c1691620151806040519380855204602084015260801c1615156040820152f35b635254a72160e01b8252600482fd5b50346102c35760203660031901126102c3576001600160a01b0361037c613dca565b169081815280602052604081205490610394826141e3565b92815b8381106103b057604051806103ac8782613e20565b0390f35b6001908284528360205267ffffffffffffffff60036103d28360408820613ff5565b500154166103e08288614222565b5201610397565b50346102c35760603660031901126102c35760043567ffffffffffffffff811161071e57610419903690600401613e8c565b60243567ffffffffffffffff811161071a57610439903690600401613e8c565b91909260443567ffffffffffffffff81116107165761045c903690600401613ebd565b84849294036107075760218210156106f8578160011b926001600160ff1b03831683036105955761049561048f856141e3565b946141e3565b9461049f846141e3565b9689988a5b8681106105a95750505050505092855b8581106104cb5750506104c8935033614d3b565b80f35b6104d58183614222565b515f198101908111610595573388528760205260ff60036104f98360408c20613ff5565b50015460881c166003811015610581571580610571575b61051e575b506001016104b4565b600191956105658261053361056a9433614a72565b61053d8489614222565b526105488133614c96565b610552848a614222565b5261055d8389614222565b519033614bb9565b6141d5565b9490610515565b5061057c81336149ee565b610510565b634e487b7160e01b89526021600452602489fd5b634e487b7160e01b88526011600452602488fd5b6105b4818887614236565b35338d528c60205260408d20548110156106e95760ff60036105e18f604085913381528060205220613ff5565b50015460881c1660038110156106d5576106c6576105ff81336149ee565b6106b75761060d8133614a72565b610617838b614222565b52610638610626838686614236565b35610632368a8961415d565b90614f59565b610642838c614222565b52610658610650838c614222565b518233614bb9565b338d52601060205260408d20908d5260205260408c2054801515806106a5575b610686575b506001016104a4565b8b61069e916106986001949e8e614222565b526141d5565b9a9061067d565b506106b1818d8d614c69565b15610678565b6329c4d95560e01b8d5260048dfd5b631610ce8760e11b8d5260048dfd5b634e487b7160e01b8e52602160045260248efd5b635254a72160e01b8d5260048dfd5b631b266c8b60e11b8752600487fd5b63512509d360e11b8752600487fd5b8580fd5b8380fd5b5080fd5b50346102c35760403660031901126102c35761073c613dca565b906001600160a01b03602435921680825281602052604082205483101561034b57602092604083610774936002955280865220613ff5565b500154604051908152f35b613f01565b50346102c35760203660031901126102c35760043567ffffffffffffffff811161071e576107b6903690600401613e8c565b61010181101561093357338352826020526040832054903384526012602052604084208054908581558161090f575b5050338452601260205260408420908260081c600181018091116108fb5761080c906141e3565b90855b818110610840578642337f9b7f5584713ba9df916b45a353e35bc7485ab6f2f33eab8547988257fd027a928380a380f35b61084b818388614236565b35858110156108ec57600160ff82161b8160081c908061086b8388614222565b51166108dd576108889061087f8388614222565b51179186614222565b528454600160401b8110156108c957906108aa82600180959401885587614318565b63ffffffff80839493549260031b9316831b921b19161790550161080f565b634e487b7160e01b89526041600452602489fd5b635050583960e11b8a5260048afd5b635254a72160e01b8852600488fd5b634e487b7160e01b86526011600452602486fd5b8552600760208620910160031c8101905b818110156107e557858155600101610920565b631b266c8b60e11b8352600483fd5b50346102c35760a03660031901126102c3576004359060443567ffffffffffffffff811161071e57610978903690600401613e8c565b929060643567ffffffffffffffff811161071a5761099a903690600401613ebd565b909460843567ffffffffffffffff8111610716576109bc903690600401613ebd565b939092338752866020526040872054861015610aca573387528660205260ff60036109ea8860408b20613ff5565b50015460881c166003811015610ab657610aa757610a12610a75969798610a1a92369161415d565b602435614e2c565b3388528760205280610a2f8860408b20613ff5565b5055338852876020526003610a478860408b20613ff5565b5001805467ffffffffffffffff19164267ffffffffffffffff16179055610a6f8188336148e7565b866145ee565b9060405191825242917f0ff12039a8e32b4f2427d2b725d0efbc7eb6a499ad84080fb1848d3f4112f7a660203392a480f35b631610ce8760e11b8752600487fd5b634e487b7160e01b88526021600452602488fd5b635254a72160e01b8752600487fd5b50346102c35760203660031901126102c3576004356001600160a01b0333165f525f60205260405f2054811015610bd4576001600160a01b0333165f525f60205260ff6003610b2b8360405f20613ff5565b50015460881c16610b3b81613fa4565b610bc557610b4981336149ee565b610bb65780610bb0610b5e6104c89333614a72565b610b97610b6a82615875565b91610b76838633614bb9565b610b91610b8b84610b8684615875565b614b8e565b93615875565b90614b8e565b610ba9610ba3836159a3565b916159a3565b9033615389565b3361492f565b6329c4d95560e01b5f5260045ffd5b631610ce8760e11b5f5260045ffd5b635254a72160e01b5f5260045ffd5b50346102c357806003193601126102c35760206040516127118152f35b50346102c35760203660031901126102c3576004356001600160a01b0333165f525f60205260405f2054811015610bd457335f90815260106020526040902081835260205260408220548015610d8057335f908152601160205260409020610c67826141c7565b84526020526040832091835b835480821015610d6f5782610c888387613fbb565b90549060031b1c14610c9d5750600101610c73565b610cc7610cb9610cb3610cdd93979596976141c7565b85613fbb565b90549060031b1c9284613fbb565b819391549060031b91821b915f19901b19161790565b905580548015610d5b57916104c89391610d55935f190190610cff8282613fbb565b8154905f199060031b1b19169055555b335f9081526010602052604090208186526020528460408120554290337f877a425097f91ca39c31820bf751b294f80d72775ecf5f4c35b70a4bd97f2fbf8780a46141c7565b33614867565b634e487b7160e01b85526031600452602485fd5b50506104c8925090610d5591610d0f565b6373928b7d60e01b8352600483fd5b50346102c35760403660031901126102c357610da9613dca565b6001600160a01b036024359116808352826020526040832054821015610de8579160409160209382526002845282822090825283522054604051908152f35b635254a72160e01b8352600483fd5b50346102c35760203660031901126102c35760043567ffffffffffffffff811161071e57610e29903690600401613e8c565b602181101561093357825b818110610e3f578380f35b610e4a818385614236565b35903385528460205260408520548210156110ca573385528460205260ff6003610e778460408920613ff5565b50015460881c1660038110156110b6576110a757338552600c6020526040852082865260205260408520549185610ead81615039565b938015908115610f0d575b505050610ee0600193338852600d6020526040882083895260205280604089205582336148e7565b4290337f161f4d20e46ada44a9ff15924c5014def9fe5e89ecbb3eaa7dbc23ffecaf5ea78880a401610e34565b829550818190611095575b60209060646001600160a01b035f516020615a425f395f51905f52541691604051998a9384926336024b2f60e21b84526004840152816024840152600160f81b60448401525af195861561108a578396611054575b5090611042575b60209060646001600160a01b035f516020615a425f395f51905f525416916040519485938492637210768160e01b8452600484015267ffffffffffffffff42166024840152600160f81b60448401525af1908115611037578791611000575b50610ff8610fe6610ee092600196614b8e565b610b91610ff38533614a72565b615875565b938791610eb8565b90506020813d821161102f575b8161101a602093836140ab565b8101031261102b5751610ff8610fd3565b5f80fd5b3d915061100d565b6040513d89823e3d90fd5b50602061104d6150d5565b9050610f74565b925094506020823d8211611082575b81611070602093836140ab565b8101031261102b57879151945f610f6d565b3d9150611063565b6040513d85823e3d90fd5b5060206110a06150d5565b9050610f18565b631610ce8760e11b8552600485fd5b634e487b7160e01b86526021600452602486fd5b635254a72160e01b8552600485fd5b50346102c35760403660031901126102c3576001600160a01b03604060209282611101613dca565b1681526008845281812060243582528452205416604051908152f35b50346102c35760403660031901126102c357611137613dca565b6024356001600160a01b0382165f525f60205260405f2054811015610bd4576001600160a01b038216918284526008602052604084208285526020526001600160a01b03604085205416330361123457825f525f60205260ff600361119f8460405f20613ff5565b50015460881c166111af81613fa4565b610bc5576111bd82826149ee565b610bb65781816111ff6111d38361120495614a72565b6111ec6111e06001615039565b91610b76838787614bb9565b6111f8610ba3836159a3565b9084615389565b61492f565b604051914283527f81ba6c65f638207b73fe854ee59bf8dc18c448c6ca21b13fdeb26e43f2ed7a5660203394a480f35b63177c081d60e11b8452600484fd5b50346102c35760203660031901126102c3576001600160a01b03611265613dca565b16815260126020526040812080549061127d826141e3565b925b82811061129457604051806103ac8682613e20565b8063ffffffff6112a660019385614318565b90549060031b1c166112b88287614222565b520161127f565b50346102c357806003193601126102c3576020604051818152f35b50346102c35760203660031901126102c3576001600160a01b036112fc613dca565b16908181526007602052604081206001600160a01b0333165f5260205260405f20549182156114b95780825260066020526040822080545f1981019081116114a5576113506001600160a01b039183613fbb565b90549060031b1c16935f1981019481861161148857611397816113786113bc96979886613fbb565b9091906001600160a01b038084549260031b9316831b921b1916179055565b84865260076020526001600160a01b036040872091165f5260205260405f20556142d8565b8082526007602052604082206001600160a01b0333165f526020528160405f205533825260056020526040822090825b82548082101561149c57826001600160a01b036114098487613fbb565b90549060031b1c161461141f57506001016113ec565b9192915f1981019081116114885782916113786001600160a01b0361144a6114599461145e97613fbb565b90549060031b1c169184613fbb565b6142d8565b4290337f8339d71a076c1bc970c5ca6250b50a1b28d834b54909699e185395f3dce90b068480a480f35b634e487b7160e01b85526011600452602485fd5b5050905061145e565b634e487b7160e01b84526011600452602484fd5b630f938a1360e11b8252600482fd5b50346102c3576114d736613df6565b9160658310156118b4576001600160a01b03168084528360205260408420549283611502828561412e565b11156118a55750825b8083101561189d5782810390811161148857905b611528826141af565b9261153660405194856140ab565b828452601f19611545846141af565b01865b818110611886575050855b8381106116b3575050505060405191604083016040845282518091526060840190602060608260051b87010194019186905b828210611599578680878760208301520390f35b90919294605f198782030182528551906101c0810191805182526020810151602083015260408101516040830152606081015160608301526080810151926101c06080840152835180915260206101e084019401908b905b80821061169b575050506001926020926101a0808467ffffffffffffffff60a0889701511660a085015267ffffffffffffffff60c08201511660c085015260e0810151151560e085015261164f610100820151610100860190613fae565b6001600160a01b03610120820151166101208501526101408101516101408501526101608101516101608501526101808101516101808501520151910152970192019201909291611585565b909194602080600192885181520196019201906115f1565b6116bd818361412e565b6116c561425f565b90848952886020526116da8160408b20613ff5565b50858a52600260205260408a20828b5260205260408a209082845280546020850152600381015491600260ff8460801c16928d845f1461187b57808b604092526003602052818120888252602052818120620151804204825260205220545b60408801520154606086015280545f1981019190821161186757926117b192611774600161176d60ff95829b9a99986140cd565b50016140e6565b608087015267ffffffffffffffff821660a087015267ffffffffffffffff8260401c1660c0870152151560e086015260881c1661010084016141a3565b858a52600860205260408a20818b526020526001600160a01b0360408b205416610120830152858a52600c60205260408a20818b5260205260408a2054610140830152858a52600d60205260408a20818b5260205260408a2054610160830152858a52600e60205260408a20818b5260205260408a2054610180830152858a52601060205260408a20908a5260205260408920546101a08201526118558288614222565b526118608187614222565b5001611553565b634e487b7160e01b8d52601160045260248dfd5b506001810154611739565b60209061189161425f565b82828901015201611548565b50839061151f565b6118af908361412e565b61150b565b63784931eb60e11b8452600484fd5b50346102c3576118d236613eeb565b6011819392931015611e9a57338252600b6020526040822090831591828015611e8d575b15611e7e57338452836020526040842091611911818761412e565b9083548092105f14611e785761192891508661412e565b8315611e6e57611936615087565b9315611e6757611944615087565b95600493600160f81b5b8383106119f35750866119b7876119af886119a489898f82558586156119e0575b6119789061581d565b93600183019485554260028401556003830196875582015561199c8154309061575a565b33905461575a565b61199c30825461575a565b30905461575a565b42337fbf851580d63665b24c8da7b55023d35680a306b5edf025f6ca84c6c79d0b6b568380a380f35b506119786119ec615087565b905061196f565b90919760ff6003611a048b86613ff5565b50015460881c166003811015611e5457611e4b576002611a248a85613ff5565b5001548015611e3d575b6020836001600160a01b035f516020615a425f395f51905f52541660408c8b8251968795869485936348fcc7ff60e11b855284016060810193815260088a820152015203925af1908115611d65578991611e0c575b508015611df6575b60ff611a96916151cd565b6020611aa28b33614a72565b6064898c611ab7611ab1615087565b96614ae7565b6001600160a01b035f516020615a425f395f51905f525416906040519788968795637702dcff60e01b8752860152602485015260448401525af1908115611d65578991611dc5575b508781988215611db5575b8115611da7575b5f516020615a425f395f51905f5254604080516385362ee760e01b81528b81019c8d5260208d01939093527fff000000000000000000000000000000000000000000000000000000000000008d16908c015290996001600160a01b03909116908a90819060600103818d5a94602095f1988915611d1657908a91829a611d70575b506064896020938c936001600160a01b035f516020615a425f395f51905f525416906040519788968795637702dcff60e01b8752860152602485015260448401525af1908115611d65578991611d34575b505f516020615a425f395f51905f5254604051639cd07acb60e01b815263ffffffff8c16898201529198906001600160a01b03166054891015611d2157826044818d6020948d60248401525af1918215611d16578a89918194611cde575b50906064918495602095506001600160a01b035f516020615a425f395f51905f525416906040519788968795637702dcff60e01b8752860152602485015260448401525af18015611cd3578890611ca1575b60019150985b01919061194e565b506020813d8211611ccb575b81611cba602093836140ab565b8101031261102b5760019051611c93565b3d9150611cad565b6040513d8a823e3d90fd5b935050506020823d8211611d0e575b81611cfa602093836140ab565b8101031261102b57905190878a6064611c41565b3d9150611ced565b6040513d8c823e3d90fd5b602189634e487b7160e01b5f525260245ffd5b90506020813d8211611d5d575b81611d4e602093836140ab565b8101031261102b57515f611be3565b3d9150611d41565b6040513d8b823e3d90fd5b915098506020813d8211611d9f575b81611d8c602093836140ab565b8101031261102b57519789906064611b92565b3d9150611d7f565b50611db0615087565b611b11565b9850611dbf615087565b98611b0a565b90506020813d8211611dee575b81611ddf602093836140ab565b8101031261102b57515f611aff565b3d9150611dd2565b50611a9660ff611e04615087565b915050611a8b565b90506020813d8211611e35575b81611e26602093836140ab565b8101031261102b57515f611a83565b3d9150611e19565b50611e46615087565b611a2e565b97600190611c99565b634e487b7160e01b895260218752602489fd5b8154611944565b6003820154611936565b50611928565b638e468b2960e01b8452600484fd5b50600481015485146118f6565b631b266c8b60e11b8252600482fd5b50346102c35760403660031901126102c357611ec3613dca565b906001600160a01b03602435921680825281602052604082205483101561034b57611efd60209360408460039460ff965280875220613ff5565b50015460881c16611f116040518092613fae565bf35b50346102c35760403660031901126102c357611f2d613dca565b60243567ffffffffffffffff8111611fe957611f4d903690600401613e8c565b9190611f58836141e3565b926001600160a01b03859316925b818110611fb3578486604051918291602083016020845282518091526020604085019301915b818110611f9a575050500390f35b8251845285945060209384019390920191600101611f8c565b600190848752600f60205260408720611fcd828587614236565b3588526020526040872054611fe28288614222565b5201611f66565b8280fd5b50346102c357611ffc36613f1c565b3385528460205260408520548410156110ca573385528460205260ff60036120278660408920613ff5565b50015460881c1660038110156110b6576110a7579161204e612054926120a694369161415d565b90614e2c565b338452600e602052604084208385526020528060408520553384528360205260036120828460408720613ff5565b5001805467ffffffffffffffff19164267ffffffffffffffff1617905582336148e7565b4290337f97cde4d487bc929d5fe0cb5f1ca9eb8ee2903b9030b91446e278c6a1612eea078480a480f35b50346102c35760603660031901126102c35760043560443567ffffffffffffffff8111611fe957612105903690600401613ebd565b335f90815260208190526040902054919291821015610bd4576001600160a01b0333165f525f60205260ff600361213f8460405f20613ff5565b50015460881c1661214f81613fa4565b610bc55761215d82336149ee565b610bb65761217e6121766104c894610bb093369161415d565b602435614f59565b610b9761218b8433614a72565b610b76838633614bb9565b50346102c357806003193601126102c357602060405160088152f35b50346102c35760403660031901126102c3576121cc613dca565b6001600160a01b031681526020819052604081208054909160243581805b84811061224e57506121fb906141e3565b93825b84811061221357604051806103ac8882613e20565b612227836122218385613ff5565b5061499d565b612234575b6001016121fe565b9261224681856106986001948a614222565b93905061222c565b61225c836122218389613ff5565b612269575b6001016121ea565b906122756001916141d5565b919050612261565b50346102c35760403660031901126102c35760043561229a613de0565b90338352826020526040832054811015610de8573383528260205260ff60036122c68360408720613ff5565b50015460881c1660038110156126195761260a576001600160a01b038216913383146125fb573384526008602052604084208285526020526001600160a01b036040852054168084146125ec578061246e575b50338452600860205260408420828552602052604084208373ffffffffffffffffffffffffffffffffffffffff1982541617905582612383575b506040514281527f903bf13d6f4efa3bc5c7043a45e9fee5eadc87334fc83fc0d8cf8571a16b2ed760203392a480f35b8284526009602052604084206040519061239c8261408f565b3382526020820190848252805490600160401b82101561245a57906123c691600182018155614246565b929092612446576124409392916001600160a01b038060019351161673ffffffffffffffffffffffffffffffffffffffff198454161783555191015583855260096020526040852054848652600a602052604086206001600160a01b0333165f5260205260405f2084875260205260408620558233614339565b5f612353565b634e487b7160e01b87526004879052602487fd5b634e487b7160e01b88526041600452602488fd5b808552600a602052604085206001600160a01b0333165f5260205260405f2083865260205260408520548186526009602052604086209081545f198101908111610595576124bc9083614246565b505f1982018281116125d8576124d29084614246565b6125c45781810361258c575b50838852600a602052604088206001600160a01b0380835416165f52602052600160405f209101548852602052604087205580548015612578575f1901906125268282614246565b61256457600181898093550155558452600a602052604084206001600160a01b0333165f5260205260405f208285526020528360408120555f612319565b634e487b7160e01b88526004889052602488fd5b634e487b7160e01b87526031600452602487fd5b6001600160a01b03808354161673ffffffffffffffffffffffffffffffffffffffff198254161781556001808301549101555f6124de565b634e487b7160e01b89526004899052602489fd5b634e487b7160e01b89526011600452602489fd5b639688dc5160e01b8552600485fd5b63fbc8ac4d60e01b8452600484fd5b631610ce8760e11b8352600483fd5b634e487b7160e01b84526021600452602484fd5b50346102c35760603660031901126102c35760243567ffffffffffffffff811161071e5761265f903690600401613ebd565b9060443567ffffffffffffffff811161071a57612680903690600401613e8c565b919092602183101561284d5761269d8594926126a592369161415d565b600435614e2c565b801592845b8181106126db578542337f73283fa48c008027895b0f8e7522ca37d31ba6c5dc5233a26266695e47c0ba248380a380f35b6126e6818386614236565b3590338752866020526040872054821015610aca57338752600e602052604087208288526020526040872054801561283a575b61273090859088811561282a575b61281a57615171565b8487821561280a575b6127f8575b60209060646001600160a01b035f516020615a425f395f51905f525416938b604051958694859363f77f3f1d60e01b8552600485015260248401528160448401525af1908115611cd35788916127c6575b506127c090600193338a52600f60205260408a20908a526020528060408a20556127b9308261575a565b339061575a565b016126aa565b90506020813d82116127f0575b816127e0602093836140ab565b8101031261102b5751600161278f565b3d91506127d3565b506020612803615087565b905061273e565b9150612814615087565b91612739565b9050612824615087565b90615171565b9050612834615087565b90612727565b50612730612846615087565b9050612719565b631b266c8b60e11b8552600485fd5b50346102c357806003193601126102c357602060405160108152f35b503461102b57606036600319011261102b5760043560443567ffffffffffffffff811161102b576128ad903690600401613ebd565b90335f525f60205260405f2054831015610bd457335f525f60205260ff60036128d98560405f20613ff5565b50015460881c166003811015612af157610bc5576128f891369161415d565b916001600160a01b035f516020615a425f395f51905f52541660206040519463196d0b9b60e01b865260243560048701523360248701526080604487015280519182918260848901520160a487015e5f85820160a40152602091855f60a482809560056064830152601f801991011681010301925af1928315612ab2575f93612abd575b506001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561102b57604051630f8e573b60e21b815260048101859052336024820152905f908290604490829084905af18015612ab257612a9f575b50338152600c60205260408120828252602052826040822055338152806020526003612a118360408420613ff5565b5001805467ffffffffffffffff19164267ffffffffffffffff16179055612a38308461575a565b612a428233615288565b90805b8251811015612a745780612a6e6001600160a01b03612a6660019487614222565b51168761575a565b01612a45565b504283337f97fea254da7fcb2c11ffb45502e2bf412ffdbc071df60413d1f97eb45da72c078480a480f35b612aab91505f906140ab565b5f5f6129e2565b6040513d5f823e3d90fd5b9092506020813d602011612ae9575b81612ad9602093836140ab565b8101031261102b5751915f61297c565b3d9150612acc565b634e487b7160e01b5f52602160045260245ffd5b3461102b57602036600319011261102b576001600160a01b03612b26613dca565b165f52600560205260405f206040519081602082549182815201915f5260205f20905f5b818110612b6d576103ac85612b61818703826140ab565b60405191829182613f53565b82546001600160a01b0316845260209093019260019283019201612b4a565b3461102b575f36600319011261102b57602060405160088152f35b3461102b5760e036600319011261102b5760643567ffffffffffffffff811161102b57612bd8903690600401613e8c565b60843567ffffffffffffffff811161102b57612bf8903690600401613ebd565b9160a4359167ffffffffffffffff831161102b57612c9a93612c6b612c7393612c28612c7b963690600401613ebd565b91612c31613f95565b99612c64612c4361269d36898b61415d565b809c612c4e5f615039565b612c5c610a12368c8e61415d565b9042936144cf565b9a8b6145ee565b50369161415d565b604435614e2c565b335f52600e60205260405f20835f526020528060405f205582336148e7565b4290337f5fe68c8471d5f4c66a4cab2a8fbad80c490a61ab13c6327349f6478c3a77f3565f80a4005b3461102b57602036600319011261102b576001600160a01b03612ce4613dca565b165f525f60205260405f205f5f908254915b828110612d675750612d07906141e3565b905f925f5b828110612d2157604051806103ac8682613e20565b60ff6003612d2f8385613ff5565b50015460881c166003811015612af15715612d4d575b600101612d0c565b93612d5f818661069860019488614222565b949050612d45565b60ff6003612d758387613ff5565b50015460881c166003811015612af15715612d93575b600101612cf6565b90612d9f6001916141d5565b919050612d8b565b3461102b57602036600319011261102b576004356001600160a01b0333165f525f60205260405f2054811015610bd4576001600160a01b0333165f525f602052600260ff6003612dfa8460405f20613ff5565b50015460881c16612e0a81613fa4565b14612e8257612e80906001600160a01b0333165f525f6020526003612e328260405f20613ff5565b5001805460ff60881b1916710200000000000000000000000000000000001790554281337fc10cf27d420cc9b0f2368f87c8a155282124ffc4fb9dc0fc3eb157a712be17935f80a43361492f565b005b632636641760e11b5f5260045ffd5b3461102b5761010036600319011261102b5760643567ffffffffffffffff811161102b57612ec3903690600401613e8c565b60843567ffffffffffffffff811161102b57612ee3903690600401613ebd565b909260a43567ffffffffffffffff811161102b57612f05903690600401613ebd565b90612f0e613f95565b9460e4359360014201804211612f8657851015612f7757612f63612f6a95612c9a98612f5c612c73612f4561269d8e8d369161415d565b9c612f54612176368e8461415d565b9b369161415d565b898c6144cf565b97886145ee565b50610b97610b765f615039565b63fed31a3360e01b5f5260045ffd5b634e487b7160e01b5f52601160045260245ffd5b3461102b57602036600319011261102b576004356001600160a01b0333165f525f60205260405f2054811015610bd4576001600160a01b0333165f525f60205260ff6003612feb8360405f20613ff5565b50015460881c16612ffb81613fa4565b610bc557612e80906001600160a01b0333165f525f60205260036130228260405f20613ff5565b5001805460ff60881b1916710100000000000000000000000000000000001790554281337f58e13bac4c898dff690aec07d564af4f1fc02f26e8d24cb8ffb56913c484d4d75f80a43361492f565b3461102b57604036600319011261102b57613089613dca565b6001600160a01b036024359116805f525f60205260405f2054821015610bd4575f52600260205260405f20905f5260205260405f208054905f198201918211612f8657600161176d6103ac936130de936140cd565b604051918291602083526020830190613e59565b3461102b575f36600319011261102b576020620151804204604051908152f35b3461102b57602036600319011261102b576001600160a01b03613133613dca565b165f52600660205260405f206040519081602082549182815201915f5260205f20905f5b81811061316e576103ac85612b61818703826140ab565b82546001600160a01b0316845260209093019260019283019201613157565b3461102b57602036600319011261102b576001600160a01b036131ae613dca565b165f52600960205260405f208054906131c6826141af565b916131d460405193846140ab565b8083526020830180925f5260205f205f915b838310613246578486604051918291602083019060208452518091526040830191905f5b818110613218575050500390f35b825180516001600160a01b03168552602090810151818601528695506040909401939092019160010161320a565b600260206001926040516132598161408f565b6001600160a01b03865416815284860154838201528152019201920191906131e6565b3461102b575f36600319011261102b5760206040516101008152f35b3461102b575f36600319011261102b57602060405160648152f35b3461102b57604036600319011261102b576132cc613dca565b6001600160a01b03602435911690815f525f60205260405f2054811015610bd457613300915f525f60205260405f20613ff5565b506040519060e0820182811067ffffffffffffffff8211176133a257604052805482526103ac67ffffffffffffffff6003600184015493602086019485526002810154604087015201549361337f60ff60608301968481168852848160401c166080850152818160801c16151560a085015260881c1660c083016141a3565b519251935116604051938493846040919493926060820195825260208201520152565b634e487b7160e01b5f52604160045260245ffd5b3461102b57602036600319011261102b576001600160a01b036133d7613dca565b165f526004602052608060405f208054906001810154906003600282015491015491604051938452602084015260408301526060820152f35b3461102b5761341e36613f1c565b90335f525f60205260405f2054841015610bd457335f525f60205260ff600361344a8660405f20613ff5565b50015460881c166003811015612af157610bc5575f9261204e613484923386528560205261347b8760408820613ff5565b5094369161415d565b8015613608575b60ff613496916151cd565b906002810191825480156135ef575b63ffff00ff6134b3916151cd565b9080156135dd575b5f516020615a425f395f51905f525460405163ccc480a160e01b8152600481019290925260086024830152600160f81b6044830152909460209186916064918391906001600160a01b03165af1938415612ab2575f946135a5575b50906135358460039361355c96918115613595575b156135855761522c565b9283905501805467ffffffffffffffff19164267ffffffffffffffff1617905582336148e7565b4290337f63dbeb1e7c400949ff88a628a2f2e0613aec7ecc871ba5f905de10f5da1630d15f80a4005b905061358f615087565b9061522c565b905061359f615087565b9061352b565b9350906020843d6020116135d5575b816135c1602093836140ab565b8101031261102b5792519290613535613516565b3d91506135b4565b5060206135e8615087565b90506134bb565b506134b363ffff00ff613600615087565b9150506134a5565b5061349660ff613616615087565b91505061348b565b3461102b575f36600319011261102b576020604051620151808152f35b3461102b5761364936613eeb565b6001600160a01b0333165f525f60205260405f2080548084109081613858575b5015610bd45760ff600361367d8584613ff5565b50015460881c1661368d81613fa4565b1580613833575b15610bc5578183141580613813575b806137f3575b806137d3575b156137c45760ff60036136d58483836136c88988613ff5565b50015460801c1694613ff5565b50015460801c161515901515036137b557335f908152601160205260409020815f52602052601060405f205410156137a65760018101808211612f8657335f908152601060205260409020835f5260205260405f2055613746336001600160a01b03165f52601160205260405f2090565b815f5260205260405f2091825492600160401b8410156133a257613777610cc78584936001612e8098018155613fbb565b90554290337f877a425097f91ca39c31820bf751b294f80d72775ecf5f4c35b70a4bd97f2fbf5f80a433614867565b631ac78ea160e31b5f5260045ffd5b63f2aa694760e01b5f5260045ffd5b630bea7bb360e31b5f5260045ffd5b50335f908152601160205260409020835f5260205260405f2054156136af565b50335f908152601060205260409020825f5260205260405f2054156136a9565b50335f908152601060205260409020835f5260205260405f2054156136a3565b5060ff60036138428484613ff5565b50015460881c1661385281613fa4565b15613694565b9050821084613669565b3461102b57606036600319011261102b5760043567ffffffffffffffff811161102b57613893903690600401613e8c565b9060243567ffffffffffffffff811161102b576138b4903690600401613ebd565b919060443567ffffffffffffffff811161102b576138d6903690600401613e8c565b9290938515613a70576021861015613a61579336819003601e1901905f5b8781106138fd57005b85606061390b838b8861413b565b01351015613a525761392d613921828a8761413b565b3561204e368a8961415d565b906139375f615039565b6139546020613947848d8a61413b565b013561204e368c8b61415d565b906080613962848d8a61413b565b0135801515810361102b57613979924292866144cf565b613984828b8861413b565b604081013590601e198136030182121561102b57019283359367ffffffffffffffff851161102b57602001938060051b3603851361102b5760606139c9858e8b61413b565b01358a811015613a3e5760051b8601358781121561102b5786019081359167ffffffffffffffff831161102b5760200190823603821361102b57600196613a1094866145ee565b504290337f5fe68c8471d5f4c66a4cab2a8fbad80c490a61ab13c6327349f6478c3a77f3565f80a4016138f4565b634e487b7160e01b5f52603260045260245ffd5b633306f9dd60e01b5f5260045ffd5b631b266c8b60e11b5f5260045ffd5b625c53cf60e61b5f5260045ffd5b3461102b57604036600319011261102b57613a97613dca565b6001600160a01b03613aa7613de0565b165f5260076020526001600160a01b0360405f2091165f52602052602060405f20541515604051908152f35b3461102b576001600160a01b03613ae936613df6565b919290921691825f525f60205260405f2054811015610bd457825f52600260205260405f20815f5260205260405f2054821015613b7957613b3e925f52600260205260405f20905f5260205260405f206140cd565b508054613b526001600284015493016140e6565b91613b6f6040519384938452606060208501526060840190613e59565b9060408301520390f35b632b55cedd60e11b5f5260045ffd5b3461102b57604036600319011261102b576001600160a01b03613ba9613dca565b165f52601160205260405f206024355f5260205260405f206040519081602082549182815201915f5260205f20905f5b818110613bfc576103ac85613bf0818703826140ab565b60405191829182613e20565b8254845260209093019260019283019201613bd9565b3461102b57602036600319011261102b576001600160a01b03613c33613dca565b165f52600b60205260405f2080546103ac60026001840154930154604051938493846040919493926060820195825260208201520152565b3461102b576020613c84613c7e36613df6565b9161400e565b604051908152f35b3461102b57602036600319011261102b57613ca5613dca565b6001600160a01b03811680151580613dc0575b15613db157805f52600760205260405f206001600160a01b0333165f5260205260405f2054613da257335f526005602052601060405f20541015613d9357335f526005602052613d0b8260405f20613fd0565b805f526006602052613d203360405f20613fd0565b5f81815260066020908152604080832054600783528184203385529092528220555b335f525f60205260405f2054811015613d695780613d638460019333614339565b01613d42565b504290337f3e7cd567c7832308e02fb0071b76670a8caabae4384fc91dda9306efb7b2e88d5f80a4005b63f9232cc560e01b5f5260045ffd5b631c292d5d60e21b5f5260045ffd5b63f984d43b60e01b5f5260045ffd5b5033811415613cb8565b600435906001600160a01b038216820361102b57565b602435906001600160a01b038216820361102b57565b606090600319011261102b576004356001600160a01b038116810361102b57906024359060443590565b60206040818301928281528451809452019201905f5b818110613e435750505090565b8251845260209384019390920191600101613e36565b90602080835192838152019201905f5b818110613e765750505090565b8251845260209384019390920191600101613e69565b9181601f8401121561102b5782359167ffffffffffffffff831161102b576020808501948460051b01011161102b57565b9181601f8401121561102b5782359167ffffffffffffffff831161102b576020838186019501011161102b57565b604090600319011261102b576004359060243590565b3461102b575f36600319011261102b57602060405160108152f35b606060031982011261102b5760043591602435916044359067ffffffffffffffff821161102b57613f4f91600401613ebd565b9091565b60206040818301928281528451809452019201905f5b818110613f765750505090565b82516001600160a01b0316845260209384019390920191600101613f69565b60c43590811515820361102b57565b60031115612af157565b906003821015612af15752565b8054821015613a3e575f5260205f2001905f90565b90815491600160401b8310156133a25782611378916001613ff395018155613fbb565b565b8054821015613a3e575f5260205f209060021b01905f90565b6001600160a01b031691825f525f60205260405f2054821015610bd457825f525f60205260ff60036140438460405f20613ff5565b50015460801c1661406b5750614065906001925f525f60205260405f20613ff5565b50015490565b915f52600360205260405f20905f5260205260405f20905f5260205260405f205490565b6040810190811067ffffffffffffffff8211176133a257604052565b90601f8019910116810190811067ffffffffffffffff8211176133a257604052565b8054821015613a3e575f52600360205f20910201905f90565b90604051918281549182825260208201905f5260205f20925f5b818110614115575050613ff3925003836140ab565b8454835260019485019487945060209093019201614100565b91908201809211612f8657565b9190811015613a3e5760051b81013590609e198136030182121561102b570190565b92919267ffffffffffffffff82116133a25760405191614187601f8201601f1916602001846140ab565b82948184528183011161102b578281602093845f960137010152565b6003821015612af15752565b67ffffffffffffffff81116133a25760051b60200190565b5f19810191908211612f8657565b5f198114612f865760010190565b906141ed826141af565b6141fa60405191826140ab565b828152809261420b601f19916141af565b0190602036910137565b805115613a3e5760200190565b8051821015613a3e5760209160051b010190565b9190811015613a3e5760051b0190565b8054821015613a3e575f5260205f209060011b01905f90565b604051906101c0820182811067ffffffffffffffff8211176133a2576040525f6101a083828152826020820152826040820152826060820152606060808201528260a08201528260c08201528260e082015282610100820152826101208201528261014082015282610160820152826101808201520152565b80548015614304575f1901906142ee8282613fbb565b6001600160a01b0382549160031b1b1916905555565b634e487b7160e01b5f52603160045260245ffd5b9190918054831015613a3e575f52601c60205f208360031c019260021b1690565b6001600160a01b039093929316805f525f60205261435a8260405f20613ff5565b5061436685825461575a565b61437485600183015461575a565b61438285600283015461575a565b815f52600c60205260405f20835f5260205260405f205485816144bf575b5050815f52600d60205260405f20835f5260205260405f205485816144af575b5050815f52600e60205260405f20835f5260205260405f2054858161449f575b5050815f52600360205260405f20835f5260205260405f206201518042045f526020528460ff600360405f205493015460801c1680614496575b614486575b50505f52600260205260405f20905f5260205260405f208054905f198201918211612f8657600191614450916140cd565b50015f5b8154811015614480578061447a8561446e60019486613fbb565b90549060031b1c61575a565b01614454565b50509050565b61448f9161575a565b5f8461441f565b5081151561441a565b6144a89161575a565b5f856143e0565b6144b89161575a565b5f856143c0565b6144c89161575a565b5f856143a0565b9093335f525f60205260405f20805490600160401b8210156133a257816144fd916001600394018155613ff5565b508381556001808201889055600282018690559101805470ffffffffffffffffffffffffffffffffff19164267ffffffffffffffff1617604093841b6fffffffffffffffff0000000000000000161786151560801b70ff0000000000000000000000000000000016179055335f90815260209190915220805461457f906141d5565b9055335f52600160205260405f2054935f198501948511612f86576145b16145b8926145bf956145c2575b86336148e7565b84336148e7565b82336148e7565b90565b335f52600360205260405f20875f5260205260405f206201518042045f526020528260405f20556145aa565b9092949194801561485857600981101561484957335f52600260205260405f20825f5260205260405f20958654600160401b8110156133a25780600161463c929895969498018955886140cd565b509485554260028601555f9485946001909101929060085b88881061467357505050505050505050545f198101908111612f865790565b614686888a869d999b9d9c989a9c614236565b359861469336858b61415d565b5f516020615a425f395f51905f525460405163196d0b9b60e01b8152600481019c909c523360248d0152608060448d0152815160848d018190526001600160a01b0390911691819060200160a48e015e5f60a48d8301015282612af1576020918c5f60a4828095896064830152601f801991011681010301925af1998a15612ab2575f9a614816575b506001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561102b57604051630f8e573b60e21b8152600481018c9052336024820152905f908290604490829084905af18015612ab257614806575b508554600160401b8110156133a2576147a5610cc78260018e94018a5589613fbb565b90556147b1308b61575a565b6147bb8333615288565b985f5b8a518110156147ef57806147e98d6001600160a01b036147e18f95600196614222565b51169061575a565b016147be565b50979b969a96995060019096019750949594614654565b5f614810916140ab565b5f614782565b9099506020813d8211614841575b81614831602093836140ab565b8101031261102b5751985f61471c565b3d9150614824565b631f29602760e21b5f5260045ffd5b63610730d960e11b5f5260045ffd5b906001600160a01b0382165f525f60205260ff60036148898360405f20613ff5565b50015460881c1661489981613fa4565b158015906148d6575b6148d257816111ff6148b783613ff395614c96565b6148c18484614a72565b6148cc828686614bb9565b8361496d565b5050565b506148e181836149ee565b156148a2565b906148fe919392936148f9308661575a565b615288565b5f5b815181101561448057806149296001600160a01b0361492160019486614222565b51168661575a565b01614900565b906001600160a01b0382165f52601060205260405f20905f5260205260405f205480614959575050565b5f198101908111612f8657613ff391614867565b61498b613ff39392610b9161498585610b8684615875565b94615875565b614997610ba3846159a3565b91615389565b6003015460ff8160881c166003811015612af1576149e85760ff6201518067ffffffffffffffff8360401c16049160801c165f146149e45760018201809211612f86571090565b1490565b50505f90565b6001600160a01b031690815f52601160205260405f20905f5260205260405f20905f918054925b838110614a2457505050505f90565b825f525f60205260ff6003614a4c60405f20614a408587613fbb565b905490841b1c90613ff5565b50015460881c166003811015612af15715614a6957600101614a15565b50505050600190565b6001600160a01b0316805f525f602052614a8f8260405f20613ff5565b50600381015460801c60ff1615614ada57505f52600360205260405f20905f5260205260405f206201518042045f5260205260405f20545b8015614ad05790565b506145bf5f615039565b9050600191500154614ac7565b8015614b7a575b5f516020615a425f395f51905f525460405163022f65e760e31b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115612ab2575f91614b4b575090565b90506020813d602011614b72575b81614b66602093836140ab565b8101031261102b575190565b3d9150614b59565b505f6020614b86615087565b915050614aee565b906145bf918015614baa575b816151715790506128245f615039565b50614bb45f615039565b614b9a565b91614c1590826001600160a01b03851694855f525f60205260ff6003614be28460405f20613ff5565b506001810186905501805467ffffffffffffffff19164267ffffffffffffffff16179081905560801c16614c3d576148e7565b42917f30c966740033546c5f1ce36ff85197a5f84dc52c725c124b920b2b3acccdef195f80a4565b855f52600360205260405f20825f5260205260405f206201518042045f526020528260405f20556148e7565b9190915f5b838110614c7d57505050505f90565b82614c888284614222565b5114614a6957600101614c6e565b91906001600160a01b03831690815f52601160205260405f20905f5260205260405f2090614cc46001615039565b905f5b8354811015614d3357815f525f60205260ff6003614cec60405f20614a408589613fbb565b50015460881c166003811015612af15715614d0a575b600101614cc7565b91614d2b600191610b91614d1e8688613fbb565b90549060031b1c89614a72565b929050614d02565b509093505050565b91939290938115614e2557614d4f826141e3565b94614d59836141e3565b915f5b848110614db957505050614d8f614d8a614d7a84613ff397986158be565b93614d84856159a3565b936158be565b6159a3565b918015614da6575b614da09061581d565b92615389565b50614da0614db2615123565b9050614d97565b80614deb614de6614dd5614dcf60019588614222565b51615875565b614ddf8487614222565b5190614b8e565b6159f2565b614df5828b614222565b52614e14614de6614e068387614222565b51610b91614dcf8588614222565b614e1e8287614222565b5201614d5c565b5050509050565b919060205f516020615a425f395f51905f5254916040519463196d0b9b60e01b865260048601523360248601526080604486015280519182918260848801520160a486015e5f84820160a40152602091845f6001600160a01b0360a483809660046064830152601f80199101168101030193165af1918215612ab2575f92614f25575b50816001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561102b57604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481015b03925af18015612ab257614f1b5750565b5f613ff3916140ab565b9091506020813d602011614f51575b81614f41602093836140ab565b8101031261102b5751905f614eaf565b3d9150614f34565b919060206001600160a01b035f516020615a425f395f51905f525416916040519463196d0b9b60e01b865260048601523360248601526080604486015280519182918260848801520160a486015e5f84820160a40152602091845f60a4828095836064830152601f801991011681010301925af1918215612ab2575f92614f255750816001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561102b57604051630f8e573b60e21b815260048101929092523360248301525f90829081838160448101614f0a565b5f516020615a425f395f51905f5254604051639cd07acb60e01b815260048101929092526001600160a01b0316816044815f6020948160248401525af1908115612ab2575f91614b4b575090565b5f516020615a425f395f51905f5254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600460248401525af1908115612ab2575f91614b4b575090565b5f516020615a425f395f51905f5254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600560248401525af1908115612ab2575f91614b4b575090565b5f516020615a425f395f51905f5254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600260248401525af1908115612ab2575f91614b4b575090565b5f516020615a425f395f51905f525460405163d99882d560e01b8152600481019290925260248201929092525f604482018190529091602091839160649183916001600160a01b03165af1908115612ab2575f91614b4b575090565b5f516020615a425f395f51905f525460405163d99882d560e01b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af1908115612ab2575f91614b4b575090565b5f516020615a425f395f51905f52546040516363a2db2960e01b8152600481019290925260248201929092525f604482018190529091602091839160649183916001600160a01b03165af1908115612ab2575f91614b4b575090565b6001600160a01b031690815f52600560205260405f2090825f52600860205260405f20905f526020526001600160a01b0360405f205416908054821591825f1461537d576152db60ff60015b168361412e565b946152e5866141af565b956152f360405197886140ab565b808752615302601f19916141af565b0136602088013761531286614215565b525f5b8281106153435750505015615328575090565b81515f198101908111612f865761533f9083614222565b5290565b6001600160a01b036153558284613fbb565b90549060031b1c16906001810191828211612f865761537660019389614222565b5201615315565b6152db60ff60026152d4565b919290926001600160a01b0383165f5260046020526153c260405f209485541561574b575b855481811561573b575b1561572b576157c1565b8181908215938461571b575b15615709575b60209060646001600160a01b035f516020615a425f395f51905f525416935f60405195869485936304559f7160e01b8552600485015260248401528160448401525af1908115612ab2575f916156d7575b508091926156c7575b156156b5575b60209060646001600160a01b035f516020615a425f395f51905f525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115612ab2575f91615683575b5083556201518042046003840180548281036155b4575b50505060028301906154b76154b18354615875565b82614b8e565b93600181019160206154c98454614ae7565b60648554985f6001600160a01b035f516020615a425f395f51905f5254166040519b8c958694637702dcff60e01b86526004860152602485015260448401525af1958615612ab2575f9661557c575b509161555585809361554161555596613ff39a8655885481811561556b575b156155605761522c565b875561554f8154309061575a565b5461575a565b61554f30825461575a565b905061358f5f615039565b90506155765f615039565b90615537565b9550916020863d6020116155ac575b81615598602093836140ab565b8101031261102b5794519491615555615518565b3d915061558b565b60018101809111612f865782036156765760028501546020600187015460646155db615087565b935f6001600160a01b035f516020615a425f395f51905f5254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115612ab2575f91615644575b505b60018601556156365f615039565b6002860155555f808061549c565b90506020813d60201161566e575b8161565f602093836140ab565b8101031261102b57515f615626565b3d9150615652565b61567e615087565b615628565b90506020813d6020116156ad575b8161569e602093836140ab565b8101031261102b57515f615485565b3d9150615691565b5060206156c0615087565b9050615434565b91506156d1615087565b9161542e565b90506020813d602011615701575b816156f2602093836140ab565b8101031261102b57515f615425565b3d91506156e5565b506020615714615087565b90506153d4565b9150615725615087565b916153ce565b9050615735615087565b906157c1565b9050615745615087565b906153b8565b615753615087565b86556153ae565b6001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700541691823b1561102b57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f90829081838160448101614f0a565b5f516020615a425f395f51905f525460405163022f65e760e31b8152600481019290925260248201929092525f604482018190529091602091839160649183916001600160a01b03165af1908115612ab2575f91614b4b575090565b6020600160f81b60646001600160a01b035f516020615a425f395f51905f525416935f60405195869485936385362ee760e01b8552600485015282602485015260448401525af1908115612ab2575f91614b4b575090565b60205f9160246001600160a01b035f516020615a425f395f51905f525416916040519485938492630f51ccfb60e41b845260048401525af1908115612ab2575f91614b4b575090565b905b600181116158d657506158d290614215565b5190565b5f5b8160011c811061592a5750600180821614615901575b60018101809111612f865760011c6158c0565b5f198101818111612f86576159169083614222565b516159248260011c84614222565b526158ee565b8060011b906001600160ff1b0381168103612f86576159498285614222565b519160018101809111612f865760019261596661597a9287614222565b51908015615995575b811561598b576157c1565b6159848286614222565b52016158d8565b9050615735615123565b5061599e615123565b61596f565b5f516020615a425f395f51905f52546040516307227b9160e21b815260048101929092526001600160a01b0316816044815f602094600460248401525af1908115612ab2575f91614b4b575090565b5f516020615a425f395f51905f52546040516307227b9160e21b815260048101929092526001600160a01b0316816044815f602094600260248401525af1908115612ab2575f91614b4b57509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c634300081b000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700";
+
+type PrivateTodoListFactoryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: PrivateTodoListFactoryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class PrivateTodoListFactory__factory extends ContractFactory {
+  constructor(...args: PrivateTodoListFactoryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      PrivateTodoListFactory & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): PrivateTodoListFactory__factory {
+    return super.connect(runner) as PrivateTodoListFactory__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): PrivateTodoListFactoryInterface {
+    return new Interface(_abi) as PrivateTodoListFactoryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): PrivateTodoListFactory {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as PrivateTodoListFactory;
+  }
+}
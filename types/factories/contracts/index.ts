@@ -3,3 +3,4 @@
 /* eslint-disable */
 export { FHECounter__factory } from "./FHECounter__factory";
 export { PrivateTodoList__factory } from "./PrivateTodoList__factory";
+export { PrivateTodoListFactory__factory } from "./PrivateTodoListFactory__factory";
@@ -53,6 +53,10 @@ declare module "hardhat/types/runtime" {
       name: "PrivateTodoList",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.PrivateTodoList__factory>;
+    getContractFactory(
+      name: "PrivateTodoListFactory",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.PrivateTodoListFactory__factory>;
 
     getContractAt(
       name: "EthereumConfig",
@@ -104,6 +108,11 @@ declare module "hardhat/types/runtime" {
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.PrivateTodoList>;
+    getContractAt(
+      name: "PrivateTodoListFactory",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.PrivateTodoListFactory>;
 
     deployContract(
       name: "EthereumConfig",
@@ -145,6 +154,10 @@ declare module "hardhat/types/runtime" {
       name: "PrivateTodoList",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.PrivateTodoList>;
+    deployContract(
+      name: "PrivateTodoListFactory",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.PrivateTodoListFactory>;
 
     deployContract(
       name: "EthereumConfig",
@@ -196,6 +209,11 @@ declare module "hardhat/types/runtime" {
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.PrivateTodoList>;
+    deployContract(
+      name: "PrivateTodoListFactory",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.PrivateTodoListFactory>;
 
     // default types
     getContractFactory(
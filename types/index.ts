@@ -26,3 +26,5 @@ export type { FHECounter } from "./contracts/FHECounter";
 export { FHECounter__factory } from "./factories/contracts/FHECounter__factory";
 export type { PrivateTodoList } from "./contracts/PrivateTodoList";
 export { PrivateTodoList__factory } from "./factories/contracts/PrivateTodoList__factory";
+export type { PrivateTodoListFactory } from "./contracts/PrivateTodoListFactory";
+export { PrivateTodoListFactory__factory } from "./factories/contracts/PrivateTodoListFactory__factory";
@@ -8,10 +8,13 @@ import { RainbowKitProvider, darkTheme } from '@rainbow-me/rainbowkit';
 import { config } from './config/wagmi';
 import '@rainbow-me/rainbowkit/styles.css';
 import { InMemoryStorageProvider } from "@/hooks/useInMemoryStorage";
+import { GenericStringIndexedDBStorage } from "@/fhevm/GenericStringStorage";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
+// Decryption signatures are kept across reloads until they expire
+const decryptionSignatureStorage = new GenericStringIndexedDBStorage();
 
 const App = () => (
   <WagmiProvider config={config}>
@@ -23,13 +26,16 @@ const App = () => (
           borderRadius: 'large',
         })}
       >
-        <InMemoryStorageProvider>
+        <InMemoryStorageProvider storage={decryptionSignatureStorage}>
           <TooltipProvider>
             <Toaster />
             <Sonner />
             <BrowserRouter>
               <Routes>
                 <Route path="/" element={<Index />} />
+                <Route path="/list/:id" element={<Index />} />
+                <Route path="/shared/:owner" element={<Index />} />
+                <Route path="/list/:id/shared/:owner" element={<Index />} />
                 <Route path="*" element={<NotFound />} />
               </Routes>
             </BrowserRouter>
@@ -1,13 +1,66 @@
+import { useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
-import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ProgressBar } from '@/components/ProgressBar';
+import {
+  Archive,
+  Check,
+  CheckCheck,
+  ChevronDown,
+  ChevronRight,
+  Clock,
+  Flag,
+  GripVertical,
+  ListTree,
+  Lock,
+  Pencil,
+  Repeat,
+  Tag,
+  Trash2,
+  UserCheck,
+  UserPlus,
+  X,
+} from 'lucide-react';
+import { TODO_PRIORITIES, TODO_PRIORITY_LABELS, TodoPriority } from '@/utils/todoPriority';
+import { TodoTag, todoTagBits } from '@/utils/todoTags';
+import { MAX_TODO_SUBTASKS } from '@/utils/todoSubtasks';
+import { format } from 'date-fns';
+
+const PRIORITY_COLORS: Record<TodoPriority, string> = {
+  0: 'text-muted-foreground',
+  1: 'text-muted-foreground',
+  2: 'text-accent',
+  3: 'text-destructive',
+};
 
 interface Activity {
   id: string;
   label: string;
   completed: boolean;
   encrypted?: boolean;
+  recurring?: boolean;
+  readOnly?: boolean;
+  pending?: boolean;
+  assignee?: string; // Account the todo is assigned to
+  note?: string; // Secondary text shown under the label
+  priority?: TodoPriority; // Decrypted priority (undefined while encrypted)
+  highlighted?: boolean; // The todo selected by the Focus card
+  dueDate?: number; // Decrypted due timestamp in seconds
+  overdue?: boolean; // Decrypted overdue flag of the last on-chain check
+  tags?: number; // Decrypted tag bitmask
+  subtasks?: Activity[]; // Nested todos; the parent's status is derived from theirs
 }
 
 interface ActivityCardProps {
@@ -15,28 +68,210 @@ interface ActivityCardProps {
   icon: React.ReactNode;
   activities: Activity[];
   onActivityToggle: (id: string) => void;
+  onActivityEdit?: (id: string, label: string) => void;
+  onActivityArchive?: (id: string) => void;
+  onActivityDelete?: (id: string) => void;
+  onActivityAssign?: (id: string) => void;
+  onActivityPriority?: (id: string, priority: TodoPriority) => void;
+  onActivityTags?: (id: string, tags: number) => void;
+  onActivityParent?: (id: string, parentId: string | undefined) => void; // undefined: back to the top level
+  onActivityReorder?: (ids: string[]) => void; // New order of the card's todos, each parent before its subtasks
+  tagNames?: TodoTag[]; // Tag dictionary used to name the tag bits
+  onCompleteAll?: (ids: string[]) => void;
   addActivityButton?: React.ReactNode;
+  showProgress?: boolean;
 }
 
-export const ActivityCard = ({ title, icon, activities, onActivityToggle, addActivityButton }: ActivityCardProps) => {
-  return (
-    <Card className="p-6 shadow-medium hover:shadow-glow transition-smooth border-primary/10">
-      <div className="flex items-center gap-3 mb-4">
-        <div className="p-2 rounded-lg bg-gradient-primary text-primary-foreground">
-          {icon}
-        </div>
-        <h3 className="text-lg font-semibold">{title}</h3>
-      </div>
-      
-      <div className="space-y-3">
-        {activities.map((activity) => (
-          <div key={activity.id} className="flex items-center gap-3 group">
-            <Checkbox
-              id={activity.id}
-              checked={activity.completed}
-              onCheckedChange={() => onActivityToggle(activity.id)}
-              className="data-[state=checked]:bg-success data-[state=checked]:border-success"
+export const ActivityCard = ({
+  title,
+  icon,
+  activities,
+  onActivityToggle,
+  onActivityEdit,
+  onActivityArchive,
+  onActivityDelete,
+  onActivityAssign,
+  onActivityPriority,
+  onActivityTags,
+  onActivityParent,
+  onActivityReorder,
+  tagNames = [],
+  onCompleteAll,
+  addActivityButton,
+  showProgress,
+}: ActivityCardProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds((ids) => {
+      const next = new Set(ids);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  const startEditing = (activity: Activity) => {
+    setEditingId(activity.id);
+    setDraft(activity.label);
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setDraft('');
+  };
+
+  const saveEditing = (activity: Activity) => {
+    const label = draft.trim();
+    if (label && label !== activity.label) {
+      onActivityEdit?.(activity.id, label);
+    }
+    cancelEditing();
+  };
+
+  // Bits missing from the dictionary (e.g. on a shared list) are shown by number
+  const tagName = (bit: number) => tagNames.find((tag) => tag.bit === bit)?.name ?? `Tag ${bit + 1}`;
+
+  const hasSubtasks = (activity: Activity) => !!activity.subtasks?.length;
+
+  // Subtasks count like any other todo; parents cannot be completed directly
+  const allActivities = activities.flatMap((activity) => [activity, ...(activity.subtasks ?? [])]);
+
+  const pendingIds = allActivities
+    .filter((activity) => !activity.completed && !activity.readOnly && !hasSubtasks(activity))
+    .map((activity) => activity.id);
+
+  // Todos are dragged among their siblings: the top-level todos, or the subtasks of one parent
+  const siblingsOf = (id: string) =>
+    activities.find((activity) => activity.subtasks?.some((subtask) => subtask.id === id))?.subtasks ?? activities;
+
+  const canDrag = (activity: Activity) => !!onActivityReorder && !activity.pending && editingId !== activity.id;
+
+  const canDrop = (target: Activity) =>
+    draggedId !== null &&
+    draggedId !== target.id &&
+    !target.pending &&
+    siblingsOf(draggedId).some((sibling) => sibling.id === target.id);
+
+  const endDragging = () => {
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  // Move the dragged todo to the target's place, then report the whole card's order
+  const dropOn = (target: Activity) => {
+    if (!draggedId || !canDrop(target)) {
+      endDragging();
+      return;
+    }
+
+    const siblings = siblingsOf(draggedId);
+    const dragged = siblings.find((sibling) => sibling.id === draggedId)!;
+    const moved = siblings.filter((sibling) => sibling.id !== draggedId);
+    // Dragging down drops below the target, dragging up above it
+    const targetAt = moved.findIndex((sibling) => sibling.id === target.id);
+    const insertAt = siblings.indexOf(dragged) < siblings.indexOf(target) ? targetAt + 1 : targetAt;
+    moved.splice(insertAt, 0, dragged);
+
+    const reordered = siblings === activities
+      ? moved
+      : activities.map((activity) => (activity.subtasks === siblings ? { ...activity, subtasks: moved } : activity));
+    onActivityReorder?.(
+      reordered
+        .flatMap((activity) => [activity, ...(activity.subtasks ?? [])])
+        .filter((activity) => !activity.pending)
+        .map((activity) => activity.id)
+    );
+    endDragging();
+  };
+
+  // Top-level todos a todo can be nested under (one level deep, same recurrence)
+  const parentCandidates = (activity: Activity) =>
+    activities.filter(
+      (candidate) =>
+        candidate.id !== activity.id &&
+        !candidate.pending &&
+        !!candidate.recurring === !!activity.recurring &&
+        (candidate.subtasks?.length ?? 0) < MAX_TODO_SUBTASKS
+    );
+
+  const renderActivity = (activity: Activity, parent?: Activity) => {
+    const candidates = hasSubtasks(activity) ? [] : parentCandidates(activity);
+    const doneSubtasks = activity.subtasks?.filter((subtask) => subtask.completed).length ?? 0;
+
+    return (
+      <div
+        key={activity.id}
+        draggable={canDrag(activity)}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggedId(activity.id);
+        }}
+        onDragOver={(e) => {
+          if (canDrop(activity)) {
+            e.preventDefault();
+            setDropTargetId(activity.id);
+          }
+        }}
+        onDragLeave={() => setDropTargetId((id) => (id === activity.id ? null : id))}
+        onDrop={(e) => {
+          e.preventDefault();
+          dropOn(activity);
+        }}
+        onDragEnd={endDragging}
+        className={`flex items-center gap-3 group ${activity.highlighted ? 'rounded-md ring-2 ring-primary/40 -mx-2 px-2 py-1' : ''} ${
+          draggedId === activity.id ? 'opacity-50' : ''
+        } ${dropTargetId === activity.id ? 'rounded-md bg-muted' : ''}`}
+      >
+        {canDrag(activity) && (
+          <span title="Drag to reorder" className="-mr-2 cursor-grab text-muted-foreground opacity-0 group-hover:opacity-60 transition-smooth">
+            <GripVertical className="w-4 h-4" />
+          </span>
+        )}
+        {hasSubtasks(activity) && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-5 w-5 -ml-1 -mr-2"
+            title={collapsedIds.has(activity.id) ? 'Show subtasks' : 'Hide subtasks'}
+            onClick={() => toggleCollapsed(activity.id)}
+          >
+            {collapsedIds.has(activity.id) ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </Button>
+        )}
+        <Checkbox
+          id={activity.id}
+          checked={activity.completed}
+          disabled={activity.readOnly || hasSubtasks(activity)}
+          title={hasSubtasks(activity) ? 'Done when all its subtasks are done' : undefined}
+          onCheckedChange={() => onActivityToggle(activity.id)}
+          className="data-[state=checked]:bg-success data-[state=checked]:border-success"
+        />
+        {editingId === activity.id ? (
+          <>
+            <Input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') saveEditing(activity);
+                if (e.key === 'Escape') cancelEditing();
+              }}
+              maxLength={100}
+              autoFocus
+              className="flex-1 h-8"
             />
+            <Button variant="ghost" size="icon" className="h-7 w-7" title="Save" onClick={() => saveEditing(activity)}>
+              <Check className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" title="Cancel" onClick={cancelEditing}>
+              <X className="w-4 h-4" />
+            </Button>
+          </>
+        ) : (
+          <>
             <Label
               htmlFor={activity.id}
               className={`flex-1 cursor-pointer transition-smooth ${
@@ -44,14 +279,227 @@ export const ActivityCard = ({ title, icon, activities, onActivityToggle, addAct
               }`}
             >
               {activity.label}
+              {activity.note && (
+                <span className="block text-xs font-normal text-muted-foreground">{activity.note}</span>
+              )}
+              {hasSubtasks(activity) && (
+                <span className="block text-xs font-normal text-muted-foreground">
+                  {doneSubtasks} of {activity.subtasks?.length} subtasks done
+                </span>
+              )}
+              {activity.dueDate !== undefined && (
+                <span className="block text-xs font-normal text-muted-foreground">
+                  Due {format(new Date(activity.dueDate * 1000), 'MMM d, yyyy')}
+                </span>
+              )}
+              {!!activity.tags && (
+                <span className="flex flex-wrap gap-1 mt-1">
+                  {todoTagBits(activity.tags).map((bit) => (
+                    <Badge key={bit} variant="secondary" className="text-xs font-normal">
+                      {tagName(bit)}
+                    </Badge>
+                  ))}
+                </span>
+              )}
             </Label>
+            {activity.overdue && !activity.completed && (
+              <Badge variant="destructive" className="text-xs">Overdue</Badge>
+            )}
+            {!!activity.priority && (
+              <span title={`${TODO_PRIORITY_LABELS[activity.priority]} priority`}>
+                <Flag className={`w-4 h-4 ${PRIORITY_COLORS[activity.priority]}`} />
+              </span>
+            )}
+            {activity.assignee && (
+              <span title={`Assigned to ${activity.assignee}`}>
+                <UserCheck className="w-4 h-4 text-muted-foreground opacity-60" />
+              </span>
+            )}
+            {activity.recurring && (
+              <span title="Repeats daily">
+                <Repeat className="w-4 h-4 text-muted-foreground opacity-60" />
+              </span>
+            )}
+            {activity.pending && (
+              <span title="Queued until the wallet reconnects">
+                <Clock className="w-4 h-4 text-muted-foreground opacity-60" />
+              </span>
+            )}
             {activity.encrypted && (
               <Lock className="w-4 h-4 text-accent opacity-60" />
             )}
+            {onActivityEdit && !activity.encrypted && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-smooth"
+                title="Edit"
+                onClick={() => startEditing(activity)}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+            )}
+          </>
+        )}
+        {onActivityPriority && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-smooth"
+                title="Set priority"
+              >
+                <Flag className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {TODO_PRIORITIES.map((priority) => (
+                <DropdownMenuItem key={priority} onClick={() => onActivityPriority(activity.id, priority)}>
+                  <Check className={`w-4 h-4 mr-2 ${activity.priority === priority ? 'opacity-100' : 'opacity-0'}`} />
+                  {TODO_PRIORITY_LABELS[priority]}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        {onActivityTags && tagNames.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-smooth"
+                title="Set tags"
+              >
+                <Tag className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Tags</DropdownMenuLabel>
+              {tagNames.map((tag) => (
+                <DropdownMenuCheckboxItem
+                  key={tag.bit}
+                  checked={!!activity.tags && ((activity.tags >>> tag.bit) & 1) === 1}
+                  onCheckedChange={() => onActivityTags(activity.id, ((activity.tags ?? 0) ^ (1 << tag.bit)) >>> 0)}
+                >
+                  {tag.name}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        {onActivityAssign && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-smooth"
+            title="Assign"
+            onClick={() => onActivityAssign(activity.id)}
+          >
+            <UserPlus className="w-4 h-4" />
+          </Button>
+        )}
+        {onActivityArchive && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-smooth"
+            title="Archive"
+            onClick={() => onActivityArchive(activity.id)}
+          >
+            <Archive className="w-4 h-4" />
+          </Button>
+        )}
+        {onActivityDelete && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-smooth text-destructive hover:text-destructive"
+            title="Delete"
+            onClick={() => onActivityDelete(activity.id)}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+        {onActivityParent && !activity.pending && (parent || candidates.length > 0) && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-smooth"
+                title="Subtask of"
+              >
+                <ListTree className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {parent ? (
+                <DropdownMenuItem onClick={() => onActivityParent(activity.id, undefined)}>
+                  Move to top level
+                </DropdownMenuItem>
+              ) : (
+                <>
+                  <DropdownMenuLabel>Subtask of</DropdownMenuLabel>
+                  {candidates.map((candidate) => (
+                    <DropdownMenuItem key={candidate.id} onClick={() => onActivityParent(activity.id, candidate.id)}>
+                      {candidate.label}
+                    </DropdownMenuItem>
+                  ))}
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="p-6 shadow-medium hover:shadow-glow transition-smooth border-primary/10">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 rounded-lg bg-gradient-primary text-primary-foreground">
+          {icon}
+        </div>
+        <h3 className="text-lg font-semibold">{title}</h3>
+        {onCompleteAll && pendingIds.length > 1 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto"
+            title="Mark all done"
+            onClick={() => onCompleteAll(pendingIds)}
+          >
+            <CheckCheck className="w-4 h-4 mr-1" />
+            All done
+          </Button>
+        )}
+      </div>
+      
+      <div className="space-y-3">
+        {activities.map((activity) => (
+          <div key={activity.id} className="space-y-3">
+            {renderActivity(activity)}
+            {hasSubtasks(activity) && !collapsedIds.has(activity.id) && (
+              <div className="ml-3 pl-4 space-y-3 border-l border-border/50">
+                {activity.subtasks?.map((subtask) => renderActivity(subtask, activity))}
+              </div>
+            )}
           </div>
         ))}
       </div>
       
+      {showProgress && allActivities.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-border/50">
+          <ProgressBar
+            value={allActivities.filter((activity) => activity.completed).length}
+            total={allActivities.length}
+            label={`${title} Progress`}
+          />
+        </div>
+      )}
+
       {addActivityButton && (
         <div className="mt-4 pt-4 border-t border-border/50">
           {addActivityButton}
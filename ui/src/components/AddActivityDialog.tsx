@@ -1,27 +1,105 @@
 import { useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Plus } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { CalendarDays, Plus, X } from 'lucide-react';
+import { endOfDay, format, startOfToday } from 'date-fns';
+import { DEFAULT_TODO_CATEGORY, TODO_CATEGORIES, TODO_CATEGORY_LABELS, TodoCategory } from '@/utils/todoCategory';
+import { DEFAULT_TODO_PRIORITY, TODO_PRIORITIES, TODO_PRIORITY_LABELS, TodoPriority } from '@/utils/todoPriority';
+import { MAX_TODO_TAG_NAME_LENGTH, MAX_TODO_TAGS, TodoTag, todoTagMask } from '@/utils/todoTags';
 
 interface AddActivityDialogProps {
-  onAddActivity: (category: 'sleep' | 'exercise' | 'tasks', label: string) => void;
+  // dueDate: due timestamp in seconds (the end of the picked local day), tags: tag bitmask
+  onAddActivity: (
+    category: TodoCategory,
+    label: string,
+    recurring: boolean,
+    priority: TodoPriority,
+    dueDate?: number,
+    tags?: number
+  ) => void;
+  onAddActivities: (category: TodoCategory, labels: string[], recurring: boolean, priority: TodoPriority) => void;
+  tags?: TodoTag[]; // Tag dictionary to pick from
+  onCreateTag?: (name: string) => Promise<TodoTag>;
 }
 
-export const AddActivityDialog = ({ onAddActivity }: AddActivityDialogProps) => {
+// Todos per bulk add (createTodos sends them in several transactions)
+const MAX_BULK_TODOS = 32;
+
+// One todo per non-empty line
+const parseBulkLabels = (text: string): string[] => {
+  return text.split('\n').map((line) => line.trim()).filter((line) => line.length > 0);
+};
+
+export const AddActivityDialog = ({ onAddActivity, onAddActivities, tags = [], onCreateTag }: AddActivityDialogProps) => {
   const [open, setOpen] = useState(false);
   const [label, setLabel] = useState('');
+  const [bulk, setBulk] = useState(false);
+  const [bulkText, setBulkText] = useState('');
+  const [category, setCategory] = useState<TodoCategory>(DEFAULT_TODO_CATEGORY);
+  const [recurring, setRecurring] = useState(false);
+  const [priority, setPriority] = useState<TodoPriority>(DEFAULT_TODO_PRIORITY);
+  const [dueDate, setDueDate] = useState<Date | undefined>(undefined);
+  const [tagBits, setTagBits] = useState<number[]>([]);
+  const [newTagName, setNewTagName] = useState('');
+
+  const toggleTag = (bit: number) => {
+    setTagBits((bits) => (bits.includes(bit) ? bits.filter((b) => b !== bit) : [...bits, bit]));
+  };
+
+  // A new tag is selected right away; errors (duplicate name, full dictionary) are reported by the caller
+  const handleCreateTag = async () => {
+    if (!onCreateTag || !newTagName.trim()) return;
+    try {
+      const tag = await onCreateTag(newTagName);
+      setTagBits((bits) => [...bits, tag.bit]);
+      setNewTagName('');
+    } catch {
+      // Keep the typed name so it can be corrected
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (bulk) {
+      const labels = parseBulkLabels(bulkText);
+      if (labels.length > 0 && labels.length <= MAX_BULK_TODOS) {
+        onAddActivities(category, labels, recurring, priority);
+        setBulkText('');
+        setRecurring(false);
+        setPriority(DEFAULT_TODO_PRIORITY);
+        setOpen(false);
+      }
+      return;
+    }
     if (label.trim()) {
-      onAddActivity('tasks', label.trim());
+      onAddActivity(
+        category,
+        label.trim(),
+        recurring,
+        priority,
+        dueDate && Math.floor(endOfDay(dueDate).getTime() / 1000),
+        todoTagMask(tagBits)
+      );
       setLabel('');
+      setRecurring(false);
+      setPriority(DEFAULT_TODO_PRIORITY);
+      setDueDate(undefined);
+      setTagBits([]);
       setOpen(false);
     }
   };
 
+  const bulkCount = parseBulkLabels(bulkText).length;
+  const canSubmit = bulk ? bulkCount > 0 && bulkCount <= MAX_BULK_TODOS : label.trim().length > 0;
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -36,17 +114,154 @@ export const AddActivityDialog = ({ onAddActivity }: AddActivityDialogProps) =>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4 mt-4">
           <div className="space-y-2">
-            <Label htmlFor="todo-label">Todo Text</Label>
-            <Input
-              id="todo-label"
-              value={label}
-              onChange={(e) => setLabel(e.target.value)}
-              placeholder="e.g., Buy medicine, Interview preparation"
-              maxLength={100}
-            />
+            <Label htmlFor="todo-category">Category</Label>
+            <Select value={category} onValueChange={(value: TodoCategory) => setCategory(value)}>
+              <SelectTrigger id="todo-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TODO_CATEGORIES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {TODO_CATEGORY_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="todo-priority">Priority</Label>
+            <Select value={String(priority)} onValueChange={(value) => setPriority(Number(value) as TodoPriority)}>
+              <SelectTrigger id="todo-priority">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TODO_PRIORITIES.map((value) => (
+                  <SelectItem key={value} value={String(value)}>
+                    {TODO_PRIORITY_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Stored encrypted, like the category. The Focus card picks your highest-priority open todo.
+            </p>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="todo-bulk">Bulk add</Label>
+            <Switch id="todo-bulk" checked={bulk} onCheckedChange={setBulk} />
+          </div>
+          {bulk ? (
+            <div className="space-y-2">
+              <Label htmlFor="todo-bulk-text">Todos (one per line)</Label>
+              <Textarea
+                id="todo-bulk-text"
+                value={bulkText}
+                onChange={(e) => setBulkText(e.target.value)}
+                placeholder={'Buy medicine\nInterview preparation'}
+                rows={6}
+              />
+              <p className={`text-xs ${bulkCount > MAX_BULK_TODOS ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {bulkCount} / {MAX_BULK_TODOS} todos. Bulk-added todos have no due date or tags; edit them afterwards.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="todo-label">Todo Text</Label>
+              <Input
+                id="todo-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="e.g., Buy medicine, Interview preparation"
+                maxLength={100}
+              />
+            </div>
+          )}
+          {!bulk && (
+            <div className="space-y-2">
+              <Label>Due date</Label>
+              <div className="flex gap-2">
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button type="button" variant="outline" className="flex-1 justify-start font-normal">
+                      <CalendarDays className="w-4 h-4 mr-2" />
+                      {dueDate ? format(dueDate, 'EEE, MMM d, yyyy') : 'No due date'}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={dueDate}
+                      onSelect={setDueDate}
+                      disabled={(date) => date < startOfToday()}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+                {dueDate && (
+                  <Button type="button" variant="ghost" size="icon" title="Remove due date" onClick={() => setDueDate(undefined)}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Stored encrypted. Setting it takes a second transaction.
+              </p>
+            </div>
+          )}
+          {!bulk && (tags.length > 0 || onCreateTag) && (
+            <div className="space-y-2">
+              <Label>Tags</Label>
+              {tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {tags.map((tag) => (
+                    <Badge
+                      key={tag.bit}
+                      variant={tagBits.includes(tag.bit) ? 'default' : 'outline'}
+                      className="cursor-pointer font-normal"
+                      onClick={() => toggleTag(tag.bit)}
+                    >
+                      {tag.name}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {onCreateTag && tags.length < MAX_TODO_TAGS && (
+                <div className="flex gap-2">
+                  <Input
+                    value={newTagName}
+                    onChange={(e) => setNewTagName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleCreateTag();
+                      }
+                    }}
+                    placeholder="New tag"
+                    maxLength={MAX_TODO_TAG_NAME_LENGTH}
+                    className="h-8"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={!newTagName.trim()}
+                    onClick={handleCreateTag}
+                  >
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Stored as an encrypted bitmask with the todo; tag names stay in this browser.
+              </p>
+            </div>
+          )}
+          <div className="flex items-center justify-between">
+            <Label htmlFor="todo-recurring">Repeat daily</Label>
+            <Switch id="todo-recurring" checked={recurring} onCheckedChange={setRecurring} />
           </div>
-          <Button type="submit" className="w-full" disabled={!label.trim()}>
-            Create Todo
+          <Button type="submit" className="w-full" disabled={!canSubmit}>
+            {bulk ? `Create ${bulkCount} Todos` : 'Create Todo'}
           </Button>
         </form>
       </DialogContent>
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface AssignTodoDialogProps {
+  todo: { label: string; assignee?: string } | undefined; // The todo being assigned (the dialog is open while set)
+  onClose: () => void;
+  onAssign: (assignee: string | undefined) => Promise<void>; // undefined removes the assignment
+}
+
+export const AssignTodoDialog = ({ todo, onClose, onAssign }: AssignTodoDialogProps) => {
+  const [assignee, setAssignee] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setAssignee(todo?.assignee ?? '');
+  }, [todo]);
+
+  const submit = async (target: string | undefined) => {
+    try {
+      setIsSubmitting(true);
+      await onAssign(target);
+      onClose();
+    } catch {
+      // The caller reports the error; the dialog stays open to retry
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (assignee.trim()) {
+      submit(assignee.trim());
+    }
+  };
+
+  return (
+    <Dialog open={todo !== undefined} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Assign Todo</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <p className="text-sm font-medium truncate">{todo?.label}</p>
+          <div className="space-y-2">
+            <Label htmlFor="assignee">Wallet address</Label>
+            <Input
+              id="assignee"
+              placeholder="0x…"
+              value={assignee}
+              onChange={(e) => setAssignee(e.target.value)}
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground">
+              The assignee can decrypt this todo and mark it done. Access to what they decrypted stays with them after you reassign it.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {todo?.assignee && (
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                disabled={isSubmitting}
+                onClick={() => submit(undefined)}
+              >
+                Unassign
+              </Button>
+            )}
+            <Button type="submit" className="flex-1" disabled={!assignee.trim() || isSubmitting}>
+              Assign
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,51 @@
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Flag, Loader2, RefreshCw, Target } from 'lucide-react';
+import { TODO_PRIORITY_LABELS, TodoPriority } from '@/utils/todoPriority';
+
+interface FocusCardProps {
+  todo: { label: string; priority?: TodoPriority; completed: boolean } | null | undefined; // null: nothing open
+  isFinding: boolean;
+  onFind: () => void;
+}
+
+// The highest-priority open todo, selected on-chain without revealing any priority
+export const FocusCard = ({ todo, isFinding, onFind }: FocusCardProps) => {
+  return (
+    <Card className="p-6 shadow-medium border-primary/30">
+      <div className="flex items-center gap-3">
+        <div className="p-2 rounded-lg bg-gradient-primary text-primary-foreground">
+          <Target className="w-5 h-5" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="text-lg font-semibold">Focus</h3>
+          {todo === undefined && (
+            <p className="text-sm text-muted-foreground">
+              Let the contract pick your next task by its encrypted priority.
+            </p>
+          )}
+          {todo === null && <p className="text-sm text-muted-foreground">Nothing left to do. Well done!</p>}
+          {todo && (
+            <p className={`flex items-center gap-2 font-medium truncate ${todo.completed ? 'line-through text-muted-foreground' : ''}`}>
+              {todo.label}
+              {!!todo.priority && (
+                <span className="inline-flex items-center gap-1 text-xs font-normal text-muted-foreground">
+                  <Flag className="w-3 h-3" />
+                  {TODO_PRIORITY_LABELS[todo.priority]}
+                </span>
+              )}
+            </p>
+          )}
+        </div>
+        <Button variant="outline" size="sm" disabled={isFinding} onClick={onFind}>
+          {isFinding ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="w-4 h-4 mr-2" />
+          )}
+          {todo === undefined ? 'Find next task' : 'Refresh'}
+        </Button>
+      </div>
+    </Card>
+  );
+};
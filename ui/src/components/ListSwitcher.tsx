@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Check, ChevronDown, ListTodo, Pencil, Plus, Users } from 'lucide-react';
+import type { TodoListInfo } from '@/hooks/useTodoLists';
+import type { SharedTodoList } from '@/hooks/useListSharing';
+
+interface ListSwitcherProps {
+  lists: TodoListInfo[];
+  currentList: string; // Address of the list being shown
+  defaultList: string; // Address of the default (unnamed) list
+  sharedLists: SharedTodoList[]; // Lists of other accounts shared with the connected account
+  currentOwner?: string; // Owner of the list being shown, when it is a shared list
+  canManage: boolean; // A list factory is configured
+  onSelect: (list: string) => void;
+  onSelectShared: (shared: SharedTodoList) => void;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (list: string, name: string) => Promise<void>;
+}
+
+const DEFAULT_LIST_NAME = 'My list';
+
+export const ListSwitcher = ({ lists, currentList, defaultList, sharedLists, currentOwner, canManage, onSelect, onSelectShared, onCreate, onRename }: ListSwitcherProps) => {
+  const [dialog, setDialog] = useState<'create' | 'rename' | undefined>(undefined);
+  const [name, setName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+  const current = currentOwner ? undefined : lists.find(list => sameAddress(list.address, currentList));
+  const isDefault = sameAddress(currentList, defaultList);
+  const sharedName = (shared: SharedTodoList) => {
+    const listName = sameAddress(shared.list, defaultList) ? 'list' : `list ${shortAddress(shared.list)}`;
+    return `${shortAddress(shared.owner)}'s ${listName}`;
+  };
+  const currentName = currentOwner
+    ? sharedName({ list: currentList, owner: currentOwner })
+    : current?.name ?? (isDefault ? DEFAULT_LIST_NAME : shortAddress(currentList));
+
+  const openDialog = (mode: 'create' | 'rename') => {
+    setName(mode === 'rename' && current ? current.name : '');
+    setDialog(mode);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      if (dialog === 'rename' && current) {
+        await onRename(current.address, name);
+      } else {
+        await onCreate(name);
+      }
+      setDialog(undefined);
+    } catch {
+      // The caller reports the error; the dialog stays open to retry
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderItem = (address: string, label: string) => (
+    <DropdownMenuItem key={address} onClick={() => onSelect(address)}>
+      <Check className={`w-4 h-4 mr-2 ${!currentOwner && sameAddress(address, currentList) ? 'opacity-100' : 'opacity-0'}`} />
+      <span className="truncate">{label}</span>
+    </DropdownMenuItem>
+  );
+
+  const renderSharedItem = (shared: SharedTodoList) => {
+    const isCurrent = !!currentOwner && sameAddress(shared.owner, currentOwner) && sameAddress(shared.list, currentList);
+    return (
+      <DropdownMenuItem key={`${shared.list}-${shared.owner}`} onClick={() => onSelectShared(shared)}>
+        <Check className={`w-4 h-4 mr-2 ${isCurrent ? 'opacity-100' : 'opacity-0'}`} />
+        <span className="truncate">{sharedName(shared)}</span>
+      </DropdownMenuItem>
+    );
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="max-w-[220px]">
+            {currentOwner ? <Users className="w-4 h-4 mr-2" /> : <ListTodo className="w-4 h-4 mr-2" />}
+            <span className="truncate">{currentName}</span>
+            <ChevronDown className="w-4 h-4 ml-2 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Lists</DropdownMenuLabel>
+          {renderItem(defaultList, DEFAULT_LIST_NAME)}
+          {lists.map(list => renderItem(list.address, list.name))}
+          {sharedLists.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Shared with me</DropdownMenuLabel>
+              {sharedLists.map(renderSharedItem)}
+            </>
+          )}
+          {canManage && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => openDialog('create')}>
+                <Plus className="w-4 h-4 mr-2" />
+                New list
+              </DropdownMenuItem>
+              {current && (
+                <DropdownMenuItem onClick={() => openDialog('rename')}>
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Rename list
+                </DropdownMenuItem>
+              )}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialog !== undefined} onOpenChange={(open) => !open && setDialog(undefined)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{dialog === 'rename' ? 'Rename List' : 'Create New List'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label htmlFor="list-name">Name</Label>
+              <Input
+                id="list-name"
+                placeholder="e.g. Work, Personal, Health"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoFocus
+              />
+              <p className="text-xs text-muted-foreground">
+                List names are stored on-chain in plaintext. The todos in the list stay encrypted: anyone with
+                the list's address can keep their own todos in it, but only you can read or change yours.
+              </p>
+            </div>
+            <Button type="submit" className="w-full" disabled={!name.trim() || isSubmitting}>
+              {dialog === 'rename' ? 'Rename' : 'Create List'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+
+interface LoadMoreSentinelProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+// Calls onLoadMore whenever the end of the list scrolls into view (infinite scrolling)
+export const LoadMoreSentinel = ({ hasMore, isLoading, onLoadMore }: LoadMoreSentinelProps) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !hasMore || isLoading) {
+      return;
+    }
+
+    // Observing again after every page re-checks the sentinel, so pages without todos of the
+    // selected day keep loading while the sentinel stays visible
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore) {
+    return null;
+  }
+
+  return (
+    <div ref={ref} className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+      {isLoading && (
+        <>
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Loading older todos...
+        </>
+      )}
+    </div>
+  );
+};
@@ -3,15 +3,16 @@ import { Progress } from '@/components/ui/progress';
 interface ProgressBarProps {
   value: number;
   total: number;
+  label?: string;
 }
 
-export const ProgressBar = ({ value, total }: ProgressBarProps) => {
+export const ProgressBar = ({ value, total, label = 'Daily Progress' }: ProgressBarProps) => {
   const percentage = total > 0 ? Math.round((value / total) * 100) : 0;
 
   return (
     <div className="space-y-2">
       <div className="flex justify-between text-sm">
-        <span className="text-muted-foreground">Daily Progress</span>
+        <span className="text-muted-foreground">{label}</span>
         <span className="font-semibold text-primary">
           {value} of {total} completed
         </span>
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Copy, Share2, UserMinus } from 'lucide-react';
+import { toast } from 'sonner';
+import { MAX_COLLABORATORS } from '@/hooks/useListSharing';
+
+interface ShareListDialogProps {
+  collaborators: string[];
+  shareLink: string; // Link collaborators open to see the list
+  onShare: (collaborator: string) => Promise<void>;
+  onUnshare: (collaborator: string) => Promise<void>;
+}
+
+export const ShareListDialog = ({ collaborators, shareLink, onShare, onUnshare }: ShareListDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [collaborator, setCollaborator] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!collaborator.trim()) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await onShare(collaborator);
+      setCollaborator('');
+    } catch {
+      // The caller reports the error; the address stays to retry
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUnshare = async (address: string) => {
+    try {
+      setIsSubmitting(true);
+      await onUnshare(address);
+    } catch {
+      // The caller reports the error
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareLink);
+      toast.success('Link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Share list">
+          <Share2 className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Share List</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="collaborator">Wallet address</Label>
+            <Input
+              id="collaborator"
+              placeholder="0x…"
+              value={collaborator}
+              onChange={(e) => setCollaborator(e.target.value)}
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground">
+              Collaborators can decrypt and read every todo of this list, including the ones you add later. They cannot change it.
+            </p>
+          </div>
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={!collaborator.trim() || isSubmitting || collaborators.length >= MAX_COLLABORATORS}
+          >
+            Share
+          </Button>
+        </form>
+
+        {collaborators.length > 0 && (
+          <div className="space-y-2 mt-4">
+            <Label>Shared with</Label>
+            {collaborators.map(address => (
+              <div key={address} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 font-mono truncate">{address}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Stop sharing"
+                  disabled={isSubmitting}
+                  onClick={() => handleUnshare(address)}
+                >
+                  <UserMinus className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Stopping sharing only applies to todos added or changed afterwards: what a collaborator could decrypt stays readable to them.
+            </p>
+            <Button type="button" variant="outline" size="sm" className="w-full" onClick={handleCopyLink}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copy link for collaborators
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,157 @@
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { GenericStringStorage } from "./GenericStringStorage";
+
+// Number of days a user-decryption signature stays valid
+const DURATION_DAYS = 10;
+// Signatures expiring within this margin are renewed, so a decryption never races the expiry
+const EXPIRY_MARGIN_SECONDS = 60 * 60;
+
+type FhevmDecryptionSignatureType = {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number; // Unix timestamp in seconds
+  durationDays: number;
+  userAddress: `0x${string}`;
+  contractAddresses: `0x${string}`[];
+  chainId: number;
+};
+
+function _storageKey(chainId: number, userAddress: string, contractAddresses: string[]): string {
+  return `fhevm.decryptionSignature:${chainId}:${userAddress.toLowerCase()}:${contractAddresses.join(",")}`;
+}
+
+function _isFhevmDecryptionSignatureType(value: unknown): value is FhevmDecryptionSignatureType {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const v = value as Record<string, unknown>;
+  return (
+    typeof v.publicKey === "string" &&
+    typeof v.privateKey === "string" &&
+    typeof v.signature === "string" &&
+    typeof v.startTimestamp === "number" &&
+    typeof v.durationDays === "number" &&
+    typeof v.userAddress === "string" &&
+    Array.isArray(v.contractAddresses) &&
+    v.contractAddresses.every((a) => typeof a === "string") &&
+    typeof v.chainId === "number"
+  );
+}
+
+/**
+ * Keypair and EIP-712 `UserDecryptRequestVerification` signature allowing a user to decrypt the handles
+ * of a set of contracts. Stored per (chain, account, contract set) and reused until it expires, so the
+ * wallet is only prompted when no valid signature is available.
+ */
+export class FhevmDecryptionSignature {
+  readonly #value: FhevmDecryptionSignatureType;
+
+  private constructor(value: FhevmDecryptionSignatureType) {
+    this.#value = value;
+  }
+
+  get publicKey() {
+    return this.#value.publicKey;
+  }
+
+  get privateKey() {
+    return this.#value.privateKey;
+  }
+
+  get signature() {
+    return this.#value.signature;
+  }
+
+  get startTimestamp() {
+    return this.#value.startTimestamp;
+  }
+
+  get durationDays() {
+    return this.#value.durationDays;
+  }
+
+  get userAddress() {
+    return this.#value.userAddress;
+  }
+
+  get contractAddresses() {
+    return this.#value.contractAddresses;
+  }
+
+  // Whether the signature is still valid (with a safety margin)
+  isValid(): boolean {
+    const now = Math.floor(Date.now() / 1000);
+    const expiresAt = this.#value.startTimestamp + this.#value.durationDays * 24 * 60 * 60;
+    return now < expiresAt - EXPIRY_MARGIN_SECONDS;
+  }
+
+  /**
+   * Return the stored signature for this account and contract set, or ask the wallet for a new one
+   * (and store it) when it is missing or expired.
+   */
+  static async loadOrSign(
+    instance: FhevmInstance,
+    contractAddresses: string[],
+    signer: ethers.Signer,
+    storage: GenericStringStorage,
+  ): Promise<FhevmDecryptionSignature> {
+    const userAddress = (await signer.getAddress()) as `0x${string}`;
+    const chainId = Number((await signer.provider!.getNetwork()).chainId);
+    // The contract set is a set: the same contracts in another order share the signature
+    const sortedAddresses = [...new Set(contractAddresses.map((a) => ethers.getAddress(a) as `0x${string}`))].sort();
+    const key = _storageKey(chainId, userAddress, sortedAddresses);
+
+    const cached = await FhevmDecryptionSignature.#load(storage, key);
+    if (cached?.isValid()) {
+      return cached;
+    }
+
+    const { publicKey, privateKey } = instance.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const eip712 = instance.createEIP712(publicKey, sortedAddresses, startTimestamp, DURATION_DAYS);
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message,
+    );
+
+    const created = new FhevmDecryptionSignature({
+      publicKey,
+      privateKey,
+      signature,
+      startTimestamp,
+      durationDays: DURATION_DAYS,
+      userAddress,
+      contractAddresses: sortedAddresses,
+      chainId,
+    });
+
+    try {
+      await storage.setItem(key, JSON.stringify(created.#value));
+    } catch (error) {
+      // Still usable for this decryption: the wallet is simply prompted again next time
+      console.error("[FhevmDecryptionSignature] Error storing signature:", error);
+    }
+
+    return created;
+  }
+
+  static async #load(storage: GenericStringStorage, key: string): Promise<FhevmDecryptionSignature | undefined> {
+    try {
+      const stored = await storage.getItem(key);
+      if (!stored) {
+        return undefined;
+      }
+      const value: unknown = JSON.parse(stored);
+      if (!_isFhevmDecryptionSignatureType(value)) {
+        await storage.removeItem(key);
+        return undefined;
+      }
+      return new FhevmDecryptionSignature(value);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { openDB, DBSchema, IDBPDatabase } from "idb";
+
 export interface GenericStringStorage {
   getItem(key: string): string | Promise<string | null> | null;
   setItem(key: string, value: string): void | Promise<void>;
@@ -18,3 +20,63 @@ export class GenericStringInMemoryStorage implements GenericStringStorage {
   }
 }
 
+
+export class GenericStringLocalStorage implements GenericStringStorage {
+  #prefix: string;
+
+  constructor(prefix: string = "") {
+    this.#prefix = prefix;
+  }
+
+  getItem(key: string): string | Promise<string | null> | null {
+    return localStorage.getItem(this.#prefix + key);
+  }
+  setItem(key: string, value: string): void | Promise<void> {
+    localStorage.setItem(this.#prefix + key, value);
+  }
+  removeItem(key: string): void | Promise<void> {
+    localStorage.removeItem(this.#prefix + key);
+  }
+}
+
+interface GenericStringDB extends DBSchema {
+  strings: {
+    key: string;
+    value: string;
+  };
+}
+
+export class GenericStringIndexedDBStorage implements GenericStringStorage {
+  #dbPromise: Promise<IDBPDatabase<GenericStringDB>> | undefined = undefined;
+  #dbName: string;
+
+  constructor(dbName: string = "fhevm-strings") {
+    this.#dbName = dbName;
+  }
+
+  #getDB(): Promise<IDBPDatabase<GenericStringDB>> {
+    if (!this.#dbPromise) {
+      this.#dbPromise = openDB<GenericStringDB>(this.#dbName, 1, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains("strings")) {
+            db.createObjectStore("strings");
+          }
+        },
+      });
+    }
+    return this.#dbPromise;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const db = await this.#getDB();
+    return (await db.get("strings", key)) ?? null;
+  }
+  async setItem(key: string, value: string): Promise<void> {
+    const db = await this.#getDB();
+    await db.put("strings", value, key);
+  }
+  async removeItem(key: string): Promise<void> {
+    const db = await this.#getDB();
+    await db.delete("strings", key);
+  }
+}
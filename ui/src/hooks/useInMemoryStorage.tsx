@@ -10,6 +10,9 @@ interface UseInMemoryStorageState {
 
 interface InMemoryStorageProviderProps {
   children: ReactNode;
+  // Storage to use instead of the default in-memory one (e.g. localStorage or IndexedDB, to keep
+  // decryption signatures across reloads)
+  storage?: GenericStringStorage;
 }
 
 const InMemoryStorageContext = createContext<
@@ -28,9 +31,9 @@ export const useInMemoryStorage = () => {
 
 export const InMemoryStorageProvider: React.FC<
   InMemoryStorageProviderProps
-> = ({ children }) => {
+> = ({ children, storage: customStorage }) => {
   const [storage] = useState<GenericStringStorage>(
-    new GenericStringInMemoryStorage()
+    () => customStorage ?? new GenericStringInMemoryStorage()
   );
   return (
     <InMemoryStorageContext.Provider value={{ storage }}>
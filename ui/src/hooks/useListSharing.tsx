@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, useWalletClient } from "wagmi";
+import { ethers } from "ethers";
+import { toEip1193Provider } from "@/utils/walletProvider";
+
+// PrivateTodoList sharing ABI
+const PrivateTodoListSharingABI = [
+  "function shareList(address collaborator) external",
+  "function unshareList(address collaborator) external",
+  "function getCollaborators(address owner) external view returns (address[] collaborators)",
+  "function getSharedLists(address collaborator) external view returns (address[] owners)",
+  "error InvalidCollaborator()",
+  "error AlreadyShared()",
+  "error TooManyCollaborators()",
+  "error NotShared()",
+];
+
+// Must match PrivateTodoList.MAX_COLLABORATORS
+export const MAX_COLLABORATORS = 16;
+
+// A list of another account that was shared with the connected account
+export interface SharedTodoList {
+  list: string; // PrivateTodoList instance of the list
+  owner: string; // Account whose todos were shared
+}
+
+interface UseListSharingState {
+  collaborators: string[]; // Accounts the connected account shares the current list with
+  sharedWithMe: SharedTodoList[]; // Lists of other accounts shared with the connected account
+  isLoading: boolean;
+  shareList: (collaborator: string) => Promise<void>;
+  unshareList: (collaborator: string) => Promise<void>;
+  loadSharing: () => Promise<void>;
+}
+
+const validateCollaborator = (collaborator: string, account: string): string => {
+  if (!ethers.isAddress(collaborator.trim())) {
+    throw new Error("Enter a valid wallet address");
+  }
+  const address = ethers.getAddress(collaborator.trim());
+  if (address === ethers.getAddress(account)) {
+    throw new Error("You cannot share a list with yourself");
+  }
+  return address;
+};
+
+// Sharing of the connected account's list at listAddress, and the lists shared with the connected account
+// among the PrivateTodoList instances in knownLists (a list of another account is only discoverable in an
+// instance the app knows about: the default list, the account's named lists, or one opened from a link)
+export function useListSharing(listAddress: string | undefined, knownLists: string[]): UseListSharingState {
+  const { address } = useAccount();
+  const { data: walletClient } = useWalletClient();
+
+  const [collaborators, setCollaborators] = useState<string[]>([]);
+  const [sharedWithMe, setSharedWithMe] = useState<SharedTodoList[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [ethersSigner, setEthersSigner] = useState<ethers.JsonRpcSigner | undefined>(undefined);
+  // Stable dependency for the list of instances (callers pass a new array on every render)
+  const knownListsKey = [...new Set(knownLists.map(list => list.toLowerCase()))].sort().join(",");
+
+  useEffect(() => {
+    if (!walletClient) {
+      setEthersSigner(undefined);
+      return;
+    }
+
+    new ethers.BrowserProvider(toEip1193Provider(walletClient))
+      .getSigner()
+      .then(setEthersSigner)
+      .catch(error => {
+        console.error("[useListSharing] Error setting up ethers:", error);
+        setEthersSigner(undefined);
+      });
+  }, [walletClient]);
+
+  const loadSharing = useCallback(async () => {
+    if (!ethersSigner || !address) {
+      setCollaborators([]);
+      setSharedWithMe([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      if (listAddress) {
+        const contract = new ethers.Contract(listAddress, PrivateTodoListSharingABI, ethersSigner);
+        const entries: string[] = await contract.getCollaborators(address);
+        setCollaborators(entries.map(entry => ethers.getAddress(entry)));
+      } else {
+        setCollaborators([]);
+      }
+
+      const lists = knownListsKey ? knownListsKey.split(",") : [];
+      const shared = await Promise.all(lists.map(async list => {
+        const contract = new ethers.Contract(list, PrivateTodoListSharingABI, ethersSigner);
+        const owners: string[] = await contract.getSharedLists(address).catch((error: unknown) => {
+          // An instance deployed before sharing existed has no getSharedLists
+          console.warn("[useListSharing] Cannot read shared lists of", list, error);
+          return [];
+        });
+        return owners.map(owner => ({ list: ethers.getAddress(list), owner: ethers.getAddress(owner) }));
+      }));
+      setSharedWithMe(shared.flat());
+    } catch (error) {
+      console.error("[useListSharing] Error loading sharing:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [listAddress, knownListsKey, ethersSigner, address]);
+
+  // Grant a collaborator access to every todo of the list, now and in the future
+  const shareList = useCallback(async (collaborator: string) => {
+    if (!listAddress || !ethersSigner || !address) {
+      throw new Error("Wallet not connected");
+    }
+
+    const contract = new ethers.Contract(listAddress, PrivateTodoListSharingABI, ethersSigner);
+    const tx = await contract.shareList(validateCollaborator(collaborator, address));
+    await tx.wait();
+    await loadSharing();
+  }, [listAddress, ethersSigner, address, loadSharing]);
+
+  // Stop granting a collaborator access to new todo values (access already granted cannot be revoked)
+  const unshareList = useCallback(async (collaborator: string) => {
+    if (!listAddress || !ethersSigner) {
+      throw new Error("Wallet not connected");
+    }
+
+    const contract = new ethers.Contract(listAddress, PrivateTodoListSharingABI, ethersSigner);
+    const tx = await contract.unshareList(collaborator);
+    await tx.wait();
+    await loadSharing();
+  }, [listAddress, ethersSigner, loadSharing]);
+
+  useEffect(() => {
+    loadSharing();
+  }, [loadSharing]);
+
+  return {
+    collaborators,
+    sharedWithMe,
+    isLoading,
+    shareList,
+    unshareList,
+    loadSharing,
+  };
+}
@@ -1,50 +1,326 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useAccount, useChainId, useWalletClient } from "wagmi";
 import { ethers } from "ethers";
 import { useFhevm } from "@/fhevm/useFhevm";
 import { useInMemoryStorage } from "./useInMemoryStorage";
+import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
+import { DEFAULT_TODO_CATEGORY, isTodoCategory, TodoCategory, todoCategoryFromUint8, todoCategoryToUint8 } from "@/utils/todoCategory";
+import { packTodoMeta, unpackTodoMeta } from "@/utils/todoMeta";
+import { DEFAULT_TODO_PRIORITY, TodoPriority, todoPriorityFromUint8 } from "@/utils/todoPriority";
+import { todoMatchesTagFilter } from "@/utils/todoTags";
+import { derivedParentCompletion, todoParentIndexFromUint } from "@/utils/todoSubtasks";
+import { MAX_ORDERED_TODOS, mergeTodoOrder } from "@/utils/todoOrder";
+import { decodeTodoText, encodeTodoText, groupTodoTextChunks, MAX_TODO_TEXT_BYTES, todoTextByteLength } from "@/utils/todoText";
+import { currentTodoDay, todoDayFromTimestamp } from "@/utils/todoDay";
+import {
+  loadTodoSyncCursor,
+  saveTodoSyncCursor,
+  TODO_SYNC_EVENTS,
+  TODO_SYNC_MAX_BACKFILL_BLOCKS,
+  todoIndicesFromLogs,
+  todoOrderChangedInLogs,
+  todoSyncTopicFilter,
+} from "@/utils/todoSync";
+import {
+  PendingTodoOp,
+  StoredPendingTodoOp,
+  todoStoreAddPendingOp,
+  todoStoreDeletePendingOp,
+  todoStoreGetPendingOps,
+  todoStoreGetSnapshot,
+  todoStoreListKey,
+  todoStorePutSnapshot,
+} from "@/utils/todoStore";
+import { getSessionLocalMapKey, openLocalMap, sealLocalMap, unlockLocalMapKey } from "@/utils/todoLocalMaps";
+import { getErrorMessage } from "@/utils/errorMessage";
+import { withGasMargin } from "@/utils/gas";
+import {
+  openTodoBackup,
+  sealTodoBackup,
+  TODO_BACKUP_FORMAT,
+  TODO_BACKUP_VERSION,
+  TodoBackup,
+  TodoBackupEntry,
+  todoBackupFileName,
+} from "@/utils/todoBackup";
 
 // Contract ABI
 const PrivateTodoListABI = [
-  "function createTodo(bytes32 encryptedId, bytes32 encryptedCompleted, bytes calldata idProof, bytes calldata completedProof) external",
-  "function toggleTodo(uint256 todoIndex, bytes32 encryptedCompleted, bytes calldata completedProof) external",
+  "function createTodo(bytes32 encryptedId, bytes32 encryptedMeta, bytes32 encryptedTags, bytes32[] encryptedText, bytes calldata inputProof, bytes calldata textProof, bool recurring) external",
+  "function createTodos(tuple(bytes32 id, bytes32 meta, bytes32[] text, uint256 textProofIndex, bool recurring)[] todos, bytes calldata inputProof, bytes[] calldata textProofs) external",
+  "function toggleTodo(uint256 todoIndex) external",
+  "function setCompleted(uint256 todoIndex, bytes32 encryptedCompleted, bytes calldata completedProof) external",
+  "function setCompletedMany(uint256[] todoIndices, bytes32[] encryptedCompleted, bytes calldata inputProof) external",
+  "function updateTodo(uint256 todoIndex, bytes32 encryptedId, bytes32[] encryptedText, bytes calldata idProof, bytes calldata textProof) external",
+  "function archiveTodo(uint256 todoIndex) external",
+  "function deleteTodo(uint256 todoIndex) external",
   "function getTodo(address user, uint256 index) external view returns (bytes32 encryptedId, bytes32 encryptedCompleted, uint256 timestamp)",
+  "function getTodoCompletionForDay(address user, uint256 index, uint256 day) external view returns (bytes32 encryptedCompleted)",
+  "function currentDay() external view returns (uint256)",
+  "function getCompletionStats(address user) external view returns (bytes32 totalCompleted, bytes32 streak, bytes32 completedOnLastDay, uint256 lastDay)",
+  "function getTodoMeta(address user, uint256 index) external view returns (bytes32 encryptedMeta)",
+  "function getTodoText(address user, uint256 index) external view returns (bytes32[] encryptedText)",
+  "function getTodoRevisionCount(address user, uint256 index) external view returns (uint256)",
+  "function getTodoRevision(address user, uint256 index, uint256 revision) external view returns (bytes32 encryptedId, bytes32[] encryptedText, uint256 timestamp)",
   "function getTodoCount(address user) external view returns (uint256)",
+  "function getTodos(address user, uint256 offset, uint256 limit) external view returns (tuple(uint256 index, bytes32 id, bytes32 completed, bytes32 meta, bytes32[] text, uint64 timestamp, uint64 createdAt, bool recurring, uint8 status, address assignee, bytes32 dueDate, bytes32 overdue, bytes32 tags, uint256 parent)[] page, uint256 total)",
   "function getTodoTimestamps(address user) external view returns (uint256[])",
-  "event TodoCreated(address indexed user, uint256 indexed todoIndex, uint256 timestamp)",
-  "event TodoToggled(address indexed user, uint256 indexed todoIndex, uint256 timestamp)",
+  "function getActiveTodoIndices(address user) external view returns (uint256[])",
+  "function assignTodo(uint256 todoIndex, address assignee) external",
+  "function completeAssigned(address owner, uint256 todoIndex) external",
+  "function getAssignedTodos(address assignee) external view returns (tuple(address owner, uint256 todoIndex)[] todos)",
+  "function setPriority(uint256 todoIndex, bytes32 encryptedPriority, bytes calldata priorityProof) external",
+  "function computeFocusTodo(uint256 offset, uint256 limit) external",
+  "function getFocusTodo(address user) external view returns (bytes32 todoIndex, bytes32 found, uint256 computedAt)",
+  "function setDueDate(uint256 todoIndex, bytes32 encryptedDueDate, bytes calldata dueDateProof) external",
+  "function checkOverdue(uint256[] todoIndices) external",
+  "function setTags(uint256 todoIndex, bytes32 encryptedTags, bytes calldata tagsProof) external",
+  "function setParent(uint256 todoIndex, uint256 parentIndex) external",
+  "function clearParent(uint256 todoIndex) external",
+  "function reorder(uint256[] todoIndices) external",
+  "function getTodoOrder(address user) external view returns (uint256[] indices)",
+  "event TodoCreated(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp)",
+  "event TodoToggled(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp)",
+  "event TodoUpdated(address indexed user, uint256 indexed todoIndex, uint256 revision, uint256 indexed timestamp)",
+  "event TodoArchived(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp)",
+  "event TodoDeleted(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp)",
+  "event TodoAssigned(address indexed user, uint256 indexed todoIndex, address indexed assignee, uint256 timestamp)",
+  "event TodoPriorityChanged(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp)",
+  "event TodoDueDateChanged(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp)",
+  "event OverdueChecked(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp)",
+  "event TodoTagsChanged(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp)",
+  "event TodoParentChanged(address indexed user, uint256 indexed todoIndex, uint256 indexed timestamp)",
+  "event TodosReordered(address indexed user, uint256 indexed timestamp)",
+  "error NoTodos()",
+  "error TooManyTodos()",
+  "error TextProofIndexOutOfBounds()",
+  "error CreationTimeInFuture()",
+  "error TodoIndexOutOfBounds()",
+  "error TodoNotActive()",
+  "error TodoAlreadyDeleted()",
+  "error TodoHasSubtasks()",
+  "error ArrayLengthMismatch()",
+  "error InvalidParent()",
+  "error RecurrenceMismatch()",
+  "error TooManySubtasks()",
+  "error TodoHasNoParent()",
+  "error DuplicateTodoIndex()",
+  "error InvalidCollaborator()",
+  "error AlreadyShared()",
+  "error TooManyCollaborators()",
+  "error NotShared()",
+  "error InvalidAssignee()",
+  "error AlreadyAssigned()",
+  "error NotTheAssignee()",
+  "error PageTooLarge()",
+  "error RevisionOutOfBounds()",
+  "error TodoTextEmpty()",
+  "error TodoTextTooLong()",
 ];
 
-interface Todo {
+export interface Todo {
   id: string; // Local ID for UI
-  text: string; // Plaintext todo text (stored locally)
+  text: string; // Plaintext todo text (decrypted from chain, cached locally)
   encryptedId: string; // Encrypted hash of text
-  encryptedCompleted: string; // Encrypted completion status
+  encryptedText: string[]; // Encrypted 32-byte text chunks
+  encryptedCompleted: string; // Encrypted completion status (for the selected day if recurring)
+  encryptedMeta: string; // Encrypted packed category, priority and flags
+  encryptedDueDate: string; // Encrypted due timestamp (zero handle if never set)
+  encryptedOverdue: string; // Encrypted overdue flag of the last checkOverdue (zero handle if never checked)
+  encryptedTags: string; // Encrypted tag bitmask (zero handle if never tagged)
   completed: boolean; // Decrypted completion status
-  timestamp: number;
+  category: TodoCategory | undefined; // Decrypted category (undefined until decrypted)
+  priority?: TodoPriority; // Decrypted priority (undefined until decrypted)
+  dueDate?: number; // Decrypted due timestamp in seconds (undefined until decrypted, or without a due date)
+  overdue?: boolean; // Decrypted overdue flag (undefined until decrypted, or never checked)
+  tags?: number; // Decrypted tag bitmask (undefined until decrypted, see todoTags.ts)
+  timestamp: number; // Last modification
+  createdAt: number; // Creation timestamp (unchanged by toggles and edits)
+  createdDay: number; // Day number the todo was created on
+  recurring: boolean; // Recurring daily item (completion is tracked per day)
   index: number; // Contract index
+  assignee?: string; // Account the todo is assigned to
+  parentIndex?: number; // Contract index of the parent todo (subtasks only)
   isDecrypted?: boolean; // Flag to indicate if this todo has been decrypted
+  pending?: boolean; // Queued create or toggle, submitted once the wallet reconnects
+}
+
+// A todo of another account assigned to the connected account
+export interface AssignedTodo extends Todo {
+  owner: string; // Account whose list the todo belongs to
+}
+
+export interface TodoRevision {
+  revision: number; // 0 = original text
+  encryptedId: string; // Encrypted hash of the revision text
+  encryptedText: string[]; // Encrypted 32-byte text chunks of the revision
+  text: string | undefined; // Decrypted text (undefined if it could not be recovered)
+  timestamp: number;
+}
+
+export interface CompletionStats {
+  totalCompleted: number; // Todos (and recurring todo days) currently marked completed
+  streak: number; // Consecutive days with at least one completion, up to today
 }
 
 interface UseTodoListState {
   contractAddress: string | undefined;
-  todos: Todo[];
+  listOwner: string | undefined; // Account whose todos are shown
+  isSharedList: boolean; // Another account's list shared with the connected account (read-only)
+  todos: Todo[]; // Loaded (or cached) todos with the queued operations applied
+  filteredTodos: Todo[]; // The todos having every tag of tagFilter
+  tagFilter: number; // Tag bitmask the todos are filtered by (0: no filter)
+  setTagFilter: (tagFilter: number) => void;
   isLoading: boolean;
+  isOffline: boolean; // Changes are queued instead of submitted
+  isLocalDataLocked: boolean; // Cached decrypted values are sealed until unlockLocalData is called
+  unlockLocalData: () => Promise<void>;
+  pendingOpCount: number;
   isDecrypting: boolean;
+  stats: CompletionStats | undefined; // Decrypted completion statistics (undefined until decrypted)
   message: string | undefined;
-  createTodo: (text: string) => Promise<void>;
+  selectedDay: number; // Day number of the log being shown
+  setSelectedDay: (day: number) => void;
+  createTodo: (
+    text: string,
+    category?: TodoCategory,
+    recurring?: boolean,
+    priority?: TodoPriority,
+    dueDate?: number,
+    tags?: number
+  ) => Promise<void>;
+  // Batch-created todos have no due date or tags (PrivateTodoList.createTodos does not take them)
+  createTodos: (texts: string[], category?: TodoCategory, recurring?: boolean, priority?: TodoPriority) => Promise<void>;
   toggleTodo: (index: number) => Promise<void>;
+  setCompletedMany: (indices: number[], completed: boolean) => Promise<void>;
+  updateTodo: (index: number, text: string) => Promise<void>;
+  loadTodoRevisions: (index: number) => Promise<TodoRevision[]>;
+  archiveTodo: (index: number) => Promise<void>;
+  deleteTodo: (index: number) => Promise<void>;
   loadTodos: () => Promise<void>;
+  hasMoreTodos: boolean; // Older todos remain to be loaded
+  isLoadingMore: boolean;
+  loadMoreTodos: () => Promise<void>;
   decryptTodos: () => Promise<void>;
+  exportBackup: () => Promise<TodoBackupExport>;
+  importBackup: (contents: string) => Promise<number>;
+  assignTodo: (index: number, assignee: string | undefined) => Promise<void>;
+  assignedTodos: AssignedTodo[]; // Todos of other accounts assigned to the connected account, in this list instance
+  completeAssigned: (owner: string, index: number) => Promise<void>;
+  setPriority: (index: number, priority: TodoPriority) => Promise<void>;
+  focusTodoIndex: number | null | undefined; // Highest-priority open todo (null: none open, undefined: not computed)
+  isFindingFocus: boolean;
+  findFocusTodo: () => Promise<void>;
+  isCheckingOverdue: boolean;
+  checkOverdue: () => Promise<void>;
+  setTags: (index: number, tags: number) => Promise<void>;
+  setParent: (index: number, parentIndex: number | undefined) => Promise<void>; // undefined: make it top-level
+  todoOrder: number[]; // Manual order of the list owner's todos (contract indices, top first)
+  reorderTodos: (indices: number[]) => Promise<void>; // Save the new order of a group of todos
+}
+
+export interface TodoBackupExport {
+  fileName: string;
+  contents: string; // Encrypted backup file (JSON)
+  todoCount: number;
 }
 
 // Local storage key for text mapping
 const TEXT_MAP_KEY = "todo_text_map";
 // Local storage key for completed status mapping (decrypted)
 const COMPLETED_MAP_KEY = "todo_completed_map";
+// Local storage key for category mapping (decrypted)
+const CATEGORY_MAP_KEY = "todo_category_map";
+
+const ZERO_HANDLE = ethers.ZeroHash;
+
+// Must match PrivateTodoList.MAX_BATCH_SIZE
+const MAX_TODO_BATCH_SIZE = 32;
+
+// Todos per createTodos transaction: a todo takes about 0.55M gas (up to 1M with a long text), so a call stays
+// well below the 16.7M per-transaction gas cap (EIP-7825)
+const TODO_CREATE_CHUNK_SIZE = 8;
+
+// Must match PrivateTodoList.MAX_FOCUS_PAGE_SIZE
+const FOCUS_PAGE_SIZE = 16;
+
+// Todos per getTodos call (PrivateTodoList.MAX_PAGE_SIZE is the upper bound)
+const TODO_PAGE_SIZE = 50;
+
+// PrivateTodoList.TodoStatus.Active
+const TODO_STATUS_ACTIVE = 0;
+
+// One entry of a getTodos page, as decoded by ethers
+interface TodoPageEntry {
+  index: bigint;
+  id: string;
+  completed: string;
+  meta: string;
+  text: string[];
+  timestamp: bigint;
+  createdAt: bigint;
+  recurring: boolean;
+  status: bigint;
+  assignee: string;
+  dueDate: string;
+  overdue: string;
+  tags: string;
+  parent: bigint;
+}
+
+// Decrypted values cached locally, keyed by id handle (completion of recurring todos by id handle and day)
+interface LocalMaps {
+  text: Record<string, string>;
+  completed: Record<string, boolean>;
+  category: Record<string, TodoCategory>;
+}
+
+const emptyLocalMaps = (): LocalMaps => ({ text: {}, completed: {}, category: {} });
+
+// Completion of a recurring todo is tracked per day, so its cache entry is keyed by day as well
+const completedMapKey = (idHandle: string, recurring: boolean, day: number): string => {
+  return recurring ? `${idHandle}@${day}` : idHandle;
+};
+
+// Todo of a getTodos page entry, with the decrypted values cached locally (completion status as of day)
+const todoFromPageEntry = (entry: TodoPageEntry, completedHandle: string, day: number, maps: LocalMaps): Todo => {
+  const index = Number(entry.index);
+  const idHandle = ethers.hexlify(entry.id).toLowerCase();
+  const recurring = Boolean(entry.recurring);
 
-export function useTodoList(contractAddress: string | undefined): UseTodoListState {
+  // Text and completed status are loaded from local storage if available
+  const textFromMap = maps.text[idHandle];
+
+  return {
+    id: `todo-${index}`,
+    text: textFromMap || `Encrypted Todo #${index + 1}`,
+    encryptedId: idHandle,
+    encryptedText: entry.text.map(h => ethers.hexlify(h).toLowerCase()),
+    encryptedCompleted: ethers.hexlify(completedHandle).toLowerCase(),
+    encryptedMeta: ethers.hexlify(entry.meta).toLowerCase(),
+    encryptedDueDate: ethers.hexlify(entry.dueDate).toLowerCase(),
+    encryptedOverdue: ethers.hexlify(entry.overdue).toLowerCase(),
+    encryptedTags: ethers.hexlify(entry.tags).toLowerCase(),
+    completed: maps.completed[completedMapKey(idHandle, recurring, day)] || false,
+    category: isTodoCategory(maps.category[idHandle]) ? maps.category[idHandle] : undefined,
+    timestamp: Number(entry.timestamp),
+    createdAt: Number(entry.createdAt),
+    createdDay: todoDayFromTimestamp(Number(entry.createdAt)),
+    recurring,
+    index,
+    assignee: entry.assignee === ethers.ZeroAddress ? undefined : ethers.getAddress(entry.assignee),
+    parentIndex: todoParentIndexFromUint(entry.parent),
+    isDecrypted: !!textFromMap, // Mark as decrypted if text is available
+  };
+};
+
+// Todos of the connected account in one list: the PrivateTodoList instance at contractAddress (the default
+// deployment, or a named list created by PrivateTodoListFactory). With listOwner set to another account, that
+// account's todos are shown read-only, decrypted with the grants it gave the connected account (shareList)
+export function useTodoList(contractAddress: string | undefined, listOwner?: string): UseTodoListState {
   const { address, isConnected } = useAccount();
+  const owner = listOwner ?? address;
+  const isSharedList = !!(owner && address && owner.toLowerCase() !== address.toLowerCase());
   const chainId = useChainId();
   const { data: walletClient } = useWalletClient();
   const { storage: fhevmDecryptionSignatureStorage } = useInMemoryStorage();
@@ -52,10 +328,40 @@ export function useTodoList(contractAddress: string | undefined): UseTodoListSta
   const [todos, setTodos] = useState<Todo[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isDecrypting, setIsDecrypting] = useState(false);
+  const [stats, setStats] = useState<CompletionStats | undefined>(undefined);
+  const [assignedTodos, setAssignedTodos] = useState<AssignedTodo[]>([]);
+  const [focusTodoIndex, setFocusTodoIndex] = useState<number | null | undefined>(undefined);
+  const [isFindingFocus, setIsFindingFocus] = useState(false);
+  const [isCheckingOverdue, setIsCheckingOverdue] = useState(false);
+  const [tagFilter, setTagFilter] = useState(0);
+  const [todoOrder, setTodoOrder] = useState<number[]>([]);
   const [message, setMessage] = useState<string | undefined>(undefined);
+  const [selectedDay, setSelectedDay] = useState<number>(currentTodoDay);
+  // Todos are loaded newest first: indices below nextOffset have not been fetched yet
+  const [nextOffset, setNextOffset] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Lowest index loaded so far, so reloads keep every page the user scrolled through
+  const loadedFromRef = useRef<number | undefined>(undefined);
+  // Which list and day the todos state belongs to, so that only matching snapshots are cached
+  const snapshotKeyRef = useRef<string | undefined>(undefined);
+  const [pendingOps, setPendingOps] = useState<StoredPendingTodoOp[]>([]);
+  const [isLocalDataLocked, setIsLocalDataLocked] = useState(true);
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === "undefined" || navigator.onLine);
+  const isFlushingRef = useRef(false);
+  // Latest syncTodos, and the chain of pending syncs (they run one at a time)
+  const syncTodosRef = useRef<() => Promise<void>>(async () => {});
+  const syncQueueRef = useRef<Promise<void>>(Promise.resolve());
   const [ethersSigner, setEthersSigner] = useState<ethers.JsonRpcSigner | undefined>(undefined);
   const [ethersProvider, setEthersProvider] = useState<ethers.JsonRpcProvider | undefined>(undefined);
 
+  // Queue a sync of the todo list with the contract's events
+  const requestSync = useCallback(() => {
+    syncQueueRef.current = syncQueueRef.current
+      .then(() => syncTodosRef.current())
+      .catch(error => console.error("[useTodoList] Error syncing todos:", error));
+    return syncQueueRef.current;
+  }, []);
+
   // Get EIP1193 provider
   const eip1193Provider = useCallback(() => {
     if (chainId === 31337) {
@@ -84,6 +390,11 @@ export function useTodoList(contractAddress: string | undefined): UseTodoListSta
     enabled: isConnected && !!contractAddress,
   });
 
+  // Shared lists are neither cached nor queued: the offline store only holds the account's own lists
+  const listKey = contractAddress && address && !isSharedList ? todoStoreListKey(chainId, contractAddress, address) : undefined;
+  // Without a network connection or a ready wallet, creates and toggles are queued
+  const canSubmit = isOnline && !!(ethersSigner && ethersProvider && fhevmInstance && address);
+
   // Convert walletClient to ethers signer
   useEffect(() => {
     if (!walletClient || !chainId) {
@@ -108,42 +419,120 @@ export function useTodoList(contractAddress: string | undefined): UseTodoListSta
     setupEthers();
   }, [walletClient, chainId]);
 
-  // Get text mapping from local storage
-  const getTextMap = useCallback((): Record<string, string> => {
-    if (typeof window === "undefined" || !address) {
-      console.log("[useTodoList] getTextMap: no window or address", { hasWindow: typeof window !== "undefined", address });
-      return {};
-    }
-    const storageKey = `${TEXT_MAP_KEY}_${address}`;
-    const stored = localStorage.getItem(storageKey);
-    const map = stored ? JSON.parse(stored) : {};
-    console.log("[useTodoList] getTextMap:", {
-      address,
-      storageKey,
-      stored,
-      map,
-      mapKeys: Object.keys(map),
-    });
-    return map;
+  // Decrypted values cached in local storage, sealed at rest with a wallet-derived key (see todoLocalMaps).
+  // Until the maps are unlocked, reads only see values saved in this session and nothing is written
+  const localMapsRef = useRef<LocalMaps>(emptyLocalMaps());
+  const localMapKeyRef = useRef<CryptoKey | undefined>(undefined);
+  const persistQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Write the sealed maps, one write at a time
+  const persistLocalMaps = useCallback(() => {
+    const key = localMapKeyRef.current;
+    if (typeof window === "undefined" || !address || !key) return;
+    const account = address;
+    const maps = localMapsRef.current;
+    persistQueueRef.current = persistQueueRef.current
+      .then(async () => {
+        localStorage.setItem(`${TEXT_MAP_KEY}_${account}`, await sealLocalMap(maps.text, key));
+        localStorage.setItem(`${COMPLETED_MAP_KEY}_${account}`, await sealLocalMap(maps.completed, key));
+        localStorage.setItem(`${CATEGORY_MAP_KEY}_${account}`, await sealLocalMap(maps.category, key));
+      })
+      .catch(error => console.error("[useTodoList] Error saving local maps:", error));
   }, [address]);
 
-  // Save text mapping to local storage
+  // Get text mapping (id handle => text)
+  const getTextMap = useCallback((): Record<string, string> => {
+    return { ...localMapsRef.current.text };
+  }, []);
+
+  // Save text mapping
   const saveTextMap = useCallback((map: Record<string, string>) => {
-    if (typeof window === "undefined" || !address) return;
-    localStorage.setItem(`${TEXT_MAP_KEY}_${address}`, JSON.stringify(map));
-  }, [address]);
+    localMapsRef.current = { ...localMapsRef.current, text: map };
+    persistLocalMaps();
+  }, [persistLocalMaps]);
 
-  // Get completed status mapping from local storage
+  // Get completed status mapping (decrypted)
   const getCompletedMap = useCallback((): Record<string, boolean> => {
-    if (typeof window === "undefined" || !address) return {};
-    const stored = localStorage.getItem(`${COMPLETED_MAP_KEY}_${address}`);
-    return stored ? JSON.parse(stored) : {};
-  }, [address]);
+    return { ...localMapsRef.current.completed };
+  }, []);
 
-  // Save completed status mapping to local storage
+  // Save completed status mapping
   const saveCompletedMap = useCallback((map: Record<string, boolean>) => {
+    localMapsRef.current = { ...localMapsRef.current, completed: map };
+    persistLocalMaps();
+  }, [persistLocalMaps]);
+
+  // Get category mapping (decrypted)
+  const getCategoryMap = useCallback((): Record<string, TodoCategory> => {
+    return { ...localMapsRef.current.category };
+  }, []);
+
+  // Save category mapping
+  const saveCategoryMap = useCallback((map: Record<string, TodoCategory>) => {
+    localMapsRef.current = { ...localMapsRef.current, category: map };
+    persistLocalMaps();
+  }, [persistLocalMaps]);
+
+  // Fill in the locally cached decrypted values of a todo (cached snapshots only carry handles)
+  const hydrateTodo = useCallback((todo: Todo): Todo => {
+    const { text, completed, category } = localMapsRef.current;
+    const cachedText = text[todo.encryptedId];
+    if (!cachedText) {
+      return todo;
+    }
+    return {
+      ...todo,
+      text: cachedText,
+      completed: completed[completedMapKey(todo.encryptedId, todo.recurring, selectedDay)] ?? todo.completed,
+      category: isTodoCategory(category[todo.encryptedId]) ? category[todo.encryptedId] : todo.category,
+      isDecrypted: true,
+    };
+  }, [selectedDay]);
+
+  // Decrypt the stored maps with the account's key. Values saved while locked win over the stored ones,
+  // and maps left in plaintext by earlier versions are re-encrypted by the write that follows
+  const openLocalMaps = useCallback(async (key: CryptoKey) => {
     if (typeof window === "undefined" || !address) return;
-    localStorage.setItem(`${COMPLETED_MAP_KEY}_${address}`, JSON.stringify(map));
+    const stored: LocalMaps = {
+      text: await openLocalMap<string>(localStorage.getItem(`${TEXT_MAP_KEY}_${address}`), key),
+      completed: await openLocalMap<boolean>(localStorage.getItem(`${COMPLETED_MAP_KEY}_${address}`), key),
+      category: await openLocalMap<TodoCategory>(localStorage.getItem(`${CATEGORY_MAP_KEY}_${address}`), key),
+    };
+    const current = localMapsRef.current;
+    localMapsRef.current = {
+      text: { ...stored.text, ...current.text },
+      completed: { ...stored.completed, ...current.completed },
+      category: { ...stored.category, ...current.category },
+    };
+    localMapKeyRef.current = key;
+    persistLocalMaps();
+    setIsLocalDataLocked(false);
+    setTodos(prevTodos => prevTodos.map(hydrateTodo));
+  }, [address, persistLocalMaps, hydrateTodo]);
+
+  // Ask the wallet for the key signature (once per session) and unlock the local maps
+  const unlockLocalData = useCallback(async () => {
+    if (!ethersSigner) {
+      throw new Error("Wallet not connected");
+    }
+    try {
+      await openLocalMaps(await unlockLocalMapKey(ethersSigner));
+    } catch (error: unknown) {
+      setMessage(`Could not unlock the local todo data: ${getErrorMessage(error)}`);
+      throw error;
+    }
+  }, [ethersSigner, openLocalMaps]);
+
+  // Another account starts locked, unless it was already unlocked in this session
+  useEffect(() => {
+    localMapsRef.current = emptyLocalMaps();
+    localMapKeyRef.current = undefined;
+    setIsLocalDataLocked(true);
+    const key = address ? getSessionLocalMapKey(address) : undefined;
+    if (key) {
+      openLocalMaps(key).catch(error => console.error("[useTodoList] Error opening local maps:", error));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [address]);
 
   // Hash text to uint32
@@ -153,19 +542,94 @@ export function useTodoList(contractAddress: string | undefined): UseTodoListSta
     return Number(uint32);
   }, []);
 
+  // Queue a create or toggle until the wallet can submit it again
+  const queueTodoOp = useCallback(async (op: PendingTodoOp) => {
+    if (!listKey) {
+      throw new Error("Wallet not connected");
+    }
+
+    // Toggling the same todo twice while offline cancels out
+    const existing = await todoStoreGetPendingOps(listKey);
+    const opposite = op.kind === "toggle"
+      ? existing.find(o => o.kind === "toggle" && o.todoIndex === op.todoIndex && o.day === op.day)
+      : undefined;
+    if (opposite?.id !== undefined) {
+      await todoStoreDeletePendingOp(opposite.id);
+    } else {
+      await todoStoreAddPendingOp(listKey, op);
+    }
+
+    setPendingOps(await todoStoreGetPendingOps(listKey));
+    setMessage("Offline: the change is queued and will be submitted once the wallet reconnects");
+  }, [listKey]);
+
+  // Encrypt and store the due timestamp (seconds) of one of the connected account's todos
+  const setDueDate = useCallback(async (contractIndex: number, dueDate: number) => {
+    if (!contractAddress || !ethersSigner || !fhevmInstance || !address) {
+      throw new Error("Wallet not connected or FHEVM not initialized");
+    }
+
+    const encryptedInput = fhevmInstance.createEncryptedInput(
+      contractAddress as `0x${string}`,
+      address as `0x${string}`
+    );
+    encryptedInput.add64(dueDate);
+    const encrypted = await encryptedInput.encrypt();
+
+    const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
+    const tx = await contract.setDueDate(contractIndex, encrypted.handles[0], encrypted.inputProof);
+    await tx.wait();
+  }, [contractAddress, ethersSigner, fhevmInstance, address]);
+
+  // Encrypt and store the tag bitmask of one of the connected account's todos
+  const writeTags = useCallback(async (contractIndex: number, tags: number) => {
+    if (!contractAddress || !ethersSigner || !fhevmInstance || !address) {
+      throw new Error("Wallet not connected or FHEVM not initialized");
+    }
+
+    const encryptedInput = fhevmInstance.createEncryptedInput(
+      contractAddress as `0x${string}`,
+      address as `0x${string}`
+    );
+    encryptedInput.add32(tags);
+    const encrypted = await encryptedInput.encrypt();
+
+    const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
+    const tx = await contract.setTags(contractIndex, encrypted.handles[0], encrypted.inputProof);
+    await tx.wait();
+  }, [contractAddress, ethersSigner, fhevmInstance, address]);
+
   const createTodo = useCallback(
-    async (text: string) => {
+    async (
+      text: string,
+      category: TodoCategory = DEFAULT_TODO_CATEGORY,
+      recurring: boolean = false,
+      priority: TodoPriority = DEFAULT_TODO_PRIORITY,
+      dueDate?: number,
+      tags: number = 0
+    ) => {
       if (!text.trim()) {
         setMessage("Todo text cannot be empty");
         return;
       }
 
+      if (todoTextByteLength(text) > MAX_TODO_TEXT_BYTES) {
+        const error = new Error(`Todo text is too long (max ${MAX_TODO_TEXT_BYTES} bytes)`);
+        setMessage(error.message);
+        throw error;
+      }
+
       if (!contractAddress) {
         const error = new Error("Contract address not configured. Please set VITE_CONTRACT_ADDRESS in .env.local");
         setMessage(error.message);
         throw error;
       }
 
+      if (listKey && !canSubmit) {
+        await queueTodoOp({ kind: "create", text: text.trim(), category, recurring, priority, dueDate, tags });
+        return;
+      }
+
       if (!ethersSigner || !fhevmInstance || !address || !ethersProvider) {
         const error = new Error("Wallet not connected or FHEVM not initialized");
         setMessage(error.message);
@@ -179,30 +643,33 @@ export function useTodoList(contractAddress: string | undefined): UseTodoListSta
         // Hash text to uint32
         const todoIdUint32 = hashTextToUint32(text);
 
-        // Encrypt todo ID
-        const encryptedIdInput = fhevmInstance.createEncryptedInput(
+        // Encrypt todo ID, metadata and tags with a single proof (new todos always start not completed)
+        const encryptedInput = fhevmInstance.createEncryptedInput(
           contractAddress as `0x${string}`,
           address as `0x${string}`
         );
-        encryptedIdInput.add32(todoIdUint32);
-        const encryptedId = await encryptedIdInput.encrypt();
-        
+        encryptedInput.add32(todoIdUint32);
+        encryptedInput.add32(packTodoMeta({ category: todoCategoryToUint8(category), priority, flags: 0 }));
+        encryptedInput.add32(tags);
+        const encrypted = await encryptedInput.encrypt();
+
         // Validate encrypted result
-        if (!encryptedId || !encryptedId.handles || !Array.isArray(encryptedId.handles) || encryptedId.handles.length === 0) {
-          throw new Error("Encryption failed: Invalid handle returned");
+        if (!encrypted || !encrypted.handles || !Array.isArray(encrypted.handles) || encrypted.handles.length !== 3) {
+          throw new Error("Encryption failed: Invalid handles returned");
         }
 
-        // Encrypt completion status (0 = not completed)
-        const encryptedCompletedInput = fhevmInstance.createEncryptedInput(
+        // Encrypt the todo text itself, all chunks sharing a single input proof
+        const encryptedTextInput = fhevmInstance.createEncryptedInput(
           contractAddress as `0x${string}`,
           address as `0x${string}`
         );
-        encryptedCompletedInput.add32(0);
-        const encryptedCompleted = await encryptedCompletedInput.encrypt();
-        
-        // Validate encrypted result
-        if (!encryptedCompleted || !encryptedCompleted.handles || !Array.isArray(encryptedCompleted.handles) || encryptedCompleted.handles.length === 0) {
-          throw new Error("Encryption failed: Invalid completion handle returned");
+        for (const chunk of encodeTodoText(text)) {
+          encryptedTextInput.add256(chunk);
+        }
+        const encryptedText = await encryptedTextInput.encrypt();
+
+        if (!encryptedText || !encryptedText.handles || encryptedText.handles.length === 0) {
+          throw new Error("Encryption failed: Invalid text handles returned");
         }
 
         setMessage("Submitting to blockchain...");
@@ -210,22 +677,27 @@ export function useTodoList(contractAddress: string | undefined): UseTodoListSta
         const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
 
         const tx = await contract.createTodo(
-          encryptedId.handles[0],
-          encryptedCompleted.handles[0],
-          encryptedId.inputProof,
-          encryptedCompleted.inputProof,
+          encrypted.handles[0],
+          encrypted.handles[1],
+          encrypted.handles[2],
+          encryptedText.handles,
+          encrypted.inputProof,
+          encryptedText.inputProof,
+          recurring,
           {
             gasLimit: 5000000,
           }
         );
 
         const receipt = await tx.wait();
-        const todoIndex = Number(receipt.logs[0]?.args?.[1] || todos.length);
+        const created = receipt.logs
+          .map((log: ethers.Log) => contract.interface.parseLog(log))
+          .find((parsed: ethers.LogDescription | null) => parsed?.name === "TodoCreated");
 
         // Save text mapping
         const textMap = getTextMap();
         // Ensure handle is a proper hex string and convert to lowercase
-        const handleValue: unknown = encryptedId.handles[0];
+        const handleValue: unknown = encrypted.handles[0];
         let handle: string;
         
         if (typeof handleValue === 'string') {
@@ -245,35 +717,39 @@ export function useTodoList(contractAddress: string | undefined): UseTodoListSta
           }
         }
         
-        console.log("[useTodoList] Saving text mapping:", {
-          handle,
-          handleValue,
-          handleValueType: typeof handleValue,
-          text,
-          address,
-          textMapBefore: { ...textMap },
-        });
-        
         if (handle && handle.length > 0 && handle.startsWith('0x')) {
           textMap[handle] = text;
           saveTextMap(textMap);
-          console.log("[useTodoList] Text mapping saved:", {
-            handle,
-            text,
-            textMapAfter: { ...textMap },
-          });
+          const categoryMap = getCategoryMap();
+          categoryMap[handle] = category;
+          saveCategoryMap(categoryMap);
         } else {
           console.warn("[useTodoList] Could not save text mapping: invalid handle", handleValue, handle);
         }
 
-        setMessage("Todo created successfully!");
+        // The due date is set by a further transaction, once the todo has its index. The todo exists (and its
+        // text is saved) either way, so a failure there is reported as a partial success
+        let followUpError: string | undefined;
+        if (dueDate !== undefined && created) {
+          setMessage("Setting due date...");
+          try {
+            await setDueDate(Number(created.args.todoIndex), dueDate);
+          } catch (error: unknown) {
+            followUpError = `Todo created, but its due date could not be set: ${getErrorMessage(error)}`;
+          }
+        }
+
+        setMessage(followUpError ?? "Todo created successfully!");
+        // New todos belong to today's log
+        setSelectedDay(currentTodoDay());
         
-        // Reload todos after a delay
-        setTimeout(() => {
-          loadTodos();
-        }, 2000);
-      } catch (error: any) {
-        const errorMessage = error.reason || error.message || String(error);
+        // Apply the transaction's TodoCreated events
+        requestSync();
+        if (followUpError) {
+          throw new Error(followUpError);
+        }
+      } catch (error: unknown) {
+        const errorMessage = getErrorMessage(error);
         setMessage(`Error: ${errorMessage}`);
         console.error("[useTodoList] Error creating todo:", error);
         throw error;
@@ -281,348 +757,769 @@ export function useTodoList(contractAddress: string | undefined): UseTodoListSta
         setIsLoading(false);
       }
     },
-    [contractAddress, ethersSigner, fhevmInstance, address, ethersProvider, hashTextToUint32, getTextMap, saveTextMap]
+    [contractAddress, ethersSigner, fhevmInstance, address, ethersProvider, hashTextToUint32, getTextMap, saveTextMap, getCategoryMap, saveCategoryMap, requestSync, listKey, canSubmit, queueTodoOp, setDueDate]
   );
 
-  const decryptTodo = useCallback(
+  const createTodos = useCallback(
     async (
-      encryptedId: string, 
-      encryptedCompleted: string, 
-      contractAddress: string, 
-      index: number
-    ): Promise<{ id: number; completed: boolean }> => {
-      if (!fhevmInstance || !ethersSigner || !address) {
-        throw new Error("FHEVM not initialized");
+      texts: string[],
+      category: TodoCategory = DEFAULT_TODO_CATEGORY,
+      recurring: boolean = false,
+      priority: TodoPriority = DEFAULT_TODO_PRIORITY
+    ) => {
+      const items = texts.map(text => text.trim()).filter(text => text.length > 0);
+      if (items.length === 0) {
+        setMessage("Todo text cannot be empty");
+        return;
       }
 
-      // Generate keypair
-      const keypair = (fhevmInstance as any).generateKeypair?.() || {
-        publicKey: new Uint8Array(32).fill(0),
-        privateKey: new Uint8Array(32).fill(0),
-      };
+      if (listKey && !canSubmit) {
+        for (const text of items) {
+          await queueTodoOp({ kind: "create", text, category, recurring, priority });
+        }
+        return;
+      }
 
-      // Create EIP712 signature
-      const contractAddresses = [contractAddress as `0x${string}`];
-      const startTimestamp = Math.floor(Date.now() / 1000).toString();
-      const durationDays = "10";
-
-      const eip712 = (fhevmInstance as any).createEIP712?.(
-        keypair.publicKey,
-        contractAddresses,
-        startTimestamp,
-        durationDays
-      ) || {
-        domain: { name: "FHEVM", version: "1", chainId, verifyingContract: contractAddresses[0] },
-        types: { UserDecryptRequestVerification: [] },
-        message: {},
-      };
+      if (!contractAddress || !ethersSigner || !fhevmInstance || !address) {
+        const error = new Error("Wallet not connected or FHEVM not initialized");
+        setMessage(error.message);
+        throw error;
+      }
 
-      const signature = await ethersSigner.signTypedData(
-        eip712.domain,
-        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
-        eip712.message
-      );
+      let createdCount = 0;
+      try {
+        setIsLoading(true);
+        const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
+        for (let start = 0; start < items.length; start += TODO_CREATE_CHUNK_SIZE) {
+          const chunk = items.slice(start, start + TODO_CREATE_CHUNK_SIZE);
+          setMessage(`Encrypting todos ${start + 1}-${start + chunk.length} of ${items.length}...`);
+
+          // Todo IDs and metadata words of the chunk share a single proof
+          const encryptedInput = fhevmInstance.createEncryptedInput(
+            contractAddress as `0x${string}`,
+            address as `0x${string}`
+          );
+          const meta = packTodoMeta({ category: todoCategoryToUint8(category), priority, flags: 0 });
+          for (const text of chunk) {
+            encryptedInput.add32(hashTextToUint32(text));
+            encryptedInput.add32(meta);
+          }
+          const encrypted = await encryptedInput.encrypt();
+
+          // Text chunks of several todos share a proof as long as they fit in one input
+          const chunkLists = chunk.map(text => encodeTodoText(text));
+          const textProofs: string[] = [];
+          const textHandles: string[][] = chunk.map(() => []);
+          const textProofIndices: number[] = chunk.map(() => 0);
+          for (const group of groupTodoTextChunks(chunkLists)) {
+            const encryptedTextInput = fhevmInstance.createEncryptedInput(
+              contractAddress as `0x${string}`,
+              address as `0x${string}`
+            );
+            for (const index of group) {
+              for (const textChunk of chunkLists[index]) {
+                encryptedTextInput.add256(textChunk);
+              }
+            }
+            const encryptedText = await encryptedTextInput.encrypt();
+
+            let offset = 0;
+            for (const index of group) {
+              textHandles[index] = encryptedText.handles
+                .slice(offset, offset + chunkLists[index].length)
+                .map(h => ethers.hexlify(h));
+              textProofIndices[index] = textProofs.length;
+              offset += chunkLists[index].length;
+            }
+            textProofs.push(ethers.hexlify(encryptedText.inputProof));
+          }
 
-      const signatureForDecrypt = chainId === 31337 ? signature.replace("0x", "") : signature;
+          setMessage("Submitting to blockchain...");
+          const newTodos = chunk.map((_, i) => ({
+            id: encrypted.handles[2 * i],
+            meta: encrypted.handles[2 * i + 1],
+            text: textHandles[i],
+            textProofIndex: textProofIndices[i],
+            recurring,
+          }));
+          const gasEstimate = await contract.createTodos.estimateGas(newTodos, encrypted.inputProof, textProofs);
+          const tx = await contract.createTodos(newTodos, encrypted.inputProof, textProofs, {
+            gasLimit: withGasMargin(gasEstimate),
+          });
+          await tx.wait();
+          createdCount += chunk.length;
+
+          // Cache the plaintext text and category of every new todo (keyed by id handle)
+          const textMap = getTextMap();
+          const categoryMap = getCategoryMap();
+          chunk.forEach((text, i) => {
+            const handle = ethers.hexlify(encrypted.handles[2 * i]).toLowerCase();
+            textMap[handle] = text;
+            categoryMap[handle] = category;
+          });
+          saveTextMap(textMap);
+          saveCategoryMap(categoryMap);
+        }
 
-      // Build handle-contract pairs (only include non-empty handles)
-      const handleContractPairs: Array<{ handle: string; contractAddress: `0x${string}` }> = [];
-      if (encryptedId && encryptedId.length > 0) {
-        handleContractPairs.push({ 
-          handle: encryptedId, 
-          contractAddress: contractAddress as `0x${string}` 
-        });
-      }
-      if (encryptedCompleted && encryptedCompleted.length > 0) {
-        handleContractPairs.push({ 
-          handle: encryptedCompleted, 
-          contractAddress: contractAddress as `0x${string}` 
-        });
+        setMessage(`${items.length} todos created successfully!`);
+        // New todos belong to today's log
+        setSelectedDay(currentTodoDay());
+
+        // Apply the transaction's TodoCreated events
+        requestSync();
+      } catch (error: unknown) {
+        const errorMessage = getErrorMessage(error);
+        // Earlier chunks are on-chain already
+        if (createdCount > 0) {
+          setMessage(`Error: only ${createdCount} of ${items.length} todos were created: ${errorMessage}`);
+          requestSync();
+        } else {
+          setMessage(`Error: ${errorMessage}`);
+        }
+        console.error("[useTodoList] Error creating todos:", error);
+        throw error;
+      } finally {
+        setIsLoading(false);
       }
+    },
+    [contractAddress, ethersSigner, fhevmInstance, address, hashTextToUint32, getTextMap, saveTextMap, getCategoryMap, saveCategoryMap, requestSync, listKey, canSubmit, queueTodoOp]
+  );
 
-      if (handleContractPairs.length === 0) {
-        throw new Error("No handles to decrypt");
+  // Decrypt an arbitrary set of handles of this contract with a single signature
+  const userDecryptHandles = useCallback(
+    async (handles: string[]): Promise<Record<string, bigint | boolean | string>> => {
+      if (!fhevmInstance || !ethersSigner || !address || !contractAddress) {
+        throw new Error("FHEVM not initialized");
       }
 
-      const decryptedResult = await (fhevmInstance as any).userDecrypt(
-        handleContractPairs,
-        keypair.privateKey,
-        keypair.publicKey,
+      // Reuse the stored signature of this account and contract: the wallet is only prompted when it expired
+      const sig = await FhevmDecryptionSignature.loadOrSign(
+        fhevmInstance,
+        [contractAddress],
+        ethersSigner,
+        fhevmDecryptionSignatureStorage
+      );
+
+      const signatureForDecrypt = chainId === 31337 ? sig.signature.replace("0x", "") : sig.signature;
+
+      return (fhevmInstance as any).userDecrypt(
+        handles.map(handle => ({ handle, contractAddress: contractAddress as `0x${string}` })),
+        sig.privateKey,
+        sig.publicKey,
         signatureForDecrypt,
-        contractAddresses,
-        address as `0x${string}`,
-        startTimestamp,
-        durationDays
+        sig.contractAddresses,
+        sig.userAddress,
+        sig.startTimestamp,
+        sig.durationDays
       );
+    },
+    [fhevmInstance, ethersSigner, address, contractAddress, chainId, fhevmDecryptionSignatureStorage]
+  );
+
+  const loadTodoRevisions = useCallback(
+    async (contractIndex: number): Promise<TodoRevision[]> => {
+      if (!contractAddress || !ethersProvider || !owner) {
+        throw new Error("Wallet not connected");
+      }
+
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersProvider);
+      const count = Number(await contract.getTodoRevisionCount(owner, contractIndex));
+
+      const textMap = getTextMap();
+      const revisions: TodoRevision[] = [];
+      for (let revision = 0; revision < count; revision++) {
+        const [encryptedId, encryptedText, timestamp] = await contract.getTodoRevision(owner, contractIndex, revision);
+        const idHandle = ethers.hexlify(encryptedId).toLowerCase();
+        revisions.push({
+          revision,
+          encryptedId: idHandle,
+          encryptedText: (encryptedText as Array<string | Uint8Array>).map(h => ethers.hexlify(h).toLowerCase()),
+          text: textMap[idHandle],
+          timestamp: Number(timestamp),
+        });
+      }
 
-      const id = encryptedId && encryptedId.length > 0 
-        ? Number(decryptedResult[encryptedId] || 0) 
-        : 0;
-      const completed = encryptedCompleted && encryptedCompleted.length > 0
-        ? Number(decryptedResult[encryptedCompleted] || 0) === 1
-        : false;
+      // Decrypt the text of revisions that are not cached locally (e.g. on another device)
+      const missing = revisions.filter(r => r.text === undefined);
+      if (missing.length > 0) {
+        const decryptedResult = await userDecryptHandles(missing.flatMap(r => r.encryptedText));
+        for (const revision of missing) {
+          revision.text = decodeTodoText(revision.encryptedText.map(h => decryptedResult[h] as bigint ?? 0n));
+          textMap[revision.encryptedId] = revision.text;
+        }
+        saveTextMap(textMap);
+      }
 
-      return { id, completed };
+      return revisions;
     },
-    [fhevmInstance, ethersSigner, address, chainId]
+    [contractAddress, ethersProvider, owner, getTextMap, saveTextMap, userDecryptHandles]
   );
 
+  // The contract derives the completion status of a parent todo from its subtasks: mirror that for the loaded
+  // todos (and in the completed map), so parents do not show a stale status until they are decrypted again
+  const deriveParentCompletion = useCallback((currentTodos: Todo[]): Todo[] => {
+    const completedMap = getCompletedMap();
+    let changed = false;
+    const derivedTodos = currentTodos.map(todo => {
+      const completed = derivedParentCompletion(currentTodos, todo.index);
+      if (completed === undefined || completed === todo.completed) {
+        return todo;
+      }
+      changed = true;
+      if (todo.encryptedId) {
+        completedMap[completedMapKey(todo.encryptedId.toLowerCase(), todo.recurring, selectedDay)] = completed;
+      }
+      return { ...todo, completed };
+    });
+    if (changed) {
+      saveCompletedMap(completedMap);
+    }
+    return derivedTodos;
+  }, [getCompletedMap, saveCompletedMap, selectedDay]);
+
+  // The status of a todo toggled before it was ever decrypted is unknown: forget any cached value (it is stale
+  // now), then decrypt the new status handle. On failure the status stays unknown until the next decryption
+  const decryptToggledStatus = useCallback(async (todo: Todo) => {
+    if (!contractAddress || !ethersProvider || !address) {
+      return;
+    }
+
+    const completedKey = completedMapKey(todo.encryptedId.toLowerCase(), todo.recurring, selectedDay);
+    const completedMap = getCompletedMap();
+    delete completedMap[completedKey];
+    saveCompletedMap(completedMap);
+
+    try {
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersProvider);
+      const [page]: [TodoPageEntry[]] = await contract.getTodos(address, todo.index, 1);
+      const handle = ethers.hexlify(page[0].completed).toLowerCase();
+      const completed = Boolean((await userDecryptHandles([handle]))[handle]);
+
+      saveCompletedMap({ ...getCompletedMap(), [completedKey]: completed });
+      setTodos(prevTodos => deriveParentCompletion(prevTodos.map(current =>
+        current.index === todo.index ? { ...current, encryptedCompleted: handle, completed } : current
+      )));
+    } catch (error: unknown) {
+      console.error("[useTodoList] Error decrypting the toggled status:", error);
+    }
+  }, [contractAddress, ethersProvider, address, selectedDay, getCompletedMap, saveCompletedMap, userDecryptHandles, deriveParentCompletion]);
+
   const toggleTodo = useCallback(
     async (contractIndex: number) => {
-      if (!contractAddress || !ethersSigner || !fhevmInstance || !address || !ethersProvider) {
+      const todo = todos.find(t => t.index === contractIndex);
+      if (todo?.recurring && selectedDay !== currentTodoDay()) {
+        throw new Error("Past days of a recurring todo cannot be changed");
+      }
+
+      if (listKey && !canSubmit && todo) {
+        await queueTodoOp({ kind: "toggle", todoIndex: contractIndex, day: selectedDay, recurring: todo.recurring });
+        return;
+      }
+
+      if (!contractAddress || !ethersSigner || !address) {
         setMessage("Missing requirements for toggling todo");
         return;
       }
 
       try {
         setIsLoading(true);
-        setMessage("Fetching current todo status...");
+        setMessage("Submitting to blockchain...");
 
-        // Get current todo from contract (don't rely on todos array state)
-        const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersProvider);
-        const [encryptedId, currentEncryptedCompleted, timestamp] = await contract.getTodo(address, contractIndex);
-        
-        const completedHandle = typeof currentEncryptedCompleted === "string" 
-          ? currentEncryptedCompleted 
-          : ethers.hexlify(currentEncryptedCompleted);
-
-        // Decrypt current completion status
-        setMessage("Decrypting current status...");
-        const { completed: currentCompleted } = await decryptTodo(
-          "", // We don't need to decrypt ID for toggle
-          completedHandle.toLowerCase(),
-          contractAddress,
-          contractIndex
-        );
+        // The contract flips the encrypted status itself: no decryption or encryption needed
+        const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
+        const tx = await contract.toggleTodo(contractIndex, {
+          gasLimit: 5000000,
+        });
+
+        await tx.wait();
+        setMessage("Todo toggled successfully!");
+
+        if (todo?.isDecrypted) {
+          // Update the todo in local state immediately (optimistic update)
+          const newCompletedStatus = !todo.completed;
+          const completedMap = getCompletedMap();
+          setTodos(prevTodos => deriveParentCompletion(prevTodos.map(todo => {
+            if (todo.index === contractIndex) {
+              // Also save to completed map
+              if (todo.encryptedId) {
+                completedMap[completedMapKey(todo.encryptedId.toLowerCase(), todo.recurring, selectedDay)] = newCompletedStatus;
+                saveCompletedMap(completedMap);
+              }
+              return {
+                ...todo,
+                completed: newCompletedStatus, // Toggle the completed status
+              };
+            }
+            return todo;
+          })));
+        } else if (todo) {
+          await decryptToggledStatus(todo);
+        }
+
+        // Apply the transaction's TodoToggled event
+        requestSync();
+      } catch (error: unknown) {
+        const errorMessage = getErrorMessage(error);
+        setMessage(`Error: ${errorMessage}`);
+        console.error("[useTodoList] Error toggling todo:", error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, ethersSigner, address, todos, selectedDay, requestSync, listKey, canSubmit, queueTodoOp, deriveParentCompletion, decryptToggledStatus]
+  );
+
+  const updateTodo = useCallback(
+    async (contractIndex: number, text: string) => {
+      if (!text.trim()) {
+        setMessage("Todo text cannot be empty");
+        return;
+      }
+
+      if (!contractAddress || !ethersSigner || !fhevmInstance || !address) {
+        const error = new Error("Wallet not connected or FHEVM not initialized");
+        setMessage(error.message);
+        throw error;
+      }
+
+      try {
+        setIsLoading(true);
+        setMessage("Encrypting todo...");
 
-        // Encrypt new completion status (toggle: 1 if was 0, 0 if was 1)
-        const newCompleted = currentCompleted ? 0 : 1;
-        setMessage("Encrypting new status...");
-        const encryptedCompletedInput = fhevmInstance.createEncryptedInput(
+        const encryptedIdInput = fhevmInstance.createEncryptedInput(
           contractAddress as `0x${string}`,
           address as `0x${string}`
         );
-        encryptedCompletedInput.add32(newCompleted);
-        const newEncryptedCompleted = await encryptedCompletedInput.encrypt();
+        encryptedIdInput.add32(hashTextToUint32(text));
+        const encryptedId = await encryptedIdInput.encrypt();
 
-        const contractWithSigner = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
+        const encryptedTextInput = fhevmInstance.createEncryptedInput(
+          contractAddress as `0x${string}`,
+          address as `0x${string}`
+        );
+        for (const chunk of encodeTodoText(text)) {
+          encryptedTextInput.add256(chunk);
+        }
+        const encryptedText = await encryptedTextInput.encrypt();
 
         setMessage("Submitting to blockchain...");
-        const tx = await contractWithSigner.toggleTodo(
+        const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
+        const tx = await contract.updateTodo(
           contractIndex,
-          newEncryptedCompleted.handles[0],
-          newEncryptedCompleted.inputProof,
+          encryptedId.handles[0],
+          encryptedText.handles,
+          encryptedId.inputProof,
+          encryptedText.inputProof,
           {
             gasLimit: 5000000,
           }
         );
-
         await tx.wait();
-        setMessage("Todo toggled successfully!");
 
-        // Update the todo in local state immediately (optimistic update)
-        const newCompletedStatus = !todos.find(t => t.index === contractIndex)?.completed;
+        // The todo is now identified by the new id handle: move the local mappings over
+        const newIdHandle = ethers.hexlify(encryptedId.handles[0]).toLowerCase();
+        const newTextHandles = encryptedText.handles.map(h => ethers.hexlify(h).toLowerCase());
+        const textMap = getTextMap();
+        textMap[newIdHandle] = text;
+        saveTextMap(textMap);
+
         const completedMap = getCompletedMap();
-        setTodos(prevTodos => prevTodos.map(todo => {
-          if (todo.index === contractIndex) {
-            // Also save to completed map
-            if (todo.encryptedId) {
-              completedMap[todo.encryptedId.toLowerCase()] = newCompletedStatus;
-              saveCompletedMap(completedMap);
-            }
-            return {
-              ...todo,
-              completed: newCompletedStatus, // Toggle the completed status
-            };
+        const editedTodo = todos.find(t => t.index === contractIndex);
+        const oldIdHandle = editedTodo?.encryptedId;
+        if (editedTodo && oldIdHandle) {
+          const oldKey = completedMapKey(oldIdHandle, editedTodo.recurring, selectedDay);
+          if (oldKey in completedMap) {
+            completedMap[completedMapKey(newIdHandle, editedTodo.recurring, selectedDay)] = completedMap[oldKey];
+            saveCompletedMap(completedMap);
           }
-          return todo;
-        }));
-
-        // Reload todos after a delay to sync with contract
-        setTimeout(() => {
-          loadTodos();
-        }, 2000);
-      } catch (error: any) {
-        const errorMessage = error.reason || error.message || String(error);
+        }
+        const categoryMap = getCategoryMap();
+        if (oldIdHandle && oldIdHandle in categoryMap) {
+          categoryMap[newIdHandle] = categoryMap[oldIdHandle];
+          saveCategoryMap(categoryMap);
+        }
+
+        setTodos(prevTodos => prevTodos.map(todo =>
+          todo.index === contractIndex
+            ? { ...todo, text, encryptedId: newIdHandle, encryptedText: newTextHandles }
+            : todo
+        ));
+        setMessage("Todo updated successfully!");
+      } catch (error: unknown) {
+        const errorMessage = getErrorMessage(error);
         setMessage(`Error: ${errorMessage}`);
-        console.error("[useTodoList] Error toggling todo:", error);
+        console.error("[useTodoList] Error updating todo:", error);
         throw error;
       } finally {
         setIsLoading(false);
       }
     },
-    [contractAddress, ethersSigner, fhevmInstance, address, ethersProvider, decryptTodo]
+    [contractAddress, ethersSigner, fhevmInstance, address, todos, selectedDay, hashTextToUint32, getTextMap, saveTextMap, getCompletedMap, saveCompletedMap, getCategoryMap, saveCategoryMap]
   );
 
-  const loadTodos = useCallback(async () => {
-    if (!contractAddress || !ethersProvider || !address || !fhevmInstance || !ethersSigner) {
-      return;
-    }
-
-    try {
-      setIsLoading(true);
+  const setCompletedMany = useCallback(
+    async (contractIndices: number[], completed: boolean) => {
+      if (contractIndices.length === 0) {
+        return;
+      }
 
-      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersProvider);
-      const count = await contract.getTodoCount(address);
+      if (!contractAddress || !ethersSigner || !fhevmInstance || !address) {
+        const error = new Error("Wallet not connected or FHEVM not initialized");
+        setMessage(error.message);
+        throw error;
+      }
 
-      if (count === 0n) {
-        setTodos([]);
-        return;
+      const affected = todos.filter(t => contractIndices.includes(t.index));
+      if (affected.some(t => t.recurring) && selectedDay !== currentTodoDay()) {
+        throw new Error("Past days of a recurring todo cannot be changed");
       }
 
-      const textMap = getTextMap();
-      const loadedTodos: Todo[] = [];
-
-      // Collect all handles first
-      const todoData: Array<{
-        index: number;
-        idHandle: string;
-        completedHandle: string;
-        timestamp: number;
-      }> = [];
-
-      for (let i = 0; i < Number(count); i++) {
-        try {
-          const [encryptedId, encryptedCompleted, timestamp] = await contract.getTodo(address, i);
-          const idHandle = typeof encryptedId === "string" ? encryptedId : ethers.hexlify(encryptedId);
-          const completedHandle = typeof encryptedCompleted === "string" ? encryptedCompleted : ethers.hexlify(encryptedCompleted);
-
-          todoData.push({
-            index: i,
-            idHandle: idHandle.toLowerCase(),
-            completedHandle: completedHandle.toLowerCase(),
-            timestamp: Number(timestamp),
+      try {
+        setIsLoading(true);
+        const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
+        for (let start = 0; start < contractIndices.length; start += MAX_TODO_BATCH_SIZE) {
+          const chunk = contractIndices.slice(start, start + MAX_TODO_BATCH_SIZE);
+          setMessage("Encrypting new status...");
+
+          // All statuses of a chunk share a single proof
+          const encryptedInput = fhevmInstance.createEncryptedInput(
+            contractAddress as `0x${string}`,
+            address as `0x${string}`
+          );
+          for (let i = 0; i < chunk.length; i++) {
+            encryptedInput.addBool(completed);
+          }
+          const encrypted = await encryptedInput.encrypt();
+
+          setMessage("Submitting to blockchain...");
+          const gasEstimate = await contract.setCompletedMany.estimateGas(chunk, encrypted.handles, encrypted.inputProof);
+          const tx = await contract.setCompletedMany(chunk, encrypted.handles, encrypted.inputProof, {
+            gasLimit: withGasMargin(gasEstimate),
           });
-        } catch (error) {
-          console.error(`Error fetching todo ${i}:`, error);
+          await tx.wait();
+
+          const completedMap = getCompletedMap();
+          for (const todo of affected.filter(t => chunk.includes(t.index))) {
+            completedMap[completedMapKey(todo.encryptedId.toLowerCase(), todo.recurring, selectedDay)] = completed;
+          }
+          saveCompletedMap(completedMap);
+          setTodos(prevTodos => deriveParentCompletion(prevTodos.map(todo =>
+            chunk.includes(todo.index) ? { ...todo, completed } : todo
+          )));
         }
+        setMessage("Todos updated successfully!");
+      } catch (error: unknown) {
+        const errorMessage = getErrorMessage(error);
+        setMessage(`Error: ${errorMessage}`);
+        console.error("[useTodoList] Error updating todos:", error);
+        throw error;
+      } finally {
+        setIsLoading(false);
       }
+    },
+    [contractAddress, ethersSigner, fhevmInstance, address, todos, selectedDay, getCompletedMap, saveCompletedMap, deriveParentCompletion]
+  );
 
-      // Load todos without decrypting (show encrypted state)
-      // Text and completed status will be loaded from local storage if available
-      const completedMap = getCompletedMap();
-      for (const todo of todoData) {
-        // Get text from mapping (if available)
-        const textFromMap = textMap[todo.idHandle];
-        const text = textFromMap || `Encrypted Todo #${todo.index + 1}`;
-
-        // Get completed status from mapping (if available, from previous decryption)
-        const completedFromMap = completedMap[todo.idHandle] || false;
-
-        loadedTodos.push({
-          id: `todo-${todo.index}`,
-          text,
-          encryptedId: todo.idHandle,
-          encryptedCompleted: todo.completedHandle,
-          completed: completedFromMap, // Use saved completed status if available
-          timestamp: todo.timestamp,
-          index: todo.index,
-          isDecrypted: !!textFromMap, // Mark as decrypted if text is available
-        });
+  const removeTodo = useCallback(
+    async (contractIndex: number, action: "archive" | "delete") => {
+      if (!contractAddress || !ethersSigner || !address) {
+        setMessage(`Missing requirements for ${action === "archive" ? "archiving" : "deleting"} todo`);
+        return;
       }
 
-      // Sort by timestamp (newest first)
-      loadedTodos.sort((a, b) => b.timestamp - a.timestamp);
-      setTodos(loadedTodos);
-    } catch (error: any) {
-      console.error("[useTodoList] Error loading todos:", error);
-      setMessage(`Error loading todos: ${error.message || String(error)}`);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [contractAddress, ethersProvider, address, fhevmInstance, ethersSigner, getTextMap]);
+      try {
+        setIsLoading(true);
+        setMessage("Submitting to blockchain...");
 
-  const decryptTodos = useCallback(async () => {
+        const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
+        const tx = action === "archive"
+          ? await contract.archiveTodo(contractIndex)
+          : await contract.deleteTodo(contractIndex);
+        await tx.wait();
+
+        // The todo stays on-chain (auditable) but is no longer part of the active list
+        setTodos(prevTodos => deriveParentCompletion(prevTodos.filter(todo => todo.index !== contractIndex)));
+        setMessage(action === "archive" ? "Todo archived successfully!" : "Todo deleted successfully!");
+      } catch (error: unknown) {
+        const errorMessage = getErrorMessage(error);
+        setMessage(`Error: ${errorMessage}`);
+        console.error(`[useTodoList] Error ${action === "archive" ? "archiving" : "deleting"} todo:`, error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, ethersSigner, address, deriveParentCompletion]
+  );
+
+  const archiveTodo = useCallback(
+    (contractIndex: number) => removeTodo(contractIndex, "archive"),
+    [removeTodo]
+  );
+
+  const deleteTodo = useCallback(
+    (contractIndex: number) => removeTodo(contractIndex, "delete"),
+    [removeTodo]
+  );
+
+  // Fetch the todos of the selected day's log among the todo indices [start, end), one getTodos page per round trip
+  const fetchTodoRange = useCallback(async (contract: ethers.Contract, start: number, end: number): Promise<Todo[]> => {
+    if (!owner) {
+      return [];
+    }
+
+    const maps: LocalMaps = { text: getTextMap(), completed: getCompletedMap(), category: getCategoryMap() };
+    const isToday = selectedDay === currentTodoDay();
+    const loadedTodos: Todo[] = [];
+
+    for (let offset = start; offset < end; offset += TODO_PAGE_SIZE) {
+      const [page]: [TodoPageEntry[]] = await contract.getTodos(owner, offset, Math.min(TODO_PAGE_SIZE, end - offset));
+
+      // The selected day's log: todos created that day plus recurring todos.
+      // Archived and deleted todos stay on-chain but are not part of the list
+      const dayEntries = page.filter(entry => {
+        if (Number(entry.status) !== TODO_STATUS_ACTIVE) {
+          return false;
+        }
+        const createdDay = todoDayFromTimestamp(Number(entry.createdAt));
+        return entry.recurring ? createdDay <= selectedDay : createdDay === selectedDay;
+      });
+
+      // Pages carry today's status of recurring todos: other days need one extra call per recurring todo
+      const completedHandles: string[] = await Promise.all(dayEntries.map(entry =>
+        entry.recurring && !isToday
+          ? contract.getTodoCompletionForDay(owner, entry.index, selectedDay)
+          : Promise.resolve(entry.completed)
+      ));
+
+      dayEntries.forEach((entry, i) => {
+        loadedTodos.push(todoFromPageEntry(entry, completedHandles[i], selectedDay, maps));
+      });
+    }
+
+    return loadedTodos;
+  }, [owner, selectedDay, getTextMap, getCompletedMap, getCategoryMap]);
+
+  const loadTodoOrder = useCallback(async (contract: ethers.Contract) => {
+    const order: bigint[] = await contract.getTodoOrder(owner);
+    setTodoOrder(order.map(Number));
+  }, [owner]);
+
+  // (Re)load the newest page of todos, or every page loaded so far once the list was scrolled further
+  const loadTodos = useCallback(async () => {
+    if (!contractAddress || !ethersProvider || !address || !fhevmInstance || !ethersSigner) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersProvider);
+      const total = Number(await contract.getTodoCount(owner));
+      const start = Math.max(0, Math.min(loadedFromRef.current ?? total, total - TODO_PAGE_SIZE));
+      const loadedTodos = await fetchTodoRange(contract, start, total);
+      await loadTodoOrder(contract);
+
+      // Sort by creation time (newest first), so toggling does not reorder the log
+      loadedTodos.sort((a, b) => b.createdAt - a.createdAt);
+      loadedFromRef.current = start;
+      setNextOffset(start);
+      snapshotKeyRef.current = listKey && `${listKey}@${selectedDay}`;
+      setTodos(loadedTodos);
+    } catch (error: unknown) {
+      console.error("[useTodoList] Error loading todos:", error);
+      setMessage(`Error loading todos: ${getErrorMessage(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [contractAddress, ethersProvider, address, owner, fhevmInstance, ethersSigner, listKey, selectedDay, fetchTodoRange, loadTodoOrder]);
+
+  // Load the next (older) page of todos, for infinite scrolling
+  const loadMoreTodos = useCallback(async () => {
+    if (!contractAddress || !ethersProvider || !address || nextOffset === 0 || isLoading || isLoadingMore) {
+      return;
+    }
+
+    try {
+      setIsLoadingMore(true);
+
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersProvider);
+      const start = Math.max(0, nextOffset - TODO_PAGE_SIZE);
+      const olderTodos = await fetchTodoRange(contract, start, nextOffset);
+
+      loadedFromRef.current = start;
+      setNextOffset(start);
+      setTodos(prevTodos => {
+        const known = new Set(prevTodos.map(todo => todo.index));
+        const merged = [...prevTodos, ...olderTodos.filter(todo => !known.has(todo.index))];
+        return merged.sort((a, b) => b.createdAt - a.createdAt);
+      });
+    } catch (error: unknown) {
+      console.error("[useTodoList] Error loading more todos:", error);
+      setMessage(`Error loading todos: ${getErrorMessage(error)}`);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [contractAddress, ethersProvider, address, nextOffset, isLoading, isLoadingMore, fetchTodoRange]);
+
+  // Re-read some todos from the contract and merge them into the list (todos that left the day's log are dropped)
+  const refreshTodos = useCallback(async (indices: number[]) => {
+    // Before the first load there is nothing to merge into; older pages are left to infinite scrolling
+    const loadedFrom = loadedFromRef.current;
+    if (!contractAddress || !ethersProvider || loadedFrom === undefined) {
+      return;
+    }
+
+    const stale = indices.filter(index => index >= loadedFrom);
+    if (stale.length === 0) {
+      return;
+    }
+
+    const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersProvider);
+    const refreshed: Todo[] = [];
+    for (const index of stale) {
+      // A todo that no longer exists (its creation was reorged away) comes back as an empty page
+      refreshed.push(...(await fetchTodoRange(contract, index, index + 1)));
+    }
+
+    const staleIndices = new Set(stale);
+    setTodos(prevTodos => [...prevTodos.filter(todo => !staleIndices.has(todo.index)), ...refreshed]
+      .sort((a, b) => b.createdAt - a.createdAt));
+  }, [contractAddress, ethersProvider, fetchTodoRange]);
+
+  // Apply the todo events since the persisted cursor, then move the cursor to the latest block
+  const syncTodos = useCallback(async () => {
+    if (!contractAddress || !ethersProvider || !owner) {
+      return;
+    }
+
+    const latest = await ethersProvider.getBlock("latest");
+    if (!latest?.hash) {
+      return;
+    }
+
+    const cursor = loadTodoSyncCursor(chainId, contractAddress, owner);
+    const cursorBlock = cursor && cursor.blockNumber <= latest.number
+      ? await ethersProvider.getBlock(cursor.blockNumber)
+      : null;
+
+    if (
+      !cursor ||
+      cursorBlock?.hash !== cursor.blockHash ||
+      latest.number - cursor.blockNumber > TODO_SYNC_MAX_BACKFILL_BLOCKS
+    ) {
+      // No cursor yet, the cursor block was reorged away, or it is too far behind: start over from a full reload
+      await loadTodos();
+    } else if (cursor.blockNumber < latest.number) {
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersProvider);
+      const logs = await contract.queryFilter(
+        todoSyncTopicFilter(contract.interface, owner),
+        cursor.blockNumber + 1,
+        latest.number
+      );
+      await refreshTodos(todoIndicesFromLogs(contract.interface, logs, owner));
+      if (todoOrderChangedInLogs(contract.interface, logs, owner)) {
+        await loadTodoOrder(contract);
+      }
+    }
+
+    saveTodoSyncCursor(chainId, contractAddress, owner, { blockNumber: latest.number, blockHash: latest.hash });
+  }, [contractAddress, ethersProvider, owner, chainId, loadTodos, refreshTodos, loadTodoOrder]);
+
+  const decryptTodos = useCallback(async () => {
     if (!contractAddress || !ethersProvider || !address || !fhevmInstance || !ethersSigner) {
       setMessage("Missing requirements for decryption");
       return;
     }
 
-    if (todos.length === 0) {
+    if (todos.length === 0 && assignedTodos.length === 0) {
       setMessage("No todos to decrypt");
       return;
     }
 
     try {
       setIsDecrypting(true);
+
+      // Decrypted values are cached in the sealed local maps: unlock them first so they are kept
+      if (!localMapKeyRef.current) {
+        setMessage("Unlocking local todo data...");
+        await unlockLocalData();
+      }
+
       setMessage("Decrypting todos...");
 
       // Collect all handles for batch decryption
       const handleContractPairs: Array<{ handle: string; contractAddress: `0x${string}` }> = [];
-      for (const todo of todos) {
+      for (const todo of [...todos, ...assignedTodos]) {
         if (todo.encryptedId && todo.encryptedId.length > 0) {
           handleContractPairs.push({
             handle: todo.encryptedId,
             contractAddress: contractAddress as `0x${string}`,
           });
         }
-        if (todo.encryptedCompleted && todo.encryptedCompleted.length > 0) {
+        // The zero handle (recurring todo not toggled on that day) means "not completed"
+        if (todo.encryptedCompleted && todo.encryptedCompleted.length > 0 && todo.encryptedCompleted !== ZERO_HANDLE) {
           handleContractPairs.push({
             handle: todo.encryptedCompleted,
             contractAddress: contractAddress as `0x${string}`,
           });
         }
+        if (todo.encryptedMeta && todo.encryptedMeta.length > 0) {
+          handleContractPairs.push({
+            handle: todo.encryptedMeta,
+            contractAddress: contractAddress as `0x${string}`,
+          });
+        }
+        // Zero handles: no due date, overdue never checked, or never tagged
+        for (const handle of [todo.encryptedDueDate, todo.encryptedOverdue, todo.encryptedTags]) {
+          if (handle && handle !== ZERO_HANDLE) {
+            handleContractPairs.push({
+              handle,
+              contractAddress: contractAddress as `0x${string}`,
+            });
+          }
+        }
+        for (const textHandle of todo.encryptedText) {
+          handleContractPairs.push({
+            handle: textHandle,
+            contractAddress: contractAddress as `0x${string}`,
+          });
+        }
+      }
+
+      // Completion statistics are decrypted together with the todos (zero handles: never toggled).
+      // They are never shared, so a shared list has none
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersProvider);
+      const [totalCompletedHandle, streakHandle, completedOnLastDayHandle, lastDay] = isSharedList
+        ? [ZERO_HANDLE, ZERO_HANDLE, ZERO_HANDLE, 0n]
+        : (await contract.getCompletionStats(address)).map((value: string | bigint) =>
+            typeof value === "string" ? value.toLowerCase() : value
+          );
+      const statsHandles = [totalCompletedHandle, streakHandle, completedOnLastDayHandle].filter(
+        handle => handle !== ZERO_HANDLE
+      );
+      for (const handle of statsHandles) {
+        handleContractPairs.push({
+          handle,
+          contractAddress: contractAddress as `0x${string}`,
+        });
       }
 
       if (handleContractPairs.length === 0) {
         throw new Error("No handles to decrypt");
       }
 
-      // Generate keypair once
-      const keypair = (fhevmInstance as any).generateKeypair?.() || {
-        publicKey: new Uint8Array(32).fill(0),
-        privateKey: new Uint8Array(32).fill(0),
-      };
-
-      // Create EIP712 signature once
-      const contractAddresses = [contractAddress as `0x${string}`];
-      const startTimestamp = Math.floor(Date.now() / 1000).toString();
-      const durationDays = "10";
-
-      const eip712 = (fhevmInstance as any).createEIP712?.(
-        keypair.publicKey,
-        contractAddresses,
-        startTimestamp,
-        durationDays
-      ) || {
-        domain: { name: "FHEVM", version: "1", chainId, verifyingContract: contractAddresses[0] },
-        types: { UserDecryptRequestVerification: [] },
-        message: {},
-      };
-
-      // Sign once for all decryptions
-      const signature = await ethersSigner.signTypedData(
-        eip712.domain,
-        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
-        eip712.message
-      );
-
-      const signatureForDecrypt = chainId === 31337 ? signature.replace("0x", "") : signature;
-
-      // Batch decrypt all handles at once
-      console.log("[useTodoList] Decrypting handles:", handleContractPairs.map(h => h.handle));
-      const decryptedResult = await (fhevmInstance as any).userDecrypt(
-        handleContractPairs,
-        keypair.privateKey,
-        keypair.publicKey,
-        signatureForDecrypt,
-        contractAddresses,
-        address as `0x${string}`,
-        startTimestamp,
-        durationDays
-      );
-
-      console.log("[useTodoList] Decryption result:", decryptedResult);
-      console.log("[useTodoList] Decryption result keys:", Object.keys(decryptedResult));
+      // Batch decrypt all handles at once, with a single (possibly stored) signature
+      const decryptedResult = await userDecryptHandles(handleContractPairs.map(h => h.handle));
 
       // Update todos with decrypted values
       const textMap = getTextMap();
       const completedMap = getCompletedMap();
-      console.log("[useTodoList] Text map:", textMap);
-      console.log("[useTodoList] Text map keys:", Object.keys(textMap));
-      console.log("[useTodoList] Completed map:", completedMap);
+      const categoryMap = getCategoryMap();
       
-      const updatedTodos = todos.map(todo => {
+      // Assigned todos always show today's status (day), the list the selected day's
+      const decryptTodo = <T extends Todo>(todo: T, day: number): T => {
         // Ensure handles are in the same format (lowercase)
         const idHandle = todo.encryptedId?.toLowerCase() || '';
         const completedHandle = todo.encryptedCompleted?.toLowerCase() || '';
@@ -632,103 +1529,787 @@ export function useTodoList(contractAddress: string | undefined): UseTodoListSta
         const completedValue = decryptedResult[completedHandle] || decryptedResult[todo.encryptedCompleted] || 0;
         
         const id = Number(idValue || 0);
-        const completed = Number(completedValue || 0) === 1;
-
-        // Get text from mapping (should exist from when todo was created)
-        // Try multiple handle formats to find the text
-        // Also try to convert handle to array string format (for old data compatibility)
-        let textFromMap = textMap[idHandle] 
-          || textMap[todo.encryptedId] 
-          || textMap[todo.encryptedId.toLowerCase()]
-          || textMap[todo.encryptedId.toUpperCase()];
-        
-        // If not found, try array string format (for old incorrectly saved data)
-        if (!textFromMap && todo.encryptedId.startsWith('0x')) {
-          try {
-            // Convert hex string to bytes array string format
-            const hexWithoutPrefix = todo.encryptedId.slice(2);
-            const bytes: number[] = [];
-            for (let i = 0; i < hexWithoutPrefix.length; i += 2) {
-              bytes.push(parseInt(hexWithoutPrefix.substr(i, 2), 16));
-            }
-            const arrayStringKey = bytes.join(',');
-            textFromMap = textMap[arrayStringKey];
-          } catch (e) {
-            // Ignore conversion errors
+        const completed = completedValue === true;
+        const meta = unpackTodoMeta(decryptedResult[todo.encryptedMeta] as bigint ?? 0n);
+        const category = todoCategoryFromUint8(meta.category);
+
+        // Reconstruct the text from the decrypted on-chain chunks; the decrypted
+        // id (hash of the text) guards against a corrupted or mismatched ciphertext
+        let textFromChain: string | undefined;
+        if (todo.encryptedText.length > 0) {
+          const chunkValues = todo.encryptedText.map(h => decryptedResult[h] as bigint ?? 0n);
+          const decodedText = decodeTodoText(chunkValues);
+          if (decodedText && hashTextToUint32(decodedText) === id) {
+            textFromChain = decodedText;
+          } else {
+            console.warn("[useTodoList] On-chain text does not match todo id", { index: todo.index });
           }
         }
-        
-        // If text not found in map, we need to use the decrypted ID to look it up
-        // But since we don't have a reverse mapping, we'll show a generic text
-        const text = textFromMap || (todo.text.startsWith('Encrypted Todo') ? `Todo #${todo.index + 1}` : todo.text);
-        
-        console.log("[useTodoList] Looking for text:", {
-          idHandle,
-          encryptedId: todo.encryptedId,
-          textMapKeys: Object.keys(textMap),
-          textFromMap,
-          finalText: text,
-        });
 
-        console.log("[useTodoList] Decrypting todo:", {
-          index: todo.index,
-          encryptedId: todo.encryptedId,
-          idHandle,
-          textFromMap,
-          currentText: todo.text,
-          finalText: text,
-          completed,
-          id,
-          idValue,
-          completedValue,
-        });
+        // Fall back to the local text map (todos created before text was stored on-chain)
+        const textFromMap = textMap[idHandle] || textMap[todo.encryptedId];
+        const text = textFromChain || textFromMap || (todo.text.startsWith('Encrypted Todo') ? `Todo #${todo.index + 1}` : todo.text);
 
-        // Save completed status to mapping
+        // Keep the local text map as a cache of the decrypted text
+        if (textFromChain && idHandle) {
+          textMap[idHandle] = textFromChain;
+        }
+
+        // Save completed status and category to mapping
         if (todo.encryptedId) {
-          completedMap[todo.encryptedId.toLowerCase()] = completed;
+          completedMap[completedMapKey(todo.encryptedId.toLowerCase(), todo.recurring, day)] = completed;
+          categoryMap[todo.encryptedId.toLowerCase()] = category;
         }
 
         return {
           ...todo,
           text,
           completed,
+          category,
+          priority: todoPriorityFromUint8(meta.priority),
+          // An encrypted 0 removes the due date
+          dueDate: Number(decryptedResult[todo.encryptedDueDate] ?? 0) || undefined,
+          overdue: todo.encryptedOverdue in decryptedResult ? decryptedResult[todo.encryptedOverdue] === true : undefined,
+          tags: Number(decryptedResult[todo.encryptedTags] ?? 0),
           isDecrypted: true, // Mark as decrypted
         };
-      });
+      };
+      const updatedTodos = todos.map(todo => decryptTodo(todo, selectedDay));
+      const updatedAssignedTodos = assignedTodos.map(todo => decryptTodo(todo, currentTodoDay()));
 
-      // Save completed status mapping
+      // Save completed status, category and text mappings
       saveCompletedMap(completedMap);
+      saveCategoryMap(categoryMap);
+      saveTextMap(textMap);
 
-      console.log("[useTodoList] Updated todos after decryption:", updatedTodos);
       setTodos(updatedTodos);
+      setAssignedTodos(updatedAssignedTodos);
+
+      // The streak is only current as of the last toggle: it is broken once a whole day passed
+      // without a completion
+      if (!isSharedList) {
+        const daysSinceLastToggle = currentTodoDay() - Number(lastDay);
+        const streak = Number(decryptedResult[streakHandle] ?? 0);
+        const completedOnLastDay = Boolean(decryptedResult[completedOnLastDayHandle]);
+        setStats({
+          totalCompleted: Number(decryptedResult[totalCompletedHandle] ?? 0),
+          streak: daysSinceLastToggle === 0 || (daysSinceLastToggle === 1 && completedOnLastDay) ? streak : 0,
+        });
+      }
       setMessage("Todos decrypted successfully!");
-    } catch (error: any) {
-      const errorMessage = error.reason || error.message || String(error);
+    } catch (error: unknown) {
+      const errorMessage = getErrorMessage(error);
       setMessage(`Error decrypting todos: ${errorMessage}`);
       console.error("[useTodoList] Error decrypting todos:", error);
       throw error;
     } finally {
       setIsDecrypting(false);
     }
-  }, [contractAddress, ethersProvider, address, fhevmInstance, ethersSigner, todos, chainId, getTextMap]);
+  }, [contractAddress, ethersProvider, address, isSharedList, fhevmInstance, ethersSigner, todos, assignedTodos, selectedDay, userDecryptHandles, getTextMap, saveTextMap, getCategoryMap, saveCategoryMap, hashTextToUint32, unlockLocalData]);
 
+  // Decrypted statistics and the focus todo belong to one account and contract
   useEffect(() => {
+    setStats(undefined);
+    setFocusTodoIndex(undefined);
+  }, [contractAddress, address, owner]);
+
+  useEffect(() => {
+    // Another list or day starts again from the newest page
+    loadedFromRef.current = undefined;
     if (contractAddress && ethersProvider && address && fhevmInstance && ethersSigner) {
       loadTodos();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [contractAddress, ethersProvider, address, fhevmInstance, ethersSigner]);
+  }, [contractAddress, ethersProvider, address, owner, fhevmInstance, ethersSigner, selectedDay]);
+
+  // Render the cached snapshot of the list and day right away, until (or without) the chain answering
+  useEffect(() => {
+    snapshotKeyRef.current = undefined;
+    if (!listKey) {
+      return;
+    }
+
+    let cancelled = false;
+    todoStoreGetSnapshot(listKey, selectedDay).then(cached => {
+      if (cancelled || snapshotKeyRef.current !== undefined) {
+        return;
+      }
+      snapshotKeyRef.current = `${listKey}@${selectedDay}`;
+      setTodos((cached ?? []).map(hydrateTodo));
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [listKey, selectedDay]);
+
+  // Keep the snapshot up to date with every change (loads, syncs, decryption). Decrypted values are left
+  // out: they only live in the sealed local maps and are filled in again when the snapshot is read
+  useEffect(() => {
+    if (!listKey || snapshotKeyRef.current !== `${listKey}@${selectedDay}`) {
+      return;
+    }
+    const handlesOnly = todos.map(todo => ({
+      ...todo,
+      text: `Encrypted Todo #${todo.index + 1}`,
+      completed: false,
+      category: undefined,
+      priority: undefined,
+      dueDate: undefined,
+      overdue: undefined,
+      tags: undefined,
+      isDecrypted: false,
+    }));
+    todoStorePutSnapshot(listKey, selectedDay, handlesOnly).catch(error => {
+      console.error("[useTodoList] Error caching todos:", error);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [todos]);
+
+  useEffect(() => {
+    const onOnline = () => setIsOnline(true);
+    const onOffline = () => setIsOnline(false);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!listKey) {
+      setPendingOps([]);
+      return;
+    }
+    todoStoreGetPendingOps(listKey).then(setPendingOps).catch(error => {
+      console.error("[useTodoList] Error reading queued changes:", error);
+    });
+  }, [listKey]);
+
+  // Submit the queued operations in order; a failing one stays queued with everything after it
+  const flushPendingOps = useCallback(async () => {
+    if (!listKey || !canSubmit || isFlushingRef.current) {
+      return;
+    }
+
+    isFlushingRef.current = true;
+    try {
+      for (const op of await todoStoreGetPendingOps(listKey)) {
+        if (op.kind === "create") {
+          await createTodo(op.text, op.category, op.recurring, op.priority, op.dueDate, op.tags);
+        } else if (!op.recurring || op.day === currentTodoDay()) {
+          await toggleTodo(op.todoIndex);
+        }
+        // Toggles of a recurring todo's past day cannot be submitted any more and are dropped
+        await todoStoreDeletePendingOp(op.id!);
+        setPendingOps(await todoStoreGetPendingOps(listKey));
+      }
+    } catch (error) {
+      console.error("[useTodoList] Error submitting queued changes:", error);
+    } finally {
+      isFlushingRef.current = false;
+    }
+  }, [listKey, canSubmit, createTodo, toggleTodo]);
+
+  useEffect(() => {
+    if (canSubmit && pendingOps.length > 0) {
+      flushPendingOps();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canSubmit, pendingOps.length]);
+
+  // Export the decrypted values cached for this list as a backup encrypted with the wallet-derived key
+  const exportBackup = useCallback(async (): Promise<TodoBackupExport> => {
+    if (!contractAddress || !ethersProvider || !owner || !ethersSigner) {
+      throw new Error("Wallet not connected");
+    }
+
+    try {
+      const key = await unlockLocalMapKey(ethersSigner);
+      if (!localMapKeyRef.current) {
+        await openLocalMaps(key);
+      }
+      setMessage("Exporting backup...");
+
+      const { text, completed, category } = localMapsRef.current;
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersProvider);
+      const total = Number(await contract.getTodoCount(owner));
+      const entries: TodoBackupEntry[] = [];
+
+      for (let offset = 0; offset < total; offset += TODO_PAGE_SIZE) {
+        const [page]: [TodoPageEntry[]] = await contract.getTodos(owner, offset, TODO_PAGE_SIZE);
+        for (const entry of page) {
+          const idHandle = ethers.hexlify(entry.id).toLowerCase();
+          // Only todos decrypted at some point have anything to back up
+          if (!text[idHandle]) {
+            continue;
+          }
+
+          const completedDays: Record<string, boolean> = {};
+          for (const [mapKey, value] of Object.entries(completed)) {
+            if (mapKey.startsWith(`${idHandle}@`)) {
+              completedDays[mapKey.slice(idHandle.length + 1)] = value;
+            }
+          }
+
+          entries.push({
+            index: Number(entry.index),
+            idHandle,
+            textHandles: entry.text.map(h => ethers.hexlify(h).toLowerCase()),
+            text: text[idHandle],
+            category: isTodoCategory(category[idHandle]) ? category[idHandle] : undefined,
+            completed: completed[idHandle],
+            completedDays,
+            createdAt: Number(entry.createdAt),
+            timestamp: Number(entry.timestamp),
+            recurring: Boolean(entry.recurring),
+          });
+        }
+      }
+
+      const backup: TodoBackup = {
+        format: TODO_BACKUP_FORMAT,
+        version: TODO_BACKUP_VERSION,
+        chainId,
+        contractAddress: ethers.getAddress(contractAddress),
+        account: ethers.getAddress(owner),
+        exportedAt: Math.floor(Date.now() / 1000),
+        todos: entries,
+      };
+
+      setMessage(`Exported ${entries.length} todos`);
+      return { fileName: todoBackupFileName(backup), contents: await sealTodoBackup(backup, key), todoCount: entries.length };
+    } catch (error: unknown) {
+      const errorMessage = getErrorMessage(error);
+      setMessage(`Error exporting backup: ${errorMessage}`);
+      throw error;
+    }
+  }, [contractAddress, ethersProvider, owner, ethersSigner, chainId, openLocalMaps]);
+
+  // Import a backup of this list: entries whose id handle is not the todo's on-chain handle are rejected,
+  // and values already cached in this browser win over the imported ones. Returns the number of todos merged
+  const importBackup = useCallback(async (contents: string): Promise<number> => {
+    if (!contractAddress || !ethersProvider || !owner || !ethersSigner) {
+      throw new Error("Wallet not connected");
+    }
+
+    try {
+      const key = await unlockLocalMapKey(ethersSigner);
+      if (!localMapKeyRef.current) {
+        await openLocalMaps(key);
+      }
+      setMessage("Importing backup...");
+
+      const backup = await openTodoBackup(contents, key);
+      if (
+        backup.chainId !== chainId ||
+        backup.contractAddress.toLowerCase() !== contractAddress.toLowerCase() ||
+        backup.account.toLowerCase() !== owner.toLowerCase()
+      ) {
+        throw new Error("This backup belongs to another chain, contract or account");
+      }
+
+      // Check every entry against the contract, one page of getTodo calls at a time
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersProvider);
+      const validated: TodoBackupEntry[] = [];
+      for (let offset = 0; offset < backup.todos.length; offset += TODO_PAGE_SIZE) {
+        const chunk = backup.todos.slice(offset, offset + TODO_PAGE_SIZE);
+        const onChainIds = await Promise.all(chunk.map(entry =>
+          contract.getTodo(owner, entry.index)
+            .then(([encryptedId]: [string]) => ethers.hexlify(encryptedId).toLowerCase())
+            .catch(() => undefined) // Index out of bounds: the todo does not exist on this contract
+        ));
+        chunk.forEach((entry, i) => {
+          if (onChainIds[i] === entry.idHandle) {
+            validated.push(entry);
+          }
+        });
+      }
+
+      const textMap: Record<string, string> = {};
+      const completedMap: Record<string, boolean> = {};
+      const categoryMap: Record<string, TodoCategory> = {};
+      for (const entry of validated) {
+        textMap[entry.idHandle] = entry.text;
+        if (entry.category) {
+          categoryMap[entry.idHandle] = entry.category;
+        }
+        if (entry.completed !== undefined) {
+          completedMap[entry.idHandle] = entry.completed;
+        }
+        for (const [day, value] of Object.entries(entry.completedDays)) {
+          completedMap[`${entry.idHandle}@${day}`] = value;
+        }
+      }
+
+      saveTextMap({ ...textMap, ...getTextMap() });
+      saveCompletedMap({ ...completedMap, ...getCompletedMap() });
+      saveCategoryMap({ ...categoryMap, ...getCategoryMap() });
+      setTodos(prevTodos => prevTodos.map(hydrateTodo));
+
+      const rejected = backup.todos.length - validated.length;
+      setMessage(
+        `Imported ${validated.length} todos` +
+          (rejected > 0 ? ` (${rejected} skipped: they do not match the todos on-chain)` : "")
+      );
+      return validated.length;
+    } catch (error: unknown) {
+      const errorMessage = getErrorMessage(error);
+      setMessage(`Error importing backup: ${errorMessage}`);
+      throw error;
+    }
+  }, [contractAddress, ethersProvider, owner, ethersSigner, chainId, openLocalMaps, getTextMap, saveTextMap, getCompletedMap, saveCompletedMap, getCategoryMap, saveCategoryMap, hydrateTodo]);
+
+  // Load the todos of other accounts assigned to the connected account in this list instance (today's status)
+  const loadAssignedTodos = useCallback(async () => {
+    if (!contractAddress || !ethersProvider || !address) {
+      setAssignedTodos([]);
+      return;
+    }
+
+    try {
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersProvider);
+      const assignments: Array<{ owner: string; todoIndex: bigint }> = await contract.getAssignedTodos(address);
+      const maps: LocalMaps = { text: getTextMap(), completed: getCompletedMap(), category: getCategoryMap() };
+      const today = currentTodoDay();
+
+      const entries = await Promise.all(assignments.map(async assignment => {
+        const [page]: [TodoPageEntry[]] = await contract.getTodos(assignment.owner, assignment.todoIndex, 1);
+        return { owner: ethers.getAddress(assignment.owner), entry: page[0] };
+      }));
+      setAssignedTodos(entries
+        .filter(({ entry }) => Number(entry.status) === TODO_STATUS_ACTIVE)
+        .map(({ owner: todoOwner, entry }) => ({
+          ...todoFromPageEntry(entry, entry.completed, today, maps),
+          id: `assigned-${todoOwner}-${entry.index}`,
+          owner: todoOwner,
+        })));
+    } catch (error) {
+      console.error("[useTodoList] Error loading assigned todos:", error);
+    }
+  }, [contractAddress, ethersProvider, address, getTextMap, getCompletedMap, getCategoryMap]);
+
+  // Assign one of the account's todos to another account, or remove the assignment (assignee undefined)
+  const assignTodo = useCallback(async (contractIndex: number, assignee: string | undefined) => {
+    if (!contractAddress || !ethersSigner || !address) {
+      throw new Error("Wallet not connected");
+    }
+
+    let target = ethers.ZeroAddress;
+    if (assignee) {
+      if (!ethers.isAddress(assignee.trim())) {
+        throw new Error("Enter a valid wallet address");
+      }
+      target = ethers.getAddress(assignee.trim());
+      if (target === ethers.getAddress(address)) {
+        throw new Error("You cannot assign a todo to yourself");
+      }
+    }
+
+    try {
+      setMessage("Submitting to blockchain...");
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
+      const tx = await contract.assignTodo(contractIndex, target);
+      await tx.wait();
+      await refreshTodos([contractIndex]);
+      setMessage(assignee ? "Todo assigned successfully!" : "Assignment removed");
+    } catch (error: unknown) {
+      const errorMessage = getErrorMessage(error);
+      setMessage(`Error: ${errorMessage}`);
+      console.error("[useTodoList] Error assigning todo:", error);
+      throw error;
+    }
+  }, [contractAddress, ethersSigner, address, refreshTodos]);
+
+  // Change the encrypted priority of a todo (category and flags are kept on-chain)
+  const setPriority = useCallback(async (contractIndex: number, priority: TodoPriority) => {
+    if (!contractAddress || !ethersSigner || !fhevmInstance || !address) {
+      throw new Error("Wallet not connected or FHEVM not initialized");
+    }
+
+    try {
+      setMessage("Encrypting priority...");
+      const encryptedInput = fhevmInstance.createEncryptedInput(
+        contractAddress as `0x${string}`,
+        address as `0x${string}`
+      );
+      encryptedInput.add32(priority);
+      const encrypted = await encryptedInput.encrypt();
+
+      setMessage("Submitting to blockchain...");
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
+      const tx = await contract.setPriority(contractIndex, encrypted.handles[0], encrypted.inputProof);
+      await tx.wait();
+
+      // The refreshed todo has a new metadata handle; its priority is known without decrypting it
+      await refreshTodos([contractIndex]);
+      setTodos(prevTodos => prevTodos.map(todo => (todo.index === contractIndex ? { ...todo, priority } : todo)));
+      setMessage("Priority updated successfully!");
+    } catch (error: unknown) {
+      const errorMessage = getErrorMessage(error);
+      setMessage(`Error: ${errorMessage}`);
+      console.error("[useTodoList] Error setting priority:", error);
+      throw error;
+    }
+  }, [contractAddress, ethersSigner, fhevmInstance, address, refreshTodos]);
+
+  // Let the contract select the highest-priority open todo (computeFocusTodo, one transaction per page of
+  // todos) and decrypt its index. Only the connected account's own list has a focus todo
+  const findFocusTodo = useCallback(async () => {
+    if (!contractAddress || !ethersSigner || !address) {
+      throw new Error("Wallet not connected");
+    }
+
+    try {
+      setIsFindingFocus(true);
+      setMessage("Selecting the next task...");
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
+      const total = Number(await contract.getTodoCount(address));
+      // Each page continues the selection of the previous one
+      for (let offset = 0; offset === 0 || offset < total; offset += FOCUS_PAGE_SIZE) {
+        const tx = await contract.computeFocusTodo(offset, FOCUS_PAGE_SIZE);
+        await tx.wait();
+      }
+
+      const [indexHandle, foundHandle] = (await contract.getFocusTodo(address)).map((value: string | bigint) =>
+        typeof value === "string" ? value.toLowerCase() : value
+      );
+      setMessage("Decrypting the next task...");
+      const decryptedResult = await userDecryptHandles([indexHandle, foundHandle]);
+      setFocusTodoIndex(decryptedResult[foundHandle] === true ? Number(decryptedResult[indexHandle]) : null);
+      setMessage("Next task selected!");
+    } catch (error: unknown) {
+      const errorMessage = getErrorMessage(error);
+      setMessage(`Error: ${errorMessage}`);
+      console.error("[useTodoList] Error selecting the next task:", error);
+      throw error;
+    } finally {
+      setIsFindingFocus(false);
+    }
+  }, [contractAddress, ethersSigner, address, userDecryptHandles]);
+
+  // Recompute the encrypted overdue flags of the loaded todos with a due date as of now, and decrypt them
+  const checkOverdue = useCallback(async () => {
+    if (!contractAddress || !ethersSigner || !address || !owner) {
+      throw new Error("Wallet not connected");
+    }
+
+    const indices = todos
+      .filter(todo => todo.index >= 0 && todo.encryptedDueDate !== ZERO_HANDLE)
+      .map(todo => todo.index);
+    if (indices.length === 0) {
+      setMessage("No todos with a due date");
+      return;
+    }
+
+    try {
+      setIsCheckingOverdue(true);
+      setMessage("Checking due dates...");
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
+      for (let i = 0; i < indices.length; i += MAX_TODO_BATCH_SIZE) {
+        const tx = await contract.checkOverdue(indices.slice(i, i + MAX_TODO_BATCH_SIZE));
+        await tx.wait();
+      }
+
+      // Only the overdue flags changed: read their new handles and decrypt them in place
+      const overdueHandles = new Map<number, string>();
+      for (const index of indices) {
+        const [[entry]]: [TodoPageEntry[]] = await contract.getTodos(owner, index, 1);
+        overdueHandles.set(index, ethers.hexlify(entry.overdue).toLowerCase());
+      }
+      setMessage("Decrypting overdue flags...");
+      const decryptedResult = await userDecryptHandles([...overdueHandles.values()]);
+      setTodos(prevTodos => prevTodos.map(todo => {
+        const handle = overdueHandles.get(todo.index);
+        return handle ? { ...todo, encryptedOverdue: handle, overdue: decryptedResult[handle] === true } : todo;
+      }));
+      setMessage("Due dates checked!");
+    } catch (error: unknown) {
+      const errorMessage = getErrorMessage(error);
+      setMessage(`Error: ${errorMessage}`);
+      console.error("[useTodoList] Error checking due dates:", error);
+      throw error;
+    } finally {
+      setIsCheckingOverdue(false);
+    }
+  }, [contractAddress, ethersSigner, address, owner, todos, userDecryptHandles]);
+
+  const setTags = useCallback(async (contractIndex: number, tags: number) => {
+    try {
+      setMessage("Encrypting tags...");
+      await writeTags(contractIndex, tags);
+
+      // The refreshed todo has a new tags handle; its tags are known without decrypting them
+      await refreshTodos([contractIndex]);
+      setTodos(prevTodos => prevTodos.map(todo => (todo.index === contractIndex ? { ...todo, tags } : todo)));
+      setMessage("Tags updated successfully!");
+    } catch (error: unknown) {
+      const errorMessage = getErrorMessage(error);
+      setMessage(`Error: ${errorMessage}`);
+      console.error("[useTodoList] Error setting tags:", error);
+      throw error;
+    }
+  }, [writeTags, refreshTodos]);
+
+  // Make a todo a subtask of parentIndex, or top-level again (undefined)
+  const setParent = useCallback(async (contractIndex: number, parentIndex: number | undefined) => {
+    if (!contractAddress || !ethersSigner) {
+      throw new Error("Wallet not connected");
+    }
+
+    const previousParent = todos.find(todo => todo.index === contractIndex)?.parentIndex;
+    try {
+      setMessage("Submitting to blockchain...");
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
+      const tx = parentIndex === undefined
+        ? await contract.clearParent(contractIndex)
+        : await contract.setParent(contractIndex, parentIndex);
+      await tx.wait();
+
+      // The parent gets a new (derived) completion handle: refresh both todos and derive its status locally
+      const parents = [previousParent, parentIndex].filter((index): index is number => index !== undefined);
+      await refreshTodos([contractIndex, ...parents]);
+      setTodos(prevTodos => deriveParentCompletion(prevTodos.map(todo =>
+        todo.index === contractIndex ? { ...todo, parentIndex } : todo
+      )));
+      setMessage(parentIndex === undefined ? "Subtask detached successfully!" : "Subtask added successfully!");
+    } catch (error: unknown) {
+      const errorMessage = getErrorMessage(error);
+      setMessage(`Error: ${errorMessage}`);
+      console.error("[useTodoList] Error setting parent:", error);
+      throw error;
+    }
+  }, [contractAddress, ethersSigner, todos, refreshTodos, deriveParentCompletion]);
+
+  // Save a group of todos (e.g. one card) in the given order, keeping the positions of the others
+  const reorderTodos = useCallback(async (indices: number[]) => {
+    if (!contractAddress || !ethersSigner || !address) {
+      throw new Error("Wallet not connected");
+    }
+    if (indices.length > MAX_ORDERED_TODOS) {
+      throw new Error(`Too many todos to order (max ${MAX_ORDERED_TODOS})`);
+    }
+
+    try {
+      setMessage("Submitting to blockchain...");
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
+      // Archived and deleted todos leave the order, so it does not fill up with them
+      const active: bigint[] = await contract.getActiveTodoIndices(address);
+      const order = mergeTodoOrder(todoOrder, indices, new Set(active.map(Number)));
+      // Shown right away, and put back if the transaction fails
+      setTodoOrder(order);
+      const tx = await contract.reorder(order);
+      await tx.wait();
+
+      setMessage("Order saved successfully!");
+    } catch (error: unknown) {
+      setTodoOrder(todoOrder);
+      const errorMessage = getErrorMessage(error);
+      setMessage(`Error: ${errorMessage}`);
+      console.error("[useTodoList] Error reordering todos:", error);
+      throw error;
+    }
+  }, [contractAddress, ethersSigner, address, todoOrder]);
+
+  // Mark a todo assigned to the connected account as done (it stays completed for the owner)
+  const completeAssigned = useCallback(async (todoOwner: string, contractIndex: number) => {
+    if (!contractAddress || !ethersSigner) {
+      throw new Error("Wallet not connected");
+    }
+
+    try {
+      setMessage("Submitting to blockchain...");
+      const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersSigner);
+      const tx = await contract.completeAssigned(todoOwner, contractIndex);
+      await tx.wait();
+
+      // The new status is encrypted: it is shown as done until the next decryption
+      const completedKey = (todo: AssignedTodo) => completedMapKey(todo.encryptedId, todo.recurring, currentTodoDay());
+      const completedMap = getCompletedMap();
+      setAssignedTodos(prev => prev.map(todo => {
+        if (todo.owner !== todoOwner || todo.index !== contractIndex) {
+          return todo;
+        }
+        completedMap[completedKey(todo)] = true;
+        return { ...todo, completed: true };
+      }));
+      saveCompletedMap(completedMap);
+      setMessage("Todo marked as done!");
+    } catch (error: unknown) {
+      const errorMessage = getErrorMessage(error);
+      setMessage(`Error: ${errorMessage}`);
+      console.error("[useTodoList] Error completing assigned todo:", error);
+      throw error;
+    }
+  }, [contractAddress, ethersSigner, getCompletedMap, saveCompletedMap]);
+
+  useEffect(() => {
+    loadAssignedTodos();
+  }, [loadAssignedTodos]);
+
+  // Follow assignments to the connected account (the assignee is the third indexed argument)
+  useEffect(() => {
+    if (!contractAddress || !ethersProvider || !address) {
+      return;
+    }
+
+    const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersProvider);
+    const onAssigned = () => {
+      loadAssignedTodos();
+    };
+    contract.on(contract.filters.TodoAssigned(null, null, address), onAssigned);
+    return () => {
+      contract.removeAllListeners();
+    };
+  }, [contractAddress, ethersProvider, address, loadAssignedTodos]);
+
+  // Queued operations are shown on top of the loaded todos until they are submitted
+  const visibleTodos = useMemo(() => {
+    if (pendingOps.length === 0) {
+      return todos;
+    }
+
+    const toggled = new Set<number>();
+    const created: Todo[] = [];
+    for (const op of pendingOps) {
+      if (op.kind === "toggle") {
+        if (!op.recurring || op.day === selectedDay) {
+          toggled.add(op.todoIndex);
+        }
+      } else if (selectedDay === currentTodoDay()) {
+        const queuedAt = Math.floor(op.queuedAt / 1000);
+        created.push({
+          id: `pending-${op.id}`,
+          text: op.text,
+          encryptedId: "",
+          encryptedText: [],
+          encryptedCompleted: ZERO_HANDLE,
+          encryptedMeta: ZERO_HANDLE,
+          encryptedDueDate: ZERO_HANDLE,
+          encryptedOverdue: ZERO_HANDLE,
+          encryptedTags: ZERO_HANDLE,
+          completed: false,
+          category: op.category,
+          priority: op.priority,
+          dueDate: op.dueDate,
+          tags: op.tags,
+          timestamp: queuedAt,
+          createdAt: queuedAt,
+          createdDay: todoDayFromTimestamp(queuedAt),
+          recurring: op.recurring,
+          index: -1, // Not on-chain yet
+          isDecrypted: true,
+          pending: true,
+        });
+      }
+    }
+
+    return [
+      ...created.reverse(),
+      ...todos.map(todo => (toggled.has(todo.index) ? { ...todo, completed: !todo.completed, pending: true } : todo)),
+    ];
+  }, [todos, pendingOps, selectedDay]);
+
+  // Tag bits belong to the list owner's dictionary, and the order to the owner's todos: neither carries
+  // over to another list
+  useEffect(() => {
+    setTagFilter(0);
+    setTodoOrder([]);
+  }, [contractAddress, owner]);
+
+  const filteredTodos = useMemo(() => {
+    return visibleTodos.filter(todo => todoMatchesTagFilter(todo.tags, tagFilter));
+  }, [visibleTodos, tagFilter]);
+
+  useEffect(() => {
+    syncTodosRef.current = syncTodos;
+  }, [syncTodos]);
+
+  // Writes always change the sender's own todos, so they are refused on another account's list
+  const rejectSharedListWrite = useCallback(async (): Promise<never> => {
+    const error = new Error("Shared lists are read-only");
+    setMessage(error.message);
+    throw error;
+  }, []);
+
+  // Follow the list owner's todo events: every event, and coming back online or to the tab, triggers a sync.
+  // The first sync backfills whatever happened since the persisted cursor
+  useEffect(() => {
+    if (!contractAddress || !ethersProvider || !owner) {
+      return;
+    }
+
+    const contract = new ethers.Contract(contractAddress, PrivateTodoListABI, ethersProvider);
+    const onEvent = () => {
+      requestSync();
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        requestSync();
+      }
+    };
+
+    for (const name of TODO_SYNC_EVENTS) {
+      contract.on(contract.filters[name](owner), onEvent);
+    }
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    window.addEventListener("online", onEvent);
+    requestSync();
+
+    return () => {
+      contract.removeAllListeners();
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      window.removeEventListener("online", onEvent);
+    };
+  }, [contractAddress, ethersProvider, owner, requestSync]);
 
   return {
     contractAddress,
-    todos,
+    listOwner: owner,
+    isSharedList,
+    todos: visibleTodos,
+    filteredTodos,
+    tagFilter,
+    setTagFilter,
     isLoading,
+    isOffline: !isOnline,
+    isLocalDataLocked,
+    unlockLocalData,
+    pendingOpCount: pendingOps.length,
     isDecrypting,
+    stats,
     message,
-    createTodo,
-    toggleTodo,
+    selectedDay,
+    setSelectedDay,
+    createTodo: isSharedList ? rejectSharedListWrite : createTodo,
+    createTodos: isSharedList ? rejectSharedListWrite : createTodos,
+    toggleTodo: isSharedList ? rejectSharedListWrite : toggleTodo,
+    setCompletedMany: isSharedList ? rejectSharedListWrite : setCompletedMany,
+    updateTodo: isSharedList ? rejectSharedListWrite : updateTodo,
+    loadTodoRevisions,
+    archiveTodo: isSharedList ? rejectSharedListWrite : archiveTodo,
+    deleteTodo: isSharedList ? rejectSharedListWrite : deleteTodo,
     loadTodos,
+    hasMoreTodos: nextOffset > 0,
+    isLoadingMore,
+    loadMoreTodos,
     decryptTodos,
+    exportBackup,
+    importBackup,
+    assignTodo: isSharedList ? rejectSharedListWrite : assignTodo,
+    assignedTodos,
+    completeAssigned,
+    setPriority: isSharedList ? rejectSharedListWrite : setPriority,
+    focusTodoIndex,
+    isFindingFocus,
+    findFocusTodo: isSharedList ? rejectSharedListWrite : findFocusTodo,
+    isCheckingOverdue,
+    checkOverdue: isSharedList ? rejectSharedListWrite : checkOverdue,
+    setTags: isSharedList ? rejectSharedListWrite : setTags,
+    setParent: isSharedList ? rejectSharedListWrite : setParent,
+    todoOrder,
+    reorderTodos: isSharedList ? rejectSharedListWrite : reorderTodos,
   };
 }
 
@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, useWalletClient } from "wagmi";
+import { ethers } from "ethers";
+import { toEip1193Provider } from "@/utils/walletProvider";
+
+// PrivateTodoListFactory ABI
+const PrivateTodoListFactoryABI = [
+  "function createList(string name) external returns (address list)",
+  "function renameList(address list, string name) external",
+  "function getLists(address owner) external view returns (tuple(address list, uint64 createdAt, string name)[] lists)",
+  "event ListCreated(address indexed owner, address indexed list, string name, uint256 indexed timestamp)",
+  "event ListRenamed(address indexed owner, address indexed list, string name, uint256 indexed timestamp)",
+  "error TooManyLists()",
+  "error NotYourList()",
+  "error ListNameEmpty()",
+  "error ListNameTooLong()",
+];
+
+// Must match PrivateTodoListFactory.MAX_LIST_NAME_LENGTH (in bytes)
+export const MAX_LIST_NAME_BYTES = 64;
+
+export interface TodoListInfo {
+  address: string; // PrivateTodoList instance of the list
+  name: string;
+  createdAt: number;
+}
+
+interface UseTodoListsState {
+  isAvailable: boolean; // A list factory is configured
+  lists: TodoListInfo[]; // The connected account's named lists, in creation order
+  isLoading: boolean;
+  createList: (name: string) => Promise<string>;
+  renameList: (list: string, name: string) => Promise<void>;
+  loadLists: () => Promise<void>;
+}
+
+// One entry of getLists, as decoded by ethers
+interface TodoListEntry {
+  list: string;
+  name: string;
+  createdAt: bigint;
+}
+
+const validateListName = (name: string): string => {
+  const trimmed = name.trim();
+  if (trimmed.length === 0) {
+    throw new Error("List name cannot be empty");
+  }
+  if (new TextEncoder().encode(trimmed).length > MAX_LIST_NAME_BYTES) {
+    throw new Error(`List name is too long (max ${MAX_LIST_NAME_BYTES} bytes)`);
+  }
+  return trimmed;
+};
+
+// Named lists of the connected account, registered in the PrivateTodoListFactory at factoryAddress
+export function useTodoLists(factoryAddress: string | undefined): UseTodoListsState {
+  const { address } = useAccount();
+  const { data: walletClient } = useWalletClient();
+
+  const [lists, setLists] = useState<TodoListInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [ethersSigner, setEthersSigner] = useState<ethers.JsonRpcSigner | undefined>(undefined);
+
+  useEffect(() => {
+    if (!walletClient) {
+      setEthersSigner(undefined);
+      return;
+    }
+
+    new ethers.BrowserProvider(toEip1193Provider(walletClient))
+      .getSigner()
+      .then(setEthersSigner)
+      .catch(error => {
+        console.error("[useTodoLists] Error setting up ethers:", error);
+        setEthersSigner(undefined);
+      });
+  }, [walletClient]);
+
+  const loadLists = useCallback(async () => {
+    if (!factoryAddress || !ethersSigner || !address) {
+      setLists([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const factory = new ethers.Contract(factoryAddress, PrivateTodoListFactoryABI, ethersSigner);
+      const entries: TodoListEntry[] = await factory.getLists(address);
+      setLists(entries.map(entry => ({
+        address: ethers.getAddress(entry.list),
+        name: entry.name,
+        createdAt: Number(entry.createdAt),
+      })));
+    } catch (error) {
+      console.error("[useTodoLists] Error loading lists:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [factoryAddress, ethersSigner, address]);
+
+  // Create a list and return the address of its instance
+  const createList = useCallback(async (name: string): Promise<string> => {
+    if (!factoryAddress || !ethersSigner) {
+      throw new Error("Wallet not connected or list factory not configured");
+    }
+
+    const factory = new ethers.Contract(factoryAddress, PrivateTodoListFactoryABI, ethersSigner);
+    const tx = await factory.createList(validateListName(name));
+    const receipt = await tx.wait();
+
+    const created = receipt.logs
+      .map((log: ethers.Log) => factory.interface.parseLog(log))
+      .find((parsed: ethers.LogDescription | null) => parsed?.name === "ListCreated");
+    if (!created) {
+      throw new Error("List creation did not emit ListCreated");
+    }
+
+    await loadLists();
+    return ethers.getAddress(created.args.list);
+  }, [factoryAddress, ethersSigner, loadLists]);
+
+  const renameList = useCallback(async (list: string, name: string) => {
+    if (!factoryAddress || !ethersSigner) {
+      throw new Error("Wallet not connected or list factory not configured");
+    }
+
+    const factory = new ethers.Contract(factoryAddress, PrivateTodoListFactoryABI, ethersSigner);
+    const tx = await factory.renameList(list, validateListName(name));
+    await tx.wait();
+    await loadLists();
+  }, [factoryAddress, ethersSigner, loadLists]);
+
+  useEffect(() => {
+    loadLists();
+  }, [loadLists]);
+
+  return {
+    isAvailable: !!factoryAddress,
+    lists,
+    isLoading,
+    createList,
+    renameList,
+    loadLists,
+  };
+}
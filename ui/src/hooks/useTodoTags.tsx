@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, useWalletClient } from "wagmi";
+import { ethers } from "ethers";
+import { getSessionLocalMapKey, openLocalMap, sealLocalMap, unlockLocalMapKey } from "@/utils/todoLocalMaps";
+import { MAX_TODO_TAG_NAME_LENGTH, MAX_TODO_TAGS, nextFreeTodoTagBit, TodoTag } from "@/utils/todoTags";
+import { toEip1193Provider } from "@/utils/walletProvider";
+
+// Local storage key for the tag dictionary (tag bit -> name)
+const TAG_NAMES_KEY = "todo_tag_names";
+
+interface UseTodoTagsState {
+  tags: TodoTag[]; // The connected account's tags, by bit
+  createTag: (name: string) => Promise<TodoTag>;
+}
+
+const validateTagName = (name: string, tags: TodoTag[]): string => {
+  const trimmed = name.trim();
+  if (trimmed.length === 0) {
+    throw new Error("Tag name cannot be empty");
+  }
+  if (trimmed.length > MAX_TODO_TAG_NAME_LENGTH) {
+    throw new Error(`Tag name is too long (max ${MAX_TODO_TAG_NAME_LENGTH} characters)`);
+  }
+  if (tags.some(tag => tag.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`Tag "${trimmed}" already exists`);
+  }
+  return trimmed;
+};
+
+// Tag dictionary of the connected account, shared by all its lists. It is sealed with the local map key, so
+// it is readable once the local data is unlocked (pass isLocalDataLocked to reload it when that happens)
+export function useTodoTags(isLocalDataLocked: boolean): UseTodoTagsState {
+  const { address } = useAccount();
+  const { data: walletClient } = useWalletClient();
+
+  const [tags, setTags] = useState<TodoTag[]>([]);
+  const [ethersSigner, setEthersSigner] = useState<ethers.JsonRpcSigner | undefined>(undefined);
+
+  useEffect(() => {
+    if (!walletClient) {
+      setEthersSigner(undefined);
+      return;
+    }
+
+    new ethers.BrowserProvider(toEip1193Provider(walletClient))
+      .getSigner()
+      .then(setEthersSigner)
+      .catch(error => {
+        console.error("[useTodoTags] Error setting up ethers:", error);
+        setEthersSigner(undefined);
+      });
+  }, [walletClient]);
+
+  const readTags = useCallback(async (key: CryptoKey): Promise<TodoTag[]> => {
+    const names = await openLocalMap<string>(localStorage.getItem(`${TAG_NAMES_KEY}_${address}`), key);
+    return Object.entries(names)
+      .map(([bit, name]) => ({ bit: Number(bit), name }))
+      .filter(tag => Number.isInteger(tag.bit) && tag.bit >= 0 && tag.bit < MAX_TODO_TAGS)
+      .sort((a, b) => a.bit - b.bit);
+  }, [address]);
+
+  useEffect(() => {
+    const key = address ? getSessionLocalMapKey(address) : undefined;
+    if (!key) {
+      setTags([]);
+      return;
+    }
+    readTags(key)
+      .then(setTags)
+      .catch(error => console.error("[useTodoTags] Error opening tag dictionary:", error));
+  }, [address, isLocalDataLocked, readTags]);
+
+  // Add a tag on the lowest free bit (unlocking the local data if needed) and return it
+  const createTag = useCallback(async (name: string): Promise<TodoTag> => {
+    if (!ethersSigner || !address) {
+      throw new Error("Wallet not connected");
+    }
+
+    const key = await unlockLocalMapKey(ethersSigner);
+    const current = await readTags(key);
+    const bit = nextFreeTodoTagBit(current);
+    if (bit === undefined) {
+      throw new Error(`Too many tags (max ${MAX_TODO_TAGS})`);
+    }
+
+    const tag = { bit, name: validateTagName(name, current) };
+    const next = [...current, tag].sort((a, b) => a.bit - b.bit);
+    const names = Object.fromEntries(next.map(entry => [entry.bit, entry.name]));
+    localStorage.setItem(`${TAG_NAMES_KEY}_${address}`, await sealLocalMap(names, key));
+    setTags(next);
+    return tag;
+  }, [ethersSigner, address, readTags]);
+
+  return {
+    tags,
+    createTag,
+  };
+}
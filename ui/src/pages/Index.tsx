@@ -1,41 +1,130 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import { useAccount } from 'wagmi';
+import { getAddress, isAddress } from 'ethers';
 import { Logo } from '@/components/Logo';
 import { WalletButton } from '@/components/WalletButton';
 import { ActivityCard } from '@/components/ActivityCard';
 import { ProgressBar } from '@/components/ProgressBar';
 import { AddActivityDialog } from '@/components/AddActivityDialog';
-import { CheckSquare, Shield, Loader2 } from 'lucide-react';
+import { LoadMoreSentinel } from '@/components/LoadMoreSentinel';
+import { ListSwitcher } from '@/components/ListSwitcher';
+import { ShareListDialog } from '@/components/ShareListDialog';
+import { AssignTodoDialog } from '@/components/AssignTodoDialog';
+import { FocusCard } from '@/components/FocusCard';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarDays, CheckSquare, CloudOff, Download, FileDown, KeyRound, ChevronLeft, ChevronRight, Dumbbell, Flame, Lock, Moon, Shield, Loader2, Trophy, Upload, UserCheck, Users, AlarmClock, Tag, X } from 'lucide-react';
+import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { useTodoList } from '@/hooks/useTodoList';
+import { useTodoLists } from '@/hooks/useTodoLists';
+import { useTodoTags } from '@/hooks/useTodoTags';
+import { SharedTodoList, useListSharing } from '@/hooks/useListSharing';
+import { TODO_CATEGORIES, TODO_CATEGORY_LABELS, TodoCategory } from '@/utils/todoCategory';
+import { TodoPriority } from '@/utils/todoPriority';
+import { TodoTag } from '@/utils/todoTags';
+import { nestTodos } from '@/utils/todoSubtasks';
+import { applyTodoOrder } from '@/utils/todoOrder';
+import { currentTodoDay, dateFromTodoDay, todoDayFromDate } from '@/utils/todoDay';
+import NotFound from './NotFound';
+import { exportTodos, TODO_EXPORT_FILE_TYPES, TODO_EXPORT_FORMATS, TodoExportFormat } from '@/utils/todoExport';
+import { getErrorMessage } from '@/utils/errorMessage';
+
+const CATEGORY_ICONS: Record<TodoCategory, React.ReactNode> = {
+  sleep: <Moon className="w-5 h-5" />,
+  exercise: <Dumbbell className="w-5 h-5" />,
+  tasks: <CheckSquare className="w-5 h-5" />,
+};
 
 // Get contract address from environment variable or use default localhost address
+// This is the default list; named lists (routes /list/:id) are PrivateTodoList instances created by the factory
 const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const LIST_FACTORY_ADDRESS: string | undefined = import.meta.env.VITE_LIST_FACTORY_ADDRESS || undefined;
 
 // Debug: Log environment variables (remove in production)
 if (import.meta.env.DEV) {
   console.log('Environment variables:', {
     VITE_CONTRACT_ADDRESS: import.meta.env.VITE_CONTRACT_ADDRESS,
     CONTRACT_ADDRESS_USED: CONTRACT_ADDRESS,
+    VITE_LIST_FACTORY_ADDRESS: import.meta.env.VITE_LIST_FACTORY_ADDRESS,
     MODE: import.meta.env.MODE,
   });
 }
 
+const EXPORT_FORMAT_LABELS: Record<TodoExportFormat, string> = {
+  markdown: 'Markdown checklist',
+  csv: 'CSV spreadsheet',
+  ics: 'Calendar (.ics)',
+};
+
+// Save a generated file through a temporary object URL
+const downloadFile = (fileName: string, contents: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 const Index = () => {
   const { address, isConnected } = useAccount();
-  const { todos, isLoading, isDecrypting, message, createTodo, toggleTodo, loadTodos, decryptTodos } = useTodoList(CONTRACT_ADDRESS);
+  const navigate = useNavigate();
+  // The list to show: /list/:id names its contract address, / is the default list.
+  // A trailing /shared/:owner shows that account's todos in the list, shared with the connected account
+  const { id: listId, owner: ownerParam } = useParams();
+  const isValidListId = (!listId || isAddress(listId)) && (!ownerParam || isAddress(ownerParam));
+  const listAddress = listId && isValidListId ? getAddress(listId) : CONTRACT_ADDRESS;
+  const listOwner = ownerParam && isValidListId ? getAddress(ownerParam) : undefined;
+  const { lists, isAvailable: canManageLists, createList, renameList } = useTodoLists(LIST_FACTORY_ADDRESS);
+  const { todos, filteredTodos, tagFilter, setTagFilter, isSharedList, isLoading, isOffline, pendingOpCount, isLocalDataLocked, unlockLocalData, isDecrypting, stats, message, selectedDay, setSelectedDay, createTodo, createTodos, toggleTodo, setCompletedMany, updateTodo, archiveTodo, deleteTodo, loadTodos, hasMoreTodos, isLoadingMore, loadMoreTodos, decryptTodos, exportBackup, importBackup, assignTodo, assignedTodos, completeAssigned, setPriority, focusTodoIndex, isFindingFocus, findFocusTodo, isCheckingOverdue, checkOverdue, setTags, setParent, todoOrder, reorderTodos } = useTodoList(listAddress, listOwner);
+  const { tags: tagNames, createTag } = useTodoTags(isLocalDataLocked);
+  const { collaborators, sharedWithMe, shareList, unshareList } = useListSharing(
+    isSharedList ? undefined : listAddress,
+    [CONTRACT_ADDRESS, listAddress, ...lists.map(list => list.address)]
+  );
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  // Todo whose assignee is being edited
+  const [assigningId, setAssigningId] = useState<string | undefined>(undefined);
+  const today = currentTodoDay();
+  const isToday = selectedDay === today;
 
-  const handleAddTodo = async (category: 'sleep' | 'exercise' | 'tasks', text: string) => {
+  const handleAddTodo = async (
+    category: TodoCategory,
+    text: string,
+    recurring: boolean,
+    priority: TodoPriority,
+    dueDate?: number,
+    tags?: number
+  ) => {
     if (!isConnected) {
       toast.error('Please connect your wallet first');
       return;
     }
 
     try {
-      await createTodo(text);
+      await createTodo(text, category, recurring, priority, dueDate, tags);
       toast.success('Todo created successfully!');
-    } catch (error: any) {
-      toast.error(`Error: ${error.message || 'Failed to create todo'}`);
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to create todo'}`);
+    }
+  };
+
+  const handleAddTodos = async (category: TodoCategory, texts: string[], recurring: boolean, priority: TodoPriority) => {
+    if (!isConnected) {
+      toast.error('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      await createTodos(texts, category, recurring, priority);
+      toast.success(`${texts.length} todos created successfully!`);
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to create todos'}`);
     }
   };
 
@@ -48,8 +137,274 @@ const Index = () => {
     try {
       await toggleTodo(index);
       toast.success('Todo updated!');
-    } catch (error: any) {
-      toast.error(`Error: ${error.message || 'Failed to toggle todo'}`);
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to toggle todo'}`);
+    }
+  };
+
+  const handleCompleteAll = async (indices: number[]) => {
+    if (!isConnected) {
+      toast.error('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      await setCompletedMany(indices, true);
+      toast.success('Todos updated!');
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to update todos'}`);
+    }
+  };
+
+  const handleUnlock = async () => {
+    try {
+      await unlockLocalData();
+      toast.success('Local todo data unlocked');
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to unlock local data'}`);
+    }
+  };
+
+  const handleExportBackup = async () => {
+    try {
+      const backup = await exportBackup();
+      downloadFile(backup.fileName, backup.contents, 'application/json');
+      toast.success(`Backup of ${backup.todoCount} todos exported`);
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to export backup'}`);
+    }
+  };
+
+  // Export the decrypted todos of the selected day's log
+  const handleExportTodos = (exportFormat: TodoExportFormat) => {
+    const decrypted = todos.filter(t => t.isDecrypted && t.index >= 0);
+    if (decrypted.length === 0) {
+      toast.error('Decrypt your todos before exporting them');
+      return;
+    }
+
+    const date = format(dateFromTodoDay(selectedDay), 'yyyy-MM-dd');
+    const contents = exportTodos(
+      decrypted.map(todo => ({
+        index: todo.index,
+        text: todo.text,
+        completed: todo.completed,
+        createdAt: todo.createdAt,
+        updatedAt: todo.timestamp,
+        category: todo.category && TODO_CATEGORY_LABELS[todo.category],
+      })),
+      exportFormat,
+      { title: `Daily log ${date}`, uidDomain: `${listAddress.toLowerCase()}.${address?.toLowerCase()}` }
+    );
+    const fileType = TODO_EXPORT_FILE_TYPES[exportFormat];
+    downloadFile(`todos-${date}.${fileType.extension}`, contents, fileType.mimeType);
+    toast.success(`${decrypted.length} todos exported`);
+  };
+
+  const handleImportBackup = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+
+    try {
+      const imported = await importBackup(await file.text());
+      toast.success(`${imported} todos restored from the backup`);
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to import backup'}`);
+    } finally {
+      // Allow picking the same file again
+      if (backupInputRef.current) {
+        backupInputRef.current.value = '';
+      }
+    }
+  };
+
+  // Path of a list: / for the default list, /list/:id for a named one
+  const listPath = (list: string) => (list.toLowerCase() === CONTRACT_ADDRESS.toLowerCase() ? '' : `/list/${list}`);
+
+  const handleSelectList = (list: string) => {
+    navigate(listPath(list) || '/');
+  };
+
+  const handleSelectSharedList = (shared: SharedTodoList) => {
+    navigate(`${listPath(shared.list)}/shared/${shared.owner}`);
+  };
+
+  const handleShareList = async (collaborator: string) => {
+    try {
+      await shareList(collaborator);
+      toast.success('List shared');
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to share list'}`);
+      throw error;
+    }
+  };
+
+  const handleUnshareList = async (collaborator: string) => {
+    try {
+      await unshareList(collaborator);
+      toast.success('Stopped sharing the list');
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to stop sharing'}`);
+      throw error;
+    }
+  };
+
+  const handleCreateList = async (name: string) => {
+    try {
+      const list = await createList(name);
+      toast.success(`List "${name.trim()}" created`);
+      navigate(`/list/${list}`);
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to create list'}`);
+      throw error;
+    }
+  };
+
+  const handleRenameList = async (list: string, name: string) => {
+    try {
+      await renameList(list, name);
+      toast.success('List renamed');
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to rename list'}`);
+      throw error;
+    }
+  };
+
+  const handleAssignTodo = async (assignee: string | undefined) => {
+    const todo = todos.find(t => t.id === assigningId && t.index >= 0);
+    if (!todo) {
+      return;
+    }
+
+    try {
+      await assignTodo(todo.index, assignee);
+      toast.success(assignee ? 'Todo assigned!' : 'Assignment removed');
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to assign todo'}`);
+      throw error;
+    }
+  };
+
+  const handleCompleteAssigned = async (id: string) => {
+    const todo = assignedTodos.find(t => t.id === id);
+    if (!todo) {
+      return;
+    }
+
+    try {
+      await completeAssigned(todo.owner, todo.index);
+      toast.success('Todo marked as done!');
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to complete todo'}`);
+    }
+  };
+
+  const handleSetPriority = async (index: number, priority: TodoPriority) => {
+    try {
+      await setPriority(index, priority);
+      toast.success('Priority updated!');
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to set priority'}`);
+    }
+  };
+
+  const handleCreateTag = async (name: string): Promise<TodoTag> => {
+    try {
+      return await createTag(name);
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to create tag'}`);
+      throw error;
+    }
+  };
+
+  const handleSetTags = async (index: number, tags: number) => {
+    try {
+      await setTags(index, tags);
+      toast.success('Tags updated!');
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to set tags'}`);
+    }
+  };
+
+  const handleSetParent = async (index: number, parentIndex: number | undefined) => {
+    try {
+      await setParent(index, parentIndex);
+      toast.success(parentIndex === undefined ? 'Moved to the top level!' : 'Subtask added!');
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to move todo'}`);
+    }
+  };
+
+  const handleReorderTodos = async (indices: number[]) => {
+    try {
+      await reorderTodos(indices);
+      toast.success('Order saved!');
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to save the order'}`);
+    }
+  };
+
+  const toggleTagFilter = (bit: number) => {
+    setTagFilter((tagFilter ^ (1 << bit)) >>> 0);
+  };
+
+  const handleFindFocusTodo = async () => {
+    try {
+      await findFocusTodo();
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to select the next task'}`);
+    }
+  };
+
+  const handleCheckOverdue = async () => {
+    try {
+      await checkOverdue();
+      toast.success('Due dates checked!');
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to check due dates'}`);
+    }
+  };
+
+  const handleUpdateTodo = async (index: number, text: string) => {
+    if (!isConnected) {
+      toast.error('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      await updateTodo(index, text);
+      toast.success('Todo updated!');
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to update todo'}`);
+    }
+  };
+
+  const handleArchiveTodo = async (index: number) => {
+    if (!isConnected) {
+      toast.error('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      await archiveTodo(index);
+      toast.success('Todo archived!');
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to archive todo'}`);
+    }
+  };
+
+  const handleDeleteTodo = async (index: number) => {
+    if (!isConnected) {
+      toast.error('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      await deleteTodo(index);
+      toast.success('Todo deleted!');
+    } catch (error: unknown) {
+      toast.error(`Error: ${getErrorMessage(error) || 'Failed to delete todo'}`);
     }
   };
 
@@ -63,24 +418,158 @@ const Index = () => {
     return t.text && !t.text.startsWith('Encrypted Todo');
   });
 
-  // Convert todos to Activity format for ActivityCard
-  const todosAsActivities = todos.map(todo => ({
+  // Convert a todo to Activity format for ActivityCard
+  const toActivity = (todo: (typeof todos)[number]) => ({
     id: todo.id,
     label: todo.text,
+    recurring: todo.recurring,
+    // Past days of a recurring todo are history and cannot be toggled any more
+    // Queued todos cannot be changed before they are on-chain, and shared lists not at all.
+    // Parents are completed through their subtasks (which may be shown in another card)
+    readOnly: (todo.recurring && !isToday) || todo.index < 0 || isSharedList || todos.some(t => t.parentIndex === todo.index),
+    pending: todo.pending,
     completed: todo.completed,
     encrypted: !isDecrypted,
+    assignee: todo.assignee,
+    priority: todo.priority,
+    dueDate: todo.dueDate,
+    overdue: todo.overdue,
+    tags: todo.tags,
+    highlighted: !isSharedList && todo.index >= 0 && todo.index === focusTodoIndex,
+  });
+
+  // The manual order, after the todos it does not place yet, higher priorities first (the sort is stable, so
+  // todos of equal or unknown priority keep their order), with subtasks nested under their parent
+  const toActivities = (items: typeof todos) =>
+    nestTodos(applyTodoOrder([...items].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0)), todoOrder)).map(todo => ({
+      ...toActivity(todo),
+      subtasks: todo.subtasks.map(toActivity),
+    }));
+
+  // Todos of other accounts assigned to the connected account: they can only be marked done
+  const assignedActivities = assignedTodos.map(todo => ({
+    id: todo.id,
+    label: todo.text,
+    note: `From ${todo.owner.slice(0, 6)}…${todo.owner.slice(-4)}`,
+    recurring: todo.recurring,
+    readOnly: todo.completed,
+    completed: todo.completed,
+    encrypted: !todo.isDecrypted,
   }));
+  const hasEncryptedAssignedTodos = assignedTodos.some(t => !t.isDecrypted);
+  const assigningTodo = todos.find(t => t.id === assigningId);
+
+  // The focus todo may belong to another day's log, or to a page that is not loaded yet
+  const focusTodo = typeof focusTodoIndex === 'number' ? todos.find(t => t.index === focusTodoIndex) : undefined;
+  const focusCardTodo = typeof focusTodoIndex === 'number'
+    ? { label: focusTodo?.text ?? `Todo #${focusTodoIndex + 1}`, priority: focusTodo?.priority, completed: !!focusTodo?.completed }
+    : focusTodoIndex;
+
+  // Todos that were created on-chain (queued creates have no contract index yet)
+  const findOnChainTodo = (id: string) => todos.find(t => t.id === id && t.index >= 0);
+
+  // Todos whose category is not known yet (not decrypted) are grouped separately
+  const lockedTodos = filteredTodos.filter(t => t.category === undefined);
+
+  // Shared lists are read-only: their cards only show the todos (and no tag names: the tag dictionary
+  // names the connected account's tags, not the list owner's)
+  const renderTodoCard = (key: string, title: string, icon: React.ReactNode, items: typeof todos) => (
+    <ActivityCard
+      key={key}
+      title={title}
+      icon={icon}
+      activities={toActivities(items)}
+      tagNames={isSharedList ? undefined : tagNames}
+      showProgress
+      onActivityToggle={(id) => {
+        const todo = findOnChainTodo(id);
+        if (todo) {
+          handleToggleTodo(todo.index);
+        }
+      }}
+      onCompleteAll={isSharedList ? undefined : (ids) => {
+        const indices = todos.filter(t => ids.includes(t.id)).map(t => t.index);
+        handleCompleteAll(indices);
+      }}
+      onActivityEdit={isSharedList ? undefined : (id, label) => {
+        const todo = findOnChainTodo(id);
+        if (todo) {
+          handleUpdateTodo(todo.index, label);
+        }
+      }}
+      onActivityArchive={isSharedList ? undefined : (id) => {
+        const todo = findOnChainTodo(id);
+        if (todo) {
+          handleArchiveTodo(todo.index);
+        }
+      }}
+      onActivityDelete={isSharedList ? undefined : (id) => {
+        const todo = findOnChainTodo(id);
+        if (todo) {
+          handleDeleteTodo(todo.index);
+        }
+      }}
+      onActivityAssign={isSharedList ? undefined : (id) => {
+        if (findOnChainTodo(id)) {
+          setAssigningId(id);
+        }
+      }}
+      onActivityPriority={isSharedList ? undefined : (id, priority) => {
+        const todo = findOnChainTodo(id);
+        if (todo) {
+          handleSetPriority(todo.index, priority);
+        }
+      }}
+      onActivityTags={isSharedList ? undefined : (id, tags) => {
+        const todo = findOnChainTodo(id);
+        if (todo) {
+          handleSetTags(todo.index, tags);
+        }
+      }}
+      onActivityParent={isSharedList ? undefined : (id, parentId) => {
+        const todo = findOnChainTodo(id);
+        const parent = parentId === undefined ? undefined : findOnChainTodo(parentId);
+        if (todo && (parentId === undefined || parent)) {
+          handleSetParent(todo.index, parent?.index);
+        }
+      }}
+      onActivityReorder={isSharedList ? undefined : (ids) => {
+        const indices = ids.map(id => findOnChainTodo(id)?.index).filter((index): index is number => index !== undefined);
+        handleReorderTodos(indices);
+      }}
+    />
+  );
 
   const totalTodos = todos.length;
   const completedTodos = todos.filter(t => t.completed).length;
 
+  if (!isValidListId) {
+    return <NotFound />;
+  }
+
   return (
     <div className="min-h-screen bg-gradient-subtle">
       {/* Header */}
       <header className="border-b border-border/50 bg-card/50 backdrop-blur-sm sticky top-0 z-50">
         <div className="container mx-auto px-4 py-4">
           <div className="flex justify-between items-center">
-            <Logo />
+            <div className="flex items-center gap-4">
+              <Logo />
+              {isConnected && (
+                <ListSwitcher
+                  lists={lists}
+                  currentList={listAddress}
+                  defaultList={CONTRACT_ADDRESS}
+                  sharedLists={sharedWithMe}
+                  currentOwner={isSharedList ? listOwner : undefined}
+                  canManage={canManageLists}
+                  onSelect={handleSelectList}
+                  onSelectShared={handleSelectSharedList}
+                  onCreate={handleCreateList}
+                  onRename={handleRenameList}
+                />
+              )}
+            </div>
             <WalletButton />
           </div>
         </div>
@@ -102,7 +591,7 @@ const Index = () => {
           </p>
         </div>
 
-        {!CONTRACT_ADDRESS && (
+        {!listAddress && (
           <div className="max-w-md mx-auto text-center space-y-6">
             <div className="p-8 bg-card rounded-2xl shadow-medium border border-destructive/20">
               <Shield className="w-16 h-16 mx-auto mb-4 text-destructive" />
@@ -114,7 +603,7 @@ const Index = () => {
           </div>
         )}
 
-        {CONTRACT_ADDRESS && isConnected ? (
+        {listAddress && isConnected ? (
           <div className="space-y-8 max-w-4xl mx-auto">
             {/* Status Message */}
             {message && (
@@ -123,11 +612,128 @@ const Index = () => {
               </div>
             )}
 
-            {/* Add Todo Button */}
-            <div className="flex justify-end mb-4">
-              <AddActivityDialog 
-                onAddActivity={(category, text) => handleAddTodo(category, text)} 
-              />
+            {/* Offline State: the cached list is shown and changes are queued */}
+            {(isOffline || pendingOpCount > 0) && (
+              <div className="flex items-center gap-3 p-4 bg-card rounded-lg border border-accent/30 text-sm text-muted-foreground">
+                <CloudOff className="w-4 h-4 text-accent" />
+                <span>
+                  {isOffline ? 'Offline: showing the cached list. ' : ''}
+                  {pendingOpCount > 0
+                    ? `${pendingOpCount} queued ${pendingOpCount === 1 ? 'change' : 'changes'} will be submitted once the wallet reconnects.`
+                    : 'New todos and toggles will be queued.'}
+                </span>
+              </div>
+            )}
+
+            {/* Shared State: another account's list, readable with the access it granted */}
+            {isSharedList && listOwner && (
+              <div className="flex items-center gap-3 p-4 bg-card rounded-lg border border-primary/20 text-sm text-muted-foreground">
+                <Users className="w-4 h-4 text-primary" />
+                <span>
+                  Shared with you by <span className="font-mono">{listOwner}</span>. You can decrypt and read this list but not change it.
+                </span>
+              </div>
+            )}
+
+            {/* Locked State: cached decrypted values stay sealed until the wallet unlocks them */}
+            {isLocalDataLocked && todos.length > 0 && (
+              <div className="flex items-center justify-between gap-3 p-4 bg-card rounded-lg border border-primary/20 text-sm text-muted-foreground">
+                <span className="flex items-center gap-3">
+                  <KeyRound className="w-4 h-4 text-primary" />
+                  Todos cached in this browser are encrypted. Unlock them once for this session.
+                </span>
+                <Button variant="outline" size="sm" onClick={handleUnlock}>
+                  Unlock
+                </Button>
+              </div>
+            )}
+
+            {/* Day Picker and Add Todo Button */}
+            <div className="flex justify-between items-center mb-4">
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="icon" title="Previous day" onClick={() => setSelectedDay(selectedDay - 1)}>
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" size="sm">
+                      <CalendarDays className="w-4 h-4 mr-2" />
+                      {isToday ? 'Today' : format(dateFromTodoDay(selectedDay), 'EEE, MMM d, yyyy')}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={dateFromTodoDay(selectedDay)}
+                      onSelect={(date) => date && setSelectedDay(todoDayFromDate(date))}
+                      disabled={(date) => todoDayFromDate(date) > today}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Next day"
+                  disabled={isToday}
+                  onClick={() => setSelectedDay(selectedDay + 1)}
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="flex items-center gap-2">
+                {/* Plain exports of the decrypted todos */}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" title="Export todos">
+                      <FileDown className="w-4 h-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {TODO_EXPORT_FORMATS.map(exportFormat => (
+                      <DropdownMenuItem key={exportFormat} onClick={() => handleExportTodos(exportFormat)}>
+                        {EXPORT_FORMAT_LABELS[exportFormat]}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                {/* Encrypted backup of the decrypted values cached in this browser */}
+                <Button variant="ghost" size="icon" title="Export backup" onClick={handleExportBackup}>
+                  <Download className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" title="Import backup" onClick={() => backupInputRef.current?.click()}>
+                  <Upload className="w-4 h-4" />
+                </Button>
+                <input
+                  ref={backupInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(event) => handleImportBackup(event.target.files?.[0])}
+                />
+                {/* Overdue flags are computed on-chain from the encrypted due dates */}
+                {!isSharedList && todos.some(t => t.dueDate !== undefined) && (
+                  <Button variant="ghost" size="icon" title="Check due dates" disabled={isCheckingOverdue} onClick={handleCheckOverdue}>
+                    {isCheckingOverdue ? <Loader2 className="w-4 h-4 animate-spin" /> : <AlarmClock className="w-4 h-4" />}
+                  </Button>
+                )}
+                {!isSharedList && (
+                  <>
+                    <ShareListDialog
+                      collaborators={collaborators}
+                      shareLink={`${window.location.origin}${listPath(listAddress)}/shared/${address}`}
+                      onShare={handleShareList}
+                      onUnshare={handleUnshareList}
+                    />
+                    <AddActivityDialog 
+                      onAddActivity={(category, text, recurring, priority, dueDate, tags) => handleAddTodo(category, text, recurring, priority, dueDate, tags)} 
+                      onAddActivities={(category, texts, recurring, priority) => handleAddTodos(category, texts, recurring, priority)}
+                      tags={tagNames}
+                      onCreateTag={handleCreateTag}
+                    />
+                  </>
+                )}
+              </div>
             </div>
 
             {/* Loading State */}
@@ -142,7 +748,7 @@ const Index = () => {
             {!isLoading && (
               <>
                 {/* Decrypt Button */}
-                {!isDecrypted && todos.length > 0 && (
+                {((!isDecrypted && todos.length > 0) || hasEncryptedAssignedTodos) && (
                   <div className="mb-4 flex justify-center">
                     <button
                       onClick={async () => {
@@ -153,8 +759,8 @@ const Index = () => {
                         try {
                           await decryptTodos();
                           toast.success('Todos decrypted successfully!');
-                        } catch (error: any) {
-                          toast.error(`Error: ${error.message || 'Failed to decrypt todos'}`);
+                        } catch (error: unknown) {
+                          toast.error(`Error: ${getErrorMessage(error) || 'Failed to decrypt todos'}`);
                         }
                       }}
                       disabled={isDecrypting || !isConnected}
@@ -175,32 +781,92 @@ const Index = () => {
                   </div>
                 )}
 
-                <ActivityCard
-                  title="My Todos"
-                  icon={<CheckSquare className="w-5 h-5" />}
-                  activities={todosAsActivities}
-                  onActivityToggle={(id) => {
-                    const todo = todos.find(t => t.id === id);
-                    if (todo) {
-                      handleToggleTodo(todo.index);
-                    }
-                  }}
-                />
+                {/* Highest-priority open todo, selected homomorphically by the contract */}
+                {!isSharedList && (
+                  <FocusCard todo={focusCardTodo} isFinding={isFindingFocus} onFind={handleFindFocusTodo} />
+                )}
+
+                {/* Todos of other accounts assigned to the connected account */}
+                {assignedActivities.length > 0 && (
+                  <ActivityCard
+                    title="Assigned to me"
+                    icon={<UserCheck className="w-5 h-5" />}
+                    activities={assignedActivities}
+                    onActivityToggle={handleCompleteAssigned}
+                  />
+                )}
+
+                {/* Tag filter, applied to the decrypted tags: a todo is shown when it has every selected tag */}
+                {!isSharedList && tagNames.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Tag className="w-4 h-4 text-muted-foreground" />
+                    {tagNames.map(tag => (
+                      <Badge
+                        key={tag.bit}
+                        variant={((tagFilter >>> tag.bit) & 1) === 1 ? 'default' : 'outline'}
+                        className="cursor-pointer font-normal"
+                        onClick={() => toggleTagFilter(tag.bit)}
+                      >
+                        {tag.name}
+                      </Badge>
+                    ))}
+                    {tagFilter !== 0 && (
+                      <Button variant="ghost" size="sm" onClick={() => setTagFilter(0)}>
+                        <X className="w-4 h-4 mr-1" />
+                        Clear filter
+                      </Button>
+                    )}
+                  </div>
+                )}
+
+                {/* One card per daily-log category */}
+                <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {TODO_CATEGORIES.map(category =>
+                    renderTodoCard(
+                      category,
+                      TODO_CATEGORY_LABELS[category],
+                      CATEGORY_ICONS[category],
+                      filteredTodos.filter(t => t.category === category)
+                    )
+                  )}
+                  {lockedTodos.length > 0 &&
+                    renderTodoCard('locked', 'Encrypted', <Lock className="w-5 h-5" />, lockedTodos)}
+                </div>
+
+                {/* Older todos are fetched page by page as the list scrolls */}
+                <LoadMoreSentinel hasMore={hasMoreTodos} isLoading={isLoadingMore} onLoadMore={loadMoreTodos} />
 
                 {/* Progress Section */}
                 {totalTodos > 0 && (
                   <div className="bg-card rounded-xl p-8 shadow-medium border border-primary/10">
                     <ProgressBar value={completedTodos} total={totalTodos} />
+                    {/* Streak and total, decrypted from the on-chain encrypted counters */}
+                    {stats && (
+                      <div className="flex justify-center gap-6 mt-4 text-sm">
+                        <span className="flex items-center gap-2">
+                          <Flame className="w-4 h-4 text-primary" />
+                          <span className="font-semibold">{stats.streak}-day streak</span>
+                        </span>
+                        <span className="flex items-center gap-2 text-muted-foreground">
+                          <Trophy className="w-4 h-4" />
+                          {stats.totalCompleted} completed in total
+                        </span>
+                      </div>
+                    )}
                   </div>
                 )}
 
                 {/* Empty State */}
-                {totalTodos === 0 && !isLoading && (
+                {totalTodos === 0 && !isLoading && !hasMoreTodos && (
                   <div className="text-center py-12">
                     <CheckSquare className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
-                    <h3 className="text-xl font-semibold mb-2">No todos yet</h3>
+                    <h3 className="text-xl font-semibold mb-2">{isToday ? 'No todos yet' : 'Nothing logged this day'}</h3>
                     <p className="text-muted-foreground">
-                      Create your first encrypted todo item to get started!
+                      {isToday
+                        ? isSharedList
+                          ? 'Todos the owner adds to this list will show up here.'
+                          : 'Create your first encrypted todo item to get started!'
+                        : 'Pick another day or go back to today to add todos.'}
                     </p>
                   </div>
                 )}
@@ -221,6 +887,12 @@ const Index = () => {
         )}
       </main>
 
+      <AssignTodoDialog
+        todo={assigningTodo && { label: assigningTodo.text, assignee: assigningTodo.assignee }}
+        onClose={() => setAssigningId(undefined)}
+        onAssign={handleAssignTodo}
+      />
+
       {/* Footer */}
       <footer className="border-t border-border/50 mt-16 py-8 bg-card/30 backdrop-blur-sm">
         <div className="container mx-auto px-4">
@@ -0,0 +1,16 @@
+// "NotYourList" -> "Not your list"
+const customErrorToSentence = (name: string): string =>
+  name.replace(/(?<=[a-z0-9])(?=[A-Z])/g, " ").replace(/ [A-Z](?=[a-z])/g, (word) => word.toLowerCase());
+
+// Message of a caught error for the user: the revert reason ethers decoded from a failed transaction or call
+// when there is one (a custom error without arguments read as a sentence), else the error message
+export const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) {
+    const { reason, revert } = error as Error & { reason?: unknown; revert?: { name?: unknown; args?: unknown } };
+    if (revert && typeof revert.name === "string" && Array.isArray(revert.args) && revert.args.length === 0) {
+      return customErrorToSentence(revert.name);
+    }
+    return typeof reason === "string" && reason.length > 0 ? reason : error.message;
+  }
+  return String(error);
+};
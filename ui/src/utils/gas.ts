@@ -0,0 +1,6 @@
+// Headroom over eth_estimateGas: the estimate is taken against the current state, which can change before the
+// transaction is mined
+const GAS_MARGIN_PERCENT = 20n;
+
+// Gas limit for a transaction from the node's estimate
+export const withGasMargin = (estimate: bigint): bigint => (estimate * (100n + GAS_MARGIN_PERCENT)) / 100n;
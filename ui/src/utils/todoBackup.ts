@@ -0,0 +1,127 @@
+import { ethers } from "ethers";
+import { DecryptionError, decryptWithKey, encryptWithKey } from "@/utils/encryption";
+import { isTodoCategory, TodoCategory } from "@/utils/todoCategory";
+
+// Backups of the decrypted todo values cached in this browser, to move them to another one. The file keeps
+// the list it belongs to (chain, contract and account) in the clear and everything else encrypted with the
+// account's wallet-derived local map key (see todoLocalMaps), which the same wallet derives on any machine.
+// On import, each entry is checked against the todo's on-chain handle before it is merged.
+
+export const TODO_BACKUP_FORMAT = "private-todo-list-backup";
+export const TODO_BACKUP_VERSION = 1;
+
+export interface TodoBackupEntry {
+  index: number; // Contract index
+  idHandle: string; // Encrypted hash handle, the key of the local maps
+  textHandles: string[];
+  text: string;
+  category: TodoCategory | undefined;
+  completed: boolean | undefined; // Non-recurring todos
+  completedDays: Record<string, boolean>; // Recurring todos, by day number
+  createdAt: number;
+  timestamp: number;
+  recurring: boolean;
+}
+
+export interface TodoBackup {
+  format: typeof TODO_BACKUP_FORMAT;
+  version: number;
+  chainId: number;
+  contractAddress: string;
+  account: string;
+  exportedAt: number; // Unix timestamp in seconds
+  todos: TodoBackupEntry[];
+}
+
+// What is written to disk: the list header, and the whole backup (header included) encrypted
+type TodoBackupFile = Omit<TodoBackup, "todos"> & { data: string };
+
+const isTodoBackupEntry = (value: unknown): value is TodoBackupEntry => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const v = value as Record<string, unknown>;
+  return (
+    typeof v.index === "number" &&
+    Number.isInteger(v.index) &&
+    v.index >= 0 &&
+    typeof v.idHandle === "string" &&
+    ethers.isHexString(v.idHandle, 32) &&
+    Array.isArray(v.textHandles) &&
+    v.textHandles.every((h) => typeof h === "string") &&
+    typeof v.text === "string" &&
+    (v.category === undefined || isTodoCategory(v.category)) &&
+    (v.completed === undefined || typeof v.completed === "boolean") &&
+    typeof v.completedDays === "object" &&
+    v.completedDays !== null &&
+    Object.values(v.completedDays).every((c) => typeof c === "boolean") &&
+    typeof v.createdAt === "number" &&
+    typeof v.timestamp === "number" &&
+    typeof v.recurring === "boolean"
+  );
+};
+
+const sameList = (a: Omit<TodoBackup, "todos">, b: Omit<TodoBackup, "todos">): boolean => {
+  return (
+    a.chainId === b.chainId &&
+    a.contractAddress.toLowerCase() === b.contractAddress.toLowerCase() &&
+    a.account.toLowerCase() === b.account.toLowerCase() &&
+    a.exportedAt === b.exportedAt
+  );
+};
+
+export const todoBackupFileName = (backup: Pick<TodoBackup, "chainId" | "account" | "exportedAt">): string => {
+  const date = new Date(backup.exportedAt * 1000).toISOString().slice(0, 10);
+  return `todo-backup-${backup.chainId}-${backup.account.slice(0, 8).toLowerCase()}-${date}.json`;
+};
+
+export const sealTodoBackup = async (backup: TodoBackup, key: CryptoKey): Promise<string> => {
+  const file: TodoBackupFile = {
+    format: backup.format,
+    version: backup.version,
+    chainId: backup.chainId,
+    contractAddress: backup.contractAddress,
+    account: backup.account,
+    exportedAt: backup.exportedAt,
+    data: await encryptWithKey(JSON.stringify(backup), key),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Parse and decrypt a backup file; entries that are not well-formed are dropped
+export const openTodoBackup = async (contents: string, key: CryptoKey): Promise<TodoBackup> => {
+  let file: TodoBackupFile;
+  try {
+    file = JSON.parse(contents);
+  } catch {
+    throw new Error("Not a todo backup file");
+  }
+  if (file?.format !== TODO_BACKUP_FORMAT || typeof file.data !== "string") {
+    throw new Error("Not a todo backup file");
+  }
+  if (file.version !== TODO_BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version: ${String(file.version)}`);
+  }
+
+  let backup: TodoBackup;
+  try {
+    backup = JSON.parse(await decryptWithKey(file.data, key));
+  } catch (error) {
+    if (error instanceof DecryptionError) {
+      throw new Error("This backup was exported by another wallet");
+    }
+    throw error;
+  }
+
+  // The clear header must be the one that was encrypted
+  if (!sameList(file, backup) || !Array.isArray(backup.todos)) {
+    throw new Error("The backup header does not match its contents");
+  }
+
+  return {
+    ...backup,
+    todos: backup.todos
+      .filter(isTodoBackupEntry)
+      .map((entry) => ({ ...entry, idHandle: entry.idHandle.toLowerCase() })),
+  };
+};
@@ -0,0 +1,27 @@
+// Daily-log categories. The on-chain value is the index in TODO_CATEGORIES,
+// stored in the low byte of the encrypted metadata word of PrivateTodoList (see todoMeta.ts).
+
+export type TodoCategory = "sleep" | "exercise" | "tasks";
+
+export const TODO_CATEGORIES: TodoCategory[] = ["sleep", "exercise", "tasks"];
+
+export const DEFAULT_TODO_CATEGORY: TodoCategory = "tasks";
+
+export const TODO_CATEGORY_LABELS: Record<TodoCategory, string> = {
+  sleep: "Sleep",
+  exercise: "Exercise",
+  tasks: "Daily Tasks",
+};
+
+export const todoCategoryToUint8 = (category: TodoCategory): number => {
+  return TODO_CATEGORIES.indexOf(category);
+};
+
+// Unknown values (e.g. written by a newer client) fall back to the default category
+export const todoCategoryFromUint8 = (value: number | bigint): TodoCategory => {
+  return TODO_CATEGORIES[Number(value)] ?? DEFAULT_TODO_CATEGORY;
+};
+
+export const isTodoCategory = (value: unknown): value is TodoCategory => {
+  return typeof value === "string" && (TODO_CATEGORIES as string[]).includes(value);
+};
@@ -0,0 +1,22 @@
+// Daily-log days. PrivateTodoList buckets todos by day number (UTC days since the
+// epoch, i.e. block.timestamp / 1 days), so days roll over at 00:00 UTC.
+
+export const TODO_DAY_SECONDS = 24 * 60 * 60;
+
+export const todoDayFromTimestamp = (timestamp: number): number => {
+  return Math.floor(timestamp / TODO_DAY_SECONDS);
+};
+
+export const currentTodoDay = (): number => {
+  return todoDayFromTimestamp(Math.floor(Date.now() / 1000));
+};
+
+// Calendar widgets work with local dates: the picked date's year/month/day are read as the UTC day
+export const todoDayFromDate = (date: Date): number => {
+  return Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 1000 / TODO_DAY_SECONDS);
+};
+
+export const dateFromTodoDay = (day: number): Date => {
+  const utc = new Date(day * TODO_DAY_SECONDS * 1000);
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+};
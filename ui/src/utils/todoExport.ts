@@ -0,0 +1,171 @@
+// Plain-text exports of decrypted todos: Markdown checklists, CSV and an iCalendar (RFC 5545) VTODO feed.
+// Shared by the UI and the privateTodoList:export hardhat task (a copy lives in the root src/utils), so it
+// only depends on the fields below and not on the UI's Todo type.
+
+export type TodoExportFormat = "markdown" | "csv" | "ics";
+
+export const TODO_EXPORT_FORMATS: TodoExportFormat[] = ["markdown", "csv", "ics"];
+
+export const TODO_EXPORT_FILE_TYPES: Record<TodoExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: "md", mimeType: "text/markdown" },
+  csv: { extension: "csv", mimeType: "text/csv" },
+  ics: { extension: "ics", mimeType: "text/calendar" },
+};
+
+export interface ExportableTodo {
+  index: number; // Contract index, part of the iCalendar UID
+  text: string;
+  completed: boolean;
+  createdAt: number; // Unix timestamp in seconds
+  updatedAt: number; // Unix timestamp in seconds
+  category: string | undefined; // Display label
+}
+
+export interface TodoExportOptions {
+  title?: string; // Markdown heading and calendar name
+  uidDomain?: string; // Right-hand side of iCalendar UIDs, e.g. "<chainId>.<contract>.<account>"
+  now?: number; // Unix timestamp in seconds of the export (DTSTAMP)
+}
+
+const isTodoExportFormat = (value: unknown): value is TodoExportFormat => {
+  return typeof value === "string" && (TODO_EXPORT_FORMATS as string[]).includes(value);
+};
+
+export const parseTodoExportFormat = (value: string): TodoExportFormat => {
+  const format = value.toLowerCase() === "md" ? "markdown" : value.toLowerCase();
+  if (!isTodoExportFormat(format)) {
+    throw new Error(`Unknown export format "${value}" (expected one of ${TODO_EXPORT_FORMATS.join(", ")})`);
+  }
+  return format;
+};
+
+// Todo texts are single-line: newlines would break checklist items and CSV rows
+const singleLine = (text: string): string => text.replace(/\s*[\r\n]+\s*/g, " ");
+
+const isoTimestamp = (timestamp: number): string => new Date(timestamp * 1000).toISOString();
+
+export const todosToMarkdown = (todos: ExportableTodo[], options: TodoExportOptions = {}): string => {
+  const lines: string[] = [`# ${options.title ?? "Todos"}`];
+
+  // One checklist per category, in order of first appearance
+  const groups = new Map<string, ExportableTodo[]>();
+  for (const todo of todos) {
+    const category = todo.category ?? "Uncategorized";
+    groups.set(category, [...(groups.get(category) ?? []), todo]);
+  }
+
+  for (const [category, items] of groups) {
+    lines.push("", `## ${category}`, "");
+    for (const todo of items) {
+      // Escape characters that would otherwise start Markdown syntax inside the item
+      const text = singleLine(todo.text).replace(/([\\`*_[\]<>])/g, "\\$1");
+      lines.push(`- [${todo.completed ? "x" : " "}] ${text}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+};
+
+// RFC 4180 field, with a leading quote on cells a spreadsheet would evaluate as a formula
+const csvField = (value: string): string => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const todosToCsv = (todos: ExportableTodo[]): string => {
+  const rows = [["text", "completed", "created", "updated", "category"]];
+  for (const todo of todos) {
+    rows.push([
+      singleLine(todo.text),
+      String(todo.completed),
+      isoTimestamp(todo.createdAt),
+      isoTimestamp(todo.updatedAt),
+      todo.category ?? "",
+    ]);
+  }
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+};
+
+// TEXT value escaping (RFC 5545 3.3.11)
+const icsText = (value: string): string => {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+};
+
+// UTC DATE-TIME, e.g. 20240131T080000Z
+const icsDateTime = (timestamp: number): string => {
+  return isoTimestamp(timestamp)
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+};
+
+// Fold content lines longer than 75 octets (RFC 5545 3.1), without splitting UTF-8 sequences
+const icsFold = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+export const todosToICalendar = (todos: ExportableTodo[], options: TodoExportOptions = {}): string => {
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const uidDomain = options.uidDomain ?? "private-todo-list";
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Keykeeper//Private To-do List//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${icsText(options.title ?? "Todos")}`,
+  ];
+
+  for (const todo of todos) {
+    lines.push(
+      "BEGIN:VTODO",
+      `UID:todo-${todo.index}@${uidDomain}`,
+      `DTSTAMP:${icsDateTime(now)}`,
+      `CREATED:${icsDateTime(todo.createdAt)}`,
+      `LAST-MODIFIED:${icsDateTime(todo.updatedAt)}`,
+      `SUMMARY:${icsText(todo.text)}`,
+      `STATUS:${todo.completed ? "COMPLETED" : "NEEDS-ACTION"}`,
+    );
+    if (todo.completed) {
+      // The completion time is not recorded: the last modification is the closest known time
+      lines.push(`COMPLETED:${icsDateTime(todo.updatedAt)}`, "PERCENT-COMPLETE:100");
+    }
+    if (todo.category) {
+      lines.push(`CATEGORIES:${icsText(todo.category)}`);
+    }
+    lines.push("END:VTODO");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(icsFold).join("\r\n") + "\r\n";
+};
+
+export const exportTodos = (
+  todos: ExportableTodo[],
+  format: TodoExportFormat,
+  options: TodoExportOptions = {},
+): string => {
+  switch (format) {
+    case "markdown":
+      return todosToMarkdown(todos, options);
+    case "csv":
+      return todosToCsv(todos);
+    case "ics":
+      return todosToICalendar(todos, options);
+  }
+};
@@ -0,0 +1,74 @@
+import { ethers } from "ethers";
+import { decryptWithKey, deriveKeyFromSecret, encryptWithKey } from "@/utils/encryption";
+
+// The decrypted todo values cached in localStorage (text, completion and category maps) are encrypted at
+// rest with an AES-GCM key derived from a wallet signature over a fixed EIP-712 message. Wallets sign
+// deterministically (RFC 6979), so the same account derives the same key in every session.
+
+// Prefix of sealed map values (a keyed envelope, see encryptWithKey); anything else is a plaintext map written
+// by earlier versions
+const SEALED_PREFIX = "enc:";
+// Prefix of the sealed values written by earlier versions (raw IV + ciphertext, without an envelope)
+const LEGACY_SEALED_PREFIX = "enc:v1:";
+// Also the key id of the envelopes, so data sealed under an earlier derivation is reported as such
+const HKDF_INFO = "PrivateTodoList local maps v1";
+
+export const LOCAL_MAP_KEY_DOMAIN = {
+  name: "PrivateTodoList",
+  version: "1",
+};
+
+export const LOCAL_MAP_KEY_TYPES = {
+  LocalStorageKey: [
+    { name: "purpose", type: "string" },
+    { name: "account", type: "address" },
+  ],
+};
+
+export const localMapKeyMessage = (account: string) => ({
+  purpose: "Unlock the todo list cached in this browser",
+  account: ethers.getAddress(account),
+});
+
+// Keys of the accounts unlocked in this session (never persisted)
+const sessionKeys = new Map<string, CryptoKey>();
+
+export const getSessionLocalMapKey = (account: string): CryptoKey | undefined => {
+  return sessionKeys.get(account.toLowerCase());
+};
+
+// Ask the wallet for the fixed signature and derive the account's map key (once per session)
+export const unlockLocalMapKey = async (signer: ethers.Signer): Promise<CryptoKey> => {
+  const account = await signer.getAddress();
+  const existing = getSessionLocalMapKey(account);
+  if (existing) {
+    return existing;
+  }
+
+  const signature = await signer.signTypedData(LOCAL_MAP_KEY_DOMAIN, LOCAL_MAP_KEY_TYPES, localMapKeyMessage(account));
+  const key = await deriveKeyFromSecret(ethers.getBytes(signature), ethers.getBytes(account), HKDF_INFO);
+  sessionKeys.set(account.toLowerCase(), key);
+  return key;
+};
+
+export const isSealedLocalMap = (stored: string): boolean => {
+  return stored.startsWith(SEALED_PREFIX);
+};
+
+export const sealLocalMap = async (map: Record<string, unknown>, key: CryptoKey): Promise<string> => {
+  return SEALED_PREFIX + (await encryptWithKey(JSON.stringify(map), key, HKDF_INFO));
+};
+
+// Read a stored map, sealed or (legacy) plaintext
+export const openLocalMap = async <T>(stored: string | null, key: CryptoKey): Promise<Record<string, T>> => {
+  if (!stored) {
+    return {};
+  }
+  if (!isSealedLocalMap(stored)) {
+    return JSON.parse(stored);
+  }
+  const sealed = stored.startsWith(LEGACY_SEALED_PREFIX)
+    ? stored.slice(LEGACY_SEALED_PREFIX.length)
+    : stored.slice(SEALED_PREFIX.length);
+  return JSON.parse(await decryptWithKey(sealed, key, HKDF_INFO));
+};
@@ -0,0 +1,30 @@
+// Category, priority and flags share one encrypted euint32 metadata word on-chain.
+// Layout must match PrivateTodoList.META_PRIORITY_SHIFT / META_FLAGS_SHIFT:
+// category in bits 0-7, priority in bits 8-15, flags in bits 16-31.
+
+export const TODO_META_PRIORITY_SHIFT = 8;
+export const TODO_META_FLAGS_SHIFT = 16;
+
+export interface TodoMeta {
+  category: number;
+  priority: number;
+  flags: number;
+}
+
+export const packTodoMeta = ({ category, priority, flags }: TodoMeta): number => {
+  return (
+    ((category & 0xff) |
+      ((priority & 0xff) << TODO_META_PRIORITY_SHIFT) |
+      ((flags & 0xffff) << TODO_META_FLAGS_SHIFT)) >>>
+    0
+  );
+};
+
+export const unpackTodoMeta = (value: number | bigint): TodoMeta => {
+  const meta = Number(value);
+  return {
+    category: meta & 0xff,
+    priority: (meta >>> TODO_META_PRIORITY_SHIFT) & 0xff,
+    flags: (meta >>> TODO_META_FLAGS_SHIFT) & 0xffff,
+  };
+};
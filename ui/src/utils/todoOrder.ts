@@ -0,0 +1,37 @@
+// Manual todo order (PrivateTodoList.reorder): the todo indices of a list, top first. It only changes
+// on reorder, so checking a todo (which rewrites its timestamp) does not move it around.
+
+// Maximum number of todos in the order, must match PrivateTodoList.MAX_ORDERED_TODOS
+export const MAX_ORDERED_TODOS = 256;
+
+// List todos in the manual order. Todos without a position (created since the last reorder, or the list
+// was never reordered) come first, keeping their relative order
+export const applyTodoOrder = <T extends { index: number }>(todos: T[], order: number[]): T[] => {
+  const positions = new Map(order.map((index, position) => [index, position]));
+  const unordered = todos.filter((todo) => !positions.has(todo.index));
+  const ordered = todos
+    .filter((todo) => positions.has(todo.index))
+    .sort((a, b) => positions.get(a.index)! - positions.get(b.index)!);
+  return [...unordered, ...ordered];
+};
+
+// The order after a group of todos (e.g. one card) was rearranged: the group takes the place of its
+// first positioned todo (or goes last), and the other todos keep theirs. Indices missing from active
+// (archived or deleted todos) are dropped, then the other todos at the bottom when the order is too long
+export const mergeTodoOrder = (order: number[], group: number[], active: Set<number>): number[] => {
+  const grouped = new Set(group);
+  const insertAt = order.findIndex((index) => grouped.has(index));
+  const others = order.filter((index) => !grouped.has(index) && active.has(index));
+  const othersBefore =
+    insertAt < 0
+      ? others.length
+      : order.slice(0, insertAt).filter((index) => !grouped.has(index) && active.has(index)).length;
+
+  const merged = [...others.slice(0, othersBefore), ...group, ...others.slice(othersBefore)];
+  const overflow = merged.length - MAX_ORDERED_TODOS;
+  if (overflow <= 0) {
+    return merged;
+  }
+  const dropped = new Set(others.slice(-overflow));
+  return merged.filter((index) => !dropped.has(index));
+};
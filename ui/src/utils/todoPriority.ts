@@ -0,0 +1,24 @@
+// Todo priorities. The on-chain value is stored in bits 8-15 of the encrypted metadata word of
+// PrivateTodoList (see todoMeta.ts); PrivateTodoList.computeFocusTodo picks the highest one.
+
+export type TodoPriority = 0 | 1 | 2 | 3;
+
+export const TODO_PRIORITIES: TodoPriority[] = [0, 1, 2, 3];
+
+export const DEFAULT_TODO_PRIORITY: TodoPriority = 0;
+
+export const TODO_PRIORITY_LABELS: Record<TodoPriority, string> = {
+  0: "None",
+  1: "Low",
+  2: "Medium",
+  3: "High",
+};
+
+// Values above the highest level (e.g. written by a newer client) count as the highest level
+export const todoPriorityFromUint8 = (value: number | bigint): TodoPriority => {
+  return Math.min(Number(value), 3) as TodoPriority;
+};
+
+export const isTodoPriority = (value: unknown): value is TodoPriority => {
+  return typeof value === "number" && (TODO_PRIORITIES as number[]).includes(value);
+};
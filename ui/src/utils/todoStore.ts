@@ -0,0 +1,124 @@
+import { openDB, DBSchema, IDBPDatabase } from "idb";
+import type { Todo } from "@/hooks/useTodoList";
+import type { TodoCategory } from "@/utils/todoCategory";
+import type { TodoPriority } from "@/utils/todoPriority";
+
+// Offline-first cache of todo lists. Every list (chain, contract and account) keeps the last loaded
+// snapshot of each day's log, plus the operations queued while the wallet could not submit transactions.
+// Snapshots only carry handles and plaintext on-chain fields: decrypted values live in the sealed local maps.
+
+// An operation waiting for the wallet to reconnect
+export type PendingTodoOp =
+  | {
+      kind: "create";
+      text: string;
+      category: TodoCategory;
+      recurring: boolean;
+      priority?: TodoPriority;
+      dueDate?: number; // Due timestamp in seconds
+      tags?: number; // Tag bitmask
+    }
+  | { kind: "toggle"; todoIndex: number; day: number; recurring: boolean };
+
+export type StoredPendingTodoOp = PendingTodoOp & {
+  id?: number; // Auto-incremented, so operations are replayed in queueing order
+  listKey: string;
+  queuedAt: number;
+};
+
+type StoredTodoSnapshot = {
+  listKey: string;
+  day: number;
+  todos: Todo[];
+  savedAt: number;
+};
+
+interface TodoStoreDB extends DBSchema {
+  snapshots: {
+    key: [string, number];
+    value: StoredTodoSnapshot;
+  };
+  pendingOps: {
+    key: number;
+    value: StoredPendingTodoOp;
+    indexes: { byList: string };
+  };
+}
+
+let __dbPromise: Promise<IDBPDatabase<TodoStoreDB>> | undefined = undefined;
+
+async function _getDB(): Promise<IDBPDatabase<TodoStoreDB> | undefined> {
+  if (__dbPromise) {
+    return __dbPromise;
+  }
+  if (typeof window === "undefined" || typeof indexedDB === "undefined") {
+    return undefined;
+  }
+  __dbPromise = openDB<TodoStoreDB>("private-todo-list", 1, {
+    upgrade(db) {
+      if (!db.objectStoreNames.contains("snapshots")) {
+        db.createObjectStore("snapshots", { keyPath: ["listKey", "day"] });
+      }
+      if (!db.objectStoreNames.contains("pendingOps")) {
+        const pendingOps = db.createObjectStore("pendingOps", { keyPath: "id", autoIncrement: true });
+        pendingOps.createIndex("byList", "listKey");
+      }
+    },
+  });
+  return __dbPromise;
+}
+
+export function todoStoreListKey(chainId: number, contractAddress: string, account: string): string {
+  return `${chainId}:${contractAddress.toLowerCase()}:${account.toLowerCase()}`;
+}
+
+export async function todoStoreGetSnapshot(listKey: string, day: number): Promise<Todo[] | undefined> {
+  const db = await _getDB();
+  if (!db) {
+    return undefined;
+  }
+
+  try {
+    const snapshot = await db.get("snapshots", [listKey, day]);
+    return Array.isArray(snapshot?.todos) ? snapshot.todos : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function todoStorePutSnapshot(listKey: string, day: number, todos: Todo[]) {
+  const db = await _getDB();
+  if (!db) {
+    return;
+  }
+
+  await db.put("snapshots", { listKey, day, todos, savedAt: Date.now() });
+}
+
+export async function todoStoreGetPendingOps(listKey: string): Promise<StoredPendingTodoOp[]> {
+  const db = await _getDB();
+  if (!db) {
+    return [];
+  }
+
+  const ops = await db.getAllFromIndex("pendingOps", "byList", listKey);
+  return ops.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+export async function todoStoreAddPendingOp(listKey: string, op: PendingTodoOp): Promise<void> {
+  const db = await _getDB();
+  if (!db) {
+    throw new Error("Offline storage is not available");
+  }
+
+  await db.add("pendingOps", { ...op, listKey, queuedAt: Date.now() });
+}
+
+export async function todoStoreDeletePendingOp(id: number) {
+  const db = await _getDB();
+  if (!db) {
+    return;
+  }
+
+  await db.delete("pendingOps", id);
+}
@@ -0,0 +1,36 @@
+// Subtasks (PrivateTodoList.setParent). Nesting is one level deep, and the contract derives a parent's
+// encrypted completion status as the AND of its active subtasks'. These helpers mirror that on decrypted values.
+
+// Maximum number of subtasks per todo, must match PrivateTodoList.MAX_SUBTASKS
+export const MAX_TODO_SUBTASKS = 16;
+
+interface SubtaskNode {
+  index: number; // Contract index
+  parentIndex?: number; // Contract index of the parent todo
+  completed: boolean;
+  isDecrypted?: boolean;
+}
+
+// Contract index of the parent in a getTodos entry (stored as index + 1, 0 = top-level todo)
+export const todoParentIndexFromUint = (value: number | bigint): number | undefined => {
+  return Number(value) > 0 ? Number(value) - 1 : undefined;
+};
+
+// Completion status the contract derives for a parent from its loaded subtasks, or undefined when it has
+// none or some are not decrypted yet
+export const derivedParentCompletion = (todos: SubtaskNode[], parentIndex: number): boolean | undefined => {
+  const subtasks = todos.filter((todo) => todo.parentIndex === parentIndex);
+  if (subtasks.length === 0 || subtasks.some((todo) => !todo.isDecrypted)) {
+    return undefined;
+  }
+  return subtasks.every((todo) => todo.completed);
+};
+
+// Group subtasks under their parents, keeping the order of todos. Subtasks whose parent is not among todos
+// (another category or day, or not loaded yet) stay top-level
+export const nestTodos = <T extends SubtaskNode>(todos: T[]): Array<T & { subtasks: T[] }> => {
+  const parents = new Set(todos.map((todo) => todo.index));
+  return todos
+    .filter((todo) => todo.parentIndex === undefined || !parents.has(todo.parentIndex))
+    .map((todo) => ({ ...todo, subtasks: todos.filter((subtask) => subtask.parentIndex === todo.index) }));
+};
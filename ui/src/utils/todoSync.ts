@@ -0,0 +1,110 @@
+import { ethers } from "ethers";
+
+// Incremental sync of a todo list from PrivateTodoList events. Events are only used as hints of which
+// todo indices changed: the affected todos (or the manual order) are re-read from the contract, so applying
+// a log twice is harmless.
+// The last synced block is persisted with its hash, so a reorg below it is detected on the next sync.
+
+export const TODO_SYNC_EVENTS = [
+  "TodoCreated",
+  "TodoToggled",
+  "TodoUpdated",
+  "TodoArchived",
+  "TodoDeleted",
+  "TodoAssigned",
+  "TodoPriorityChanged",
+  "TodoDueDateChanged",
+  "OverdueChecked",
+  "TodoTagsChanged",
+  "TodoParentChanged",
+  "TodosReordered",
+] as const;
+
+// The one sync event about the whole list (the manual order) rather than a todo
+const TODO_ORDER_EVENT = "TodosReordered";
+
+// Beyond this many blocks, a full reload is cheaper (and safer with RPC log range limits) than a backfill
+export const TODO_SYNC_MAX_BACKFILL_BLOCKS = 10000;
+
+// Local storage key prefix for sync cursors
+const SYNC_CURSOR_KEY = "todo_sync_cursor";
+
+export interface TodoSyncCursor {
+  blockNumber: number; // Last block whose events were applied
+  blockHash: string; // Hash of that block, to detect reorgs
+}
+
+const cursorKey = (chainId: number, contractAddress: string, account: string): string => {
+  return `${SYNC_CURSOR_KEY}:${chainId}:${contractAddress.toLowerCase()}:${account.toLowerCase()}`;
+};
+
+export const loadTodoSyncCursor = (
+  chainId: number,
+  contractAddress: string,
+  account: string,
+): TodoSyncCursor | undefined => {
+  try {
+    const stored = localStorage.getItem(cursorKey(chainId, contractAddress, account));
+    if (!stored) {
+      return undefined;
+    }
+    const cursor = JSON.parse(stored);
+    if (typeof cursor?.blockNumber !== "number" || typeof cursor?.blockHash !== "string") {
+      return undefined;
+    }
+    return cursor;
+  } catch {
+    return undefined;
+  }
+};
+
+export const saveTodoSyncCursor = (
+  chainId: number,
+  contractAddress: string,
+  account: string,
+  cursor: TodoSyncCursor,
+) => {
+  try {
+    localStorage.setItem(cursorKey(chainId, contractAddress, account), JSON.stringify(cursor));
+  } catch (error) {
+    console.error("[todoSync] Error saving sync cursor:", error);
+  }
+};
+
+// Topic filter matching every todo event of one account (the user is the first indexed argument)
+export const todoSyncTopicFilter = (contractInterface: ethers.Interface, account: string): ethers.TopicFilter => {
+  const eventTopics = TODO_SYNC_EVENTS.map((name) => contractInterface.getEvent(name)!.topicHash);
+  return [eventTopics, ethers.zeroPadValue(account, 32)];
+};
+
+// Todo indices touched by a set of logs of the given account, in ascending order
+export const todoIndicesFromLogs = (
+  contractInterface: ethers.Interface,
+  logs: Array<ethers.Log>,
+  account: string,
+): number[] => {
+  const indices = new Set<number>();
+  for (const log of logs) {
+    const parsed = contractInterface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed || !(TODO_SYNC_EVENTS as readonly string[]).includes(parsed.name)) {
+      continue;
+    }
+    if (parsed.name === TODO_ORDER_EVENT || String(parsed.args.user).toLowerCase() !== account.toLowerCase()) {
+      continue;
+    }
+    indices.add(Number(parsed.args.todoIndex));
+  }
+  return [...indices].sort((a, b) => a - b);
+};
+
+// Whether a set of logs of the given account changed its manual order
+export const todoOrderChangedInLogs = (
+  contractInterface: ethers.Interface,
+  logs: Array<ethers.Log>,
+  account: string,
+): boolean => {
+  return logs.some((log) => {
+    const parsed = contractInterface.parseLog({ topics: [...log.topics], data: log.data });
+    return parsed?.name === TODO_ORDER_EVENT && String(parsed.args.user).toLowerCase() === account.toLowerCase();
+  });
+};
@@ -0,0 +1,44 @@
+// Todo tags. The on-chain value is an encrypted 32-bit mask per todo (PrivateTodoList.setTags): bit i
+// is tag i of the account's tag dictionary. Tag names never go on-chain: the dictionary is kept in this
+// browser, sealed like the local maps (see todoLocalMaps.ts and useTodoTags).
+
+// Bits of the encrypted mask (euint32)
+export const MAX_TODO_TAGS = 32;
+
+export const MAX_TODO_TAG_NAME_LENGTH = 24;
+
+export interface TodoTag {
+  bit: number; // 0..MAX_TODO_TAGS-1
+  name: string;
+}
+
+export const todoTagMask = (bits: number[]): number => {
+  return bits.reduce((mask, bit) => (mask | (1 << bit)) >>> 0, 0);
+};
+
+export const todoTagBits = (mask: number): number[] => {
+  const bits: number[] = [];
+  for (let bit = 0; bit < MAX_TODO_TAGS; bit++) {
+    if ((mask >>> bit) & 1) {
+      bits.push(bit);
+    }
+  }
+  return bits;
+};
+
+// A todo matches a filter when it has every tag of the filter (the empty filter matches everything),
+// the same rule as PrivateTodoList.matchTags
+export const todoMatchesTagFilter = (tags: number | undefined, filter: number): boolean => {
+  return filter === 0 || ((tags ?? 0) & filter) >>> 0 === filter;
+};
+
+// The lowest bit without a name, or undefined when the dictionary is full
+export const nextFreeTodoTagBit = (tags: TodoTag[]): number | undefined => {
+  const used = new Set(tags.map((tag) => tag.bit));
+  for (let bit = 0; bit < MAX_TODO_TAGS; bit++) {
+    if (!used.has(bit)) {
+      return bit;
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,8 @@
+import type { ethers } from "ethers";
+import type { WalletClient } from "viem";
+
+// The wallet client as the EIP-1193 provider ethers.BrowserProvider takes: viem types request() per RPC method,
+// while ethers passes any method through
+export const toEip1193Provider = (walletClient: WalletClient): ethers.Eip1193Provider => ({
+  request: ({ method, params }) => walletClient.request({ method, params } as Parameters<WalletClient["request"]>[0]),
+});